@@ -6,6 +6,7 @@ import { InfoButton } from './ui/InfoButton';
 import { QuickTipsModal } from './ui/QuickTipsModal';
 import { ExportInfoModal } from './ui/ExportInfoModal';
 import { useModal } from '../hooks/useModal';
+import { FontFormat } from '../types';
 
 export function MainInterface() {
   const quickTipsModal = useModal();
@@ -13,7 +14,7 @@ export function MainInterface() {
   const characterSetInfoModal = useModal();
   const [exportState, setExportState] = React.useState<{
     compiledFont: any;
-    exportFormat: 'ttf' | 'otf';
+    exportFormat: FontFormat;
     includeMetadata: boolean;
   }>({
     compiledFont: null,
@@ -25,7 +26,7 @@ export function MainInterface() {
     setExportState(prev => ({ ...prev, compiledFont }));
   }, []);
 
-  const handleExportSettingsChange = useCallback((settings: { exportFormat: 'ttf' | 'otf'; includeMetadata: boolean }) => {
+  const handleExportSettingsChange = useCallback((settings: { exportFormat: FontFormat; includeMetadata: boolean }) => {
     setExportState(prev => ({ ...prev, ...settings }));
   }, []);
 
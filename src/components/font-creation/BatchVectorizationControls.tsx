@@ -0,0 +1,119 @@
+import React from 'react';
+import type { VectorizationQuality } from '../../types';
+import type { VectorizationMethod } from '../../services/vectorization';
+import {
+  VECTORIZATION_METHODS,
+  MethodParameterValues,
+  getDefaultParameterValues,
+  getVectorizationMethod
+} from '../../utils/vectorizationMethods';
+import { MethodParameterInputs } from '../ui/MethodParameterInputs';
+
+export type BatchVectorizationScope = 'all' | 'errors';
+
+// How images are traced: one of the registered methods and its parameter values
+export interface TracingSettings {
+  method: VectorizationMethod;
+  values: MethodParameterValues;
+}
+
+export interface BatchVectorizationControlsProps {
+  quality: VectorizationQuality;
+  onQualityChange: (quality: VectorizationQuality) => void;
+  tracing: TracingSettings;
+  onTracingChange: (tracing: TracingSettings) => void;
+  onVectorize: (scope: BatchVectorizationScope) => void;
+  onOpenAdvanced: () => void;
+  onCancelAll: () => void;
+  imageCount: number;  // Characters with an uploaded image
+  errorCount: number;  // Characters whose vectorization failed
+  activeCount: number; // Jobs queued or running
+}
+
+export const BatchVectorizationControls: React.FC<BatchVectorizationControlsProps> = ({
+  quality,
+  onQualityChange,
+  tracing,
+  onTracingChange,
+  onVectorize,
+  onOpenAdvanced,
+  onCancelAll,
+  imageCount,
+  errorCount,
+  activeCount
+}) => {
+  return (
+    <div className="card-footer-actions batch-vectorization-controls">
+      <select
+        value={quality}
+        onChange={(e) => onQualityChange(e.target.value as VectorizationQuality)}
+        className="form-select batch-vectorization-quality"
+        title="Vectorization quality for batch jobs"
+      >
+        <option value="fast">Fast</option>
+        <option value="balanced">Balanced</option>
+        <option value="high">High</option>
+      </select>
+
+      <select
+        value={tracing.method}
+        onChange={(e) => {
+          const method = e.target.value as VectorizationMethod;
+          onTracingChange({ method, values: getDefaultParameterValues(method) });
+        }}
+        className="form-select batch-vectorization-quality"
+        title={getVectorizationMethod(tracing.method)?.description}
+      >
+        {VECTORIZATION_METHODS.map(method => (
+          <option key={method.id} value={method.id} title={method.description}>{method.label}</option>
+        ))}
+      </select>
+
+      <MethodParameterInputs
+        method={tracing.method}
+        values={tracing.values}
+        onChange={(values) => onTracingChange({ ...tracing, values })}
+      />
+
+      <button
+        onClick={onOpenAdvanced}
+        className="btn btn-secondary btn-sm"
+        title="Fine-tune preprocessing and tracing with a live preview, and manage presets"
+      >
+        Advanced…
+      </button>
+
+      <button
+        onClick={() => onVectorize('all')}
+        disabled={imageCount === 0}
+        className="btn btn-secondary btn-sm"
+        title="Re-vectorize every character with an uploaded image"
+      >
+        Re-vectorize All
+      </button>
+
+      {errorCount > 0 && (
+        <button
+          onClick={() => onVectorize('errors')}
+          className="btn btn-secondary btn-sm"
+          title="Vectorize the characters that failed again"
+        >
+          Retry Errors ({errorCount})
+        </button>
+      )}
+
+      {activeCount > 0 && (
+        <>
+          <span className="card-footer-meta">{activeCount} in queue</span>
+          <button
+            onClick={onCancelAll}
+            className="btn btn-secondary btn-sm"
+            title="Cancel all queued and running vectorization jobs"
+          >
+            Cancel
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
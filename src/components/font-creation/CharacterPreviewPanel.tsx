@@ -1,5 +1,9 @@
 import React, { useCallback } from 'react';
 import { CharacterData } from '../../services/storage/CharacterDataStorage';
+import type { VectorizationMethod } from '../../services/vectorization';
+import { SvgGlyphImporter } from '../../services/import';
+import { PROFILE_SCORE_WEIGHTS } from '../../utils/imagetracerVectorization';
+import { MethodTrace, VectorizationMethodGallery } from './VectorizationMethodGallery';
 
 interface CharacterPreviewPanelProps {
   selectedCharacter: string | undefined;
@@ -7,6 +11,8 @@ interface CharacterPreviewPanelProps {
   onRevectorize: (unicode: string) => void;
   isProcessing: boolean;
   onOpenPathEditor: (unicode: string) => void;
+  onTraceWithMethod: (unicode: string, method: VectorizationMethod, signal: AbortSignal) => Promise<MethodTrace>;
+  onChooseMethodTrace: (unicode: string, trace: MethodTrace) => void;
 }
 
 export const CharacterPreviewPanel: React.FC<CharacterPreviewPanelProps> = ({
@@ -14,7 +20,9 @@ export const CharacterPreviewPanel: React.FC<CharacterPreviewPanelProps> = ({
   characterData,
   onRevectorize,
   isProcessing,
-  onOpenPathEditor
+  onOpenPathEditor,
+  onTraceWithMethod,
+  onChooseMethodTrace
 }) => {
   // Handle path editor modal open
   const handleOpenPathEditor = useCallback(() => {
@@ -30,6 +38,22 @@ export const CharacterPreviewPanel: React.FC<CharacterPreviewPanelProps> = ({
     }
   }, [selectedCharacter, onRevectorize]);
 
+  // Gallery traces and picks for the selected character
+  const handleTraceWithMethod = useCallback((method: VectorizationMethod, signal: AbortSignal) => {
+    if (!selectedCharacter) {
+      return Promise.reject(new Error('No character selected'));
+    }
+    return onTraceWithMethod(selectedCharacter, method, signal);
+  }, [selectedCharacter, onTraceWithMethod]);
+
+  const handleChooseMethodTrace = useCallback((trace: MethodTrace) => {
+    if (selectedCharacter) {
+      onChooseMethodTrace(selectedCharacter, trace);
+    }
+  }, [selectedCharacter, onChooseMethodTrace]);
+
+  const profileScores = characterData?.vectorizedGlyph?.profileScores;
+
   if (!selectedCharacter || !characterData) {
     return (
       <div>
@@ -165,6 +189,48 @@ export const CharacterPreviewPanel: React.FC<CharacterPreviewPanelProps> = ({
           )}
         </div>
       </div>
+
+      {/* How each profile scored when a profile search traced the glyph */}
+      {characterData.status === 'complete' && profileScores && profileScores.length > 0 && (
+        <div className="preview-info-section">
+          <h4 className="preview-info-title">Profile Search ({profileScores.length} profiles)</h4>
+          <table className="profile-score-table">
+            <thead>
+              <tr>
+                <th>Profile</th>
+                <th>IoU</th>
+                <th>Edge distance</th>
+                <th>Nodes</th>
+                <th>Score</th>
+              </tr>
+            </thead>
+            <tbody>
+              {profileScores.map((score, index) => (
+                <tr key={score.profile} className={index === 0 ? 'profile-score-table-winner' : ''}>
+                  <td>{score.profile}</td>
+                  <td>{score.iou.toFixed(3)}</td>
+                  <td>{score.edgeDistance.toFixed(2)}</td>
+                  <td>{score.nodeCount}</td>
+                  <td>{score.score.toFixed(3)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="profile-score-note">
+            Score = IoU − {PROFILE_SCORE_WEIGHTS.edgeDistance} × edge distance − {PROFILE_SCORE_WEIGHTS.node} × nodes; edge distance in viewBox units
+          </p>
+        </div>
+      )}
+
+      {characterData.originalImage && (
+        <VectorizationMethodGallery
+          key={selectedCharacter}
+          currentMethodId={characterData.methodId}
+          canTrace={!SvgGlyphImporter.isSvgFile(characterData.originalImage.file)}
+          onTraceWithMethod={handleTraceWithMethod}
+          onChooseMethodTrace={handleChooseMethodTrace}
+        />
+      )}
     </div>
   );
 };
@@ -1,23 +1,33 @@
 import React, { useRef, useState } from 'react';
 import { CharacterDefinition } from '../../../data/character-sets';
 import { CharacterData } from '../../../services/storage/CharacterDataStorage';
+import { GlyphComposer } from '../../../services/font-generation';
+import { VectorizationQueueJob } from '../../../services/vectorization';
 
 interface CharacterTileProps {
   character: CharacterDefinition;
   characterData?: CharacterData;
+  characterDataMap?: Map<string, CharacterData>; // Used to tell whether the glyph can be composed
   onFileUpload: (file: File, unicode: string) => void;
   onSelect: (unicode: string) => void;
   isSelected: boolean;
   size?: 'small' | 'medium' | 'large';
+  jobState?: VectorizationQueueJob; // Queued, running or failed vectorization job
+  onCancelJob?: (unicode: string) => void;
+  onDraw?: (unicode: string) => void; // Opens the drawing canvas for this character
 }
 
 
 export const CharacterTile: React.FC<CharacterTileProps> = ({
   character,
   characterData,
+  characterDataMap,
   onFileUpload,
   onSelect,
-  isSelected
+  isSelected,
+  jobState,
+  onCancelJob,
+  onDraw
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isDragOver, setIsDragOver] = useState(false);
@@ -68,7 +78,26 @@ export const CharacterTile: React.FC<CharacterTileProps> = ({
     fileInputRef.current?.click();
   };
 
+  const handleDrawClick = (event: React.MouseEvent) => {
+    event.stopPropagation();
+    onDraw?.(character.unicode);
+  };
+
+  const handleCancelClick = (event: React.MouseEvent) => {
+    event.stopPropagation();
+    onCancelJob?.(character.unicode);
+  };
+
+  const isJobActive = jobState?.status === 'queued' || jobState?.status === 'running';
+  const isRunning = jobState?.status === 'running' || characterData?.status === 'processing';
+
+  // Accented letters without their own drawing are composed from the base letter and marks
+  const isComposable = !!characterDataMap && GlyphComposer.canCompose(character, characterDataMap);
+
   const getStatusClass = () => {
+    if (jobState?.status === 'queued') return 'queued';
+    if (jobState?.status === 'running') return 'processing';
+    if (isComposable) return 'composable';
     if (!characterData) return '';
 
     switch (characterData.status) {
@@ -88,10 +117,18 @@ export const CharacterTile: React.FC<CharacterTileProps> = ({
 
 
   const getStatusIndicator = () => {
-    if (!characterData) return null;
-
     const baseClasses = "character-status-indicator";
 
+    if (jobState?.status === 'queued') {
+      return (
+        <div className={`${baseClasses} status-queued`}>
+          {jobState.position ?? ''}
+        </div>
+      );
+    }
+
+    if (!characterData) return null;
+
     switch (characterData.status) {
       case 'uploaded':
         return (
@@ -134,6 +171,20 @@ export const CharacterTile: React.FC<CharacterTileProps> = ({
     }
   };
 
+  const getTitle = () => {
+    let title = `${character.name} (${character.unicode})`;
+    if (jobState?.status === 'queued') {
+      title += ` - queued for vectorization${jobState.position ? ` (#${jobState.position})` : ''}`;
+    } else if (jobState?.status === 'running') {
+      title += ` - vectorizing ${jobState.progress}%`;
+    } else if (jobState?.status === 'failed' || characterData?.status === 'error') {
+      title += ` - ${jobState?.error || characterData?.errorMessage || 'vectorization failed'}`;
+    } else if (isComposable) {
+      title += ' - composed from its base letter and marks';
+    }
+    return title;
+  };
+
   return (
     <div
       className={`character-tile ${getStatusClass()} ${isSelected ? 'selected' : ''} ${isDragOver ? 'drag-over' : ''}`}
@@ -141,7 +192,7 @@ export const CharacterTile: React.FC<CharacterTileProps> = ({
       onDrop={handleDrop}
       onDragOver={handleDragOver}
       onDragLeave={handleDragLeave}
-      title={`${character.name} (${character.unicode})`}
+      title={getTitle()}
     >
       {/* Hidden file input */}
       <input
@@ -180,7 +231,7 @@ export const CharacterTile: React.FC<CharacterTileProps> = ({
         />
       ) : (
         <span className="character-display">
-          {character.char === ' ' ? '␣' : character.char}
+          {character.char === ' ' ? '␣' : character.category === 'mark' ? `◌${character.char}` : character.char}
         </span>
       )}
 
@@ -196,6 +247,18 @@ export const CharacterTile: React.FC<CharacterTileProps> = ({
             <path d="M5 12l7-7 7 7" />
           </svg>
         </button>
+        {onDraw && (
+          <button
+            onClick={handleDrawClick}
+            className="btn btn-secondary tile-upload-btn tile-draw-btn"
+            title="Draw this character"
+          >
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M12 20h9" />
+              <path d="M16.5 3.5a2.1 2.1 0 0 1 3 3L7 19l-4 1 1-4z" />
+            </svg>
+          </button>
+        )}
       </div>
 
       {/* Unicode label */}
@@ -204,11 +267,33 @@ export const CharacterTile: React.FC<CharacterTileProps> = ({
       </div>
 
       {/* Processing overlay */}
-      {characterData?.status === 'processing' && (
+      {isRunning && (
         <div className="processing-overlay">
           <div className="loading-spinner h-6 w-6"></div>
+          {jobState?.status === 'running' && (
+            <div className="tile-job-progress">
+              <div
+                className="tile-job-progress-fill"
+                style={{ width: `${jobState.progress}%` }}
+              />
+            </div>
+          )}
         </div>
       )}
+
+      {/* Cancel a queued or running job */}
+      {isJobActive && onCancelJob && (
+        <button
+          onClick={handleCancelClick}
+          className="btn btn-secondary tile-cancel-btn"
+          title="Cancel vectorization"
+        >
+          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <line x1="18" y1="6" x2="6" y2="18" />
+            <line x1="6" y1="6" x2="18" y2="18" />
+          </svg>
+        </button>
+      )}
     </div>
   );
 };
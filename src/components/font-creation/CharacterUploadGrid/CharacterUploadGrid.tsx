@@ -2,6 +2,7 @@ import React, { useState, useMemo } from 'react';
 import { CharacterTile } from './CharacterTile';
 import { CharacterSet } from '../../../data/character-sets';
 import { CharacterData } from '../../../services/storage/CharacterDataStorage';
+import { VectorizationQueueJob } from '../../../services/vectorization';
 
 interface CharacterUploadGridProps {
   characterSet: CharacterSet;
@@ -13,9 +14,12 @@ interface CharacterUploadGridProps {
   searchFilter?: string;
   categoryFilter?: CategoryFilter;
   onCategoryFilterChange?: (filter: CategoryFilter) => void;
+  vectorizationJobs?: Map<string, VectorizationQueueJob>;
+  onCancelVectorization?: (unicode: string) => void;
+  onCharacterDraw?: (unicode: string) => void;
 }
 
-export type CategoryFilter = 'all' | 'uppercase' | 'lowercase' | 'digits' | 'punctuation' | 'symbols' | 'space';
+export type CategoryFilter = 'all' | 'uppercase' | 'lowercase' | 'digits' | 'punctuation' | 'symbols' | 'space' | 'marks';
 
 interface CharacterGridFiltersProps {
   characterSet: CharacterSet;
@@ -38,7 +42,8 @@ export const CharacterGridFilters: React.FC<CharacterGridFiltersProps> = ({
       digits: 0,
       punctuation: 0,
       symbols: 0,
-      space: 0
+      space: 0,
+      marks: 0
     };
 
     characterSet.characters.forEach(char => {
@@ -61,6 +66,9 @@ export const CharacterGridFilters: React.FC<CharacterGridFiltersProps> = ({
         case 'space':
           stats.space++;
           break;
+        case 'mark':
+          stats.marks++;
+          break;
       }
     });
 
@@ -95,6 +103,9 @@ export const CharacterGridFilters: React.FC<CharacterGridFiltersProps> = ({
       {getCategoryStats.space > 0 && (
         <CategoryButton category="space" label="Space" count={getCategoryStats.space} />
       )}
+      {getCategoryStats.marks > 0 && (
+        <CategoryButton category="marks" label="Marks" count={getCategoryStats.marks} />
+      )}
     </div>
   );
 };
@@ -108,7 +119,10 @@ export const CharacterUploadGrid: React.FC<CharacterUploadGridProps> = ({
   showCategories: _showCategories = true,
   searchFilter = '',
   categoryFilter: externalCategoryFilter,
-  onCategoryFilterChange: _onCategoryFilterChange
+  onCategoryFilterChange: _onCategoryFilterChange,
+  vectorizationJobs,
+  onCancelVectorization,
+  onCharacterDraw
 }) => {
   const [_internalCategoryFilter, _setInternalCategoryFilter] = useState<CategoryFilter>('all');
 
@@ -134,6 +148,8 @@ export const CharacterUploadGrid: React.FC<CharacterUploadGridProps> = ({
             return char.category === 'symbol';
           case 'space':
             return char.category === 'space';
+          case 'marks':
+            return char.category === 'mark';
           default:
             return true;
         }
@@ -162,10 +178,14 @@ export const CharacterUploadGrid: React.FC<CharacterUploadGridProps> = ({
             key={character.unicode}
             character={character}
             characterData={characterDataMap.get(character.unicode)}
+            characterDataMap={characterDataMap}
             onFileUpload={onFileUpload}
             onSelect={onCharacterSelect}
             isSelected={selectedCharacter === character.unicode}
             size="medium"
+            jobState={vectorizationJobs?.get(character.unicode)}
+            onCancelJob={onCancelVectorization}
+            onDraw={onCharacterDraw}
           />
         ))}
       </div>
@@ -1,32 +1,103 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { CharacterUploadGrid, CharacterGridFilters, CategoryFilter } from './CharacterUploadGrid/CharacterUploadGrid';
 import { CharacterPreviewPanel } from './CharacterPreviewPanel';
 import { getDefaultCharacterSet, getAvailableCharacterSets } from '../../data/character-sets';
-import { characterDataStorage, CharacterData } from '../../services/storage/CharacterDataStorage';
+import { characterDataStorage, CharacterData, WORKSPACE_PROJECT_ID } from '../../services/storage/CharacterDataStorage';
 import { indexedDBManager } from '../../services/storage/IndexedDBManager';
 import { useGlyphStore } from '../../stores/useGlyphStore';
 import { FontSettingsPanel } from './FontSettingsPanel';
 import { FontPreview } from './FontPreview';
 import { FontExportPanel } from './FontExportPanel';
 import { FontGenerationProgress } from './FontGenerationProgress';
-import { FontGenerator, FontProject } from '../../services/font-generation';
+import { FontGenerator, FontProject, FontMetrics, FontMetricsCalculator, KerningCalculator, MetricConflict } from '../../services/font-generation';
 import { FontExportService } from '../../services/font-generation';
-import { FontSettings, CompiledFont } from '../../types';
+import { FontSettings, CompiledFont, FontFormat, GlyphVerticalFrame, GlyphMetrics, GlyphAnchor, EditablePathData, KerningData, VectorizationQuality, VectorizationRecipe, VectorizationPreset } from '../../types';
+import { SVGPathEditor } from '../../utils/svgPathEditor';
 import { UseModalReturn } from '../../hooks/useModal';
+import { useVectorizationQueue } from '../../hooks/useVectorizationQueue';
 import { InfoButton } from '../ui/InfoButton';
 import { CharacterSetInfoModal } from '../ui/CharacterSetInfoModal';
 import { PathEditorModal } from '../ui/PathEditorModal';
+import { GlyphDrawingModal } from '../ui/GlyphDrawingModal';
+import { vectorizationWorkerPool, createAbortError, VectorizationJobOptions, VectorizationProgressCallback, VectorizationMethod } from '../../services/vectorization';
+import { BatchVectorizationControls, BatchVectorizationScope, TracingSettings } from './BatchVectorizationControls';
+import { MethodTrace } from './VectorizationMethodGallery';
+import { buildMethodJobOptions, getDefaultParameterValues } from '../../utils/vectorizationMethods';
+import { TemplateSheetControls } from './TemplateSheetControls';
+import { OpenFontControls } from './OpenFontControls';
+import { ScanSheetReader } from '../../services/templates';
+import { FilenameCharacterMatcher, UploadFileCollector, SvgGlyphImporter, FontFileImporter, BulkAssignmentPlan } from '../../services/import';
+import { FileDropzone } from '../ui/FileDropzone';
+import { BulkAssignmentReviewModal, BulkAssignmentSelection } from '../ui/BulkAssignmentReviewModal';
+import { AdvancedTracingModal } from '../ui/AdvancedTracingModal';
+import { vectorizationPresetStorage } from '../../services/storage/VectorizationPresetStorage';
 
 export interface FontCreationInterfaceProps {
   exportInfoModal: UseModalReturn;
   characterSetInfoModal: UseModalReturn;
   onCompiledFontChange?: (compiledFont: CompiledFont | null) => void;
   onExportSettingsChange?: (state: {
-    exportFormat: 'ttf' | 'otf';
+    exportFormat: FontFormat;
     includeMetadata: boolean;
   }) => void;
 }
 
+// Editor edits saved with a path; undefined keeps the current value, null clears it
+interface PathEdits {
+  verticalFrame?: GlyphVerticalFrame;
+  glyphMetrics?: GlyphMetrics | null;
+  anchors?: GlyphAnchor[] | null;
+}
+
+// Rebuilds the editable path data for a saved outline, carrying the placed anchors;
+// curve fit metrics only describe an outline fresh from tracing
+const buildVectorizedGlyph = (
+  charData: CharacterData,
+  svgPath: string,
+  anchors: GlyphAnchor[],
+  trace?: MethodTrace
+): CharacterData['vectorizedGlyph'] => {
+  let editablePathData: EditablePathData;
+  try {
+    editablePathData = SVGPathEditor.createEditablePathData(svgPath);
+  } catch (error) {
+    console.warn(`⚠️ Storing ${charData.unicode} without editable nodes:`, error instanceof Error ? error.message : 'Unknown error');
+    editablePathData = { nodes: [], viewBox: { width: 200, height: 200, x: 0, y: 0 }, originalPath: svgPath };
+  }
+
+  // Edits that leave the path as it was (anchors, frame) keep the fit and
+  // profile scores it was traced with
+  const fit = trace?.fit;
+  const previousMetrics = charData.vectorizedGlyph?.metrics;
+  const isUnchanged = !trace && svgPath === charData.vectorizedGlyph?.svgPath;
+
+  return {
+    vectorizationParams: trace?.params ?? charData.vectorizedGlyph?.vectorizationParams ?? { quality: 'high' },
+    svgPath,
+    editablePathData: { ...editablePathData, anchors },
+    metrics: isUnchanged && previousMetrics ? previousMetrics : {
+      pathComplexity: 0,
+      vectorizationTime: 0,
+      ...previousMetrics,
+      nodeCount: fit?.nodeCount ?? editablePathData.nodes.length,
+      maxDeviation: fit?.maxDeviation,
+      fileSize: svgPath.length
+    },
+    profileScores: trace ? trace.profileScores : isUnchanged ? charData.vectorizedGlyph?.profileScores : undefined
+  };
+};
+
+// Imported SVG outlines have nothing to trace
+const hasTraceableImage = (charData: CharacterData): boolean => {
+  return Boolean(charData.originalImage) && !SvgGlyphImporter.isSvgFile(charData.originalImage!.file);
+};
+
+// A character left 'processing' by an interrupted job goes back to its last settled state
+const toSettledData = (charData: CharacterData): CharacterData => {
+  if (charData.status !== 'processing') return charData;
+  return { ...charData, status: charData.vectorData ? 'complete' : 'uploaded' };
+};
+
 export const FontCreationInterface: React.FC<FontCreationInterfaceProps> = ({
   exportInfoModal,
   characterSetInfoModal,
@@ -35,7 +106,7 @@ export const FontCreationInterface: React.FC<FontCreationInterfaceProps> = ({
 }) => {
 
   // Memoize the callback to prevent infinite loops
-  const handleExportStateChange = useCallback((state: { exportFormat: 'ttf' | 'otf'; includeMetadata: boolean }) => {
+  const handleExportStateChange = useCallback((state: { exportFormat: FontFormat; includeMetadata: boolean }) => {
     if (onExportSettingsChange) {
       onExportSettingsChange(state);
     }
@@ -51,8 +122,7 @@ export const FontCreationInterface: React.FC<FontCreationInterfaceProps> = ({
   // Font generation state
   const [fontSettings, setFontSettings] = useState<FontSettings>({
     unitsPerEm: 1000,
-    ascender: 800,
-    descender: -200,
+    // Ascender and descender are calculated from the glyphs until the user sets them
     xHeight: 500,
     capHeight: 700,
     metadata: {
@@ -67,12 +137,33 @@ export const FontCreationInterface: React.FC<FontCreationInterfaceProps> = ({
   const [isGeneratingFont, setIsGeneratingFont] = useState(false);
   const [fontGenerationProgress, setFontGenerationProgress] = useState<any>(null);
   const [showFontProgress, setShowFontProgress] = useState(false);
+  const [metricConflicts, setMetricConflicts] = useState<MetricConflict[]>([]);
+  const [kerning, setKerning] = useState<KerningData>(() => KerningCalculator.createEmptyKerning());
   const [isExporting, setIsExporting] = useState(false);
 
   // Path editor modal state
   const [isPathEditorOpen, setIsPathEditorOpen] = useState(false);
   const [editingCharacter, setEditingCharacter] = useState<string | undefined>(undefined);
 
+  // Drawing canvas state
+  const [drawingCharacter, setDrawingCharacter] = useState<string | undefined>(undefined);
+
+  // Vectorization job queue
+  const vectorizationQueue = useVectorizationQueue();
+  const { enqueue, prioritize, cancel: cancelVectorization, cancelAll: cancelAllVectorization } = vectorizationQueue;
+  const [batchQuality, setBatchQuality] = useState<VectorizationQuality>('high');
+  const [tracing, setTracing] = useState<TracingSettings>({
+    method: 'marching-squares',
+    values: getDefaultParameterValues('marching-squares')
+  });
+
+  // Advanced tracing panel and the project's saved presets
+  const [isAdvancedTracingOpen, setIsAdvancedTracingOpen] = useState(false);
+  const [tracingPresets, setTracingPresets] = useState<VectorizationPreset[]>([]);
+
+  // Bulk upload awaiting review
+  const [bulkAssignmentPlan, setBulkAssignmentPlan] = useState<BulkAssignmentPlan | null>(null);
+
   // Notify parent when compiled font changes
   useEffect(() => {
     if (onCompiledFontChange) {
@@ -96,44 +187,167 @@ export const FontCreationInterface: React.FC<FontCreationInterfaceProps> = ({
   // Access the existing glyph processing functions
   const { processingState } = useGlyphStore();
 
-  // Direct vectorization function that works with files from IndexedDB
-  const vectorizeCharacterDirectly = useCallback(async (file: File, params: { quality: 'fast' | 'balanced' | 'high' }) => {
-    console.log(`🎯 Direct vectorization for file: ${file.name}`);
-
-    try {
-      // Import the vectorization utilities
-      const { fileToCanvas, resizeIfNeeded, preprocessImage } = await import('../../utils/imagePreprocessing');
-
-      // Step 1: Convert file to canvas
-      const canvas = await fileToCanvas(file);
-
-      // Step 2: Resize if needed
-      const resizedCanvas = resizeIfNeeded(canvas, 1024);
+  // A recipe's job options, removing ruled guide lines and deriving the glyph's frame from them
+  const getJobOptions = useCallback((recipe: VectorizationRecipe): VectorizationJobOptions => {
+    const capHeight = FontMetricsCalculator.getSettingOrDefault(fontSettings, 'capHeight');
+    return {
+      ...buildMethodJobOptions(recipe),
+      guideMetrics: { capHeight, xHeight: FontMetricsCalculator.getSettingOrDefault(fontSettings, 'xHeight') },
+      capHeight
+    };
+  }, [fontSettings]);
 
-      // Step 3: Preprocess image
-      const preprocessedCanvas = preprocessImage(resizedCanvas, {
-        quality: params.quality,
-        noiseReduction: params.quality === 'high'
-      });
+  // Vectorize a character image in the worker pool with a recipe's method and settings
+  const vectorizeCharacterDirectly = useCallback(async (
+    file: File,
+    recipe: VectorizationRecipe,
+    signal?: AbortSignal,
+    onProgress?: VectorizationProgressCallback
+  ): Promise<MethodTrace> => {
+    console.log(`🎯 Direct vectorization for file: ${file.name} (${recipe.method})`);
 
-      // Step 4: Run deterministic marching squares vectorization
-      const { vectorizeWithImageTracer } = await import('../../utils/imagetracerVectorization');
-      const vectorizationResult = await vectorizeWithImageTracer(
-        preprocessedCanvas,
-        params,
+    try {
+      const options = getJobOptions(recipe);
+      const result = await vectorizationWorkerPool.vectorize(
+        file,
+        options,
         (progress, message) => {
-          console.log(`⏳ Vectorization Progress: ${progress}% - ${message}`);
-        }
+          console.log(`⏳ Vectorization Progress: ${Math.round(progress)}% - ${message}`);
+          onProgress?.(progress, message);
+        },
+        signal
       );
 
       console.log(`✅ Direct vectorization completed for ${file.name}`);
-      return vectorizationResult;
+      return {
+        vectorData: result.path,
+        verticalFrame: result.verticalFrame,
+        methodId: options.method,
+        params: result.profileSearch ? { ...options.params, profile: result.profileSearch.profile } : options.params,
+        fit: result.fit,
+        profileScores: result.profileSearch?.scores
+      };
 
     } catch (error) {
-      console.error(`❌ Direct vectorization failed for ${file.name}:`, error);
+      if (!signal?.aborted) {
+        console.error(`❌ Direct vectorization failed for ${file.name}:`, error);
+      }
       throw error;
     }
-  }, []);
+  }, [getJobOptions]);
+
+  // The batch tracing settings as a recipe at the given quality
+  const getTracingRecipe = useCallback((quality: VectorizationQuality): VectorizationRecipe => ({
+    method: tracing.method,
+    params: { quality },
+    methodValues: tracing.values
+  }), [tracing]);
+
+  // Queue a character for vectorization. The job marks it processing when it starts,
+  // and stores the result or the error; the image is kept so failed jobs can be retried.
+  // The job only owns the trace fields: the rest of the character is read back when it
+  // starts and ends, so edits made while it waits or runs are kept
+  const enqueueVectorization = useCallback((
+    charData: CharacterData,
+    recipe: VectorizationRecipe,
+    priority = false
+  ) => {
+    const { unicode, originalImage } = charData;
+    if (!originalImage) {
+      console.error(`❌ No original image found for character ${unicode}`);
+      return;
+    }
+    if (!hasTraceableImage(charData)) {
+      console.log(`ℹ️ ${unicode} was imported from an SVG; its outline is used as drawn`);
+      return;
+    }
+
+    // Convert Blob to File if needed
+    const file = originalImage.file instanceof File ?
+      originalImage.file :
+      new File([originalImage.file], 'character.png', { type: 'image/png' });
+    const getCurrentData = async () =>
+      toSettledData(await characterDataStorage.getCharacterData(unicode) ?? charData);
+
+    enqueue(unicode, async (signal, onProgress) => {
+      // A cancelled job writes nothing more: a replacement job or the canceller owns the
+      // character now, and a 'processing' record left in storage is settled on load
+      const startData = await getCurrentData();
+      if (signal.aborted) throw createAbortError();
+      const processingData: CharacterData = { ...startData, status: 'processing', errorMessage: undefined };
+      await characterDataStorage.storeCharacterData(processingData);
+      if (signal.aborted) throw createAbortError();
+      setCharacterDataMap(prev => new Map(prev.set(unicode, processingData)));
+
+      try {
+        const vectorizationResult = await vectorizeCharacterDirectly(file, recipe, signal, onProgress);
+        const currentData = await getCurrentData();
+        if (signal.aborted) throw createAbortError();
+
+        // Keep a manually set frame unless the scan provides guide lines
+        const completeData: CharacterData = {
+          ...currentData,
+          status: 'complete',
+          errorMessage: undefined,
+          vectorData: vectorizationResult.vectorData,
+          vectorizedGlyph: buildVectorizedGlyph(
+            currentData,
+            vectorizationResult.vectorData,
+            currentData.vectorizedGlyph?.editablePathData.anchors ?? [],
+            vectorizationResult
+          ),
+          methodId: vectorizationResult.methodId,
+          verticalFrame: vectorizationResult.verticalFrame ?? currentData.verticalFrame,
+        };
+        await characterDataStorage.storeCharacterData(completeData);
+        setCharacterDataMap(prev => new Map(prev.set(unicode, completeData)));
+
+        console.log(`✅ Successfully vectorized character ${unicode}`);
+      } catch (error) {
+        if (signal.aborted) throw error;
+        const currentData = await getCurrentData();
+        if (signal.aborted) throw error;
+
+        const restoredData: CharacterData = {
+          ...currentData,
+          status: 'error',
+          errorMessage: error instanceof Error ? error.message : 'Vectorization failed',
+        };
+        await characterDataStorage.storeCharacterData(restoredData);
+        setCharacterDataMap(prev => new Map(prev.set(unicode, restoredData)));
+        throw error;
+      }
+    }, { priority });
+  }, [enqueue, vectorizeCharacterDirectly]);
+
+  // Cancelled jobs leave their characters to the canceller; put any they had
+  // marked processing back to their last settled state
+  const settleCancelled = useCallback(async (unicodes: string[]) => {
+    for (const unicode of unicodes) {
+      const charData = characterDataMap.get(unicode);
+      if (charData?.status !== 'processing') continue;
+      const settledData = toSettledData(charData);
+      await characterDataStorage.storeCharacterData(settledData);
+      setCharacterDataMap(prev => new Map(prev.set(unicode, settledData)));
+    }
+  }, [characterDataMap]);
+
+  const handleCancelVectorization = useCallback((unicode: string) => {
+    cancelVectorization(unicode);
+    settleCancelled([unicode]);
+  }, [cancelVectorization, settleCancelled]);
+
+  const handleCancelAllVectorization = useCallback(() => {
+    cancelAllVectorization();
+    settleCancelled(Array.from(characterDataMap.keys()));
+  }, [cancelAllVectorization, settleCancelled, characterDataMap]);
+
+  // Put the selected character at the front of the queue
+  useEffect(() => {
+    if (selectedCharacter) {
+      prioritize(selectedCharacter);
+    }
+  }, [selectedCharacter, prioritize]);
 
   // Initialize storage and load existing data
   useEffect(() => {
@@ -150,10 +364,16 @@ export const FontCreationInterface: React.FC<FontCreationInterfaceProps> = ({
         const dataMap = new Map<string, CharacterData>();
 
         existingData.forEach(data => {
-          dataMap.set(data.unicode, data);
+          dataMap.set(data.unicode, toSettledData(data));
         });
 
         setCharacterDataMap(dataMap);
+        const storedFontSettings = await characterDataStorage.getFontSettings(WORKSPACE_PROJECT_ID);
+        if (storedFontSettings) {
+          setFontSettings(storedFontSettings);
+        }
+        setKerning(await characterDataStorage.getKerning(WORKSPACE_PROJECT_ID) ?? KerningCalculator.createEmptyKerning());
+        setTracingPresets(await vectorizationPresetStorage.getPresets(WORKSPACE_PROJECT_ID));
         setIsInitialized(true);
 
         console.log('✅ Font creation interface initialized');
@@ -168,11 +388,54 @@ export const FontCreationInterface: React.FC<FontCreationInterfaceProps> = ({
     initializeStorage();
   }, []);
 
+  // Store an SVG's outlines directly as the character's path, without tracing
+  const importSvgCharacter = useCallback(async (file: File, unicode: string) => {
+    cancelVectorization(unicode);
+    const startTime = performance.now();
+    const imported = await SvgGlyphImporter.import(file);
+
+    const characterData: CharacterData = {
+      unicode,
+      character: String.fromCharCode(parseInt(unicode.replace('U+', ''), 16)),
+      originalImage: {
+        file: imported.sanitizedSvg,
+        dataUrl: await fileToDataURL(imported.sanitizedSvg),
+        metadata: {
+          fileName: file.name,
+          fileSize: file.size,
+          dimensions: { width: 200, height: 200 },
+          uploadTime: new Date()
+        }
+      },
+      vectorData: imported.path,
+      vectorizedGlyph: {
+        svgPath: imported.path,
+        editablePathData: imported.editablePathData,
+        vectorizationParams: { quality: 'high' },
+        metrics: {
+          nodeCount: imported.editablePathData.nodes.length,
+          pathComplexity: imported.shapeCount,
+          fileSize: imported.path.length,
+          vectorizationTime: performance.now() - startTime
+        }
+      },
+      status: 'complete'
+    };
+
+    await characterDataStorage.storeCharacterData(characterData);
+    setCharacterDataMap(prev => new Map(prev.set(unicode, characterData)));
+  }, [cancelVectorization]);
+
   // Handle file upload for a specific character with automatic vectorization
   const handleFileUpload = useCallback(async (file: File, unicode: string) => {
     console.log(`📁 Processing upload for character ${unicode}:`, file.name);
 
     try {
+      if (SvgGlyphImporter.isSvgFile(file)) {
+        await importSvgCharacter(file, unicode);
+        return;
+      }
+
       // Create character data with uploaded image
       const imageMetadata = {
         fileName: file.name,
@@ -198,25 +461,8 @@ export const FontCreationInterface: React.FC<FontCreationInterfaceProps> = ({
       await characterDataStorage.storeCharacterData(characterData);
       setCharacterDataMap(prev => new Map(prev.set(unicode, characterData)));
 
-      // Set to processing status for automatic vectorization
-      const processingData = { ...characterData, status: 'processing' as const };
-      await characterDataStorage.storeCharacterData(processingData);
-      setCharacterDataMap(prev => new Map(prev.set(unicode, processingData)));
-
-      // Auto-vectorize with deterministic high quality
-      const vectorizationResult = await vectorizeCharacterDirectly(file, {
-        quality: 'high', // Fixed high quality for consistency
-      });
-
-      const completeData = {
-        ...processingData,
-        status: 'complete' as const,
-        vectorData: vectorizationResult,
-      };
-      await characterDataStorage.storeCharacterData(completeData);
-      setCharacterDataMap(prev => new Map(prev.set(unicode, completeData)));
-
-      console.log(`✅ Successfully uploaded and vectorized character ${unicode}`);
+      // Queue automatic vectorization with deterministic high quality
+      enqueueVectorization(characterData, getTracingRecipe('high'));
 
     } catch (error) {
       console.error(`❌ Failed to process character ${unicode}:`, error);
@@ -225,14 +471,74 @@ export const FontCreationInterface: React.FC<FontCreationInterfaceProps> = ({
         unicode,
         character: String.fromCharCode(parseInt(unicode.replace('U+', ''), 16)),
         status: 'error' as const,
-        errorMessage: error instanceof Error ? error.message : 'Vectorization failed',
+        errorMessage: error instanceof Error ? error.message : 'Upload failed',
       };
 
       await characterDataStorage.storeCharacterData(errorData);
       setCharacterDataMap(prev => new Map(prev.set(unicode, errorData)));
     }
-  }, [vectorizeCharacterDirectly]);
+  }, [enqueueVectorization, getTracingRecipe, importSvgCharacter]);
+
+
+  // Cut a scanned template sheet into its cells and upload each drawn character
+  const handleScanSheet = useCallback(async (file: File) => {
+    const result = await ScanSheetReader.read(file, fontSettings);
+
+    if (result.characterSet.id !== currentCharacterSet.id) {
+      setCurrentCharacterSet(result.characterSet);
+    }
+    for (const crop of result.crops) {
+      await handleFileUpload(crop.file, crop.character.unicode);
+    }
+
+    return result;
+  }, [fontSettings, currentCharacterSet.id, handleFileUpload]);
+
+  // Replace the project with the outlines, names and metrics of an existing font
+  const handleOpenFont = useCallback(async (file: File) => {
+    const hasWork = Array.from(characterDataMap.values()).some(data => data.status !== 'empty');
+    if (hasWork && !window.confirm('Opening a font replaces all current characters and font settings. Continue?')) {
+      return null;
+    }
 
+    const result = await FontFileImporter.import(file);
+    const { project } = result;
+
+    cancelAllVectorization();
+    await characterDataStorage.clearAllData();
+    setTracingPresets([]);
+    for (const charData of project.characters.values()) {
+      await characterDataStorage.storeCharacterData(charData);
+    }
+    const importedKerning = project.kerning ?? KerningCalculator.createEmptyKerning();
+    await characterDataStorage.storeKerning(WORKSPACE_PROJECT_ID, importedKerning);
+    await characterDataStorage.storeFontSettings(WORKSPACE_PROJECT_ID, project.fontSettings);
+
+    setCharacterDataMap(new Map(project.characters));
+    setFontSettings(project.fontSettings);
+    setKerning(importedKerning);
+    setCompiledFont(null);
+    setMetricConflicts([]);
+    setSelectedCharacter(undefined);
+
+    return result;
+  }, [characterDataMap, cancelAllVectorization]);
+
+  // Unpack archives, match files to characters by filename and hold them for review
+  const handleBulkFiles = useCallback(async (files: File[]) => {
+    const { files: images, rejected } = await UploadFileCollector.collect(files);
+    setBulkAssignmentPlan(
+      FilenameCharacterMatcher.planAssignment(images, currentCharacterSet.characters, characterDataMap, rejected)
+    );
+  }, [currentCharacterSet.characters, characterDataMap]);
+
+  const handleConfirmBulkAssignment = useCallback(async (selections: BulkAssignmentSelection[]) => {
+    setBulkAssignmentPlan(null);
+    console.log(`📦 Uploading ${selections.length} files from bulk assignment`);
+    for (const { file, unicode } of selections) {
+      await handleFileUpload(file, unicode);
+    }
+  }, [handleFileUpload]);
 
   // Handle character selection for preview
   const handleCharacterSelect = useCallback((unicode: string) => {
@@ -244,64 +550,189 @@ export const FontCreationInterface: React.FC<FontCreationInterfaceProps> = ({
     setSelectedCharacter(unicode);
   }, [characterDataMap]);
 
-  // Handle re-vectorization
-  const handleRevectorize = useCallback(async (unicode: string) => {
+  // Handle re-vectorization, ahead of queued batch jobs
+  const handleRevectorize = useCallback((unicode: string) => {
     const charData = characterDataMap.get(unicode);
-    if (!charData?.originalImage) {
-      console.error(`❌ No original image found for character ${unicode}`);
+    if (!charData) {
+      console.error(`❌ No character data found for ${unicode}`);
       return;
     }
+    enqueueVectorization(charData, getTracingRecipe('high'), true);
+  }, [characterDataMap, enqueueVectorization, getTracingRecipe]);
+
+  // Trace a character with one registered method for the preview gallery, leaving its glyph
+  // as it is; the chosen tracing method keeps its settings, the others use their defaults
+  const handleTraceWithMethod = useCallback(async (
+    unicode: string,
+    method: VectorizationMethod,
+    signal: AbortSignal
+  ): Promise<MethodTrace> => {
+    const charData = characterDataMap.get(unicode);
+    if (!charData?.originalImage || !hasTraceableImage(charData)) {
+      throw new Error('This character has no image to trace');
+    }
 
-    try {
-      // Set to processing status
-      const processingData = { ...charData, status: 'processing' as const };
-      await characterDataStorage.storeCharacterData(processingData);
-      setCharacterDataMap(prev => new Map(prev.set(unicode, processingData)));
+    const { file } = charData.originalImage;
+    const imageFile = file instanceof File ? file : new File([file], 'character.png', { type: 'image/png' });
+    const recipe: VectorizationRecipe = method === tracing.method
+      ? getTracingRecipe('high')
+      : { method, params: { quality: 'high' }, methodValues: getDefaultParameterValues(method) };
+    return vectorizeCharacterDirectly(imageFile, recipe, signal);
+  }, [characterDataMap, tracing.method, getTracingRecipe, vectorizeCharacterDirectly]);
 
-      // Convert Blob to File if needed
-      const file = charData.originalImage.file instanceof File ?
-        charData.originalImage.file :
-        new File([charData.originalImage.file], 'character.png', { type: 'image/png' });
+  // Use a gallery trace as the character's glyph, replacing any queued job
+  const handleChooseMethodTrace = useCallback(async (unicode: string, trace: MethodTrace) => {
+    const charData = characterDataMap.get(unicode);
+    if (!charData) return;
+    cancelVectorization(unicode);
+
+    const updatedCharData: CharacterData = {
+      ...charData,
+      status: 'complete',
+      errorMessage: undefined,
+      vectorData: trace.vectorData,
+      vectorizedGlyph: buildVectorizedGlyph(
+        charData,
+        trace.vectorData,
+        charData.vectorizedGlyph?.editablePathData.anchors ?? [],
+        trace
+      ),
+      methodId: trace.methodId,
+      verticalFrame: trace.verticalFrame ?? charData.verticalFrame
+    };
+    await characterDataStorage.storeCharacterData(updatedCharData);
+    setCharacterDataMap(prev => new Map(prev.set(unicode, updatedCharData)));
+    console.log(`✅ ${unicode} now uses the ${trace.methodId} trace`);
+  }, [characterDataMap, cancelVectorization]);
+
+  // Re-vectorize every character with an image, or only the failed ones, at the chosen quality
+  const handleBatchVectorize = useCallback((scope: BatchVectorizationScope) => {
+    const targets = Array.from(characterDataMap.values()).filter(charData =>
+      hasTraceableImage(charData) && (scope === 'all' || charData.status === 'error')
+    );
 
-      // Re-vectorize with deterministic high quality
-      const vectorizationResult = await vectorizeCharacterDirectly(file, {
-        quality: 'high', // Fixed high quality for consistency
-      });
+    console.log(`🔁 Queueing ${targets.length} characters for ${batchQuality} vectorization`);
+    targets.forEach(charData => enqueueVectorization(charData, getTracingRecipe(batchQuality)));
 
-      const completeData = {
-        ...processingData,
-        status: 'complete' as const,
-        vectorData: vectorizationResult,
-      };
-      await characterDataStorage.storeCharacterData(completeData);
-      setCharacterDataMap(prev => new Map(prev.set(unicode, completeData)));
+    if (selectedCharacter) {
+      prioritize(selectedCharacter);
+    }
+  }, [characterDataMap, batchQuality, enqueueVectorization, getTracingRecipe, selectedCharacter, prioritize]);
+
+  // Characters the advanced tracing panel can re-vectorize
+  const traceableCharacters = useMemo(() =>
+    Array.from(characterDataMap.values())
+      .filter(hasTraceableImage)
+      .map(({ unicode, character }) => ({ unicode, character })),
+    [characterDataMap]
+  );
 
-      console.log(`✅ Successfully re-vectorized character ${unicode}`);
+  // The selected character previews the advanced tracing settings, if it has an image to trace
+  const tracingPreview = useMemo(() => {
+    const charData = selectedCharacter ? characterDataMap.get(selectedCharacter) : undefined;
+    if (!charData?.originalImage || !hasTraceableImage(charData)) return undefined;
+    return { character: charData.character, imageUrl: charData.originalImage.dataUrl };
+  }, [selectedCharacter, characterDataMap]);
+
+  // Trace the preview character with the advanced panel's recipe, leaving its glyph as it is
+  const handlePreviewRecipe = useCallback(async (recipe: VectorizationRecipe, signal: AbortSignal): Promise<string> => {
+    const charData = selectedCharacter ? characterDataMap.get(selectedCharacter) : undefined;
+    if (!charData?.originalImage || !hasTraceableImage(charData)) {
+      throw new Error('This character has no image to trace');
+    }
 
-    } catch (error) {
-      console.error(`❌ Failed to re-vectorize character ${unicode}:`, error);
+    const { file } = charData.originalImage;
+    const imageFile = file instanceof File ? file : new File([file], 'character.png', { type: 'image/png' });
+    const trace = await vectorizeCharacterDirectly(imageFile, recipe, signal);
+    return trace.vectorData;
+  }, [selectedCharacter, characterDataMap, vectorizeCharacterDirectly]);
+
+  // Binarize the preview character in the worker pool the way its trace would
+  const handlePreviewBinarization = useCallback((recipe: VectorizationRecipe, signal: AbortSignal): Promise<Blob> => {
+    const charData = selectedCharacter ? characterDataMap.get(selectedCharacter) : undefined;
+    if (!charData?.originalImage || !hasTraceableImage(charData)) {
+      return Promise.reject(new Error('This character has no image to binarize'));
+    }
+    return vectorizationWorkerPool.previewBinarization(charData.originalImage.file, getJobOptions(recipe), signal);
+  }, [selectedCharacter, characterDataMap, getJobOptions]);
+
+  // Re-vectorize the characters picked in the advanced panel with its recipe
+  const handleApplyRecipe = useCallback((recipe: VectorizationRecipe, unicodes: string[]) => {
+    console.log(`🔁 Queueing ${unicodes.length} characters for ${recipe.method} vectorization`);
+    unicodes.forEach(unicode => {
+      const charData = characterDataMap.get(unicode);
+      if (charData) enqueueVectorization(charData, recipe);
+    });
 
-      const errorData = {
-        ...charData,
-        status: 'error' as const,
-        errorMessage: error instanceof Error ? error.message : 'Re-vectorization failed',
-      };
+    if (selectedCharacter) {
+      prioritize(selectedCharacter);
+    }
+    setIsAdvancedTracingOpen(false);
+  }, [characterDataMap, enqueueVectorization, selectedCharacter, prioritize]);
 
-      await characterDataStorage.storeCharacterData(errorData);
-      setCharacterDataMap(prev => new Map(prev.set(unicode, errorData)));
+  const handleSaveTracingPreset = useCallback(async (name: string, recipe: VectorizationRecipe) => {
+    try {
+      await vectorizationPresetStorage.savePreset(WORKSPACE_PROJECT_ID, name, recipe);
+      setTracingPresets(await vectorizationPresetStorage.getPresets(WORKSPACE_PROJECT_ID));
+    } catch (error) {
+      console.error('❌ Failed to save tracing preset:', error);
+      alert('Failed to save the preset. Please try again.');
+    }
+  }, []);
+
+  const handleDeleteTracingPreset = useCallback(async (id: string) => {
+    try {
+      await vectorizationPresetStorage.deletePreset(id);
+      setTracingPresets(await vectorizationPresetStorage.getPresets(WORKSPACE_PROJECT_ID));
+    } catch (error) {
+      console.error('❌ Failed to delete tracing preset:', error);
+      alert('Failed to delete the preset. Please try again.');
     }
-  }, [characterDataMap, vectorizeCharacterDirectly]);
+  }, []);
 
-  // Handle path changes from the preview panel
-  const handlePathChange = useCallback(async (unicode: string, newPath: string) => {
+  // Handle path changes from the preview panel (glyphMetrics: undefined keeps, null clears custom spacing)
+  const handlePathChange = useCallback(async (
+    unicode: string,
+    newPath: string,
+    edits: PathEdits = {}
+  ) => {
     const charData = characterDataMap.get(unicode);
     if (charData) {
-      const updatedCharData = { ...charData, vectorData: newPath };
+      cancelVectorization(unicode);
+      const anchors = edits.anchors === undefined
+        ? charData.vectorizedGlyph?.editablePathData.anchors
+        : edits.anchors;
+      const updatedCharData: CharacterData = {
+        ...toSettledData(charData),
+        vectorData: newPath,
+        verticalFrame: edits.verticalFrame ?? charData.verticalFrame,
+        glyphMetrics: edits.glyphMetrics === undefined ? charData.glyphMetrics : edits.glyphMetrics ?? undefined,
+        vectorizedGlyph: buildVectorizedGlyph(charData, newPath, anchors ?? [])
+      };
       await characterDataStorage.storeCharacterData(updatedCharData);
       setCharacterDataMap(prev => new Map(prev.set(unicode, updatedCharData)));
       console.log(`✅ Saved vector changes for ${unicode}`);
     }
-  }, [characterDataMap]);
+  }, [characterDataMap, cancelVectorization]);
+
+  // Font settings and kerning are saved with the workspace project on every edit
+  const handleFontSettingsChange = useCallback(async (newSettings: FontSettings) => {
+    setFontSettings(newSettings);
+    try {
+      await characterDataStorage.storeFontSettings(WORKSPACE_PROJECT_ID, newSettings);
+    } catch (error) {
+      console.error('❌ Failed to save font settings:', error);
+    }
+  }, []);
+
+  const handleKerningChange = useCallback(async (newKerning: KerningData) => {
+    setKerning(newKerning);
+    try {
+      await characterDataStorage.storeKerning(WORKSPACE_PROJECT_ID, newKerning);
+    } catch (error) {
+      console.error('❌ Failed to save kerning:', error);
+    }
+  }, []);
 
   // Handle clearing all character data
   const handleClearAll = useCallback(async () => {
@@ -313,9 +744,14 @@ export const FontCreationInterface: React.FC<FontCreationInterfaceProps> = ({
 
     try {
       console.log('🧹 Clearing all character data...');
+      cancelAllVectorization();
 
       // Clear all data from storage
       await characterDataStorage.clearAllData();
+      setTracingPresets([]);
+      setKerning(KerningCalculator.createEmptyKerning());
+      // Font settings aren't character data, so they stay
+      await characterDataStorage.storeFontSettings(WORKSPACE_PROJECT_ID, fontSettings);
 
       // Reset the character data map to empty state
       const emptyCharacterDataMap = new Map<string, CharacterData>();
@@ -335,7 +771,7 @@ export const FontCreationInterface: React.FC<FontCreationInterfaceProps> = ({
       console.error('❌ Failed to clear character data:', error);
       alert('Failed to clear character data. Please try again.');
     }
-  }, [currentCharacterSet.characters]);
+  }, [currentCharacterSet.characters, cancelAllVectorization, fontSettings]);
 
 
 
@@ -356,6 +792,15 @@ export const FontCreationInterface: React.FC<FontCreationInterfaceProps> = ({
     return { uploaded, total, percentage };
   }, [characterDataMap, currentCharacterSet.characters]);
 
+  // Characters that can be vectorized in a batch
+  const getBatchStats = useCallback(() => {
+    const withImages = Array.from(characterDataMap.values()).filter(hasTraceableImage);
+    return {
+      imageCount: withImages.length,
+      errorCount: withImages.filter(data => data.status === 'error').length
+    };
+  }, [characterDataMap]);
+
   // Handle character set sub-header toggle
   const handleToggleCharacterSet = useCallback(() => {
     setIsCharacterSetExpanded(!isCharacterSetExpanded);
@@ -370,7 +815,7 @@ export const FontCreationInterface: React.FC<FontCreationInterfaceProps> = ({
       // Ensure descender is negative (OpenType.js requirement)
       const adjustedFontSettings = {
         ...fontSettings,
-        descender: Math.abs(fontSettings.descender) > 0 ? -Math.abs(fontSettings.descender) : -200
+        descender: fontSettings.descender !== undefined ? -Math.abs(fontSettings.descender) : undefined
       };
 
       console.log('🔍 Adjusted font settings for generation:', adjustedFontSettings);
@@ -391,6 +836,7 @@ export const FontCreationInterface: React.FC<FontCreationInterfaceProps> = ({
       const project: FontProject = {
         characters: vectorizedCharacters,
         fontSettings: adjustedFontSettings,
+        kerning,
         metadata: {
           name: fontSettings.metadata.familyName,
           description: fontSettings.metadata.description,
@@ -411,6 +857,7 @@ export const FontCreationInterface: React.FC<FontCreationInterfaceProps> = ({
 
       if (result.success && result.font) {
         setCompiledFont(result.font);
+        setMetricConflicts(result.conflicts || []);
         console.log('✅ Font generated successfully:', result.font);
       } else {
         throw new Error(result.error || 'Font generation failed');
@@ -449,6 +896,19 @@ export const FontCreationInterface: React.FC<FontCreationInterfaceProps> = ({
     }
   };
 
+  // Font-level metrics the path editor and drawing canvas place their guides from
+  const editorFontMetrics = useMemo((): FontMetrics => ({
+    unitsPerEm: fontSettings.unitsPerEm,
+    ascender: FontMetricsCalculator.getSettingOrDefault(fontSettings, 'ascender'),
+    descender: FontMetricsCalculator.getSettingOrDefault(fontSettings, 'descender'),
+    xHeight: FontMetricsCalculator.getSettingOrDefault(fontSettings, 'xHeight'),
+    capHeight: FontMetricsCalculator.getSettingOrDefault(fontSettings, 'capHeight'),
+    baseline: 0,
+    lineGap: 0,
+    underlinePosition: 0,
+    underlineThickness: 0
+  }), [fontSettings]);
+
   // Path editor modal handlers
   const handleOpenPathEditor = useCallback((unicode: string) => {
     setEditingCharacter(unicode);
@@ -460,9 +920,66 @@ export const FontCreationInterface: React.FC<FontCreationInterfaceProps> = ({
     setEditingCharacter(undefined);
   }, []);
 
-  const handlePathEditorSave = useCallback((newPath: string) => {
+  // Drawing canvas handlers
+  const handleOpenDrawing = useCallback((unicode: string) => {
+    setIsPathEditorOpen(false);
+    setEditingCharacter(undefined);
+    setDrawingCharacter(unicode);
+  }, []);
+
+  const handleCloseDrawing = useCallback(() => {
+    setDrawingCharacter(undefined);
+  }, []);
+
+  // Store the expanded strokes as the character's outline, replacing any traced image
+  const handleDrawingSave = useCallback(async (path: string, verticalFrame: GlyphVerticalFrame) => {
+    if (!drawingCharacter) return;
+    const unicode = drawingCharacter;
+    cancelVectorization(unicode);
+
+    const existing = characterDataMap.get(unicode) ?? {
+      unicode,
+      character: String.fromCodePoint(parseInt(unicode.replace('U+', ''), 16)),
+      status: 'empty' as const
+    };
+    const drawingSvg = SvgGlyphImporter.createGlyphSvg(path, 'drawing.svg');
+
+    const characterData: CharacterData = {
+      ...existing,
+      originalImage: {
+        file: drawingSvg,
+        dataUrl: await fileToDataURL(drawingSvg),
+        metadata: {
+          fileName: drawingSvg.name,
+          fileSize: drawingSvg.size,
+          dimensions: { width: 200, height: 200 },
+          uploadTime: new Date()
+        }
+      },
+      vectorData: path,
+      verticalFrame,
+      vectorizedGlyph: buildVectorizedGlyph(existing, path, []),
+      status: 'complete',
+      errorMessage: undefined
+    };
+
+    await characterDataStorage.storeCharacterData(characterData);
+    setCharacterDataMap(prev => new Map(prev.set(unicode, characterData)));
+    console.log(`✅ Saved drawing for ${unicode}`);
+  }, [drawingCharacter, characterDataMap, cancelVectorization]);
+
+  const handlePathEditorSave = useCallback((
+    newPath: string,
+    verticalFrame: GlyphVerticalFrame,
+    glyphMetrics?: GlyphMetrics,
+    anchors?: GlyphAnchor[]
+  ) => {
     if (editingCharacter) {
-      handlePathChange(editingCharacter, newPath);
+      handlePathChange(editingCharacter, newPath, {
+        verticalFrame,
+        glyphMetrics: glyphMetrics ?? null,
+        anchors: anchors ?? null
+      });
     }
   }, [editingCharacter, handlePathChange]);
 
@@ -618,9 +1135,20 @@ export const FontCreationInterface: React.FC<FontCreationInterfaceProps> = ({
                       </select>
                     </div>
                   </div>
+                  <TemplateSheetControls
+                    characterSet={currentCharacterSet}
+                    fontSettings={fontSettings}
+                    onScanSheet={handleScanSheet}
+                  />
+                  <OpenFontControls onOpenFont={handleOpenFont} />
                 </div>
               </div>
 
+              {/* Bulk Upload Section */}
+              <div className="card-subheader-section">
+                <FileDropzone onFilesUploaded={handleBulkFiles} />
+              </div>
+
               {/* Character Progress Container */}
               <div className="card-subheader-section">
                 <div className="character-progress-container">
@@ -660,12 +1188,27 @@ export const FontCreationInterface: React.FC<FontCreationInterfaceProps> = ({
               showCategories={false}
               categoryFilter={categoryFilter}
               onCategoryFilterChange={setCategoryFilter}
+              vectorizationJobs={vectorizationQueue.jobs}
+              onCancelVectorization={handleCancelVectorization}
+              onCharacterDraw={handleOpenDrawing}
             />
           </div>
 
-          {/* Card Footer with Clear Action */}
+          {/* Card Footer with Batch Vectorization and Clear Actions */}
           {getUploadStats().uploaded > 0 && (
-            <div className="card-footer card-footer--right">
+            <div className="card-footer card-footer--between">
+              <BatchVectorizationControls
+                quality={batchQuality}
+                onQualityChange={setBatchQuality}
+                tracing={tracing}
+                onTracingChange={setTracing}
+                onVectorize={handleBatchVectorize}
+                onCancelAll={handleCancelAllVectorization}
+                onOpenAdvanced={() => setIsAdvancedTracingOpen(true)}
+                imageCount={getBatchStats().imageCount}
+                errorCount={getBatchStats().errorCount}
+                activeCount={vectorizationQueue.activeCount}
+              />
               <button
                 onClick={handleClearAll}
                 className="btn-danger btn-sm"
@@ -683,8 +1226,13 @@ export const FontCreationInterface: React.FC<FontCreationInterfaceProps> = ({
             selectedCharacter={selectedCharacter}
             characterData={selectedCharacter ? characterDataMap.get(selectedCharacter) : undefined}
             onRevectorize={handleRevectorize}
-            isProcessing={selectedCharacter ? characterDataMap.get(selectedCharacter)?.status === 'processing' : false}
+            isProcessing={selectedCharacter
+              ? characterDataMap.get(selectedCharacter)?.status === 'processing'
+                || ['queued', 'running'].includes(vectorizationQueue.jobs.get(selectedCharacter)?.status ?? '')
+              : false}
             onOpenPathEditor={handleOpenPathEditor}
+            onTraceWithMethod={handleTraceWithMethod}
+            onChooseMethodTrace={handleChooseMethodTrace}
           />
         </div>
       </div>
@@ -697,11 +1245,12 @@ export const FontCreationInterface: React.FC<FontCreationInterfaceProps> = ({
           <div className="lg:grid-responsive-1">
             <FontSettingsPanel
               settings={fontSettings}
-              onSettingsChange={setFontSettings}
+              onSettingsChange={handleFontSettingsChange}
               onGenerateFont={handleGenerateFont}
               canGenerate={canGenerateFont()}
               isGenerating={isGeneratingFont}
               validationMessage={!canGenerateFont() ? getValidationMessage() : undefined}
+              metricConflicts={metricConflicts}
             />
           </div>
 
@@ -713,6 +1262,9 @@ export const FontCreationInterface: React.FC<FontCreationInterfaceProps> = ({
                 characterData={characterDataMap}
                 compiledFont={compiledFont?.fontData || null}
                 isGenerating={isGeneratingFont}
+                kerning={kerning}
+                onKerningChange={handleKerningChange}
+                characterSet={currentCharacterSet}
               />
 
               <FontExportPanel
@@ -743,20 +1295,29 @@ export const FontCreationInterface: React.FC<FontCreationInterfaceProps> = ({
           onClose={handleClosePathEditor}
           glyphId={editingCharacter}
           initialPath={characterDataMap.get(editingCharacter)?.vectorData || ''}
-          fontMetrics={{
-            unitsPerEm: 200, // Match the 200x200 viewBox
-            ascender: fontSettings.ascender * 0.2, // Scale from 1000 to 200 units
-            descender: fontSettings.descender * 0.2,
-            xHeight: fontSettings.xHeight * 0.2,
-            capHeight: fontSettings.capHeight * 0.2,
-            baseline: 100, // Center baseline in 200x200 canvas
-            lineGap: 0,
-            underlinePosition: 0,
-            underlineThickness: 0
-          }}
+          initialFrame={characterDataMap.get(editingCharacter)?.verticalFrame}
+          initialGlyphMetrics={characterDataMap.get(editingCharacter)?.glyphMetrics}
+          initialAnchors={characterDataMap.get(editingCharacter)?.vectorizedGlyph?.editablePathData.anchors}
+          fontMetrics={editorFontMetrics}
           onPathChanged={handlePathEditorSave}
           character={characterDataMap.get(editingCharacter)?.character}
           unicode={editingCharacter}
+          onOpenDrawing={() => handleOpenDrawing(editingCharacter)}
+        />
+      )}
+
+      {/* Drawing Canvas Modal */}
+      {drawingCharacter && (
+        <GlyphDrawingModal
+          isOpen={true}
+          onClose={handleCloseDrawing}
+          initialPath={characterDataMap.get(drawingCharacter)?.vectorData}
+          initialFrame={characterDataMap.get(drawingCharacter)?.verticalFrame}
+          fontMetrics={editorFontMetrics}
+          onSave={handleDrawingSave}
+          character={characterDataMap.get(drawingCharacter)?.character
+            ?? String.fromCodePoint(parseInt(drawingCharacter.replace('U+', ''), 16))}
+          unicode={drawingCharacter}
         />
       )}
 
@@ -768,6 +1329,32 @@ export const FontCreationInterface: React.FC<FontCreationInterfaceProps> = ({
         uploadedCount={getUploadStats().uploaded}
         totalCount={getUploadStats().total}
       />
+
+      {/* Bulk Upload Review Modal */}
+      <BulkAssignmentReviewModal
+        isOpen={bulkAssignmentPlan !== null}
+        onClose={() => setBulkAssignmentPlan(null)}
+        plan={bulkAssignmentPlan}
+        characters={currentCharacterSet.characters}
+        onConfirm={handleConfirmBulkAssignment}
+      />
+
+      {/* Mounted only while open, so each opening starts from the batch settings */}
+      {isAdvancedTracingOpen && (
+        <AdvancedTracingModal
+          isOpen={isAdvancedTracingOpen}
+          onClose={() => setIsAdvancedTracingOpen(false)}
+          initialRecipe={getTracingRecipe(batchQuality)}
+          presets={tracingPresets}
+          onSavePreset={handleSaveTracingPreset}
+          onDeletePreset={handleDeleteTracingPreset}
+          preview={tracingPreview}
+          onPreview={handlePreviewRecipe}
+          onPreviewBinarization={handlePreviewBinarization}
+          characters={traceableCharacters}
+          onApply={handleApplyRecipe}
+        />
+      )}
     </div>
   );
 };
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { CompiledFont } from '../../types';
+import { CompiledFont, FontFormat } from '../../types';
 import { FontExportService, FontExportOptions } from '../../services/font-generation';
 import { InfoButton } from '../ui/InfoButton';
 import { UseModalReturn } from '../../hooks/useModal';
@@ -12,11 +12,18 @@ export interface FontExportPanelProps {
   isExporting: boolean;
   exportInfoModal: UseModalReturn;
   onExportStateChange?: (state: {
-    exportFormat: 'ttf' | 'otf';
+    exportFormat: FontFormat;
     includeMetadata: boolean;
   }) => void;
 }
 
+const EXPORT_FORMATS: { value: FontFormat; label: string }[] = [
+  { value: 'ttf', label: 'TTF (TrueType)' },
+  { value: 'otf', label: 'OTF (OpenType)' },
+  { value: 'woff', label: 'WOFF (Web)' },
+  { value: 'woff2', label: 'WOFF2 (Web, smallest)' }
+];
+
 export function FontExportPanel({
   compiledFont,
   fontSettings,
@@ -25,7 +32,7 @@ export function FontExportPanel({
   exportInfoModal,
   onExportStateChange
 }: FontExportPanelProps) {
-  const [exportFormat, setExportFormat] = useState<'ttf' | 'otf'>('ttf');
+  const [exportFormat, setExportFormat] = useState<FontFormat>('ttf');
   const [includeMetadata, setIncludeMetadata] = useState(true);
   const [customFilename, setCustomFilename] = useState('');
   const [exportStatus, setExportStatus] = useState<'idle' | 'exporting' | 'success' | 'error'>('idle');
@@ -73,7 +80,8 @@ export function FontExportPanel({
 
   const getFileSize = () => {
     if (!compiledFont) return '0 KB';
-    return FontExportService.formatFileSize(compiledFont.size);
+    const variant = FontExportService.getFormatVariant(compiledFont, exportFormat);
+    return FontExportService.formatFileSize(variant ? variant.size : compiledFont.size);
   };
 
 
@@ -117,7 +125,7 @@ export function FontExportPanel({
         <div className="preview-info-grid">
           <div className="preview-info-item">
             <span className="preview-info-label">Format:</span>
-            <span className="preview-info-value">{compiledFont.format.toUpperCase()}</span>
+            <span className="preview-info-value">{exportFormat.toUpperCase()}</span>
           </div>
           <div className="preview-info-item">
             <span className="preview-info-label">File Size:</span>
@@ -143,29 +151,21 @@ export function FontExportPanel({
             Export Format
           </label>
           <div className="flex space-x-4">
-            <label className="flex items-center">
-              <input
-                type="radio"
-                value="ttf"
-                checked={exportFormat === 'ttf'}
-                onChange={(e) => setExportFormat(e.target.value as 'ttf' | 'otf')}
-                className="mr-2"
-              />
-              <span className="text-sm">TTF (TrueType)</span>
-            </label>
-            <label className="flex items-center">
-              <input
-                type="radio"
-                value="otf"
-                checked={exportFormat === 'otf'}
-                onChange={(e) => setExportFormat(e.target.value as 'ttf' | 'otf')}
-                className="mr-2"
-              />
-              <span className="text-sm">OTF (OpenType)</span>
-            </label>
+            {EXPORT_FORMATS.map(format => (
+              <label key={format.value} className="flex items-center">
+                <input
+                  type="radio"
+                  value={format.value}
+                  checked={exportFormat === format.value}
+                  onChange={(e) => setExportFormat(e.target.value as FontFormat)}
+                  className="mr-2"
+                />
+                <span className="text-sm">{format.label}</span>
+              </label>
+            ))}
           </div>
           <p className="form-field-help">
-            TTF offers maximum compatibility, OTF provides advanced typography features
+            TTF offers maximum compatibility, OTF provides advanced typography features, WOFF/WOFF2 are compressed for websites
           </p>
         </div>
 
@@ -1,22 +1,30 @@
 import { useState } from 'react';
-import { FontSettings } from '../../types';
+import { FontSettings, KerningData } from '../../types';
+import { KerningPairEditor } from './KerningPairEditor';
+import { CharacterSet } from '../../data/character-sets';
 
 export interface FontPreviewProps {
   fontSettings: FontSettings;
   characterData: Map<string, any>;
   compiledFont?: ArrayBuffer | null;
   isGenerating: boolean;
+  kerning?: KerningData;
+  onKerningChange?: (kerning: KerningData) => void;
+  characterSet?: CharacterSet;
 }
 
 export function FontPreview({
   fontSettings,
   characterData,
   compiledFont,
-  isGenerating
+  isGenerating,
+  kerning,
+  onKerningChange,
+  characterSet
 }: FontPreviewProps) {
   const [previewText, setPreviewText] = useState('The quick brown fox jumps over the lazy dog');
   const [fontSize, setFontSize] = useState(24);
-  const [previewMode, setPreviewMode] = useState<'sample' | 'grid' | 'custom'>('sample');
+  const [previewMode, setPreviewMode] = useState<'sample' | 'grid' | 'custom' | 'kerning'>('sample');
 
   // Get vectorized characters
   const vectorizedCharacters = Array.from(characterData.values())
@@ -195,7 +203,8 @@ export function FontPreview({
           {[
             { id: 'sample', label: 'Sample Text' },
             { id: 'grid', label: 'Character Grid' },
-            { id: 'custom', label: 'Custom Text' }
+            { id: 'custom', label: 'Custom Text' },
+            ...(kerning && onKerningChange ? [{ id: 'kerning', label: 'Kerning' }] : [])
           ].map((tab) => (
             <button
               key={tab.id}
@@ -216,6 +225,15 @@ export function FontPreview({
         {previewMode === 'sample' && renderSampleTexts()}
         {previewMode === 'grid' && renderCharacterGrid()}
         {previewMode === 'custom' && renderCustomPreview()}
+        {previewMode === 'kerning' && kerning && onKerningChange && (
+          <KerningPairEditor
+            characterData={characterData}
+            fontSettings={fontSettings}
+            kerning={kerning}
+            onKerningChange={onKerningChange}
+            characterSet={characterSet}
+          />
+        )}
       </div>
 
       {/* Font Information */}
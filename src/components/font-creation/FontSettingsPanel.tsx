@@ -1,4 +1,21 @@
-import { FontSettings, FontMetadata } from '../../types';
+import { FontSettings, FontMetadata, SpacingMode } from '../../types';
+import { FontMetricsCalculator } from '../../services/font-generation';
+import type { MetricConflict, UserMetricField } from '../../services/font-generation';
+
+const METRIC_FIELDS: { key: UserMetricField; label: string }[] = [
+  { key: 'ascender', label: 'Ascender' },
+  { key: 'descender', label: 'Descender' },
+  { key: 'capHeight', label: 'Cap Height' },
+  { key: 'xHeight', label: 'X-Height' },
+  { key: 'lineGap', label: 'Line Gap' }
+];
+
+const SPACING_MODES: { value: SpacingMode; label: string; help: string }[] = [
+  { value: 'manual', label: 'Manual', help: 'Each glyph uses the sidebearings set in the path editor.' },
+  { value: 'proportional', label: 'Proportional (auto-fit)', help: 'Sidebearings are fitted to each outline. Glyphs with custom sidebearings keep them.' },
+  { value: 'tabular', label: 'Proportional with tabular figures', help: 'Auto-fit spacing, with the digits 0-9 centred in one shared width.' },
+  { value: 'monospace', label: 'Monospace', help: 'Every glyph is centred in the same fixed width.' }
+];
 
 export interface FontSettingsPanelProps {
   settings: FontSettings;
@@ -7,6 +24,7 @@ export interface FontSettingsPanelProps {
   canGenerate: boolean;
   isGenerating: boolean;
   validationMessage?: string;
+  metricConflicts?: MetricConflict[]; // From the last generation run
 }
 
 export function FontSettingsPanel({
@@ -15,7 +33,8 @@ export function FontSettingsPanel({
   onGenerateFont,
   canGenerate,
   isGenerating,
-  validationMessage
+  validationMessage,
+  metricConflicts = []
 }: FontSettingsPanelProps) {
 
   const handleMetadataChange = (field: keyof FontMetadata, value: string) => {
@@ -28,6 +47,38 @@ export function FontSettingsPanel({
     });
   };
 
+  const handleUnitsPerEmChange = (value: string) => {
+    const unitsPerEm = parseInt(value, 10);
+    if (!Number.isFinite(unitsPerEm) || unitsPerEm <= 0) return;
+    onSettingsChange({ ...settings, unitsPerEm });
+  };
+
+  // An empty field leaves the metric to be calculated from the glyphs
+  const handleMetricChange = (field: UserMetricField, value: string) => {
+    const parsed = parseInt(value, 10);
+    onSettingsChange({
+      ...settings,
+      [field]: value.trim() === '' || !Number.isFinite(parsed) ? undefined : parsed
+    });
+  };
+
+  const handleSpaceWidthChange = (value: string) => {
+    const parsed = parseInt(value, 10);
+    onSettingsChange({
+      ...settings,
+      spaceWidth: value.trim() === '' || !Number.isFinite(parsed) || parsed < 0 ? undefined : parsed
+    });
+  };
+
+  const handleFixedAdvanceWidthChange = (value: string) => {
+    const parsed = parseInt(value, 10);
+    onSettingsChange({
+      ...settings,
+      fixedAdvanceWidth: value.trim() === '' || !Number.isFinite(parsed) || parsed <= 0 ? undefined : parsed
+    });
+  };
+
+  const spacingMode = settings.spacingMode || 'manual';
 
   return (
     <div className="card">
@@ -100,6 +151,7 @@ export function FontSettingsPanel({
             <option value="GPL-3.0">GPL 3.0</option>
             <option value="CC-BY-4.0">Creative Commons Attribution 4.0</option>
             <option value="CC-BY-SA-4.0">Creative Commons Attribution-ShareAlike 4.0</option>
+            <option value="OFL-1.1">SIL Open Font License 1.1</option>
             <option value="Custom">Custom License</option>
           </select>
         </div>
@@ -117,6 +169,101 @@ export function FontSettingsPanel({
             className="form-field-input"
           />
         </div>
+
+        {/* Vertical Metrics */}
+        <div className="form-field">
+          <label className="form-field-label">
+            Units Per Em
+          </label>
+          <input
+            type="number"
+            min={16}
+            max={16384}
+            value={settings.unitsPerEm}
+            onChange={(e) => handleUnitsPerEmChange(e.target.value)}
+            className="form-field-input"
+          />
+        </div>
+
+        {METRIC_FIELDS.map(({ key, label }) => (
+          <div key={key} className="form-field">
+            <label className="form-field-label">
+              {label}
+            </label>
+            <input
+              type="number"
+              value={settings[key] ?? ''}
+              onChange={(e) => handleMetricChange(key, e.target.value)}
+              placeholder="Auto"
+              className="form-field-input"
+            />
+          </div>
+        ))}
+        <p className="form-field-help">
+          Font units. Leave a metric empty to calculate it from your glyphs.
+        </p>
+
+        <div className="form-field">
+          <label className="form-field-label">
+            Space Width
+          </label>
+          <input
+            type="number"
+            min={0}
+            value={settings.spaceWidth ?? ''}
+            onChange={(e) => handleSpaceWidthChange(e.target.value)}
+            placeholder={`${FontMetricsCalculator.getSpaceWidth({ ...settings, spaceWidth: undefined })}`}
+            className="form-field-input"
+          />
+          <p className="form-field-help">
+            Advance width of the space character, in font units.
+          </p>
+        </div>
+
+        {/* Spacing */}
+        <div className="form-field">
+          <label className="form-field-label">
+            Spacing Mode
+          </label>
+          <select
+            value={spacingMode}
+            onChange={(e) => onSettingsChange({ ...settings, spacingMode: e.target.value as SpacingMode })}
+            className="form-field-input"
+          >
+            {SPACING_MODES.map(mode => (
+              <option key={mode.value} value={mode.value}>{mode.label}</option>
+            ))}
+          </select>
+          <p className="form-field-help">
+            {SPACING_MODES.find(mode => mode.value === spacingMode)?.help}
+          </p>
+        </div>
+
+        {spacingMode === 'monospace' && (
+          <div className="form-field">
+            <label className="form-field-label">
+              Fixed Advance Width
+            </label>
+            <input
+              type="number"
+              min={1}
+              value={settings.fixedAdvanceWidth ?? ''}
+              onChange={(e) => handleFixedAdvanceWidthChange(e.target.value)}
+              placeholder="Auto (widest glyph)"
+              className="form-field-input"
+            />
+          </div>
+        )}
+
+        {metricConflicts.length > 0 && (
+          <div className="form-field">
+            {metricConflicts.map(conflict => (
+              <p key={conflict.field} className="form-field-help text-yellow-600">
+                ⚠️ {conflict.message}
+              </p>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Card Footer with Generate Action */}
@@ -0,0 +1,481 @@
+import { useState, useMemo, useCallback } from 'react';
+import { FontSettings, KerningData, KerningClass } from '../../types';
+import { CharacterData } from '../../services/storage/CharacterDataStorage';
+import { GlyphConverter } from '../../services/font-generation/GlyphConverter';
+import { FontMetricsCalculator } from '../../services/font-generation/FontMetricsCalculator';
+import { KerningCalculator } from '../../services/font-generation/KerningCalculator';
+import { AutoKerningService, KerningSuggestion } from '../../services/font-generation/AutoKerningService';
+import { CharacterSet } from '../../data/character-sets';
+
+export interface KerningPairEditorProps {
+  characterData: Map<string, CharacterData>;
+  fontSettings: FontSettings;
+  kerning: KerningData;
+  onKerningChange: (kerning: KerningData) => void;
+  characterSet?: CharacterSet; // Pairs for auto kerning suggestions come from this set
+}
+
+interface PreviewGlyph {
+  pathData: string;
+  advanceWidth: number;
+}
+
+const SAMPLE_PAIRS = ['AV', 'VA', 'To', 'Ty', 'Ly', 'LT', 'Yo', 'P.', 'rn', 'ov'];
+
+/**
+ * Converts a character to the "U+XXXX" key used by character data and kerning
+ */
+const toUnicodeKey = (char: string): string =>
+  `U+${char.codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0')}`;
+
+const toCharacter = (unicode: string): string =>
+  String.fromCodePoint(parseInt(unicode.replace('U+', ''), 16));
+
+export function KerningPairEditor({
+  characterData,
+  fontSettings,
+  kerning,
+  onKerningChange,
+  characterSet
+}: KerningPairEditorProps) {
+  const [pairText, setPairText] = useState('AV');
+  const [newClassName, setNewClassName] = useState('');
+  const [newClassSide, setNewClassSide] = useState<KerningClass['side']>('left');
+  const [newClassMembers, setNewClassMembers] = useState('');
+  const [classPairLeft, setClassPairLeft] = useState('');
+  const [classPairRight, setClassPairRight] = useState('');
+  const [classPairValue, setClassPairValue] = useState(-50);
+  const [suggestions, setSuggestions] = useState<KerningSuggestion[] | null>(null);
+  const [selectedSuggestions, setSelectedSuggestions] = useState<Set<string>>(new Set());
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+
+  const unitsPerEm = fontSettings.unitsPerEm;
+  const ascender = FontMetricsCalculator.getSettingOrDefault(fontSettings, 'ascender');
+  const descender = -Math.abs(FontMetricsCalculator.getSettingOrDefault(fontSettings, 'descender'));
+
+  const [leftChar, rightChar] = Array.from(pairText);
+  const left = leftChar ? toUnicodeKey(leftChar) : undefined;
+  const right = rightChar ? toUnicodeKey(rightChar) : undefined;
+  const resolved = left && right
+    ? KerningCalculator.getPairValue(kerning, left, right)
+    : { value: 0, source: 'none' as const };
+
+  // Build the glyph the same way font generation does so spacing matches the output
+  const buildPreviewGlyph = useCallback((unicode: string | undefined): PreviewGlyph | null => {
+    const charData = unicode ? characterData.get(unicode) : undefined;
+    if (!unicode || !charData?.vectorData || charData.status !== 'complete') return null;
+
+    try {
+      const glyph = GlyphConverter.svgPathToOpenTypeGlyph(
+        charData.vectorData,
+        parseInt(unicode.replace('U+', ''), 16),
+        charData.verticalFrame,
+        { unitsPerEm, capHeight: FontMetricsCalculator.getSettingOrDefault(fontSettings, 'capHeight') },
+        charData.glyphMetrics
+      );
+      return {
+        pathData: glyph.getPath(0, 0, unitsPerEm).toPathData(1),
+        advanceWidth: glyph.advanceWidth ?? 0
+      };
+    } catch (error) {
+      console.warn(`⚠️ Unable to preview glyph ${unicode}:`, error instanceof Error ? error.message : 'Unknown error');
+      return null;
+    }
+  }, [characterData, fontSettings, unitsPerEm]);
+
+  const leftGlyph = useMemo(() => buildPreviewGlyph(left), [buildPreviewGlyph, left]);
+  const rightGlyph = useMemo(() => buildPreviewGlyph(right), [buildPreviewGlyph, right]);
+
+  const handleValueChange = useCallback((value: number) => {
+    if (!left || !right || !Number.isFinite(value)) return;
+    onKerningChange(KerningCalculator.setPairValue(kerning, left, right, value));
+  }, [kerning, left, right, onKerningChange]);
+
+  const handleAddClass = useCallback(() => {
+    const members = Array.from(newClassMembers.replace(/\s/g, '')).map(toUnicodeKey);
+    if (!newClassName.trim() || members.length === 0) return;
+
+    onKerningChange(KerningCalculator.saveClass(kerning, {
+      id: `class_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`,
+      name: newClassName.trim(),
+      side: newClassSide,
+      members
+    }));
+    setNewClassName('');
+    setNewClassMembers('');
+  }, [kerning, newClassName, newClassSide, newClassMembers, onKerningChange]);
+
+  const handleAddClassPair = useCallback(() => {
+    if (!classPairLeft || !classPairRight) return;
+    onKerningChange(KerningCalculator.setClassPairValue(kerning, classPairLeft, classPairRight, classPairValue));
+  }, [kerning, classPairLeft, classPairRight, classPairValue, onKerningChange]);
+
+  const suggestionKey = (suggestion: KerningSuggestion) => `${suggestion.left},${suggestion.right}`;
+
+  const handleSuggestKerning = useCallback(() => {
+    if (!characterSet) return;
+    setIsAnalyzing(true);
+
+    // Let the button state render before the analysis blocks the main thread
+    setTimeout(() => {
+      try {
+        const result = AutoKerningService.suggestKerning(characterData, characterSet, fontSettings, kerning);
+        setSuggestions(result);
+        setSelectedSuggestions(new Set(result.map(suggestionKey)));
+      } catch (error) {
+        console.error('❌ Auto kerning failed:', error);
+        alert(`Auto kerning failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      } finally {
+        setIsAnalyzing(false);
+      }
+    }, 0);
+  }, [characterData, characterSet, fontSettings, kerning]);
+
+  const handleToggleSuggestion = useCallback((key: string) => {
+    setSelectedSuggestions(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  }, []);
+
+  const handleAcceptSuggestions = useCallback(() => {
+    if (!suggestions) return;
+    const accepted = suggestions.filter(suggestion => selectedSuggestions.has(suggestionKey(suggestion)));
+    onKerningChange(AutoKerningService.applySuggestions(kerning, accepted));
+    console.log(`✅ Accepted ${accepted.length} kerning suggestion(s)`);
+    setSuggestions(null);
+    setSelectedSuggestions(new Set());
+  }, [kerning, suggestions, selectedSuggestions, onKerningChange]);
+
+  const leftClasses = kerning.classes.filter(c => c.side === 'left');
+  const rightClasses = kerning.classes.filter(c => c.side === 'right');
+  const className = (id: string) => kerning.classes.find(c => c.id === id)?.name || id;
+
+  const renderPairPreview = () => {
+    if (!leftGlyph || !rightGlyph) {
+      return (
+        <div className="preview-text-placeholder">
+          {left && right
+            ? 'Both characters need vectorized glyphs to preview this pair'
+            : 'Enter two characters to preview a pair'}
+        </div>
+      );
+    }
+
+    const rightX = leftGlyph.advanceWidth + resolved.value;
+    const width = Math.max(rightX + rightGlyph.advanceWidth, leftGlyph.advanceWidth);
+    const height = ascender - descender;
+
+    return (
+      <svg
+        viewBox={`0 ${-ascender} ${width} ${height}`}
+        className="kerning-pair-preview"
+        preserveAspectRatio="xMidYMid meet"
+      >
+        <line x1={0} y1={0} x2={width} y2={0} className="kerning-pair-baseline" />
+        <rect x={0} y={-ascender} width={leftGlyph.advanceWidth} height={height} className="kerning-pair-advance" />
+        <path d={leftGlyph.pathData} fill="currentColor" />
+        <g transform={`translate(${rightX} 0)`}>
+          <path d={rightGlyph.pathData} fill="currentColor" />
+        </g>
+      </svg>
+    );
+  };
+
+  return (
+    <div className="preview-content-area">
+      <div className="preview-sample-buttons">
+        {SAMPLE_PAIRS.map(pair => (
+          <button
+            key={pair}
+            onClick={() => setPairText(pair)}
+            className={`preview-sample-button ${pairText === pair
+              ? 'preview-sample-button--active'
+              : 'preview-sample-button--inactive'
+              }`}
+          >
+            {pair}
+          </button>
+        ))}
+      </div>
+
+      <div className="form-field">
+        <label className="form-field-label">
+          Pair
+        </label>
+        <input
+          type="text"
+          value={pairText}
+          onChange={(e) => setPairText(Array.from(e.target.value).slice(0, 2).join(''))}
+          placeholder="AV"
+          className="form-field-input"
+        />
+      </div>
+
+      <div className="preview-text-area kerning-pair-area">
+        {renderPairPreview()}
+      </div>
+
+      {left && right && (
+        <div className="form-field">
+          <label className="form-field-label">
+            Kerning: {resolved.value} units
+            {resolved.source === 'class' && ' (from class kerning)'}
+          </label>
+          <input
+            type="range"
+            min={-Math.round(unitsPerEm / 2)}
+            max={Math.round(unitsPerEm / 4)}
+            step={1}
+            value={resolved.value}
+            onChange={(e) => handleValueChange(parseInt(e.target.value, 10))}
+            className="weight-slider-container"
+          />
+          <div className="kerning-row">
+            <input
+              type="number"
+              value={resolved.value}
+              onChange={(e) => handleValueChange(parseInt(e.target.value, 10))}
+              className="form-field-input"
+            />
+            {resolved.source === 'pair' && (
+              <button
+                onClick={() => onKerningChange(KerningCalculator.removePair(kerning, left, right))}
+                className="btn btn-secondary btn-sm"
+                title="Remove this pair so class kerning applies again"
+              >
+                Reset Pair
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Auto kerning suggestions */}
+      {characterSet && (
+        <div className="form-field">
+          <label className="form-field-label">
+            Auto Kerning
+          </label>
+          <p className="form-field-help">
+            Measures the facing outlines of every uppercase and lowercase pair and proposes values that even out the spacing. Nothing is applied until you accept it.
+          </p>
+          <div className="kerning-row">
+            <button
+              onClick={handleSuggestKerning}
+              disabled={isAnalyzing}
+              className="btn btn-secondary btn-sm"
+            >
+              {isAnalyzing ? 'Analyzing...' : 'Suggest Kerning'}
+            </button>
+            {suggestions && suggestions.length > 0 && (
+              <>
+                <button
+                  onClick={() => setSelectedSuggestions(new Set(suggestions.map(suggestionKey)))}
+                  className="btn btn-secondary btn-sm"
+                >
+                  Select All
+                </button>
+                <button
+                  onClick={() => setSelectedSuggestions(new Set())}
+                  className="btn btn-secondary btn-sm"
+                >
+                  Select None
+                </button>
+                <button
+                  onClick={handleAcceptSuggestions}
+                  disabled={selectedSuggestions.size === 0}
+                  className="btn btn-primary btn-sm"
+                >
+                  Accept {selectedSuggestions.size}
+                </button>
+              </>
+            )}
+            {suggestions && (
+              <button
+                onClick={() => setSuggestions(null)}
+                className="btn btn-secondary btn-sm"
+              >
+                Dismiss
+              </button>
+            )}
+          </div>
+          {suggestions && suggestions.length === 0 && (
+            <p className="form-field-help">No pairs need adjusting</p>
+          )}
+          {suggestions && suggestions.length > 0 && (
+            <ul className="kerning-list kerning-suggestion-list">
+              {suggestions.map(suggestion => {
+                const key = suggestionKey(suggestion);
+                return (
+                  <li key={key} className="kerning-row">
+                    <input
+                      type="checkbox"
+                      checked={selectedSuggestions.has(key)}
+                      onChange={() => handleToggleSuggestion(key)}
+                    />
+                    <button
+                      onClick={() => setPairText(toCharacter(suggestion.left) + toCharacter(suggestion.right))}
+                      className="preview-sample-button preview-sample-button--inactive"
+                    >
+                      {toCharacter(suggestion.left)}{toCharacter(suggestion.right)}
+                    </button>
+                    <span className="text-xs">
+                      {suggestion.currentValue} → {suggestion.value} (gap {suggestion.opticalGap}, target {suggestion.targetGap})
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Explicit pairs */}
+      <div className="form-field">
+        <label className="form-field-label">
+          Pairs ({kerning.pairs.length})
+        </label>
+        {kerning.pairs.length === 0 ? (
+          <p className="form-field-help">No kerning pairs yet</p>
+        ) : (
+          <ul className="kerning-list">
+            {kerning.pairs.map(pair => (
+              <li key={`${pair.left},${pair.right}`} className="kerning-row">
+                <button
+                  onClick={() => setPairText(toCharacter(pair.left) + toCharacter(pair.right))}
+                  className="preview-sample-button preview-sample-button--inactive"
+                >
+                  {toCharacter(pair.left)}{toCharacter(pair.right)}
+                </button>
+                <span className="text-xs">{pair.value}</span>
+                <button
+                  onClick={() => onKerningChange(KerningCalculator.removePair(kerning, pair.left, pair.right))}
+                  className="btn btn-danger btn-sm"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Kerning classes */}
+      <div className="form-field">
+        <label className="form-field-label">
+          Classes
+        </label>
+        <p className="form-field-help">
+          Glyphs that kern alike (e.g. "AÀÁ" on the left, "oec" on the right). Pairs above override class values.
+        </p>
+        {kerning.classes.length > 0 && (
+          <ul className="kerning-list">
+            {kerning.classes.map(kerningClass => (
+              <li key={kerningClass.id} className="kerning-row">
+                <span className="text-xs">
+                  {kerningClass.name} ({kerningClass.side}): {kerningClass.members.map(toCharacter).join('')}
+                </span>
+                <button
+                  onClick={() => onKerningChange(KerningCalculator.removeClass(kerning, kerningClass.id))}
+                  className="btn btn-danger btn-sm"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="kerning-row">
+          <input
+            type="text"
+            value={newClassName}
+            onChange={(e) => setNewClassName(e.target.value)}
+            placeholder="Class name"
+            className="form-field-input"
+          />
+          <select
+            value={newClassSide}
+            onChange={(e) => setNewClassSide(e.target.value as KerningClass['side'])}
+            className="form-field-input"
+          >
+            <option value="left">Left side</option>
+            <option value="right">Right side</option>
+          </select>
+          <input
+            type="text"
+            value={newClassMembers}
+            onChange={(e) => setNewClassMembers(e.target.value)}
+            placeholder="Members, e.g. AÀÁ"
+            className="form-field-input"
+          />
+          <button onClick={handleAddClass} className="btn btn-secondary btn-sm">
+            Add Class
+          </button>
+        </div>
+      </div>
+
+      {/* Class pairs */}
+      {leftClasses.length > 0 && rightClasses.length > 0 && (
+        <div className="form-field">
+          <label className="form-field-label">
+            Class Pairs ({kerning.classPairs.length})
+          </label>
+          {kerning.classPairs.length > 0 && (
+            <ul className="kerning-list">
+              {kerning.classPairs.map(pair => (
+                <li key={`${pair.leftClass},${pair.rightClass}`} className="kerning-row">
+                  <span className="text-xs">
+                    {className(pair.leftClass)} + {className(pair.rightClass)}: {pair.value}
+                  </span>
+                  <button
+                    onClick={() => onKerningChange(KerningCalculator.removeClassPair(kerning, pair.leftClass, pair.rightClass))}
+                    className="btn btn-danger btn-sm"
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="kerning-row">
+            <select
+              value={classPairLeft}
+              onChange={(e) => setClassPairLeft(e.target.value)}
+              className="form-field-input"
+            >
+              <option value="">Left class…</option>
+              {leftClasses.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+            <select
+              value={classPairRight}
+              onChange={(e) => setClassPairRight(e.target.value)}
+              className="form-field-input"
+            >
+              <option value="">Right class…</option>
+              {rightClasses.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+            <input
+              type="number"
+              value={classPairValue}
+              onChange={(e) => setClassPairValue(parseInt(e.target.value, 10) || 0)}
+              className="form-field-input"
+            />
+            <button
+              onClick={handleAddClassPair}
+              disabled={!classPairLeft || !classPairRight}
+              className="btn btn-secondary btn-sm"
+            >
+              Set
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import React, { useState, useCallback, useRef } from 'react';
+import { FontFileImporter, FontFileImportResult } from '../../services/import';
+
+export interface OpenFontControlsProps {
+  onOpenFont: (file: File) => Promise<FontFileImportResult | null>; // null when the user backs out
+}
+
+export const OpenFontControls: React.FC<OpenFontControlsProps> = ({ onOpenFont }) => {
+  const [isOpening, setIsOpening] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset input value to allow opening the same file again
+    event.target.value = '';
+    if (!file) return;
+
+    setIsOpening(true);
+    setMessage(null);
+    try {
+      const result = await onOpenFont(file);
+      if (result) {
+        setMessage({
+          text: `${result.project.metadata.name}: ${result.glyphCount} glyphs imported${result.missing.length ? `, ${result.missing.length} characters not in the font` : ''}`,
+          isError: false
+        });
+      }
+    } catch (error) {
+      setMessage({
+        text: error instanceof Error ? error.message : 'Failed to open the font',
+        isError: true
+      });
+    } finally {
+      setIsOpening(false);
+    }
+  }, [onOpenFont]);
+
+  return (
+    <div className="template-sheet-controls">
+      <input
+        ref={inputRef}
+        type="file"
+        accept={FontFileImporter.ACCEPTED_EXTENSIONS.join(',')}
+        onChange={handleFileChange}
+        style={{ display: 'none' }}
+      />
+      <button
+        onClick={() => inputRef.current?.click()}
+        disabled={isOpening}
+        className="btn btn-secondary btn-sm"
+        title="Open a TTF, OTF, WOFF or WOFF2 font to edit or extend it; replaces the current characters"
+      >
+        {isOpening ? 'Opening Font...' : 'Open Font File'}
+      </button>
+
+      {message && (
+        <span className={`template-sheet-message ${message.isError ? 'template-sheet-message--error' : ''}`}>
+          {message.text}
+        </span>
+      )}
+    </div>
+  );
+};
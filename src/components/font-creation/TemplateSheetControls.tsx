@@ -0,0 +1,105 @@
+import React, { useState, useCallback, useRef } from 'react';
+import { CharacterSet } from '../../data/character-sets';
+import { FontSettings } from '../../types';
+import { TemplateExportService, TemplateFormat, TemplatePageSize, ScanSheetResult } from '../../services/templates';
+
+export interface TemplateSheetControlsProps {
+  characterSet: CharacterSet;
+  fontSettings: FontSettings;
+  onScanSheet: (file: File) => Promise<ScanSheetResult>;
+}
+
+export const TemplateSheetControls: React.FC<TemplateSheetControlsProps> = ({
+  characterSet,
+  fontSettings,
+  onScanSheet
+}) => {
+  const [format, setFormat] = useState<TemplateFormat>('pdf');
+  const [pageSize, setPageSize] = useState<TemplatePageSize>('a4');
+  const [isReadingScan, setIsReadingScan] = useState(false);
+  const [scanMessage, setScanMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const scanInputRef = useRef<HTMLInputElement>(null);
+
+  const handleDownload = useCallback(() => {
+    const result = TemplateExportService.exportTemplate(characterSet, fontSettings, { format, pageSize });
+    if (!result.success) {
+      alert(result.error);
+    }
+  }, [characterSet, fontSettings, format, pageSize]);
+
+  const handleScanFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset input value to allow reading the same file again
+    event.target.value = '';
+    if (!file) return;
+
+    setIsReadingScan(true);
+    setScanMessage(null);
+    try {
+      const result = await onScanSheet(file);
+      setScanMessage({
+        text: `${result.characterSet.name} page ${result.pageIndex + 1} of ${result.pageCount}: ${result.crops.length} characters queued, ${result.emptyCells.length} blank`,
+        isError: false
+      });
+    } catch (error) {
+      setScanMessage({
+        text: error instanceof Error ? error.message : 'Failed to read the scanned sheet',
+        isError: true
+      });
+    } finally {
+      setIsReadingScan(false);
+    }
+  }, [onScanSheet]);
+
+  return (
+    <div className="template-sheet-controls">
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as TemplateFormat)}
+        className="form-select template-sheet-select"
+        title="Template file format"
+      >
+        <option value="pdf">PDF</option>
+        <option value="svg">SVG (one file per page)</option>
+      </select>
+      <select
+        value={pageSize}
+        onChange={(e) => setPageSize(e.target.value as TemplatePageSize)}
+        className="form-select template-sheet-select"
+        title="Paper size"
+      >
+        <option value="a4">A4</option>
+        <option value="letter">Letter</option>
+      </select>
+      <button
+        onClick={handleDownload}
+        className="btn btn-secondary btn-sm"
+        title="Download a printable sheet with a guided cell for every character in this set"
+      >
+        Print Template
+      </button>
+
+      <input
+        ref={scanInputRef}
+        type="file"
+        accept="image/*"
+        onChange={handleScanFileChange}
+        style={{ display: 'none' }}
+      />
+      <button
+        onClick={() => scanInputRef.current?.click()}
+        disabled={isReadingScan}
+        className="btn btn-secondary btn-sm"
+        title="Upload a photo or scan of a filled-in template page to import every character on it"
+      >
+        {isReadingScan ? 'Reading Sheet...' : 'Upload Filled Sheet'}
+      </button>
+
+      {scanMessage && (
+        <span className={`template-sheet-message ${scanMessage.isError ? 'template-sheet-message--error' : ''}`}>
+          {scanMessage.text}
+        </span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import type { GlyphVerticalFrame, ProfileScore, VectorizationParams } from '../../types';
+import type { CurveFitMetrics, VectorizationMethod } from '../../services/vectorization';
+import { VECTORIZATION_METHODS } from '../../utils/vectorizationMethods';
+import { countPathNodes } from '../../utils/traceScoring';
+
+// A character traced with one method, ready to become its glyph
+export interface MethodTrace {
+  vectorData: string;
+  verticalFrame: GlyphVerticalFrame | null;
+  methodId: VectorizationMethod;
+  params: VectorizationParams; // Including the profile a profile search picked
+  fit?: CurveFitMetrics;
+  profileScores?: ProfileScore[]; // Every profile a profile search tried, best first
+}
+
+// Methods are traced one after another, so the gallery holds at most one pool
+// worker and leaves the rest to the vectorization queue
+const MAX_CONCURRENT_TRACES = 1;
+
+type MethodPreview =
+  | { status: 'running' }
+  | { status: 'done'; trace: MethodTrace }
+  | { status: 'error'; error: string };
+
+interface VectorizationMethodGalleryProps {
+  currentMethodId?: string;
+  canTrace: boolean; // Imported SVG outlines have no image to trace
+  onTraceWithMethod: (method: VectorizationMethod, signal: AbortSignal) => Promise<MethodTrace>;
+  onChooseMethodTrace: (trace: MethodTrace) => void;
+}
+
+// Traces the character with every registered method side by side; picking a
+// result makes it the glyph. Keyed by character so results don't carry over;
+// unmounting cancels the traces still running
+export const VectorizationMethodGallery: React.FC<VectorizationMethodGalleryProps> = ({
+  currentMethodId,
+  canTrace,
+  onTraceWithMethod,
+  onChooseMethodTrace
+}) => {
+  const [previews, setPreviews] = useState<Map<VectorizationMethod, MethodPreview>>(new Map());
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const handleCompare = useCallback(async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setPreviews(new Map(VECTORIZATION_METHODS.map(method => [method.id, { status: 'running' }])));
+
+    const pending = [...VECTORIZATION_METHODS];
+    const traceNext = async (): Promise<void> => {
+      const method = pending.shift();
+      if (!method || controller.signal.aborted) return;
+
+      try {
+        const trace = await onTraceWithMethod(method.id, controller.signal);
+        if (!controller.signal.aborted) {
+          setPreviews(prev => new Map(prev.set(method.id, { status: 'done', trace })));
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          setPreviews(prev => new Map(prev.set(method.id, {
+            status: 'error',
+            error: error instanceof Error ? error.message : 'Unknown error'
+          })));
+        }
+      }
+      return traceNext();
+    };
+
+    await Promise.all(Array.from({ length: MAX_CONCURRENT_TRACES }, traceNext));
+  }, [onTraceWithMethod]);
+
+  const isRunning = Array.from(previews.values()).some(preview => preview.status === 'running');
+
+  return (
+    <div className="method-gallery">
+      <div className="method-gallery-header">
+        <h4 className="preview-section-header">Compare Methods</h4>
+        <button
+          onClick={handleCompare}
+          disabled={!canTrace || isRunning}
+          className="btn btn-secondary btn-sm"
+          title={canTrace ? 'Trace this character with every method' : 'Imported outlines have no image to trace'}
+        >
+          {isRunning ? 'Tracing...' : previews.size > 0 ? 'Trace Again' : 'Trace With Every Method'}
+        </button>
+      </div>
+
+      {previews.size > 0 && (
+        <div className="method-gallery-grid">
+          {VECTORIZATION_METHODS.map(method => {
+            const preview = previews.get(method.id);
+            const isCurrent = method.id === currentMethodId;
+
+            return (
+              <button
+                key={method.id}
+                onClick={() => preview?.status === 'done' && onChooseMethodTrace(preview.trace)}
+                disabled={preview?.status !== 'done'}
+                className={`method-gallery-card ${isCurrent ? 'method-gallery-card--current' : ''}`}
+                title={`${method.description}${preview?.status === 'done' ? ' — click to use this result' : ''}`}
+              >
+                <div className="method-gallery-preview">
+                  {preview?.status === 'running' && <div className="loading-spinner h-6 w-6" />}
+                  {preview?.status === 'error' && <span className="method-gallery-error">{preview.error}</span>}
+                  {preview?.status === 'done' && (
+                    <svg viewBox="0 0 200 200">
+                      <path d={preview.trace.vectorData} fill="currentColor" stroke="none" />
+                    </svg>
+                  )}
+                </div>
+                <span className="method-gallery-label">{method.label}</span>
+                {preview?.status === 'done' && (
+                  <span className="method-gallery-meta">
+                    {preview.trace.fit?.nodeCount ?? countPathNodes(preview.trace.vectorData)} nodes
+                    {preview.trace.params.profile && ` · ${preview.trace.params.profile}`}
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
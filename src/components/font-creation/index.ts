@@ -3,6 +3,8 @@ export { FontSettingsPanel } from './FontSettingsPanel';
 export { FontPreview } from './FontPreview';
 export { FontExportPanel } from './FontExportPanel';
 export { FontGenerationProgress } from './FontGenerationProgress';
+export { BatchVectorizationControls } from './BatchVectorizationControls';
+export { TemplateSheetControls } from './TemplateSheetControls';
 
 // Character Upload Components
 export { CharacterUploadGrid } from './CharacterUploadGrid/CharacterUploadGrid';
@@ -0,0 +1,423 @@
+import { useEffect, useState } from 'react';
+import { Modal, ModalHeader, ModalBody, ModalFooter } from './modal';
+import { MethodParameterInputs } from './MethodParameterInputs';
+import type { BinarizationMethod, BinarizationSettings, ImageTracerOverrides, VectorizationParams, VectorizationPreset, VectorizationQuality, VectorizationRecipe } from '../../types';
+import type { VectorizationMethod } from '../../services/vectorization';
+import { VECTORIZATION_METHODS, getDefaultParameterValues } from '../../utils/vectorizationMethods';
+
+export interface AdvancedTracingModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    initialRecipe: VectorizationRecipe; // Settings the panel starts from when mounted
+    presets: VectorizationPreset[];
+    onSavePreset: (name: string, recipe: VectorizationRecipe) => Promise<void>;
+    onDeletePreset: (id: string) => Promise<void>;
+    // Character the live preview traces, if it has an image
+    preview?: { character: string; imageUrl: string };
+    onPreview: (recipe: VectorizationRecipe, signal: AbortSignal) => Promise<string>;
+    onPreviewBinarization: (recipe: VectorizationRecipe, signal: AbortSignal) => Promise<Blob>; // The black and white image traced
+    characters: Array<{ unicode: string; character: string }>; // Characters with an image to trace
+    onApply: (recipe: VectorizationRecipe, unicodes: string[]) => void;
+}
+
+// Methods built on ImageTracer, which read its overrides
+const IMAGETRACER_METHODS: VectorizationMethod[] = ['trace-target-perfect', 'imagetracer-pro', 'profile-search'];
+
+// Wait for edits to settle before tracing the preview
+const PREVIEW_DELAY = 500;
+
+const BINARIZATION_METHODS: Array<{ value: BinarizationMethod; label: string; description: string }> = [
+    { value: 'otsu', label: 'Otsu (whole image)', description: 'One threshold picked from the image, for evenly lit scans' },
+    { value: 'sauvola', label: 'Sauvola (local)', description: 'A threshold for each neighbourhood, for photos with shadows and uneven lighting' },
+    { value: 'niblack', label: 'Niblack (local)', description: 'A threshold for each neighbourhood that keeps faint lines, for pencil sketches' },
+    { value: 'manual', label: 'Manual threshold', description: 'One threshold you set' }
+];
+
+const IMAGETRACER_FIELDS: Array<{ key: keyof ImageTracerOverrides; label: string; description: string; max: number; step: number }> = [
+    { key: 'ltres', label: 'Line error', description: 'Straight line error threshold', max: 10, step: 0.1 },
+    { key: 'qtres', label: 'Curve error', description: 'Curve error threshold', max: 10, step: 0.1 },
+    { key: 'pathomit', label: 'Omit paths under', description: 'Paths with fewer points are dropped', max: 100, step: 1 },
+    { key: 'blurradius', label: 'Blur radius', description: 'Blur before tracing, 0 for none', max: 5, step: 1 },
+    { key: 'blurdelta', label: 'Blur delta', description: 'Colour change a blurred pixel may take', max: 256, step: 1 }
+];
+
+export function AdvancedTracingModal({
+    isOpen,
+    onClose,
+    initialRecipe,
+    presets,
+    onSavePreset,
+    onDeletePreset,
+    preview,
+    onPreview,
+    onPreviewBinarization,
+    characters,
+    onApply
+}: AdvancedTracingModalProps) {
+    const [recipe, setRecipe] = useState<VectorizationRecipe>(initialRecipe);
+    const [presetName, setPresetName] = useState('');
+    const [selectedPresetId, setSelectedPresetId] = useState('');
+    const [selectedCharacters, setSelectedCharacters] = useState<Set<string>>(new Set());
+    const [previewState, setPreviewState] = useState<{ status: 'idle' | 'tracing' | 'done' | 'error'; path?: string; error?: string }>({ status: 'idle' });
+    const [binarized, setBinarized] = useState<Blob | null>(null);
+    const [binarizedUrl, setBinarizedUrl] = useState<string | undefined>(undefined);
+
+    // Live preview: trace the preview character once edits settle, dropping stale traces
+    useEffect(() => {
+        if (!isOpen || !preview) return;
+        const controller = new AbortController();
+        const timer = setTimeout(() => {
+            setPreviewState(prev => ({ ...prev, status: 'tracing' }));
+            onPreviewBinarization(recipe, controller.signal)
+                .then(blob => {
+                    if (!controller.signal.aborted) setBinarized(blob);
+                })
+                .catch(error => {
+                    if (controller.signal.aborted) return;
+                    console.warn('⚠️ Binarization preview failed:', error instanceof Error ? error.message : 'Unknown error');
+                });
+            onPreview(recipe, controller.signal)
+                .then(path => setPreviewState({ status: 'done', path }))
+                .catch(error => {
+                    if (controller.signal.aborted) return;
+                    setPreviewState({ status: 'error', error: error instanceof Error ? error.message : 'Unknown error' });
+                });
+        }, PREVIEW_DELAY);
+
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+        };
+    }, [isOpen, preview, recipe, onPreview, onPreviewBinarization]);
+
+    // Show the binarized image, released when it's replaced
+    useEffect(() => {
+        if (!binarized) return;
+        const url = URL.createObjectURL(binarized);
+        setBinarizedUrl(url);
+        return () => URL.revokeObjectURL(url);
+    }, [binarized]);
+
+    const setParams = (changes: Partial<VectorizationParams>) => {
+        setRecipe(prev => ({ ...prev, params: { ...prev.params, ...changes } }));
+    };
+
+    const setBinarization = (changes: Partial<BinarizationSettings>) => {
+        setRecipe(prev => ({
+            ...prev,
+            params: { ...prev.params, binarization: { method: binarizationMethod, ...prev.params.binarization, ...changes } }
+        }));
+    };
+
+    const setBinarizationMethod = (next: BinarizationMethod) => {
+        // Only manual binarization reads the threshold
+        setRecipe(prev => ({
+            ...prev,
+            params: {
+                ...prev.params,
+                binarization: { ...prev.params.binarization, method: next },
+                threshold: next === 'manual' ? prev.params.threshold ?? 128 : undefined
+            }
+        }));
+    };
+
+    const setImageTracer = (key: keyof ImageTracerOverrides, value: number | undefined) => {
+        setRecipe(prev => ({ ...prev, params: { ...prev.params, imageTracer: { ...prev.params.imageTracer, [key]: value } } }));
+    };
+
+    const handleLoadPreset = (id: string) => {
+        setSelectedPresetId(id);
+        const preset = presets.find(p => p.id === id);
+        if (preset) {
+            setRecipe({ method: preset.method, params: preset.params, methodValues: preset.methodValues });
+            setPresetName(preset.name);
+        }
+    };
+
+    const handleSavePreset = async () => {
+        const name = presetName.trim();
+        if (!name) return;
+        await onSavePreset(name, recipe);
+    };
+
+    const handleDeletePreset = async () => {
+        if (!selectedPresetId) return;
+        await onDeletePreset(selectedPresetId);
+        setSelectedPresetId('');
+    };
+
+    const toggleCharacter = (unicode: string, included: boolean) => {
+        setSelectedCharacters(prev => {
+            const next = new Set(prev);
+            if (included) {
+                next.add(unicode);
+            } else {
+                next.delete(unicode);
+            }
+            return next;
+        });
+    };
+
+    const method = recipe.method as VectorizationMethod;
+    const { params } = recipe;
+    // Without settings the tracer thresholds the whole image, at the manual level if one is set
+    const binarizationMethod = params.binarization?.method ?? (params.threshold === undefined ? 'otsu' : 'manual');
+    const isLocalBinarization = binarizationMethod === 'sauvola' || binarizationMethod === 'niblack';
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} size="xl">
+            <ModalHeader title="Advanced Tracing" onClose={onClose} />
+            <ModalBody>
+                <div className="advanced-tracing-presets">
+                    <select
+                        value={selectedPresetId}
+                        onChange={(e) => handleLoadPreset(e.target.value)}
+                        className="form-select"
+                        title="Load a preset saved with this project"
+                    >
+                        <option value="">{presets.length > 0 ? 'Load preset…' : 'No saved presets'}</option>
+                        {presets.map(preset => (
+                            <option key={preset.id} value={preset.id}>{preset.name}</option>
+                        ))}
+                    </select>
+                    <input
+                        type="text"
+                        value={presetName}
+                        onChange={(e) => setPresetName(e.target.value)}
+                        placeholder="Preset name"
+                        className="form-input"
+                    />
+                    <button onClick={handleSavePreset} disabled={!presetName.trim()} className="btn btn-secondary btn-sm">
+                        Save Preset
+                    </button>
+                    <button onClick={handleDeletePreset} disabled={!selectedPresetId} className="btn btn-secondary btn-sm">
+                        Delete
+                    </button>
+                </div>
+
+                <div className="advanced-tracing-layout">
+                    <div className="advanced-tracing-settings">
+                        <h4 className="advanced-tracing-heading">Method</h4>
+                        <div className="advanced-tracing-row">
+                            <select
+                                value={params.quality}
+                                onChange={(e) => setParams({ quality: e.target.value as VectorizationQuality })}
+                                className="form-select batch-vectorization-quality"
+                                title="Vectorization quality"
+                            >
+                                <option value="fast">Fast</option>
+                                <option value="balanced">Balanced</option>
+                                <option value="high">High</option>
+                            </select>
+                            <select
+                                value={method}
+                                onChange={(e) => {
+                                    const next = e.target.value as VectorizationMethod;
+                                    setRecipe(prev => ({ ...prev, method: next, methodValues: getDefaultParameterValues(next) }));
+                                }}
+                                className="form-select batch-vectorization-quality"
+                                title="Vectorization method"
+                            >
+                                {VECTORIZATION_METHODS.map(info => (
+                                    <option key={info.id} value={info.id}>{info.label}</option>
+                                ))}
+                            </select>
+                            <MethodParameterInputs
+                                method={method}
+                                values={recipe.methodValues}
+                                onChange={(methodValues) => setRecipe(prev => ({ ...prev, methodValues }))}
+                            />
+                        </div>
+
+                        <h4 className="advanced-tracing-heading">Binarization</h4>
+                        <div className="advanced-tracing-row">
+                            <select
+                                value={binarizationMethod}
+                                onChange={(e) => setBinarizationMethod(e.target.value as BinarizationMethod)}
+                                className="form-select batch-vectorization-quality"
+                                title={BINARIZATION_METHODS.find(option => option.value === binarizationMethod)?.description}
+                            >
+                                {BINARIZATION_METHODS.map(option => (
+                                    <option key={option.value} value={option.value} title={option.description}>{option.label}</option>
+                                ))}
+                            </select>
+                            {isLocalBinarization && (
+                                <>
+                                    <label className="advanced-tracing-number" title="Neighbourhood each threshold is worked out over; wider than the strokes">
+                                        <span>Window (px)</span>
+                                        <input
+                                            type="number"
+                                            min={3}
+                                            step={2}
+                                            value={params.binarization?.windowSize ?? ''}
+                                            placeholder="Auto"
+                                            onChange={(e) => {
+                                                const value = parseInt(e.target.value, 10);
+                                                setBinarization({ windowSize: Number.isFinite(value) ? value : undefined });
+                                            }}
+                                            className="form-input batch-vectorization-number"
+                                        />
+                                    </label>
+                                    <label className="advanced-tracing-number" title="Sensitivity: how far below the neighbourhood's mean ink must be">
+                                        <span>k</span>
+                                        <input
+                                            type="number"
+                                            min={-1}
+                                            max={1}
+                                            step={0.05}
+                                            value={params.binarization?.k ?? ''}
+                                            placeholder={binarizationMethod === 'sauvola' ? '0.2' : '-0.2'}
+                                            onChange={(e) => {
+                                                const value = parseFloat(e.target.value);
+                                                setBinarization({ k: Number.isFinite(value) ? value : undefined });
+                                            }}
+                                            className="form-input batch-vectorization-number"
+                                        />
+                                    </label>
+                                </>
+                            )}
+                        </div>
+                        {binarizationMethod === 'manual' && (
+                            <label className="advanced-tracing-field">
+                                <span>Threshold: {params.threshold ?? 128}</span>
+                                <input
+                                    type="range"
+                                    min={1}
+                                    max={254}
+                                    value={params.threshold ?? 128}
+                                    onChange={(e) => setParams({ threshold: parseInt(e.target.value, 10) })}
+                                    title="Darker pixels are ink"
+                                />
+                            </label>
+                        )}
+                        <label className="advanced-tracing-check" title="Divide out shadows and lighting gradients before binarizing">
+                            <input
+                                type="checkbox"
+                                checked={params.flattenBackground ?? false}
+                                onChange={(e) => setParams({ flattenBackground: e.target.checked || undefined })}
+                            />
+                            Flatten uneven lighting
+                        </label>
+
+                        <h4 className="advanced-tracing-heading">Preprocessing</h4>
+                        <label className="advanced-tracing-field">
+                            <span>Smoothing: {params.smoothing ?? 1} {(params.smoothing ?? 1) === 1 ? 'pass' : 'passes'}</span>
+                            <input
+                                type="range"
+                                min={0}
+                                max={4}
+                                value={params.smoothing ?? 1}
+                                onChange={(e) => setParams({ smoothing: parseInt(e.target.value, 10) })}
+                                title="Blur passes that iron out pixel irregularities before tracing"
+                            />
+                        </label>
+                        <label className="advanced-tracing-field">
+                            <span>Corner angle: {params.cornerThreshold ?? 55}°</span>
+                            <input
+                                type="range"
+                                min={10}
+                                max={120}
+                                step={5}
+                                value={params.cornerThreshold ?? 55}
+                                onChange={(e) => setParams({ cornerThreshold: parseInt(e.target.value, 10) })}
+                                title="Turns sharper than this become corners. Used by the Outline and Centerline methods"
+                            />
+                        </label>
+
+                        {IMAGETRACER_METHODS.includes(method) && (
+                            <>
+                                <h4 className="advanced-tracing-heading">ImageTracer</h4>
+                                <p className="advanced-tracing-note">Empty fields keep the profile's own value.</p>
+                                <div className="advanced-tracing-row">
+                                    {IMAGETRACER_FIELDS.map(field => (
+                                        <label key={field.key} className="advanced-tracing-number" title={field.description}>
+                                            <span>{field.label}</span>
+                                            <input
+                                                type="number"
+                                                min={0}
+                                                max={field.max}
+                                                step={field.step}
+                                                value={params.imageTracer?.[field.key] ?? ''}
+                                                placeholder="Profile"
+                                                onChange={(e) => {
+                                                    const value = parseFloat(e.target.value);
+                                                    setImageTracer(field.key, Number.isFinite(value) ? value : undefined);
+                                                }}
+                                                className="form-input batch-vectorization-number"
+                                            />
+                                        </label>
+                                    ))}
+                                </div>
+                            </>
+                        )}
+                    </div>
+
+                    <div className="advanced-tracing-preview">
+                        <h4 className="advanced-tracing-heading">
+                            Preview{preview ? ` of ${preview.character}` : ''}
+                            {previewState.status === 'tracing' && <span className="advanced-tracing-note"> tracing…</span>}
+                        </h4>
+                        {preview ? (
+                            <div className="advanced-tracing-preview-images">
+                                <img src={preview.imageUrl} alt={`Original ${preview.character}`} title="Original" />
+                                {binarizedUrl ? (
+                                    <img src={binarizedUrl} alt={`Binarized ${preview.character}`} title="Binarized, as traced" />
+                                ) : (
+                                    <div className="advanced-tracing-preview-result" />
+                                )}
+                                <div className="advanced-tracing-preview-result">
+                                    {previewState.status === 'error' ? (
+                                        <span className="method-gallery-error">{previewState.error}</span>
+                                    ) : previewState.path && (
+                                        <svg viewBox="0 0 200 200">
+                                            <path d={previewState.path} fill="currentColor" stroke="none" />
+                                        </svg>
+                                    )}
+                                </div>
+                            </div>
+                        ) : (
+                            <p className="advanced-tracing-note">Select a character with an uploaded image to preview.</p>
+                        )}
+
+                        <h4 className="advanced-tracing-heading">Apply to Characters</h4>
+                        <div className="advanced-tracing-row">
+                            <button
+                                onClick={() => setSelectedCharacters(new Set(characters.map(c => c.unicode)))}
+                                className="btn btn-secondary btn-sm"
+                            >
+                                All
+                            </button>
+                            <button onClick={() => setSelectedCharacters(new Set())} className="btn btn-secondary btn-sm">
+                                None
+                            </button>
+                        </div>
+                        <div className="advanced-tracing-characters">
+                            {characters.map(({ unicode, character }) => (
+                                <label key={unicode} className="advanced-tracing-character" title={unicode}>
+                                    <input
+                                        type="checkbox"
+                                        checked={selectedCharacters.has(unicode)}
+                                        onChange={(e) => toggleCharacter(unicode, e.target.checked)}
+                                    />
+                                    {character}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            </ModalBody>
+            <ModalFooter>
+                <button onClick={onClose} className="btn btn-secondary">
+                    Close
+                </button>
+                <button
+                    onClick={() => onApply(recipe, Array.from(selectedCharacters))}
+                    disabled={selectedCharacters.size === 0}
+                    className="btn btn-primary"
+                >
+                    Re-vectorize {selectedCharacters.size} {selectedCharacters.size === 1 ? 'Character' : 'Characters'}
+                </button>
+            </ModalFooter>
+        </Modal>
+    );
+}
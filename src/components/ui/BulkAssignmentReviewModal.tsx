@@ -0,0 +1,184 @@
+import { useEffect, useState } from 'react';
+import { Modal, ModalHeader, ModalBody, ModalFooter } from './modal';
+import { BulkAssignmentPlan } from '../../services/import';
+import { CharacterDefinition } from '../../data/character-sets';
+
+export interface BulkAssignmentSelection {
+    unicode: string;
+    file: File;
+}
+
+export interface BulkAssignmentReviewModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    plan: BulkAssignmentPlan | null;
+    characters: CharacterDefinition[];
+    onConfirm: (selections: BulkAssignmentSelection[]) => void;
+}
+
+// Index of the chosen file for each character, or null to skip it
+type SelectionState = Record<string, number | null>;
+
+export function BulkAssignmentReviewModal({
+    isOpen,
+    onClose,
+    plan,
+    characters,
+    onConfirm
+}: BulkAssignmentReviewModalProps) {
+    const [selection, setSelection] = useState<SelectionState>({});
+    // Character picked by hand for each unmatched file, by index
+    const [manualAssignments, setManualAssignments] = useState<Record<number, string>>({});
+
+    // New characters are ticked; replacing existing work is opt-in
+    useEffect(() => {
+        const initial: SelectionState = {};
+        plan?.assignments.forEach(assignment => {
+            initial[assignment.character.unicode] = assignment.overwrites ? null : 0;
+        });
+        setSelection(initial);
+        setManualAssignments({});
+    }, [plan]);
+
+    // Thumbnails for every matched file, released when the plan changes
+    const [previewUrls, setPreviewUrls] = useState<Map<File, string>>(new Map());
+
+    useEffect(() => {
+        const urls = new Map<File, string>();
+        plan?.assignments.forEach(assignment => {
+            assignment.files.forEach(file => urls.set(file, URL.createObjectURL(file)));
+        });
+        setPreviewUrls(urls);
+        return () => urls.forEach(url => URL.revokeObjectURL(url));
+    }, [plan]);
+
+    if (!plan) return null;
+
+    const conflictCount = plan.assignments.filter(assignment => assignment.files.length > 1).length;
+    const overwriteCount = plan.assignments.filter(assignment => assignment.overwrites).length;
+    // A hand-picked character takes precedence over a filename match for it
+    const selectionsByUnicode = new Map<string, File>();
+    plan.assignments.forEach(assignment => {
+        const chosen = selection[assignment.character.unicode];
+        if (chosen != null) selectionsByUnicode.set(assignment.character.unicode, assignment.files[chosen]);
+    });
+    plan.unmatched.forEach((file, index) => {
+        if (manualAssignments[index]) selectionsByUnicode.set(manualAssignments[index], file);
+    });
+    const selections = Array.from(selectionsByUnicode, ([unicode, file]) => ({ unicode, file }));
+
+    const toggle = (unicode: string, included: boolean) => {
+        setSelection(prev => ({ ...prev, [unicode]: included ? 0 : null }));
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} size="lg">
+            <ModalHeader title="Review Bulk Upload" onClose={onClose} />
+            <ModalBody>
+                <p className="bulk-assignment-summary">
+                    {plan.assignments.length} characters matched
+                    {conflictCount > 0 && `, ${conflictCount} with more than one file`}
+                    {overwriteCount > 0 && `, ${overwriteCount} already uploaded`}
+                    {plan.unmatched.length > 0 && `, ${plan.unmatched.length} files unmatched`}
+                    {plan.rejected.length > 0 && `, ${plan.rejected.length} files skipped`}
+                </p>
+
+                {plan.assignments.length > 0 && (
+                    <ul className="bulk-assignment-list">
+                        {plan.assignments.map(assignment => {
+                            const { character, files, overwrites } = assignment;
+                            const chosen = selection[character.unicode];
+                            const previewFile = files[chosen ?? 0];
+
+                            return (
+                                <li key={character.unicode} className={`bulk-assignment-row ${chosen == null ? 'bulk-assignment-row--skipped' : ''}`}>
+                                    <input
+                                        type="checkbox"
+                                        checked={chosen != null}
+                                        onChange={(e) => toggle(character.unicode, e.target.checked)}
+                                        title={chosen != null ? 'Upload this character' : 'Skip this character'}
+                                    />
+                                    <span className="bulk-assignment-char">{character.char}</span>
+                                    <span className="bulk-assignment-unicode">{character.unicode}</span>
+                                    <img className="bulk-assignment-thumb" src={previewUrls.get(previewFile)} alt={previewFile.name} />
+                                    {files.length > 1 ? (
+                                        <select
+                                            value={chosen ?? 0}
+                                            onChange={(e) => setSelection(prev => ({ ...prev, [character.unicode]: Number(e.target.value) }))}
+                                            className="form-select bulk-assignment-file"
+                                            title="Several files match this character; choose one"
+                                        >
+                                            {files.map((file, index) => (
+                                                <option key={`${file.name}-${index}`} value={index}>{file.name}</option>
+                                            ))}
+                                        </select>
+                                    ) : (
+                                        <span className="bulk-assignment-file">{files[0].name}</span>
+                                    )}
+                                    {files.length > 1 && (
+                                        <span className="bulk-assignment-badge bulk-assignment-badge--conflict">{files.length} files</span>
+                                    )}
+                                    <span className={`bulk-assignment-badge ${overwrites ? 'bulk-assignment-badge--overwrite' : ''}`}>
+                                        {overwrites ? 'Replaces existing' : 'New'}
+                                    </span>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+
+                {plan.unmatched.length > 0 && (
+                    <div className="bulk-assignment-section">
+                        <h4 className="bulk-assignment-heading">Unmatched files</h4>
+                        <p className="bulk-assignment-note">
+                            No character in this set matches these names (A.png, U+0041.png, ampersand.png). Choose a character for any you want to upload.
+                        </p>
+                        <ul className="bulk-assignment-list">
+                            {plan.unmatched.map((file, index) => (
+                                <li key={`${file.name}-${index}`} className={`bulk-assignment-row ${manualAssignments[index] ? '' : 'bulk-assignment-row--skipped'}`}>
+                                    <span className="bulk-assignment-file">{file.name}</span>
+                                    <select
+                                        value={manualAssignments[index] ?? ''}
+                                        onChange={(e) => setManualAssignments(prev => ({ ...prev, [index]: e.target.value }))}
+                                        className="form-select bulk-assignment-target"
+                                        title="Character to upload this file to"
+                                    >
+                                        <option value="">Skip</option>
+                                        {characters.map(character => (
+                                            <option key={character.unicode} value={character.unicode}>
+                                                {character.char.trim() || character.name} ({character.unicode})
+                                            </option>
+                                        ))}
+                                    </select>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
+                {plan.rejected.length > 0 && (
+                    <div className="bulk-assignment-section">
+                        <h4 className="bulk-assignment-heading">Skipped files</h4>
+                        <ul className="bulk-assignment-files">
+                            {plan.rejected.map(({ name, reason }, index) => (
+                                <li key={`${name}-${index}`}>{name}: {reason}</li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+            </ModalBody>
+            <ModalFooter>
+                <button onClick={onClose} className="btn btn-secondary">
+                    Cancel
+                </button>
+                <button
+                    onClick={() => onConfirm(selections)}
+                    disabled={selections.length === 0}
+                    className="btn btn-primary"
+                >
+                    Upload {selections.length} {selections.length === 1 ? 'Image' : 'Images'}
+                </button>
+            </ModalFooter>
+        </Modal>
+    );
+}
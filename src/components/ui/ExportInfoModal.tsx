@@ -1,12 +1,12 @@
 import { Modal, ModalHeader, ModalBody } from './modal';
-import { CompiledFont } from '../../types';
+import { CompiledFont, FontFormat } from '../../types';
 import { FontExportService } from '../../services/font-generation';
 
 export interface ExportInfoModalProps {
     isOpen: boolean;
     onClose: () => void;
     compiledFont: CompiledFont | null;
-    exportFormat: 'ttf' | 'otf';
+    exportFormat: FontFormat;
     includeMetadata: boolean;
 }
 
@@ -19,7 +19,8 @@ export function ExportInfoModal({
 }: ExportInfoModalProps) {
     const getFileSize = () => {
         if (!compiledFont) return '0 KB';
-        return FontExportService.formatFileSize(compiledFont.size);
+        const variant = FontExportService.getFormatVariant(compiledFont, exportFormat);
+        return FontExportService.formatFileSize(variant ? variant.size : compiledFont.size);
     };
 
     return (
@@ -1,28 +1,50 @@
-import { useCallback, useState, DragEvent } from 'react';
+import { useCallback, useRef, useState, DragEvent } from 'react';
 import { APP_CONFIG } from '@/types';
-import { useProcessingState } from '@/stores/useGlyphStore';
+import { getDroppedFiles } from '@/utils/droppedFiles';
+
+// Archives are unpacked by the upload handler
+const ACCEPTED_TYPES = [...APP_CONFIG.SUPPORTED_FORMATS, '.zip', 'application/zip'].join(',');
 
 interface FileDropzoneProps {
-  onFilesUploaded: (files: File[]) => void;
+  onFilesUploaded: (files: File[]) => void | Promise<void>;
+  disabled?: boolean;
 }
 
-export function FileDropzone({ onFilesUploaded }: FileDropzoneProps) {
+export function FileDropzone({ onFilesUploaded, disabled = false }: FileDropzoneProps) {
   const [isDragOver, setIsDragOver] = useState(false);
-  const processingState = useProcessingState();
+  const [isReading, setIsReading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const uploadFiles = useCallback(async (readFiles: () => Promise<File[]>) => {
+    setIsReading(true);
+    setError(null);
+    try {
+      const files = await readFiles();
+      console.log('📂 Files received:', { count: files.length, files: files.map(f => f.name) });
+
+      if (files.length > 0) {
+        await onFilesUploaded(files);
+      } else {
+        console.warn('⚠️ No files received');
+      }
+    } catch (error) {
+      console.error('❌ Failed to read uploaded files:', error);
+      setError(error instanceof Error ? error.message : 'Failed to read the files');
+    } finally {
+      setIsReading(false);
+    }
+  }, [onFilesUploaded]);
 
   const handleDrop = useCallback((e: DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDragOver(false);
+    if (disabled) return;
 
-    const files = Array.from(e.dataTransfer.files);
-    console.log('📂 Files dropped:', { count: files.length, files: files.map(f => f.name) });
-    
-    if (files.length > 0) {
-      onFilesUploaded(files);
-    } else {
-      console.warn('⚠️ No files dropped');
-    }
-  }, [onFilesUploaded]);
+    // Folder entries have to be taken while the event is live
+    const dropped = getDroppedFiles(e.dataTransfer);
+    uploadFiles(() => dropped);
+  }, [uploadFiles, disabled]);
 
   const handleDragOver = useCallback((e: DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -36,96 +58,39 @@ export function FileDropzone({ onFilesUploaded }: FileDropzoneProps) {
 
   const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
-    console.log('📁 Files selected via input:', { count: files.length, files: files.map(f => f.name) });
-    
-    if (files.length > 0) {
-      onFilesUploaded(files);
-    } else {
-      console.warn('⚠️ No files selected');
-    }
     // Reset input so same files can be selected again
     e.target.value = '';
-  }, [onFilesUploaded]);
+    uploadFiles(async () => files);
+  }, [uploadFiles]);
 
-  const isProcessing = processingState.status === 'processing';
+  const isBusy = disabled || isReading;
 
   return (
-    <div className="w-full">
-      <div
-        onDrop={handleDrop}
-        onDragOver={handleDragOver}
-        onDragLeave={handleDragLeave}
-        className={`
-          border-2 border-dashed rounded-xl p-8 text-center transition-all
-          ${isDragOver 
-            ? 'border-blue-400 bg-blue-50' 
-            : 'border-gray-300 hover:border-gray-400'
-          }
-          ${isProcessing ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}
-        `}
-      >
-        <input
-          type="file"
-          multiple
-          accept={APP_CONFIG.SUPPORTED_FORMATS.join(',')}
-          onChange={handleFileInput}
-          className="hidden"
-          id="file-upload"
-          disabled={isProcessing}
-        />
-        
-        <label 
-          htmlFor="file-upload" 
-          className={`cursor-pointer ${isProcessing ? 'cursor-not-allowed' : ''}`}
-        >
-          <div className="space-y-4">
-            <div className="text-6xl">
-              {isProcessing ? 'Processing...' : 'Files'}
-            </div>
-            
-            <div>
-              <h3 className="text-xl font-semibold mb-2">
-                {isProcessing ? 'Processing Files...' : 'Drop files here or click to browse'}
-              </h3>
-              
-              {isProcessing ? (
-                <div className="space-y-2">
-                  <p className="text-gray-600">{processingState.message}</p>
-                  <div className="progress-bar max-w-xs mx-auto">
-                    <div 
-                      className="progress-bar-fill"
-                      style={{ width: `${processingState.progress}%` }}
-                    />
-                  </div>
-                </div>
-              ) : (
-                <div className="space-y-2">
-                  <p className="text-gray-600">
-                    Upload PNG, JPG, or WebP images of your hand-drawn glyphs
-                  </p>
-                  <p className="text-sm text-gray-500">
-                    Maximum {APP_CONFIG.MAX_FILES_PER_UPLOAD} files, 
-                    {Math.round(APP_CONFIG.MAX_FILE_SIZE / 1024 / 1024)}MB each
-                  </p>
-                </div>
-              )}
-            </div>
-          </div>
-        </label>
-      </div>
-
-      {processingState.status === 'error' && (
-        <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg">
-          <p className="text-red-600 font-medium">Upload Error</p>
-          <p className="text-red-500 text-sm">{processingState.error}</p>
-        </div>
-      )}
+    <div
+      onDrop={handleDrop}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onClick={() => !isBusy && inputRef.current?.click()}
+      className={`file-dropzone ${isDragOver ? 'file-dropzone--active' : ''} ${isBusy ? 'file-dropzone--disabled' : ''}`}
+    >
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept={ACCEPTED_TYPES}
+        onChange={handleFileInput}
+        style={{ display: 'none' }}
+        disabled={isBusy}
+      />
 
-      {processingState.status === 'completed' && (
-        <div className="mt-4 p-4 bg-green-50 border border-green-200 rounded-lg">
-          <p className="text-green-600 font-medium">✅ {processingState.message}</p>
-        </div>
-      )}
+      <p className="file-dropzone-title">
+        {isReading ? 'Reading files...' : 'Drop a folder, a .zip or many images here, or click to browse'}
+      </p>
+      <p className="file-dropzone-hint">
+        Files are matched to characters by name: A.png, U+0041.png, uni0041.png, uppercase_A.png, ampersand.png.
+        PNG, JPG, WebP or SVG, up to {APP_CONFIG.MAX_FILES_PER_UPLOAD} loose files (any number in a .zip) of {Math.round(APP_CONFIG.MAX_FILE_SIZE / 1024 / 1024)}MB each.
+      </p>
+      {error && <p className="file-dropzone-error">{error}</p>}
     </div>
   );
 }
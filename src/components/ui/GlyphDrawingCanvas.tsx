@@ -0,0 +1,167 @@
+import React, { useState, useRef, useMemo, useCallback, useId } from 'react';
+import type { FontMetrics } from '@/services/font-generation/FontMetricsCalculator';
+import { DrawingStroke, StrokePoint, getStrokeOutline, outlineToPath } from '@/utils/strokeOutline';
+
+export type DrawingTool = DrawingStroke['mode'];
+
+export interface GlyphDrawingCanvasProps {
+  strokes: DrawingStroke[];
+  onStrokeComplete: (stroke: DrawingStroke) => void;
+  tool: DrawingTool;
+  brushSize: number; // Path coordinates
+  basePath?: string; // Existing outline the strokes draw onto
+  guides?: FontMetrics; // Metrics in path coordinates, as the path editor shows them
+  showGuides?: boolean;
+  className?: string;
+}
+
+const VIEWBOX_SIZE = 200;
+
+const GUIDE_LINES: { key: 'ascender' | 'capHeight' | 'xHeight' | 'descender'; label: string; className: string }[] = [
+  { key: 'ascender', label: 'Ascender', className: 'path-editor-metric-ascender' },
+  { key: 'capHeight', label: 'Cap Height', className: 'path-editor-metric-capheight' },
+  { key: 'xHeight', label: 'X-Height', className: 'path-editor-metric-xheight' },
+  { key: 'descender', label: 'Descender', className: 'path-editor-metric-descender' }
+];
+
+/**
+ * Freehand drawing surface in the glyph's 200x200 path coordinates. Pen
+ * pressure sets the stroke width; eraser strokes mask out everything drawn
+ * before them, matching how the strokes are combined into the outline.
+ */
+export function GlyphDrawingCanvas({
+  strokes,
+  onStrokeComplete,
+  tool,
+  brushSize,
+  basePath,
+  guides,
+  showGuides = true,
+  className = ''
+}: GlyphDrawingCanvasProps) {
+  const [activeStroke, setActiveStroke] = useState<DrawingStroke | null>(null);
+  const [cursor, setCursor] = useState<StrokePoint | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const activePointerRef = useRef<number | null>(null);
+  // Pointer events can outpace renders, so the stroke being drawn lives in a ref
+  const activeStrokeRef = useRef<DrawingStroke | null>(null);
+  const maskPrefix = useId().replace(/:/g, '');
+
+  // Pointer position in path coordinates, with pressure only from pens
+  const toStrokePoint = useCallback((event: React.PointerEvent | PointerEvent): StrokePoint | null => {
+    const matrix = svgRef.current?.getScreenCTM();
+    if (!matrix) return null;
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    return {
+      x: point.x,
+      y: point.y,
+      pressure: event.pointerType === 'pen' ? event.pressure : 1
+    };
+  }, []);
+
+  const handlePointerDown = useCallback((event: React.PointerEvent<SVGSVGElement>) => {
+    if (activePointerRef.current !== null || (event.pointerType === 'mouse' && event.button !== 0)) return;
+    const point = toStrokePoint(event);
+    if (!point) return;
+
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    activePointerRef.current = event.pointerId;
+    activeStrokeRef.current = { points: [point], size: brushSize, mode: tool };
+    setActiveStroke(activeStrokeRef.current);
+  }, [toStrokePoint, brushSize, tool]);
+
+  const handlePointerMove = useCallback((event: React.PointerEvent<SVGSVGElement>) => {
+    const point = toStrokePoint(event);
+    setCursor(point);
+    const stroke = activeStrokeRef.current;
+    if (!point || !stroke || event.pointerId !== activePointerRef.current) return;
+
+    // Coalesced events keep fast strokes smooth
+    const events = event.nativeEvent.getCoalescedEvents?.() ?? [];
+    const points = events.length > 0
+      ? events.map(toStrokePoint).filter((p): p is StrokePoint => p !== null)
+      : [point];
+    activeStrokeRef.current = { ...stroke, points: [...stroke.points, ...points] };
+    setActiveStroke(activeStrokeRef.current);
+  }, [toStrokePoint]);
+
+  const handlePointerUp = useCallback((event: React.PointerEvent<SVGSVGElement>) => {
+    if (event.pointerId !== activePointerRef.current) return;
+    activePointerRef.current = null;
+    if (activeStrokeRef.current) {
+      onStrokeComplete(activeStrokeRef.current);
+    }
+    activeStrokeRef.current = null;
+    setActiveStroke(null);
+  }, [onStrokeComplete]);
+
+  const strokePaths = useMemo(
+    () => strokes.map(stroke => outlineToPath(getStrokeOutline(stroke))),
+    [strokes]
+  );
+
+  // Each eraser stroke masks the drawing so far; later strokes sit on top of it
+  const renderDrawing = () => {
+    const allStrokes = activeStroke ? [...strokes, activeStroke] : strokes;
+    const allPaths = activeStroke ? [...strokePaths, outlineToPath(getStrokeOutline(activeStroke))] : strokePaths;
+
+    let drawing: React.ReactNode = basePath ? <path d={basePath} /> : null;
+    allStrokes.forEach((stroke, index) => {
+      if (stroke.mode === 'draw') {
+        drawing = <>{drawing}<path d={allPaths[index]} /></>;
+        return;
+      }
+      const maskId = `${maskPrefix}-erase-${index}`;
+      drawing = (
+        <>
+          <mask id={maskId} maskUnits="userSpaceOnUse" x="0" y="0" width={VIEWBOX_SIZE} height={VIEWBOX_SIZE}>
+            <rect x="0" y="0" width={VIEWBOX_SIZE} height={VIEWBOX_SIZE} fill="white" />
+            <path d={allPaths[index]} fill="black" />
+          </mask>
+          <g mask={`url(#${maskId})`}>{drawing}</g>
+        </>
+      );
+    });
+
+    return <g className="glyph-drawing-ink">{drawing}</g>;
+  };
+
+  const renderGuides = () => {
+    if (!guides || !showGuides) return null;
+    return (
+      <g className="glyph-drawing-guides">
+        <line x1="0" y1={guides.baseline} x2={VIEWBOX_SIZE} y2={guides.baseline} className="path-editor-metric-baseline" />
+        <text x="2" y={guides.baseline - 1.5} className="glyph-drawing-guide-label">Baseline</text>
+        {GUIDE_LINES.map(({ key, label, className: lineClass }) => {
+          const y = guides.baseline - guides[key];
+          return (
+            <React.Fragment key={key}>
+              <line x1="0" y1={y} x2={VIEWBOX_SIZE} y2={y} className={lineClass} strokeDasharray="4 2" />
+              <text x="2" y={y - 1.5} className="glyph-drawing-guide-label">{label}</text>
+            </React.Fragment>
+          );
+        })}
+      </g>
+    );
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${VIEWBOX_SIZE} ${VIEWBOX_SIZE}`}
+      className={`glyph-drawing-canvas ${tool === 'erase' ? 'glyph-drawing-canvas--erase' : ''} ${className}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onPointerLeave={() => setCursor(null)}
+    >
+      {renderGuides()}
+      {renderDrawing()}
+      {cursor && (
+        <circle cx={cursor.x} cy={cursor.y} r={brushSize / 2} className="glyph-drawing-cursor" />
+      )}
+    </svg>
+  );
+}
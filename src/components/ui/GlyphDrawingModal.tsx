@@ -0,0 +1,355 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { Modal } from './modal/Modal';
+import { ModalHeader } from './modal/ModalHeader';
+import { ModalBody } from './modal/ModalBody';
+import { ModalFooter } from './modal/ModalFooter';
+import { GlyphDrawingCanvas, DrawingTool } from './GlyphDrawingCanvas';
+import type { FontMetrics } from '../../services/font-generation/FontMetricsCalculator';
+import { CoordinateTransformer } from '../../services/font-generation/CoordinateTransformer';
+import { DrawingStroke, strokesToPath } from '../../utils/strokeOutline';
+import type { GlyphVerticalFrame, PositioningState } from '../../types';
+
+// One undo step: the strokes, and whether the glyph's existing outline is still drawn on
+interface DrawingSnapshot {
+    strokes: DrawingStroke[];
+    keepBase: boolean;
+}
+
+export interface GlyphDrawingModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    initialPath?: string; // Existing outline to draw onto
+    initialFrame?: GlyphVerticalFrame;
+    fontMetrics: FontMetrics; // Font-level metrics in font units
+    onSave: (path: string, verticalFrame: GlyphVerticalFrame) => void | Promise<void>;
+    character?: string;
+    unicode?: string;
+}
+
+export function GlyphDrawingModal({
+    isOpen,
+    onClose,
+    initialPath = '',
+    initialFrame,
+    fontMetrics,
+    onSave,
+    character,
+    unicode
+}: GlyphDrawingModalProps) {
+    const frame = initialFrame || CoordinateTransformer.DEFAULT_FRAME;
+    const [drawing, setDrawing] = useState<DrawingSnapshot>({ strokes: [], keepBase: true });
+    const [undoStack, setUndoStack] = useState<DrawingSnapshot[]>([]);
+    const [redoStack, setRedoStack] = useState<DrawingSnapshot[]>([]);
+    const [tool, setTool] = useState<DrawingTool>('draw');
+    // Brush width in font units, so strokes keep their weight across glyphs
+    const [brushSize, setBrushSize] = useState(() => Math.round(fontMetrics.capHeight * 0.12));
+    const [positioningState, setPositioningState] = useState<PositioningState>({
+        showMetricGuides: true,
+        snapToMetrics: false,
+        metricSnapThreshold: 5,
+        pathOffset: { x: 0, y: 0 }
+    });
+    const [isSaving, setIsSaving] = useState(false);
+    const [saveError, setSaveError] = useState<string | null>(null);
+
+    // Start a fresh drawing each time the modal opens
+    useEffect(() => {
+        if (isOpen) {
+            setDrawing({ strokes: [], keepBase: true });
+            setUndoStack([]);
+            setRedoStack([]);
+            setSaveError(null);
+        }
+    }, [isOpen]);
+
+    const guides = useMemo(() => CoordinateTransformer.toFrameMetrics(fontMetrics, frame), [fontMetrics, frame]);
+    const pathUnitsPerFontUnit = fontMetrics.capHeight > 0 ? (frame.baseline - frame.capHeight) / fontMetrics.capHeight : 0;
+    const maxBrushSize = Math.max(10, Math.round(fontMetrics.capHeight / 2));
+
+    const hasChanges = drawing.strokes.length > 0 || (!drawing.keepBase && Boolean(initialPath));
+    const hasInk = drawing.strokes.some(stroke => stroke.mode === 'draw') || (drawing.keepBase && Boolean(initialPath));
+
+    const applyChange = useCallback((next: DrawingSnapshot) => {
+        setUndoStack(prev => [...prev, drawing]);
+        setRedoStack([]);
+        setDrawing(next);
+        setSaveError(null);
+    }, [drawing]);
+
+    const handleStrokeComplete = useCallback((stroke: DrawingStroke) => {
+        applyChange({ ...drawing, strokes: [...drawing.strokes, stroke] });
+    }, [applyChange, drawing]);
+
+    const handleUndo = useCallback(() => {
+        if (undoStack.length === 0) return;
+        setRedoStack(prev => [...prev, drawing]);
+        setDrawing(undoStack[undoStack.length - 1]);
+        setUndoStack(prev => prev.slice(0, -1));
+    }, [undoStack, drawing]);
+
+    const handleRedo = useCallback(() => {
+        if (redoStack.length === 0) return;
+        setUndoStack(prev => [...prev, drawing]);
+        setDrawing(redoStack[redoStack.length - 1]);
+        setRedoStack(prev => prev.slice(0, -1));
+    }, [redoStack, drawing]);
+
+    const handleClear = useCallback(() => {
+        applyChange({ strokes: [], keepBase: false });
+    }, [applyChange]);
+
+    // Handle save: expand the strokes into the glyph outline
+    const handleSave = useCallback(async () => {
+        if (!hasChanges || isSaving) return;
+        setIsSaving(true);
+        setSaveError(null);
+        try {
+            const path = await strokesToPath(drawing.strokes, drawing.keepBase ? initialPath : '');
+            if (!path) {
+                throw new Error('Nothing left to save: the drawing is empty');
+            }
+            console.log(`✏️ Expanded ${drawing.strokes.length} strokes into the outline for ${unicode}`);
+            await onSave(path, frame);
+            onClose();
+        } catch (error) {
+            console.error('❌ Failed to save drawing:', error);
+            setSaveError(error instanceof Error ? error.message : 'Failed to save the drawing');
+        } finally {
+            setIsSaving(false);
+        }
+    }, [hasChanges, isSaving, drawing, initialPath, unicode, onSave, frame, onClose]);
+
+    // Handle discard changes
+    const handleDiscard = useCallback(() => {
+        if (hasChanges) {
+            const confirmed = window.confirm(
+                'You have unsaved strokes. Are you sure you want to discard them?'
+            );
+            if (!confirmed) return;
+        }
+        onClose();
+    }, [hasChanges, onClose]);
+
+    // Handle keyboard shortcuts
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (!isOpen || event.target instanceof HTMLInputElement) return;
+            const withModifier = event.ctrlKey || event.metaKey;
+
+            if (withModifier && event.key.toLowerCase() === 'z') {
+                event.preventDefault();
+                if (event.shiftKey) {
+                    handleRedo();
+                } else {
+                    handleUndo();
+                }
+            } else if (withModifier && event.key === 'y') {
+                event.preventDefault();
+                handleRedo();
+            } else if (withModifier && event.key === 's') {
+                event.preventDefault();
+                handleSave();
+            } else if (event.key === 'Escape') {
+                event.preventDefault();
+                handleDiscard();
+            } else if (!withModifier && event.key === 'b') {
+                setTool('draw');
+            } else if (!withModifier && event.key === 'e') {
+                setTool('erase');
+            }
+        };
+
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [isOpen, handleUndo, handleRedo, handleSave, handleDiscard]);
+
+    return (
+        <Modal
+            isOpen={isOpen}
+            onClose={handleDiscard}
+            size="xl"
+            className="path-editor-modal"
+            closeOnOverlayClick={false}
+        >
+            <ModalHeader className="path-editor-modal-header">
+                <div className="path-editor-modal-header-content">
+                    <div className="path-editor-character-info">
+                        <h2 className="path-editor-character-title">
+                            Draw: {character || 'Unknown Character'}
+                        </h2>
+                        <div className="path-editor-character-details">
+                            <span className="path-editor-unicode">Unicode: {unicode}</span>
+                            {hasChanges && (
+                                <span className="path-editor-unsaved-indicator">• Unsaved strokes</span>
+                            )}
+                        </div>
+                    </div>
+                </div>
+                <div className="path-editor-modal-actions">
+                    <button
+                        onClick={handleDiscard}
+                        className="btn btn-secondary btn-sm"
+                        title="Discard strokes and close (Esc)"
+                    >
+                        {hasChanges ? 'Cancel' : 'Close'}
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        className="btn btn-primary btn-sm"
+                        disabled={!hasChanges || !hasInk || isSaving}
+                        title="Save the drawing as this glyph's outline (Ctrl+S)"
+                    >
+                        {isSaving ? 'Saving...' : 'Save Drawing'}
+                    </button>
+                </div>
+            </ModalHeader>
+
+            <ModalBody className="path-editor-modal-body">
+                <div className="path-editor-layout">
+                    {/* Sidebar with tools */}
+                    <div className="path-editor-sidebar">
+                        <div className="path-editor-sidebar-section">
+                            <h3 className="path-editor-sidebar-title">Tool</h3>
+                            <div className="glyph-drawing-tools">
+                                <button
+                                    onClick={() => setTool('draw')}
+                                    className={`btn btn-sm ${tool === 'draw' ? 'btn-primary' : 'btn-secondary'}`}
+                                    title="Brush (B)"
+                                >
+                                    Brush
+                                </button>
+                                <button
+                                    onClick={() => setTool('erase')}
+                                    className={`btn btn-sm ${tool === 'erase' ? 'btn-primary' : 'btn-secondary'}`}
+                                    title="Eraser (E)"
+                                >
+                                    Eraser
+                                </button>
+                            </div>
+                            <label className="path-editor-metric-item">
+                                <span className="path-editor-metric-label">Size:</span>
+                                <input
+                                    type="number"
+                                    min={10}
+                                    max={maxBrushSize}
+                                    step={5}
+                                    value={brushSize}
+                                    onChange={(e) => {
+                                        const value = parseInt(e.target.value, 10);
+                                        if (Number.isFinite(value) && value > 0) setBrushSize(value);
+                                    }}
+                                    className="path-editor-metric-input"
+                                />
+                            </label>
+                            <input
+                                type="range"
+                                min={10}
+                                max={maxBrushSize}
+                                step={5}
+                                value={brushSize}
+                                onChange={(e) => setBrushSize(parseInt(e.target.value, 10))}
+                                className="glyph-drawing-size-slider"
+                            />
+                            <p className="form-field-help">
+                                Stroke width in font units at full pen pressure. Lighter pressure draws thinner; mouse and touch draw at full width.
+                            </p>
+                        </div>
+
+                        <div className="path-editor-sidebar-section">
+                            <h3 className="path-editor-sidebar-title">History</h3>
+                            <div className="glyph-drawing-tools">
+                                <button
+                                    onClick={handleUndo}
+                                    disabled={undoStack.length === 0}
+                                    className="btn btn-secondary btn-sm"
+                                    title="Undo (Ctrl+Z)"
+                                >
+                                    Undo
+                                </button>
+                                <button
+                                    onClick={handleRedo}
+                                    disabled={redoStack.length === 0}
+                                    className="btn btn-secondary btn-sm"
+                                    title="Redo (Ctrl+Shift+Z)"
+                                >
+                                    Redo
+                                </button>
+                                <button
+                                    onClick={handleClear}
+                                    disabled={drawing.strokes.length === 0 && (!drawing.keepBase || !initialPath)}
+                                    className="btn btn-secondary btn-sm"
+                                    title="Start from an empty canvas"
+                                >
+                                    Clear
+                                </button>
+                            </div>
+                            {initialPath && (
+                                <p className="form-field-help">
+                                    {drawing.keepBase
+                                        ? 'Drawing onto the current outline; the eraser cuts into it too.'
+                                        : 'The current outline is cleared and will be replaced.'}
+                                </p>
+                            )}
+                        </div>
+
+                        <div className="path-editor-sidebar-section">
+                            <h3 className="path-editor-sidebar-title">Guides</h3>
+                            <label className="path-editor-metric-item">
+                                <span className="path-editor-metric-label">Show metric guides</span>
+                                <input
+                                    type="checkbox"
+                                    checked={positioningState.showMetricGuides}
+                                    onChange={(e) => setPositioningState(prev => ({ ...prev, showMetricGuides: e.target.checked }))}
+                                />
+                            </label>
+                            <p className="form-field-help">
+                                Lines from this glyph's frame ({frame.source === 'default' ? 'default' : 'its own'}) and the font's metrics.
+                            </p>
+                        </div>
+
+                        {saveError && (
+                            <p className="form-field-help text-red-600">{saveError}</p>
+                        )}
+                    </div>
+
+                    {/* Drawing surface */}
+                    <div className="path-editor-canvas-container">
+                        <GlyphDrawingCanvas
+                            strokes={drawing.strokes}
+                            onStrokeComplete={handleStrokeComplete}
+                            tool={tool}
+                            brushSize={brushSize * pathUnitsPerFontUnit}
+                            basePath={drawing.keepBase ? initialPath : undefined}
+                            guides={guides}
+                            showGuides={positioningState.showMetricGuides}
+                            className="path-editor-canvas"
+                        />
+                    </div>
+                </div>
+            </ModalBody>
+
+            <ModalFooter className="path-editor-modal-footer">
+                <div className="path-editor-footer-content">
+                    <div className="path-editor-keyboard-hints">
+                        <span className="path-editor-hint">B: Brush • E: Eraser • Ctrl+Z: Undo • Ctrl+S: Save • Esc: Close</span>
+                    </div>
+                    <div className="path-editor-footer-actions">
+                        <button
+                            onClick={handleDiscard}
+                            className="btn btn-secondary"
+                        >
+                            {hasChanges ? 'Discard Strokes' : 'Close'}
+                        </button>
+                        <button
+                            onClick={handleSave}
+                            className="btn btn-primary"
+                            disabled={!hasChanges || !hasInk || isSaving}
+                        >
+                            Save Drawing
+                        </button>
+                    </div>
+                </div>
+            </ModalFooter>
+        </Modal>
+    );
+}
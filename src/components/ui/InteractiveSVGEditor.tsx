@@ -1,7 +1,13 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import type { SVGPathNode, EditablePathData, PathEditingState, PositioningState } from '@/types';
+import type { SVGPathNode, EditablePathData, PathEditingState, PositioningState, GlyphAnchor } from '@/types';
 import { SVGPathEditor, findClosestNode } from '@/utils/svgPathEditor';
 
+// Glyph origin and advance edge, as x positions in path coordinates
+export interface SidebearingGuides {
+  left: number;
+  right: number;
+}
+
 export interface InteractiveSVGEditorProps {
   glyphId: string;
   initialPath: string;
@@ -17,6 +23,10 @@ export interface InteractiveSVGEditorProps {
     capHeight: number;
     baseline: number;
   };
+  sidebearingGuides?: SidebearingGuides;
+  onSidebearingGuidesChange?: (guides: SidebearingGuides) => void;
+  anchors?: GlyphAnchor[];
+  onAnchorsChange?: (anchors: GlyphAnchor[]) => void;
 }
 
 export function InteractiveSVGEditor({
@@ -27,6 +37,10 @@ export function InteractiveSVGEditor({
   readOnly = false,
   className = "",
   fontMetrics,
+  sidebearingGuides,
+  onSidebearingGuidesChange,
+  anchors,
+  onAnchorsChange,
 }: InteractiveSVGEditorProps) {
   // State management
   const [editableData, setEditableData] = useState<EditablePathData>(() => {
@@ -77,6 +91,8 @@ export function InteractiveSVGEditor({
   const containerRef = useRef<HTMLDivElement>(null);
   const isDraggingRef = useRef(false);
   const isPanningRef = useRef(false);
+  const draggingGuideRef = useRef<keyof SidebearingGuides | null>(null);
+  const draggingAnchorRef = useRef<GlyphAnchor['name'] | null>(null);
   const lastPanPosition = useRef({ x: 0, y: 0 });
   const lastNotifiedPath = useRef<string>('');
   const onPathChangedRef = useRef(onPathChanged);
@@ -120,7 +136,8 @@ export function InteractiveSVGEditor({
     ];
 
     for (const metric of metrics) {
-      const metricY = fontMetrics.unitsPerEm - metric;
+      // Metrics are heights above the baseline; SVG Y grows downward
+      const metricY = fontMetrics.baseline - metric;
       if (Math.abs(y - metricY) < threshold) {
         console.log(`🎯 Snapped to metric: ${metric} at Y=${metricY}`);
         return metricY;
@@ -284,6 +301,50 @@ export function InteractiveSVGEditor({
     }
   }, []);
 
+  // Start dragging a sidebearing guide
+  const handleGuideMouseDown = useCallback((event: React.MouseEvent, side: keyof SidebearingGuides) => {
+    if (readOnly || !onSidebearingGuidesChange) return;
+    event.preventDefault();
+    event.stopPropagation();
+    draggingGuideRef.current = side;
+  }, [readOnly, onSidebearingGuidesChange]);
+
+  // Move the dragged sidebearing guide, keeping the origin left of the advance edge
+  const handleGuideDrag = useCallback((event: React.MouseEvent) => {
+    const side = draggingGuideRef.current;
+    if (!side || !sidebearingGuides || !onSidebearingGuidesChange) return;
+
+    const { x } = screenToSVG(event.clientX, event.clientY);
+    onSidebearingGuidesChange(side === 'left'
+      ? { ...sidebearingGuides, left: Math.min(x, sidebearingGuides.right) }
+      : { ...sidebearingGuides, right: Math.max(x, sidebearingGuides.left) });
+  }, [sidebearingGuides, onSidebearingGuidesChange, screenToSVG]);
+
+  const handleGuideDragEnd = useCallback(() => {
+    draggingGuideRef.current = null;
+  }, []);
+
+  // Start dragging an anchor
+  const handleAnchorMouseDown = useCallback((event: React.MouseEvent, name: GlyphAnchor['name']) => {
+    if (readOnly || !onAnchorsChange) return;
+    event.preventDefault();
+    event.stopPropagation();
+    draggingAnchorRef.current = name;
+  }, [readOnly, onAnchorsChange]);
+
+  // Move the dragged anchor to the pointer
+  const handleAnchorDrag = useCallback((event: React.MouseEvent) => {
+    const name = draggingAnchorRef.current;
+    if (!name || !anchors || !onAnchorsChange) return;
+
+    const { x, y } = screenToSVG(event.clientX, event.clientY);
+    onAnchorsChange(anchors.map(anchor => anchor.name === name ? { ...anchor, x, y } : anchor));
+  }, [anchors, onAnchorsChange, screenToSVG]);
+
+  const handleAnchorDragEnd = useCallback(() => {
+    draggingAnchorRef.current = null;
+  }, []);
+
   // Force stop all dragging (emergency stop)
   const forceStopDragging = useCallback(() => {
     console.log('🛑 Force stopping all dragging');
@@ -652,6 +713,99 @@ export function InteractiveSVGEditor({
     );
   };
 
+  // Render draggable sidebearing guides at the glyph origin and advance edge
+  const renderSidebearingGuides = () => {
+    if (!sidebearingGuides) return null;
+
+    const strokeWidth = Math.max(2 / zoomState.scale, 0.5);
+    const hitWidth = 10 / zoomState.scale;
+    const fontSize = Math.max(10 / zoomState.scale, 6);
+    const top = -viewBox.height;
+    const bottom = viewBox.height * 2;
+    const draggable = !readOnly && !!onSidebearingGuidesChange;
+
+    return (
+      <g className="sidebearing-guides">
+        {/* Advance width zone */}
+        <rect
+          x={sidebearingGuides.left} y={top}
+          width={Math.max(0, sidebearingGuides.right - sidebearingGuides.left)} height={bottom - top}
+          fill="#dc3545" fillOpacity="0.04"
+          style={{ pointerEvents: "none" }}
+        />
+        {(['left', 'right'] as const).map(side => (
+          <g key={side}>
+            <line
+              x1={sidebearingGuides[side]} y1={top}
+              x2={sidebearingGuides[side]} y2={bottom}
+              stroke="#dc3545" strokeWidth={strokeWidth}
+              strokeDasharray={`${6 / zoomState.scale},${3 / zoomState.scale}`}
+              opacity={0.8}
+              style={{ pointerEvents: "none" }}
+            />
+            {draggable && (
+              <line
+                x1={sidebearingGuides[side]} y1={top}
+                x2={sidebearingGuides[side]} y2={bottom}
+                stroke="transparent" strokeWidth={hitWidth}
+                style={{ cursor: "ew-resize", pointerEvents: "stroke" }}
+                data-interactive="true"
+                onMouseDown={(e) => handleGuideMouseDown(e, side)}
+              />
+            )}
+            <text
+              x={sidebearingGuides[side] + (side === 'left' ? 3 : -3) / zoomState.scale}
+              y={viewBox.height - 4 / zoomState.scale}
+              textAnchor={side === 'left' ? "start" : "end"}
+              fontSize={fontSize} fill="#dc3545" fontWeight="600"
+              style={{ pointerEvents: "none" }}
+            >
+              {side === 'left' ? 'LSB' : 'RSB'}
+            </text>
+          </g>
+        ))}
+      </g>
+    );
+  };
+
+  // Render draggable anchors; a mark's own attachment anchors ("_top") are drawn hollow
+  const renderAnchors = () => {
+    if (!anchors || anchors.length === 0) return null;
+
+    const size = 5 / zoomState.scale;
+    const strokeWidth = Math.max(1.5 / zoomState.scale, 0.5);
+    const fontSize = Math.max(10 / zoomState.scale, 6);
+    const draggable = !readOnly && !!onAnchorsChange;
+
+    return (
+      <g className="glyph-anchors">
+        {anchors.map(anchor => {
+          const isAttachment = anchor.name.startsWith('_');
+          return (
+            <g key={anchor.name}>
+              <path
+                d={`M ${anchor.x} ${anchor.y - size} L ${anchor.x + size} ${anchor.y} L ${anchor.x} ${anchor.y + size} L ${anchor.x - size} ${anchor.y} Z`}
+                fill={isAttachment ? "white" : "#fd7e14"}
+                stroke="#fd7e14" strokeWidth={strokeWidth}
+                style={{ cursor: draggable ? "move" : "default", pointerEvents: draggable ? "all" : "none" }}
+                data-interactive="true"
+                onMouseDown={(e) => handleAnchorMouseDown(e, anchor.name)}
+              />
+              <text
+                x={anchor.x + size * 1.4}
+                y={anchor.y - size * 0.6}
+                fontSize={fontSize} fill="#fd7e14" fontWeight="600"
+                style={{ pointerEvents: "none" }}
+              >
+                {anchor.name}
+              </text>
+            </g>
+          );
+        })}
+      </g>
+    );
+  };
+
   // Render metric labels
   const renderMetricLabels = () => {
     if (!fontMetrics || !positioningState.showMetricGuides) return null;
@@ -1059,6 +1213,8 @@ export function InteractiveSVGEditor({
             cursor: isPanningRef.current ? "grabbing" : editingState.editMode === "add" ? "crosshair" : "grab"
           }}
           onMouseMove={(e) => {
+            handleGuideDrag(e);
+            handleAnchorDrag(e);
             handleMouseMove(e);
             handlePanMove(e);
             // Only handle path drag if we're actively dragging a path
@@ -1067,10 +1223,14 @@ export function InteractiveSVGEditor({
             }
           }}
           onMouseUp={() => {
+            handleGuideDragEnd();
+            handleAnchorDragEnd();
             handleMouseUp();
             handlePanEnd();
           }}
           onMouseLeave={() => {
+            handleGuideDragEnd();
+            handleAnchorDragEnd();
             handleMouseUp();
             handlePanEnd();
           }}
@@ -1108,6 +1268,7 @@ export function InteractiveSVGEditor({
             {/* Font metric guides */}
             {renderMetricGuides()}
             {renderMetricLabels()}
+            {renderSidebearingGuides()}
 
             {/* Main path */}
             <path
@@ -1144,6 +1305,8 @@ export function InteractiveSVGEditor({
 
             {/* Node handles */}
             {!readOnly && editableData.nodes.map((node, index) => renderNodeHandle(node, index))}
+
+            {renderAnchors()}
           </g>
         </svg>
       </div>
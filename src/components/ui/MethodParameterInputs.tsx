@@ -0,0 +1,59 @@
+import React from 'react';
+import type { VectorizationMethod } from '../../services/vectorization';
+import {
+  MethodParameterValue,
+  MethodParameterValues,
+  getVectorizationMethod
+} from '../../utils/vectorizationMethods';
+
+interface MethodParameterInputsProps {
+  method: VectorizationMethod;
+  values: MethodParameterValues;
+  onChange: (values: MethodParameterValues) => void;
+}
+
+// Inputs for a registered method's parameters, built from its schema; an empty
+// number leaves the choice to the method
+export const MethodParameterInputs: React.FC<MethodParameterInputsProps> = ({ method, values, onChange }) => {
+  return (
+    <>
+      {getVectorizationMethod(method)?.parameters.map(parameter => {
+        const title = parameter.unit ? `${parameter.label}: ${parameter.description} (${parameter.unit})` : `${parameter.label}: ${parameter.description}`;
+        const value = values[parameter.key];
+        const setValue = (next: MethodParameterValue | undefined) => {
+          onChange({ ...values, [parameter.key]: next });
+        };
+
+        return parameter.type === 'select' ? (
+          <select
+            key={parameter.key}
+            value={value ?? parameter.defaultValue ?? ''}
+            onChange={(e) => setValue(e.target.value)}
+            className="form-select batch-vectorization-quality"
+            title={title}
+          >
+            {parameter.options?.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        ) : (
+          <input
+            key={parameter.key}
+            type="number"
+            min={parameter.min}
+            max={parameter.max}
+            step={parameter.step}
+            value={value ?? ''}
+            placeholder={parameter.placeholder}
+            onChange={(e) => {
+              const number = parseFloat(e.target.value);
+              setValue(number > 0 ? number : undefined);
+            }}
+            className="form-input batch-vectorization-number"
+            title={title}
+          />
+        );
+      })}
+    </>
+  );
+};
@@ -1,20 +1,41 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import { Modal } from './modal/Modal';
 import { ModalHeader } from './modal/ModalHeader';
 import { ModalBody } from './modal/ModalBody';
 import { ModalFooter } from './modal/ModalFooter';
-import { InteractiveSVGEditor } from './InteractiveSVGEditor';
+import { InteractiveSVGEditor, SidebearingGuides } from './InteractiveSVGEditor';
 import type { FontMetrics } from '../../services/font-generation/FontMetricsCalculator';
+import { CoordinateTransformer } from '../../services/font-generation/CoordinateTransformer';
+import { GlyphConverter, GlyphSidebearings } from '../../services/font-generation/GlyphConverter';
+import { GlyphComposer } from '../../services/font-generation/GlyphComposer';
+import type { GlyphVerticalFrame, GlyphMetrics, GlyphAnchor } from '../../types';
+
+type FrameLine = 'baseline' | 'xHeight' | 'capHeight';
+
+const FRAME_LINES: { key: FrameLine; label: string }[] = [
+    { key: 'capHeight', label: 'Cap Height' },
+    { key: 'xHeight', label: 'X-Height' },
+    { key: 'baseline', label: 'Baseline' }
+];
 
 export interface PathEditorModalProps {
     isOpen: boolean;
     onClose: () => void;
     glyphId: string;
     initialPath: string;
-    fontMetrics: FontMetrics;
-    onPathChanged: (newPath: string) => void;
+    initialFrame?: GlyphVerticalFrame;
+    initialGlyphMetrics?: GlyphMetrics; // Custom sidebearings, if the glyph has any
+    initialAnchors?: GlyphAnchor[]; // Anchors the user placed; the others use defaults
+    fontMetrics: FontMetrics; // Font-level metrics in font units
+    onPathChanged: (
+        newPath: string,
+        verticalFrame: GlyphVerticalFrame,
+        glyphMetrics?: GlyphMetrics,
+        anchors?: GlyphAnchor[]
+    ) => void;
     character?: string;
     unicode?: string;
+    onOpenDrawing?: () => void; // Switches to the freehand drawing canvas
 }
 
 export function PathEditorModal({
@@ -22,21 +43,121 @@ export function PathEditorModal({
     onClose,
     glyphId,
     initialPath,
+    initialFrame,
+    initialGlyphMetrics,
+    initialAnchors,
     fontMetrics,
     onPathChanged,
     character,
-    unicode
+    unicode,
+    onOpenDrawing
 }: PathEditorModalProps) {
     const [currentPath, setCurrentPath] = useState(initialPath);
+    const [frame, setFrame] = useState<GlyphVerticalFrame>(initialFrame || CoordinateTransformer.DEFAULT_FRAME);
+    // Undefined until the user sets custom spacing; generation then uses the defaults
+    const [sidebearings, setSidebearings] = useState<GlyphSidebearings | undefined>(initialGlyphMetrics);
+    const [placedAnchors, setPlacedAnchors] = useState<GlyphAnchor[] | undefined>(initialAnchors);
     const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
 
     // Reset state when modal opens with new glyph
     useEffect(() => {
         if (isOpen) {
             setCurrentPath(initialPath);
+            setFrame(initialFrame || CoordinateTransformer.DEFAULT_FRAME);
+            setSidebearings(initialGlyphMetrics);
+            setPlacedAnchors(initialAnchors);
             setHasUnsavedChanges(false);
         }
-    }, [isOpen, initialPath]);
+    }, [isOpen, initialPath, initialFrame, initialGlyphMetrics, initialAnchors]);
+
+    // Express the font metrics in editor coordinates, anchored to this glyph's frame
+    const editorMetrics = useMemo(
+        () => CoordinateTransformer.toFrameMetrics(fontMetrics, frame),
+        [frame, fontMetrics]
+    );
+
+    // Sidebearings are in font units; the editor works in path coordinates
+    const fontUnitsPerEditorUnit = frame.baseline > frame.capHeight
+        ? fontMetrics.capHeight / (frame.baseline - frame.capHeight)
+        : 0;
+    const pathBounds = useMemo(() => GlyphConverter.getSvgPathBounds(currentPath), [currentPath]);
+    const effectiveSidebearings = sidebearings || GlyphConverter.getDefaultSidebearings(fontMetrics.unitsPerEm);
+    const outlineWidth = pathBounds ? (pathBounds.xMax - pathBounds.xMin) * fontUnitsPerEditorUnit : 0;
+    const advanceWidth = Math.max(0, Math.round(
+        effectiveSidebearings.leftSideBearing + outlineWidth + effectiveSidebearings.rightSideBearing
+    ));
+
+    const sidebearingGuides = useMemo((): SidebearingGuides | undefined => {
+        if (!pathBounds || fontUnitsPerEditorUnit <= 0) return undefined;
+        return {
+            left: pathBounds.xMin - effectiveSidebearings.leftSideBearing / fontUnitsPerEditorUnit,
+            right: pathBounds.xMax + effectiveSidebearings.rightSideBearing / fontUnitsPerEditorUnit
+        };
+    }, [pathBounds, fontUnitsPerEditorUnit, effectiveSidebearings.leftSideBearing, effectiveSidebearings.rightSideBearing]);
+
+    // Anchors follow the outline and frame until the user moves them
+    const defaultAnchors = useMemo(
+        () => GlyphComposer.getDefaultPathAnchors(unicode || glyphId, currentPath, frame),
+        [unicode, glyphId, currentPath, frame]
+    );
+    const anchors = useMemo(
+        () => defaultAnchors.map(anchor => placedAnchors?.find(placed => placed.name === anchor.name) || anchor),
+        [defaultAnchors, placedAnchors]
+    );
+
+    const frameError = frame.capHeight >= frame.baseline
+        ? 'Cap height must be above the baseline'
+        : frame.xHeight >= frame.baseline
+            ? 'X-height must be above the baseline'
+            : null;
+
+    // Handle frame line edits from the sidebar
+    const handleFrameLineChange = useCallback((line: FrameLine, value: number) => {
+        if (!Number.isFinite(value)) return;
+        setFrame(prev => ({ ...prev, [line]: value, source: 'manual' }));
+        setHasUnsavedChanges(true);
+    }, []);
+
+    const handleResetFrame = useCallback(() => {
+        setFrame(initialFrame || CoordinateTransformer.DEFAULT_FRAME);
+        setHasUnsavedChanges(true);
+    }, [initialFrame]);
+
+    // Handle sidebearing guide drags from the editor
+    const handleSidebearingGuidesChange = useCallback((guides: SidebearingGuides) => {
+        if (!pathBounds || fontUnitsPerEditorUnit <= 0) return;
+        setSidebearings({
+            leftSideBearing: Math.round((pathBounds.xMin - guides.left) * fontUnitsPerEditorUnit),
+            rightSideBearing: Math.round((guides.right - pathBounds.xMax) * fontUnitsPerEditorUnit)
+        });
+        setHasUnsavedChanges(true);
+    }, [pathBounds, fontUnitsPerEditorUnit]);
+
+    // Handle sidebearing edits from the sidebar
+    const handleSidebearingChange = useCallback((field: keyof GlyphSidebearings, value: number) => {
+        if (!Number.isFinite(value)) return;
+        setSidebearings({ ...effectiveSidebearings, [field]: Math.round(value) });
+        setHasUnsavedChanges(true);
+    }, [effectiveSidebearings]);
+
+    const handleResetSpacing = useCallback(() => {
+        setSidebearings(undefined);
+        setHasUnsavedChanges(true);
+    }, []);
+
+    // Handle anchor drags from the editor; only moved anchors are kept as placed
+    const handleAnchorsChange = useCallback((updated: GlyphAnchor[]) => {
+        setPlacedAnchors(prev => updated.filter(anchor =>
+            prev?.some(placed => placed.name === anchor.name) ||
+            !defaultAnchors.some(fallback => fallback.name === anchor.name && fallback.x === anchor.x && fallback.y === anchor.y)
+        ));
+        setHasUnsavedChanges(true);
+    }, [defaultAnchors]);
+
+    const handleResetAnchors = useCallback(() => {
+        setPlacedAnchors(undefined);
+        setHasUnsavedChanges(true);
+    }, []);
 
     // Handle path changes from the editor
     const handlePathChange = useCallback((newPath: string) => {
@@ -46,12 +167,18 @@ export function PathEditorModal({
 
     // Handle save changes
     const handleSaveChanges = useCallback(() => {
+        if (frameError) return;
         if (hasUnsavedChanges) {
-            onPathChanged(currentPath);
+            onPathChanged(
+                currentPath,
+                frame,
+                sidebearings && { ...sidebearings, advanceWidth },
+                placedAnchors?.length ? placedAnchors : undefined
+            );
             setHasUnsavedChanges(false);
         }
         onClose();
-    }, [hasUnsavedChanges, currentPath, onPathChanged, onClose]);
+    }, [hasUnsavedChanges, currentPath, frame, sidebearings, advanceWidth, placedAnchors, frameError, onPathChanged, onClose]);
 
     // Handle discard changes
     const handleDiscardChanges = useCallback(() => {
@@ -62,9 +189,20 @@ export function PathEditorModal({
             if (!confirmed) return;
         }
         setCurrentPath(initialPath);
+        setFrame(initialFrame || CoordinateTransformer.DEFAULT_FRAME);
+        setSidebearings(initialGlyphMetrics);
+        setPlacedAnchors(initialAnchors);
         setHasUnsavedChanges(false);
         onClose();
-    }, [hasUnsavedChanges, initialPath, onClose]);
+    }, [hasUnsavedChanges, initialPath, initialFrame, initialGlyphMetrics, initialAnchors, onClose]);
+
+    // Handle switching to the drawing canvas; unsaved path edits are dropped
+    const handleOpenDrawing = useCallback(() => {
+        if (hasUnsavedChanges && !window.confirm('Discard your path edits and draw this glyph instead?')) {
+            return;
+        }
+        onOpenDrawing?.();
+    }, [hasUnsavedChanges, onOpenDrawing]);
 
     // Handle keyboard shortcuts
     useEffect(() => {
@@ -111,6 +249,15 @@ export function PathEditorModal({
                     </div>
                 </div>
                 <div className="path-editor-modal-actions">
+                    {onOpenDrawing && (
+                        <button
+                            onClick={handleOpenDrawing}
+                            className="btn btn-secondary btn-sm"
+                            title="Draw onto this glyph with a brush and eraser"
+                        >
+                            Draw
+                        </button>
+                    )}
                     <button
                         onClick={handleDiscardChanges}
                         className="btn btn-secondary btn-sm"
@@ -121,7 +268,7 @@ export function PathEditorModal({
                     <button
                         onClick={handleSaveChanges}
                         className="btn btn-primary btn-sm"
-                        disabled={!hasUnsavedChanges}
+                        disabled={!hasUnsavedChanges || !!frameError}
                         title="Save changes and close (Ctrl+S)"
                     >
                         Save Changes
@@ -131,32 +278,113 @@ export function PathEditorModal({
 
             <ModalBody className="path-editor-modal-body">
                 <div className="path-editor-layout">
-                    {/* Sidebar with controls - placeholder for now */}
+                    {/* Sidebar with controls */}
                     <div className="path-editor-sidebar">
                         <div className="path-editor-sidebar-section">
                             <h3 className="path-editor-sidebar-title">Font Metrics</h3>
                             <div className="path-editor-metrics-display">
-                                <div className="path-editor-metric-item">
-                                    <span className="path-editor-metric-label">Baseline:</span>
-                                    <span className="path-editor-metric-value">Y = 0</span>
-                                </div>
-                                <div className="path-editor-metric-item">
-                                    <span className="path-editor-metric-label">X-Height:</span>
-                                    <span className="path-editor-metric-value">Y = {fontMetrics.xHeight}</span>
-                                </div>
-                                <div className="path-editor-metric-item">
-                                    <span className="path-editor-metric-label">Cap Height:</span>
-                                    <span className="path-editor-metric-value">Y = {fontMetrics.capHeight}</span>
-                                </div>
+                                {FRAME_LINES.map(({ key, label }) => (
+                                    <label key={key} className="path-editor-metric-item">
+                                        <span className="path-editor-metric-label">{label}:</span>
+                                        <input
+                                            type="number"
+                                            step="0.5"
+                                            value={frame[key]}
+                                            onChange={(e) => handleFrameLineChange(key, parseFloat(e.target.value))}
+                                            className="path-editor-metric-input"
+                                        />
+                                    </label>
+                                ))}
                                 <div className="path-editor-metric-item">
                                     <span className="path-editor-metric-label">Ascender:</span>
-                                    <span className="path-editor-metric-value">Y = {fontMetrics.ascender}</span>
+                                    <span className="path-editor-metric-value">{fontMetrics.ascender}</span>
                                 </div>
                                 <div className="path-editor-metric-item">
                                     <span className="path-editor-metric-label">Descender:</span>
-                                    <span className="path-editor-metric-value">Y = {fontMetrics.descender}</span>
+                                    <span className="path-editor-metric-value">{fontMetrics.descender}</span>
                                 </div>
                             </div>
+                            <p className="form-field-help">
+                                Y positions of this glyph's guide lines in the editor ({frame.source === 'guides' ? 'from scan guides' : frame.source === 'manual' ? 'set manually' : frame.source === 'font' ? 'from the opened font' : 'default'}).
+                                The baseline lands on Y = 0 and the cap height on {fontMetrics.capHeight} units.
+                            </p>
+                            {frameError && (
+                                <p className="form-field-help text-red-600">{frameError}</p>
+                            )}
+                            <button
+                                onClick={handleResetFrame}
+                                className="btn btn-secondary btn-sm mt-2"
+                                title="Restore the frame this glyph was opened with"
+                            >
+                                Reset Frame
+                            </button>
+                        </div>
+
+                        <div className="path-editor-sidebar-section">
+                            <h3 className="path-editor-sidebar-title">Spacing</h3>
+                            <div className="path-editor-metrics-display">
+                                <label className="path-editor-metric-item">
+                                    <span className="path-editor-metric-label">Left Sidebearing:</span>
+                                    <input
+                                        type="number"
+                                        value={effectiveSidebearings.leftSideBearing}
+                                        onChange={(e) => handleSidebearingChange('leftSideBearing', parseFloat(e.target.value))}
+                                        className="path-editor-metric-input"
+                                    />
+                                </label>
+                                <label className="path-editor-metric-item">
+                                    <span className="path-editor-metric-label">Right Sidebearing:</span>
+                                    <input
+                                        type="number"
+                                        value={effectiveSidebearings.rightSideBearing}
+                                        onChange={(e) => handleSidebearingChange('rightSideBearing', parseFloat(e.target.value))}
+                                        className="path-editor-metric-input"
+                                    />
+                                </label>
+                                <div className="path-editor-metric-item">
+                                    <span className="path-editor-metric-label">Advance Width:</span>
+                                    <span className="path-editor-metric-value">{advanceWidth}</span>
+                                </div>
+                            </div>
+                            <p className="form-field-help">
+                                Font units ({sidebearings ? 'custom' : 'default'}). Drag the red LSB/RSB guides in the editor to adjust.
+                            </p>
+                            <button
+                                onClick={handleResetSpacing}
+                                className="btn btn-secondary btn-sm mt-2"
+                                disabled={!sidebearings}
+                                title="Use the default sidebearings for this glyph"
+                            >
+                                Reset Spacing
+                            </button>
+                        </div>
+
+                        <div className="path-editor-sidebar-section">
+                            <h3 className="path-editor-sidebar-title">Anchors</h3>
+                            <div className="path-editor-metrics-display">
+                                {anchors.map(anchor => (
+                                    <div key={anchor.name} className="path-editor-metric-item">
+                                        <span className="path-editor-metric-label">
+                                            {anchor.name}{placedAnchors?.some(placed => placed.name === anchor.name) ? '' : ' (default)'}:
+                                        </span>
+                                        <span className="path-editor-metric-value">
+                                            {Math.round(anchor.x)}, {Math.round(anchor.y)}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                            <p className="form-field-help">
+                                Where accents attach, in editor coordinates. Drag the orange markers to move them;
+                                hollow markers are the points this mark attaches by.
+                            </p>
+                            <button
+                                onClick={handleResetAnchors}
+                                className="btn btn-secondary btn-sm mt-2"
+                                disabled={!placedAnchors?.length}
+                                title="Place every anchor from the outline again"
+                            >
+                                Reset Anchors
+                            </button>
                         </div>
                     </div>
 
@@ -168,7 +396,11 @@ export function PathEditorModal({
                             onPathChanged={handlePathChange}
                             viewBox={{ width: 200, height: 200 }} // Match vectorization coordinate system
                             readOnly={false}
-                            fontMetrics={fontMetrics}
+                            fontMetrics={editorMetrics}
+                            sidebearingGuides={sidebearingGuides}
+                            onSidebearingGuidesChange={handleSidebearingGuidesChange}
+                            anchors={anchors}
+                            onAnchorsChange={handleAnchorsChange}
                             className="path-editor-canvas"
                         />
                     </div>
@@ -190,7 +422,7 @@ export function PathEditorModal({
                         <button
                             onClick={handleSaveChanges}
                             className="btn btn-primary"
-                            disabled={!hasUnsavedChanges}
+                            disabled={!hasUnsavedChanges || !!frameError}
                         >
                             Save Changes
                         </button>
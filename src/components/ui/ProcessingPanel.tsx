@@ -7,18 +7,20 @@ export function ProcessingPanel() {
   const uploadedFiles = useUploadedFiles();
   const processingState = useProcessingState();
   const [selectedQuality, setSelectedQuality] = useState<VectorizationQuality>('high');
+  const [searchProfiles, setSearchProfiles] = useState(false);
 
   const handleProcessAll = async () => {
     console.log('🚀 Starting batch processing...', { 
       fileCount: uploadedFiles.length, 
-      quality: selectedQuality 
+      quality: selectedQuality,
+      searchProfiles
     });
     
     for (let i = 0; i < uploadedFiles.length; i++) {
       const file = uploadedFiles[i];
       console.log(`📤 Processing file ${i + 1}/${uploadedFiles.length}: ${file.name}`);
       try {
-        await processGlyph(file.id, { quality: selectedQuality });
+        await processGlyph(file.id, { quality: selectedQuality }, searchProfiles);
         console.log(`✅ Completed processing: ${file.name}`);
       } catch (error) {
         console.error(`❌ Failed to process ${file.name}:`, error);
@@ -75,6 +77,21 @@ export function ProcessingPanel() {
             </label>
           ))}
         </div>
+
+        <label className="flex items-start gap-3 mt-4 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            checked={searchProfiles}
+            onChange={(e) => setSearchProfiles(e.target.checked)}
+            className="mt-1"
+          />
+          <span>
+            <span className="font-medium">Find the best tracing profile</span>
+            <span className="block text-gray-600">
+              Traces with every ImageTracer profile and keeps the one closest to the image. Slower; the scores show in the debugger.
+            </span>
+          </span>
+        </label>
       </div>
 
       {/* Card Footer with Processing Actions and Status */}
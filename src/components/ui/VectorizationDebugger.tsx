@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useProcessedGlyphs } from '@/stores/useGlyphStore';
+import { PROFILE_SCORE_WEIGHTS } from '@/utils/imagetracerVectorization';
 
 // Helper function to render bitmap to canvas
 function renderBitmapToCanvas(bitmap: number[][], canvas: HTMLCanvasElement) {
@@ -112,10 +113,45 @@ export function VectorizationDebugger() {
                     <p><strong>Size:</strong> {(glyph.originalFile.size / 1024).toFixed(1)} KB</p>
                     <p><strong>Type:</strong> {glyph.originalFile.type}</p>
                     <p><strong>Quality:</strong> {glyph.processingParams.quality}</p>
+                    {glyph.processingParams.profile && (
+                      <p><strong>Profile:</strong> {glyph.processingParams.profile}</p>
+                    )}
                     <p><strong>Processed:</strong> {glyph.processed.toLocaleString()}</p>
                   </div>
                 </div>
 
+                {/* Profile search scores */}
+                {glyph.profileScores && glyph.profileScores.length > 0 && (
+                  <div className="bg-gray-50 p-3 rounded">
+                    <h4 className="font-medium mb-2">Profile Search ({glyph.profileScores.length} profiles)</h4>
+                    <p className="text-xs text-gray-500 mb-2">
+                      Score = IoU − {PROFILE_SCORE_WEIGHTS.edgeDistance} × edge distance − {PROFILE_SCORE_WEIGHTS.node} × nodes; edge distance in viewBox units
+                    </p>
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-left text-gray-500">
+                          <th className="py-1">Profile</th>
+                          <th className="py-1 text-right">IoU</th>
+                          <th className="py-1 text-right">Edge distance</th>
+                          <th className="py-1 text-right">Nodes</th>
+                          <th className="py-1 text-right">Score</th>
+                        </tr>
+                      </thead>
+                      <tbody className="font-mono">
+                        {glyph.profileScores.map((score, index) => (
+                          <tr key={score.profile} className={index === 0 ? 'font-bold text-green-700' : ''}>
+                            <td className="py-1">{index === 0 ? '🏆 ' : ''}{score.profile}</td>
+                            <td className="py-1 text-right">{score.iou.toFixed(3)}</td>
+                            <td className="py-1 text-right">{score.edgeDistance.toFixed(2)}</td>
+                            <td className="py-1 text-right">{score.nodeCount}</td>
+                            <td className="py-1 text-right">{score.score.toFixed(3)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
                 {/* SVG paths */}
                 <div className="bg-gray-50 p-3 rounded">
                   <h4 className="font-medium mb-2">SVG Paths ({glyph.svgPaths.length})</h4>
@@ -2,8 +2,9 @@ export interface CharacterDefinition {
   unicode: string;
   char: string;
   name: string;
-  category: 'uppercase' | 'lowercase' | 'digit' | 'punctuation' | 'symbol' | 'space';
+  category: 'uppercase' | 'lowercase' | 'digit' | 'punctuation' | 'symbol' | 'space' | 'mark';
   description?: string;
+  components?: string[]; // Canonical decomposition: base letter, then combining marks (Unicode keys)
 }
 
 export const BASIC_LATIN_CHARACTERS: CharacterDefinition[] = [
@@ -138,12 +139,18 @@ export const getAlphabetCharacters = (): CharacterDefinition[] => {
   ];
 };
 
-export const getCharacterByUnicode = (unicode: string): CharacterDefinition | undefined => {
-  return BASIC_LATIN_CHARACTERS.find(char => char.unicode === unicode);
+export const getCharacterByUnicode = (
+  unicode: string,
+  characters: CharacterDefinition[] = BASIC_LATIN_CHARACTERS
+): CharacterDefinition | undefined => {
+  return characters.find(char => char.unicode === unicode);
 };
 
-export const getCharacterByChar = (char: string): CharacterDefinition | undefined => {
-  return BASIC_LATIN_CHARACTERS.find(c => c.char === char);
+export const getCharacterByChar = (
+  char: string,
+  characters: CharacterDefinition[] = BASIC_LATIN_CHARACTERS
+): CharacterDefinition | undefined => {
+  return characters.find(c => c.char === char);
 };
 
 
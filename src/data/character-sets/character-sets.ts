@@ -1,4 +1,5 @@
 import { BASIC_LATIN_CHARACTERS, CharacterDefinition } from './basic-latin';
+import { EXTENDED_LATIN_CHARACTERS } from './extended-latin';
 
 export interface CharacterSet {
   id: string;
@@ -22,16 +23,15 @@ export const CHARACTER_SETS: Record<string, CharacterSet> = {
     isDefault: true,
     categories: ['uppercase', 'lowercase', 'digit', 'punctuation', 'symbol', 'space']
   },
-  
-  // Placeholder for extended sets (Phase 2)
+
   'extended-latin': {
     id: 'extended-latin',
     name: 'Extended Latin',
-    description: 'Additional Latin characters with accents and diacritics',
-    unicodeRange: { start: 0x0080, end: 0x024F },
-    characters: [], // Will be populated in Phase 2
+    description: 'Latin-1 Supplement and Latin Extended-A - Accented letters are composed from their base letter and combining marks',
+    unicodeRange: { start: 0x00A0, end: 0x017F },
+    characters: EXTENDED_LATIN_CHARACTERS,
     priority: 2,
-    categories: ['uppercase', 'lowercase', 'accented']
+    categories: ['uppercase', 'lowercase', 'punctuation', 'symbol', 'space', 'mark']
   }
 };
 
@@ -65,7 +65,8 @@ export const organizeCharactersForDisplay = (characterSet: CharacterSet) => {
     digits: characterSet.characters.filter(c => c.category === 'digit'),
     punctuation: characterSet.characters.filter(c => c.category === 'punctuation'),
     symbols: characterSet.characters.filter(c => c.category === 'symbol'),
-    space: characterSet.characters.filter(c => c.category === 'space')
+    space: characterSet.characters.filter(c => c.category === 'space'),
+    marks: characterSet.characters.filter(c => c.category === 'mark')
   };
 
   return organized;
@@ -82,10 +83,16 @@ export const getCharacterSetStats = (characterSet: CharacterSet) => {
     digits: organized.digits.length,
     punctuation: organized.punctuation.length,
     symbols: organized.symbols.length,
-    space: organized.space.length
+    space: organized.space.length,
+    marks: organized.marks.length
   };
 };
 
+// Every character, across all sets, that can be composed from a base letter and marks
+export const getComposableCharacters = (): CharacterDefinition[] => {
+  return getAllCharacterSets().flatMap(set => set.characters.filter(c => c.components && c.components.length > 1));
+};
+
 // Validation helpers
 export const validateCharacterSetCompletion = (
   characterSet: CharacterSet, 
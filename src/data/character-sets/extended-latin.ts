@@ -0,0 +1,249 @@
+import { CharacterDefinition } from './basic-latin';
+
+export const EXTENDED_LATIN_CHARACTERS: CharacterDefinition[] = [
+  // Latin-1 Supplement
+  { unicode: 'U+00A0', char: '\u00A0', name: 'NO-BREAK SPACE', category: 'space' },
+  { unicode: 'U+00A1', char: '¡', name: 'INVERTED EXCLAMATION MARK', category: 'punctuation' },
+  { unicode: 'U+00A2', char: '¢', name: 'CENT SIGN', category: 'symbol' },
+  { unicode: 'U+00A3', char: '£', name: 'POUND SIGN', category: 'symbol' },
+  { unicode: 'U+00A4', char: '¤', name: 'CURRENCY SIGN', category: 'symbol' },
+  { unicode: 'U+00A5', char: '¥', name: 'YEN SIGN', category: 'symbol' },
+  { unicode: 'U+00A6', char: '¦', name: 'BROKEN BAR', category: 'symbol' },
+  { unicode: 'U+00A7', char: '§', name: 'SECTION SIGN', category: 'punctuation' },
+  { unicode: 'U+00A8', char: '¨', name: 'DIAERESIS', category: 'symbol' },
+  { unicode: 'U+00A9', char: '©', name: 'COPYRIGHT SIGN', category: 'symbol' },
+  { unicode: 'U+00AA', char: 'ª', name: 'FEMININE ORDINAL INDICATOR', category: 'symbol' },
+  { unicode: 'U+00AB', char: '«', name: 'LEFT-POINTING DOUBLE ANGLE QUOTATION MARK', category: 'punctuation' },
+  { unicode: 'U+00AC', char: '¬', name: 'NOT SIGN', category: 'symbol' },
+  { unicode: 'U+00AD', char: '\u00AD', name: 'SOFT HYPHEN', category: 'punctuation' },
+  { unicode: 'U+00AE', char: '®', name: 'REGISTERED SIGN', category: 'symbol' },
+  { unicode: 'U+00AF', char: '¯', name: 'MACRON', category: 'symbol' },
+  { unicode: 'U+00B0', char: '°', name: 'DEGREE SIGN', category: 'symbol' },
+  { unicode: 'U+00B1', char: '±', name: 'PLUS-MINUS SIGN', category: 'symbol' },
+  { unicode: 'U+00B2', char: '²', name: 'SUPERSCRIPT TWO', category: 'symbol' },
+  { unicode: 'U+00B3', char: '³', name: 'SUPERSCRIPT THREE', category: 'symbol' },
+  { unicode: 'U+00B4', char: '´', name: 'ACUTE ACCENT', category: 'symbol' },
+  { unicode: 'U+00B5', char: 'µ', name: 'MICRO SIGN', category: 'lowercase' },
+  { unicode: 'U+00B6', char: '¶', name: 'PILCROW SIGN', category: 'punctuation' },
+  { unicode: 'U+00B7', char: '·', name: 'MIDDLE DOT', category: 'punctuation' },
+  { unicode: 'U+00B8', char: '¸', name: 'CEDILLA', category: 'symbol' },
+  { unicode: 'U+00B9', char: '¹', name: 'SUPERSCRIPT ONE', category: 'symbol' },
+  { unicode: 'U+00BA', char: 'º', name: 'MASCULINE ORDINAL INDICATOR', category: 'symbol' },
+  { unicode: 'U+00BB', char: '»', name: 'RIGHT-POINTING DOUBLE ANGLE QUOTATION MARK', category: 'punctuation' },
+  { unicode: 'U+00BC', char: '¼', name: 'VULGAR FRACTION ONE QUARTER', category: 'symbol' },
+  { unicode: 'U+00BD', char: '½', name: 'VULGAR FRACTION ONE HALF', category: 'symbol' },
+  { unicode: 'U+00BE', char: '¾', name: 'VULGAR FRACTION THREE QUARTERS', category: 'symbol' },
+  { unicode: 'U+00BF', char: '¿', name: 'INVERTED QUESTION MARK', category: 'punctuation' },
+  { unicode: 'U+00C0', char: 'À', name: 'LATIN CAPITAL LETTER A WITH GRAVE', category: 'uppercase', components: ['U+0041', 'U+0300'] },
+  { unicode: 'U+00C1', char: 'Á', name: 'LATIN CAPITAL LETTER A WITH ACUTE', category: 'uppercase', components: ['U+0041', 'U+0301'] },
+  { unicode: 'U+00C2', char: 'Â', name: 'LATIN CAPITAL LETTER A WITH CIRCUMFLEX', category: 'uppercase', components: ['U+0041', 'U+0302'] },
+  { unicode: 'U+00C3', char: 'Ã', name: 'LATIN CAPITAL LETTER A WITH TILDE', category: 'uppercase', components: ['U+0041', 'U+0303'] },
+  { unicode: 'U+00C4', char: 'Ä', name: 'LATIN CAPITAL LETTER A WITH DIAERESIS', category: 'uppercase', components: ['U+0041', 'U+0308'] },
+  { unicode: 'U+00C5', char: 'Å', name: 'LATIN CAPITAL LETTER A WITH RING ABOVE', category: 'uppercase', components: ['U+0041', 'U+030A'] },
+  { unicode: 'U+00C6', char: 'Æ', name: 'LATIN CAPITAL LETTER AE', category: 'uppercase' },
+  { unicode: 'U+00C7', char: 'Ç', name: 'LATIN CAPITAL LETTER C WITH CEDILLA', category: 'uppercase', components: ['U+0043', 'U+0327'] },
+  { unicode: 'U+00C8', char: 'È', name: 'LATIN CAPITAL LETTER E WITH GRAVE', category: 'uppercase', components: ['U+0045', 'U+0300'] },
+  { unicode: 'U+00C9', char: 'É', name: 'LATIN CAPITAL LETTER E WITH ACUTE', category: 'uppercase', components: ['U+0045', 'U+0301'] },
+  { unicode: 'U+00CA', char: 'Ê', name: 'LATIN CAPITAL LETTER E WITH CIRCUMFLEX', category: 'uppercase', components: ['U+0045', 'U+0302'] },
+  { unicode: 'U+00CB', char: 'Ë', name: 'LATIN CAPITAL LETTER E WITH DIAERESIS', category: 'uppercase', components: ['U+0045', 'U+0308'] },
+  { unicode: 'U+00CC', char: 'Ì', name: 'LATIN CAPITAL LETTER I WITH GRAVE', category: 'uppercase', components: ['U+0049', 'U+0300'] },
+  { unicode: 'U+00CD', char: 'Í', name: 'LATIN CAPITAL LETTER I WITH ACUTE', category: 'uppercase', components: ['U+0049', 'U+0301'] },
+  { unicode: 'U+00CE', char: 'Î', name: 'LATIN CAPITAL LETTER I WITH CIRCUMFLEX', category: 'uppercase', components: ['U+0049', 'U+0302'] },
+  { unicode: 'U+00CF', char: 'Ï', name: 'LATIN CAPITAL LETTER I WITH DIAERESIS', category: 'uppercase', components: ['U+0049', 'U+0308'] },
+  { unicode: 'U+00D0', char: 'Ð', name: 'LATIN CAPITAL LETTER ETH', category: 'uppercase' },
+  { unicode: 'U+00D1', char: 'Ñ', name: 'LATIN CAPITAL LETTER N WITH TILDE', category: 'uppercase', components: ['U+004E', 'U+0303'] },
+  { unicode: 'U+00D2', char: 'Ò', name: 'LATIN CAPITAL LETTER O WITH GRAVE', category: 'uppercase', components: ['U+004F', 'U+0300'] },
+  { unicode: 'U+00D3', char: 'Ó', name: 'LATIN CAPITAL LETTER O WITH ACUTE', category: 'uppercase', components: ['U+004F', 'U+0301'] },
+  { unicode: 'U+00D4', char: 'Ô', name: 'LATIN CAPITAL LETTER O WITH CIRCUMFLEX', category: 'uppercase', components: ['U+004F', 'U+0302'] },
+  { unicode: 'U+00D5', char: 'Õ', name: 'LATIN CAPITAL LETTER O WITH TILDE', category: 'uppercase', components: ['U+004F', 'U+0303'] },
+  { unicode: 'U+00D6', char: 'Ö', name: 'LATIN CAPITAL LETTER O WITH DIAERESIS', category: 'uppercase', components: ['U+004F', 'U+0308'] },
+  { unicode: 'U+00D7', char: '×', name: 'MULTIPLICATION SIGN', category: 'symbol' },
+  { unicode: 'U+00D8', char: 'Ø', name: 'LATIN CAPITAL LETTER O WITH STROKE', category: 'uppercase' },
+  { unicode: 'U+00D9', char: 'Ù', name: 'LATIN CAPITAL LETTER U WITH GRAVE', category: 'uppercase', components: ['U+0055', 'U+0300'] },
+  { unicode: 'U+00DA', char: 'Ú', name: 'LATIN CAPITAL LETTER U WITH ACUTE', category: 'uppercase', components: ['U+0055', 'U+0301'] },
+  { unicode: 'U+00DB', char: 'Û', name: 'LATIN CAPITAL LETTER U WITH CIRCUMFLEX', category: 'uppercase', components: ['U+0055', 'U+0302'] },
+  { unicode: 'U+00DC', char: 'Ü', name: 'LATIN CAPITAL LETTER U WITH DIAERESIS', category: 'uppercase', components: ['U+0055', 'U+0308'] },
+  { unicode: 'U+00DD', char: 'Ý', name: 'LATIN CAPITAL LETTER Y WITH ACUTE', category: 'uppercase', components: ['U+0059', 'U+0301'] },
+  { unicode: 'U+00DE', char: 'Þ', name: 'LATIN CAPITAL LETTER THORN', category: 'uppercase' },
+  { unicode: 'U+00DF', char: 'ß', name: 'LATIN SMALL LETTER SHARP S', category: 'lowercase' },
+  { unicode: 'U+00E0', char: 'à', name: 'LATIN SMALL LETTER A WITH GRAVE', category: 'lowercase', components: ['U+0061', 'U+0300'] },
+  { unicode: 'U+00E1', char: 'á', name: 'LATIN SMALL LETTER A WITH ACUTE', category: 'lowercase', components: ['U+0061', 'U+0301'] },
+  { unicode: 'U+00E2', char: 'â', name: 'LATIN SMALL LETTER A WITH CIRCUMFLEX', category: 'lowercase', components: ['U+0061', 'U+0302'] },
+  { unicode: 'U+00E3', char: 'ã', name: 'LATIN SMALL LETTER A WITH TILDE', category: 'lowercase', components: ['U+0061', 'U+0303'] },
+  { unicode: 'U+00E4', char: 'ä', name: 'LATIN SMALL LETTER A WITH DIAERESIS', category: 'lowercase', components: ['U+0061', 'U+0308'] },
+  { unicode: 'U+00E5', char: 'å', name: 'LATIN SMALL LETTER A WITH RING ABOVE', category: 'lowercase', components: ['U+0061', 'U+030A'] },
+  { unicode: 'U+00E6', char: 'æ', name: 'LATIN SMALL LETTER AE', category: 'lowercase' },
+  { unicode: 'U+00E7', char: 'ç', name: 'LATIN SMALL LETTER C WITH CEDILLA', category: 'lowercase', components: ['U+0063', 'U+0327'] },
+  { unicode: 'U+00E8', char: 'è', name: 'LATIN SMALL LETTER E WITH GRAVE', category: 'lowercase', components: ['U+0065', 'U+0300'] },
+  { unicode: 'U+00E9', char: 'é', name: 'LATIN SMALL LETTER E WITH ACUTE', category: 'lowercase', components: ['U+0065', 'U+0301'] },
+  { unicode: 'U+00EA', char: 'ê', name: 'LATIN SMALL LETTER E WITH CIRCUMFLEX', category: 'lowercase', components: ['U+0065', 'U+0302'] },
+  { unicode: 'U+00EB', char: 'ë', name: 'LATIN SMALL LETTER E WITH DIAERESIS', category: 'lowercase', components: ['U+0065', 'U+0308'] },
+  { unicode: 'U+00EC', char: 'ì', name: 'LATIN SMALL LETTER I WITH GRAVE', category: 'lowercase', components: ['U+0069', 'U+0300'] },
+  { unicode: 'U+00ED', char: 'í', name: 'LATIN SMALL LETTER I WITH ACUTE', category: 'lowercase', components: ['U+0069', 'U+0301'] },
+  { unicode: 'U+00EE', char: 'î', name: 'LATIN SMALL LETTER I WITH CIRCUMFLEX', category: 'lowercase', components: ['U+0069', 'U+0302'] },
+  { unicode: 'U+00EF', char: 'ï', name: 'LATIN SMALL LETTER I WITH DIAERESIS', category: 'lowercase', components: ['U+0069', 'U+0308'] },
+  { unicode: 'U+00F0', char: 'ð', name: 'LATIN SMALL LETTER ETH', category: 'lowercase' },
+  { unicode: 'U+00F1', char: 'ñ', name: 'LATIN SMALL LETTER N WITH TILDE', category: 'lowercase', components: ['U+006E', 'U+0303'] },
+  { unicode: 'U+00F2', char: 'ò', name: 'LATIN SMALL LETTER O WITH GRAVE', category: 'lowercase', components: ['U+006F', 'U+0300'] },
+  { unicode: 'U+00F3', char: 'ó', name: 'LATIN SMALL LETTER O WITH ACUTE', category: 'lowercase', components: ['U+006F', 'U+0301'] },
+  { unicode: 'U+00F4', char: 'ô', name: 'LATIN SMALL LETTER O WITH CIRCUMFLEX', category: 'lowercase', components: ['U+006F', 'U+0302'] },
+  { unicode: 'U+00F5', char: 'õ', name: 'LATIN SMALL LETTER O WITH TILDE', category: 'lowercase', components: ['U+006F', 'U+0303'] },
+  { unicode: 'U+00F6', char: 'ö', name: 'LATIN SMALL LETTER O WITH DIAERESIS', category: 'lowercase', components: ['U+006F', 'U+0308'] },
+  { unicode: 'U+00F7', char: '÷', name: 'DIVISION SIGN', category: 'symbol' },
+  { unicode: 'U+00F8', char: 'ø', name: 'LATIN SMALL LETTER O WITH STROKE', category: 'lowercase' },
+  { unicode: 'U+00F9', char: 'ù', name: 'LATIN SMALL LETTER U WITH GRAVE', category: 'lowercase', components: ['U+0075', 'U+0300'] },
+  { unicode: 'U+00FA', char: 'ú', name: 'LATIN SMALL LETTER U WITH ACUTE', category: 'lowercase', components: ['U+0075', 'U+0301'] },
+  { unicode: 'U+00FB', char: 'û', name: 'LATIN SMALL LETTER U WITH CIRCUMFLEX', category: 'lowercase', components: ['U+0075', 'U+0302'] },
+  { unicode: 'U+00FC', char: 'ü', name: 'LATIN SMALL LETTER U WITH DIAERESIS', category: 'lowercase', components: ['U+0075', 'U+0308'] },
+  { unicode: 'U+00FD', char: 'ý', name: 'LATIN SMALL LETTER Y WITH ACUTE', category: 'lowercase', components: ['U+0079', 'U+0301'] },
+  { unicode: 'U+00FE', char: 'þ', name: 'LATIN SMALL LETTER THORN', category: 'lowercase' },
+  { unicode: 'U+00FF', char: 'ÿ', name: 'LATIN SMALL LETTER Y WITH DIAERESIS', category: 'lowercase', components: ['U+0079', 'U+0308'] },
+
+  // Latin Extended-A
+  { unicode: 'U+0100', char: 'Ā', name: 'LATIN CAPITAL LETTER A WITH MACRON', category: 'uppercase', components: ['U+0041', 'U+0304'] },
+  { unicode: 'U+0101', char: 'ā', name: 'LATIN SMALL LETTER A WITH MACRON', category: 'lowercase', components: ['U+0061', 'U+0304'] },
+  { unicode: 'U+0102', char: 'Ă', name: 'LATIN CAPITAL LETTER A WITH BREVE', category: 'uppercase', components: ['U+0041', 'U+0306'] },
+  { unicode: 'U+0103', char: 'ă', name: 'LATIN SMALL LETTER A WITH BREVE', category: 'lowercase', components: ['U+0061', 'U+0306'] },
+  { unicode: 'U+0104', char: 'Ą', name: 'LATIN CAPITAL LETTER A WITH OGONEK', category: 'uppercase', components: ['U+0041', 'U+0328'] },
+  { unicode: 'U+0105', char: 'ą', name: 'LATIN SMALL LETTER A WITH OGONEK', category: 'lowercase', components: ['U+0061', 'U+0328'] },
+  { unicode: 'U+0106', char: 'Ć', name: 'LATIN CAPITAL LETTER C WITH ACUTE', category: 'uppercase', components: ['U+0043', 'U+0301'] },
+  { unicode: 'U+0107', char: 'ć', name: 'LATIN SMALL LETTER C WITH ACUTE', category: 'lowercase', components: ['U+0063', 'U+0301'] },
+  { unicode: 'U+0108', char: 'Ĉ', name: 'LATIN CAPITAL LETTER C WITH CIRCUMFLEX', category: 'uppercase', components: ['U+0043', 'U+0302'] },
+  { unicode: 'U+0109', char: 'ĉ', name: 'LATIN SMALL LETTER C WITH CIRCUMFLEX', category: 'lowercase', components: ['U+0063', 'U+0302'] },
+  { unicode: 'U+010A', char: 'Ċ', name: 'LATIN CAPITAL LETTER C WITH DOT ABOVE', category: 'uppercase', components: ['U+0043', 'U+0307'] },
+  { unicode: 'U+010B', char: 'ċ', name: 'LATIN SMALL LETTER C WITH DOT ABOVE', category: 'lowercase', components: ['U+0063', 'U+0307'] },
+  { unicode: 'U+010C', char: 'Č', name: 'LATIN CAPITAL LETTER C WITH CARON', category: 'uppercase', components: ['U+0043', 'U+030C'] },
+  { unicode: 'U+010D', char: 'č', name: 'LATIN SMALL LETTER C WITH CARON', category: 'lowercase', components: ['U+0063', 'U+030C'] },
+  { unicode: 'U+010E', char: 'Ď', name: 'LATIN CAPITAL LETTER D WITH CARON', category: 'uppercase', components: ['U+0044', 'U+030C'] },
+  { unicode: 'U+010F', char: 'ď', name: 'LATIN SMALL LETTER D WITH CARON', category: 'lowercase', components: ['U+0064', 'U+030C'] },
+  { unicode: 'U+0110', char: 'Đ', name: 'LATIN CAPITAL LETTER D WITH STROKE', category: 'uppercase' },
+  { unicode: 'U+0111', char: 'đ', name: 'LATIN SMALL LETTER D WITH STROKE', category: 'lowercase' },
+  { unicode: 'U+0112', char: 'Ē', name: 'LATIN CAPITAL LETTER E WITH MACRON', category: 'uppercase', components: ['U+0045', 'U+0304'] },
+  { unicode: 'U+0113', char: 'ē', name: 'LATIN SMALL LETTER E WITH MACRON', category: 'lowercase', components: ['U+0065', 'U+0304'] },
+  { unicode: 'U+0114', char: 'Ĕ', name: 'LATIN CAPITAL LETTER E WITH BREVE', category: 'uppercase', components: ['U+0045', 'U+0306'] },
+  { unicode: 'U+0115', char: 'ĕ', name: 'LATIN SMALL LETTER E WITH BREVE', category: 'lowercase', components: ['U+0065', 'U+0306'] },
+  { unicode: 'U+0116', char: 'Ė', name: 'LATIN CAPITAL LETTER E WITH DOT ABOVE', category: 'uppercase', components: ['U+0045', 'U+0307'] },
+  { unicode: 'U+0117', char: 'ė', name: 'LATIN SMALL LETTER E WITH DOT ABOVE', category: 'lowercase', components: ['U+0065', 'U+0307'] },
+  { unicode: 'U+0118', char: 'Ę', name: 'LATIN CAPITAL LETTER E WITH OGONEK', category: 'uppercase', components: ['U+0045', 'U+0328'] },
+  { unicode: 'U+0119', char: 'ę', name: 'LATIN SMALL LETTER E WITH OGONEK', category: 'lowercase', components: ['U+0065', 'U+0328'] },
+  { unicode: 'U+011A', char: 'Ě', name: 'LATIN CAPITAL LETTER E WITH CARON', category: 'uppercase', components: ['U+0045', 'U+030C'] },
+  { unicode: 'U+011B', char: 'ě', name: 'LATIN SMALL LETTER E WITH CARON', category: 'lowercase', components: ['U+0065', 'U+030C'] },
+  { unicode: 'U+011C', char: 'Ĝ', name: 'LATIN CAPITAL LETTER G WITH CIRCUMFLEX', category: 'uppercase', components: ['U+0047', 'U+0302'] },
+  { unicode: 'U+011D', char: 'ĝ', name: 'LATIN SMALL LETTER G WITH CIRCUMFLEX', category: 'lowercase', components: ['U+0067', 'U+0302'] },
+  { unicode: 'U+011E', char: 'Ğ', name: 'LATIN CAPITAL LETTER G WITH BREVE', category: 'uppercase', components: ['U+0047', 'U+0306'] },
+  { unicode: 'U+011F', char: 'ğ', name: 'LATIN SMALL LETTER G WITH BREVE', category: 'lowercase', components: ['U+0067', 'U+0306'] },
+  { unicode: 'U+0120', char: 'Ġ', name: 'LATIN CAPITAL LETTER G WITH DOT ABOVE', category: 'uppercase', components: ['U+0047', 'U+0307'] },
+  { unicode: 'U+0121', char: 'ġ', name: 'LATIN SMALL LETTER G WITH DOT ABOVE', category: 'lowercase', components: ['U+0067', 'U+0307'] },
+  { unicode: 'U+0122', char: 'Ģ', name: 'LATIN CAPITAL LETTER G WITH CEDILLA', category: 'uppercase', components: ['U+0047', 'U+0327'] },
+  { unicode: 'U+0123', char: 'ģ', name: 'LATIN SMALL LETTER G WITH CEDILLA', category: 'lowercase', components: ['U+0067', 'U+0327'] },
+  { unicode: 'U+0124', char: 'Ĥ', name: 'LATIN CAPITAL LETTER H WITH CIRCUMFLEX', category: 'uppercase', components: ['U+0048', 'U+0302'] },
+  { unicode: 'U+0125', char: 'ĥ', name: 'LATIN SMALL LETTER H WITH CIRCUMFLEX', category: 'lowercase', components: ['U+0068', 'U+0302'] },
+  { unicode: 'U+0126', char: 'Ħ', name: 'LATIN CAPITAL LETTER H WITH STROKE', category: 'uppercase' },
+  { unicode: 'U+0127', char: 'ħ', name: 'LATIN SMALL LETTER H WITH STROKE', category: 'lowercase' },
+  { unicode: 'U+0128', char: 'Ĩ', name: 'LATIN CAPITAL LETTER I WITH TILDE', category: 'uppercase', components: ['U+0049', 'U+0303'] },
+  { unicode: 'U+0129', char: 'ĩ', name: 'LATIN SMALL LETTER I WITH TILDE', category: 'lowercase', components: ['U+0069', 'U+0303'] },
+  { unicode: 'U+012A', char: 'Ī', name: 'LATIN CAPITAL LETTER I WITH MACRON', category: 'uppercase', components: ['U+0049', 'U+0304'] },
+  { unicode: 'U+012B', char: 'ī', name: 'LATIN SMALL LETTER I WITH MACRON', category: 'lowercase', components: ['U+0069', 'U+0304'] },
+  { unicode: 'U+012C', char: 'Ĭ', name: 'LATIN CAPITAL LETTER I WITH BREVE', category: 'uppercase', components: ['U+0049', 'U+0306'] },
+  { unicode: 'U+012D', char: 'ĭ', name: 'LATIN SMALL LETTER I WITH BREVE', category: 'lowercase', components: ['U+0069', 'U+0306'] },
+  { unicode: 'U+012E', char: 'Į', name: 'LATIN CAPITAL LETTER I WITH OGONEK', category: 'uppercase', components: ['U+0049', 'U+0328'] },
+  { unicode: 'U+012F', char: 'į', name: 'LATIN SMALL LETTER I WITH OGONEK', category: 'lowercase', components: ['U+0069', 'U+0328'] },
+  { unicode: 'U+0130', char: 'İ', name: 'LATIN CAPITAL LETTER I WITH DOT ABOVE', category: 'uppercase', components: ['U+0049', 'U+0307'] },
+  { unicode: 'U+0131', char: 'ı', name: 'LATIN SMALL LETTER DOTLESS I', category: 'lowercase' },
+  { unicode: 'U+0132', char: 'Ĳ', name: 'LATIN CAPITAL LIGATURE IJ', category: 'uppercase' },
+  { unicode: 'U+0133', char: 'ĳ', name: 'LATIN SMALL LIGATURE IJ', category: 'lowercase' },
+  { unicode: 'U+0134', char: 'Ĵ', name: 'LATIN CAPITAL LETTER J WITH CIRCUMFLEX', category: 'uppercase', components: ['U+004A', 'U+0302'] },
+  { unicode: 'U+0135', char: 'ĵ', name: 'LATIN SMALL LETTER J WITH CIRCUMFLEX', category: 'lowercase', components: ['U+006A', 'U+0302'] },
+  { unicode: 'U+0136', char: 'Ķ', name: 'LATIN CAPITAL LETTER K WITH CEDILLA', category: 'uppercase', components: ['U+004B', 'U+0327'] },
+  { unicode: 'U+0137', char: 'ķ', name: 'LATIN SMALL LETTER K WITH CEDILLA', category: 'lowercase', components: ['U+006B', 'U+0327'] },
+  { unicode: 'U+0138', char: 'ĸ', name: 'LATIN SMALL LETTER KRA', category: 'lowercase' },
+  { unicode: 'U+0139', char: 'Ĺ', name: 'LATIN CAPITAL LETTER L WITH ACUTE', category: 'uppercase', components: ['U+004C', 'U+0301'] },
+  { unicode: 'U+013A', char: 'ĺ', name: 'LATIN SMALL LETTER L WITH ACUTE', category: 'lowercase', components: ['U+006C', 'U+0301'] },
+  { unicode: 'U+013B', char: 'Ļ', name: 'LATIN CAPITAL LETTER L WITH CEDILLA', category: 'uppercase', components: ['U+004C', 'U+0327'] },
+  { unicode: 'U+013C', char: 'ļ', name: 'LATIN SMALL LETTER L WITH CEDILLA', category: 'lowercase', components: ['U+006C', 'U+0327'] },
+  { unicode: 'U+013D', char: 'Ľ', name: 'LATIN CAPITAL LETTER L WITH CARON', category: 'uppercase', components: ['U+004C', 'U+030C'] },
+  { unicode: 'U+013E', char: 'ľ', name: 'LATIN SMALL LETTER L WITH CARON', category: 'lowercase', components: ['U+006C', 'U+030C'] },
+  { unicode: 'U+013F', char: 'Ŀ', name: 'LATIN CAPITAL LETTER L WITH MIDDLE DOT', category: 'uppercase' },
+  { unicode: 'U+0140', char: 'ŀ', name: 'LATIN SMALL LETTER L WITH MIDDLE DOT', category: 'lowercase' },
+  { unicode: 'U+0141', char: 'Ł', name: 'LATIN CAPITAL LETTER L WITH STROKE', category: 'uppercase' },
+  { unicode: 'U+0142', char: 'ł', name: 'LATIN SMALL LETTER L WITH STROKE', category: 'lowercase' },
+  { unicode: 'U+0143', char: 'Ń', name: 'LATIN CAPITAL LETTER N WITH ACUTE', category: 'uppercase', components: ['U+004E', 'U+0301'] },
+  { unicode: 'U+0144', char: 'ń', name: 'LATIN SMALL LETTER N WITH ACUTE', category: 'lowercase', components: ['U+006E', 'U+0301'] },
+  { unicode: 'U+0145', char: 'Ņ', name: 'LATIN CAPITAL LETTER N WITH CEDILLA', category: 'uppercase', components: ['U+004E', 'U+0327'] },
+  { unicode: 'U+0146', char: 'ņ', name: 'LATIN SMALL LETTER N WITH CEDILLA', category: 'lowercase', components: ['U+006E', 'U+0327'] },
+  { unicode: 'U+0147', char: 'Ň', name: 'LATIN CAPITAL LETTER N WITH CARON', category: 'uppercase', components: ['U+004E', 'U+030C'] },
+  { unicode: 'U+0148', char: 'ň', name: 'LATIN SMALL LETTER N WITH CARON', category: 'lowercase', components: ['U+006E', 'U+030C'] },
+  { unicode: 'U+0149', char: 'ŉ', name: 'LATIN SMALL LETTER N PRECEDED BY APOSTROPHE', category: 'lowercase' },
+  { unicode: 'U+014A', char: 'Ŋ', name: 'LATIN CAPITAL LETTER ENG', category: 'uppercase' },
+  { unicode: 'U+014B', char: 'ŋ', name: 'LATIN SMALL LETTER ENG', category: 'lowercase' },
+  { unicode: 'U+014C', char: 'Ō', name: 'LATIN CAPITAL LETTER O WITH MACRON', category: 'uppercase', components: ['U+004F', 'U+0304'] },
+  { unicode: 'U+014D', char: 'ō', name: 'LATIN SMALL LETTER O WITH MACRON', category: 'lowercase', components: ['U+006F', 'U+0304'] },
+  { unicode: 'U+014E', char: 'Ŏ', name: 'LATIN CAPITAL LETTER O WITH BREVE', category: 'uppercase', components: ['U+004F', 'U+0306'] },
+  { unicode: 'U+014F', char: 'ŏ', name: 'LATIN SMALL LETTER O WITH BREVE', category: 'lowercase', components: ['U+006F', 'U+0306'] },
+  { unicode: 'U+0150', char: 'Ő', name: 'LATIN CAPITAL LETTER O WITH DOUBLE ACUTE', category: 'uppercase', components: ['U+004F', 'U+030B'] },
+  { unicode: 'U+0151', char: 'ő', name: 'LATIN SMALL LETTER O WITH DOUBLE ACUTE', category: 'lowercase', components: ['U+006F', 'U+030B'] },
+  { unicode: 'U+0152', char: 'Œ', name: 'LATIN CAPITAL LIGATURE OE', category: 'uppercase' },
+  { unicode: 'U+0153', char: 'œ', name: 'LATIN SMALL LIGATURE OE', category: 'lowercase' },
+  { unicode: 'U+0154', char: 'Ŕ', name: 'LATIN CAPITAL LETTER R WITH ACUTE', category: 'uppercase', components: ['U+0052', 'U+0301'] },
+  { unicode: 'U+0155', char: 'ŕ', name: 'LATIN SMALL LETTER R WITH ACUTE', category: 'lowercase', components: ['U+0072', 'U+0301'] },
+  { unicode: 'U+0156', char: 'Ŗ', name: 'LATIN CAPITAL LETTER R WITH CEDILLA', category: 'uppercase', components: ['U+0052', 'U+0327'] },
+  { unicode: 'U+0157', char: 'ŗ', name: 'LATIN SMALL LETTER R WITH CEDILLA', category: 'lowercase', components: ['U+0072', 'U+0327'] },
+  { unicode: 'U+0158', char: 'Ř', name: 'LATIN CAPITAL LETTER R WITH CARON', category: 'uppercase', components: ['U+0052', 'U+030C'] },
+  { unicode: 'U+0159', char: 'ř', name: 'LATIN SMALL LETTER R WITH CARON', category: 'lowercase', components: ['U+0072', 'U+030C'] },
+  { unicode: 'U+015A', char: 'Ś', name: 'LATIN CAPITAL LETTER S WITH ACUTE', category: 'uppercase', components: ['U+0053', 'U+0301'] },
+  { unicode: 'U+015B', char: 'ś', name: 'LATIN SMALL LETTER S WITH ACUTE', category: 'lowercase', components: ['U+0073', 'U+0301'] },
+  { unicode: 'U+015C', char: 'Ŝ', name: 'LATIN CAPITAL LETTER S WITH CIRCUMFLEX', category: 'uppercase', components: ['U+0053', 'U+0302'] },
+  { unicode: 'U+015D', char: 'ŝ', name: 'LATIN SMALL LETTER S WITH CIRCUMFLEX', category: 'lowercase', components: ['U+0073', 'U+0302'] },
+  { unicode: 'U+015E', char: 'Ş', name: 'LATIN CAPITAL LETTER S WITH CEDILLA', category: 'uppercase', components: ['U+0053', 'U+0327'] },
+  { unicode: 'U+015F', char: 'ş', name: 'LATIN SMALL LETTER S WITH CEDILLA', category: 'lowercase', components: ['U+0073', 'U+0327'] },
+  { unicode: 'U+0160', char: 'Š', name: 'LATIN CAPITAL LETTER S WITH CARON', category: 'uppercase', components: ['U+0053', 'U+030C'] },
+  { unicode: 'U+0161', char: 'š', name: 'LATIN SMALL LETTER S WITH CARON', category: 'lowercase', components: ['U+0073', 'U+030C'] },
+  { unicode: 'U+0162', char: 'Ţ', name: 'LATIN CAPITAL LETTER T WITH CEDILLA', category: 'uppercase', components: ['U+0054', 'U+0327'] },
+  { unicode: 'U+0163', char: 'ţ', name: 'LATIN SMALL LETTER T WITH CEDILLA', category: 'lowercase', components: ['U+0074', 'U+0327'] },
+  { unicode: 'U+0164', char: 'Ť', name: 'LATIN CAPITAL LETTER T WITH CARON', category: 'uppercase', components: ['U+0054', 'U+030C'] },
+  { unicode: 'U+0165', char: 'ť', name: 'LATIN SMALL LETTER T WITH CARON', category: 'lowercase', components: ['U+0074', 'U+030C'] },
+  { unicode: 'U+0166', char: 'Ŧ', name: 'LATIN CAPITAL LETTER T WITH STROKE', category: 'uppercase' },
+  { unicode: 'U+0167', char: 'ŧ', name: 'LATIN SMALL LETTER T WITH STROKE', category: 'lowercase' },
+  { unicode: 'U+0168', char: 'Ũ', name: 'LATIN CAPITAL LETTER U WITH TILDE', category: 'uppercase', components: ['U+0055', 'U+0303'] },
+  { unicode: 'U+0169', char: 'ũ', name: 'LATIN SMALL LETTER U WITH TILDE', category: 'lowercase', components: ['U+0075', 'U+0303'] },
+  { unicode: 'U+016A', char: 'Ū', name: 'LATIN CAPITAL LETTER U WITH MACRON', category: 'uppercase', components: ['U+0055', 'U+0304'] },
+  { unicode: 'U+016B', char: 'ū', name: 'LATIN SMALL LETTER U WITH MACRON', category: 'lowercase', components: ['U+0075', 'U+0304'] },
+  { unicode: 'U+016C', char: 'Ŭ', name: 'LATIN CAPITAL LETTER U WITH BREVE', category: 'uppercase', components: ['U+0055', 'U+0306'] },
+  { unicode: 'U+016D', char: 'ŭ', name: 'LATIN SMALL LETTER U WITH BREVE', category: 'lowercase', components: ['U+0075', 'U+0306'] },
+  { unicode: 'U+016E', char: 'Ů', name: 'LATIN CAPITAL LETTER U WITH RING ABOVE', category: 'uppercase', components: ['U+0055', 'U+030A'] },
+  { unicode: 'U+016F', char: 'ů', name: 'LATIN SMALL LETTER U WITH RING ABOVE', category: 'lowercase', components: ['U+0075', 'U+030A'] },
+  { unicode: 'U+0170', char: 'Ű', name: 'LATIN CAPITAL LETTER U WITH DOUBLE ACUTE', category: 'uppercase', components: ['U+0055', 'U+030B'] },
+  { unicode: 'U+0171', char: 'ű', name: 'LATIN SMALL LETTER U WITH DOUBLE ACUTE', category: 'lowercase', components: ['U+0075', 'U+030B'] },
+  { unicode: 'U+0172', char: 'Ų', name: 'LATIN CAPITAL LETTER U WITH OGONEK', category: 'uppercase', components: ['U+0055', 'U+0328'] },
+  { unicode: 'U+0173', char: 'ų', name: 'LATIN SMALL LETTER U WITH OGONEK', category: 'lowercase', components: ['U+0075', 'U+0328'] },
+  { unicode: 'U+0174', char: 'Ŵ', name: 'LATIN CAPITAL LETTER W WITH CIRCUMFLEX', category: 'uppercase', components: ['U+0057', 'U+0302'] },
+  { unicode: 'U+0175', char: 'ŵ', name: 'LATIN SMALL LETTER W WITH CIRCUMFLEX', category: 'lowercase', components: ['U+0077', 'U+0302'] },
+  { unicode: 'U+0176', char: 'Ŷ', name: 'LATIN CAPITAL LETTER Y WITH CIRCUMFLEX', category: 'uppercase', components: ['U+0059', 'U+0302'] },
+  { unicode: 'U+0177', char: 'ŷ', name: 'LATIN SMALL LETTER Y WITH CIRCUMFLEX', category: 'lowercase', components: ['U+0079', 'U+0302'] },
+  { unicode: 'U+0178', char: 'Ÿ', name: 'LATIN CAPITAL LETTER Y WITH DIAERESIS', category: 'uppercase', components: ['U+0059', 'U+0308'] },
+  { unicode: 'U+0179', char: 'Ź', name: 'LATIN CAPITAL LETTER Z WITH ACUTE', category: 'uppercase', components: ['U+005A', 'U+0301'] },
+  { unicode: 'U+017A', char: 'ź', name: 'LATIN SMALL LETTER Z WITH ACUTE', category: 'lowercase', components: ['U+007A', 'U+0301'] },
+  { unicode: 'U+017B', char: 'Ż', name: 'LATIN CAPITAL LETTER Z WITH DOT ABOVE', category: 'uppercase', components: ['U+005A', 'U+0307'] },
+  { unicode: 'U+017C', char: 'ż', name: 'LATIN SMALL LETTER Z WITH DOT ABOVE', category: 'lowercase', components: ['U+007A', 'U+0307'] },
+  { unicode: 'U+017D', char: 'Ž', name: 'LATIN CAPITAL LETTER Z WITH CARON', category: 'uppercase', components: ['U+005A', 'U+030C'] },
+  { unicode: 'U+017E', char: 'ž', name: 'LATIN SMALL LETTER Z WITH CARON', category: 'lowercase', components: ['U+007A', 'U+030C'] },
+  { unicode: 'U+017F', char: 'ſ', name: 'LATIN SMALL LETTER LONG S', category: 'lowercase' },
+
+  // Dotless j, the base for j with circumflex
+  { unicode: 'U+0237', char: 'ȷ', name: 'LATIN SMALL LETTER DOTLESS J', category: 'lowercase' },
+
+  // Combining marks, drawn once and composed onto base letters
+  { unicode: 'U+0300', char: '\u0300', name: 'COMBINING GRAVE ACCENT', category: 'mark', description: 'Draw above the x-height line' },
+  { unicode: 'U+0301', char: '\u0301', name: 'COMBINING ACUTE ACCENT', category: 'mark', description: 'Draw above the x-height line' },
+  { unicode: 'U+0302', char: '\u0302', name: 'COMBINING CIRCUMFLEX ACCENT', category: 'mark', description: 'Draw above the x-height line' },
+  { unicode: 'U+0303', char: '\u0303', name: 'COMBINING TILDE', category: 'mark', description: 'Draw above the x-height line' },
+  { unicode: 'U+0304', char: '\u0304', name: 'COMBINING MACRON', category: 'mark', description: 'Draw above the x-height line' },
+  { unicode: 'U+0306', char: '\u0306', name: 'COMBINING BREVE', category: 'mark', description: 'Draw above the x-height line' },
+  { unicode: 'U+0307', char: '\u0307', name: 'COMBINING DOT ABOVE', category: 'mark', description: 'Draw above the x-height line' },
+  { unicode: 'U+0308', char: '\u0308', name: 'COMBINING DIAERESIS', category: 'mark', description: 'Draw above the x-height line' },
+  { unicode: 'U+030A', char: '\u030A', name: 'COMBINING RING ABOVE', category: 'mark', description: 'Draw above the x-height line' },
+  { unicode: 'U+030B', char: '\u030B', name: 'COMBINING DOUBLE ACUTE ACCENT', category: 'mark', description: 'Draw above the x-height line' },
+  { unicode: 'U+030C', char: '\u030C', name: 'COMBINING CARON', category: 'mark', description: 'Draw above the x-height line' },
+  { unicode: 'U+0327', char: '\u0327', name: 'COMBINING CEDILLA', category: 'mark', description: 'Draw below the baseline' },
+  { unicode: 'U+0328', char: '\u0328', name: 'COMBINING OGONEK', category: 'mark', description: 'Draw below the baseline, at the right of the letter' }
+];
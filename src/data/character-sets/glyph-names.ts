@@ -0,0 +1,180 @@
+import { CharacterDefinition } from './basic-latin';
+
+// Adobe Glyph List names for characters whose name isn't the character itself.
+// Letters (A, a) are named after themselves; accented letters are derived below.
+export const GLYPH_NAMES: Record<string, string> = {
+  // Basic Latin
+  space: 'U+0020',
+  exclam: 'U+0021',
+  quotedbl: 'U+0022',
+  numbersign: 'U+0023',
+  dollar: 'U+0024',
+  percent: 'U+0025',
+  ampersand: 'U+0026',
+  quotesingle: 'U+0027',
+  parenleft: 'U+0028',
+  parenright: 'U+0029',
+  asterisk: 'U+002A',
+  plus: 'U+002B',
+  comma: 'U+002C',
+  hyphen: 'U+002D',
+  period: 'U+002E',
+  slash: 'U+002F',
+  zero: 'U+0030',
+  one: 'U+0031',
+  two: 'U+0032',
+  three: 'U+0033',
+  four: 'U+0034',
+  five: 'U+0035',
+  six: 'U+0036',
+  seven: 'U+0037',
+  eight: 'U+0038',
+  nine: 'U+0039',
+  colon: 'U+003A',
+  semicolon: 'U+003B',
+  less: 'U+003C',
+  equal: 'U+003D',
+  greater: 'U+003E',
+  question: 'U+003F',
+  at: 'U+0040',
+  bracketleft: 'U+005B',
+  backslash: 'U+005C',
+  bracketright: 'U+005D',
+  asciicircum: 'U+005E',
+  underscore: 'U+005F',
+  grave: 'U+0060',
+  braceleft: 'U+007B',
+  bar: 'U+007C',
+  braceright: 'U+007D',
+  asciitilde: 'U+007E',
+
+  // Latin-1 Supplement
+  nbspace: 'U+00A0',
+  exclamdown: 'U+00A1',
+  cent: 'U+00A2',
+  sterling: 'U+00A3',
+  currency: 'U+00A4',
+  yen: 'U+00A5',
+  brokenbar: 'U+00A6',
+  section: 'U+00A7',
+  dieresis: 'U+00A8',
+  copyright: 'U+00A9',
+  ordfeminine: 'U+00AA',
+  guillemotleft: 'U+00AB',
+  logicalnot: 'U+00AC',
+  softhyphen: 'U+00AD',
+  registered: 'U+00AE',
+  macron: 'U+00AF',
+  degree: 'U+00B0',
+  plusminus: 'U+00B1',
+  twosuperior: 'U+00B2',
+  threesuperior: 'U+00B3',
+  acute: 'U+00B4',
+  mu: 'U+00B5',
+  paragraph: 'U+00B6',
+  periodcentered: 'U+00B7',
+  cedilla: 'U+00B8',
+  onesuperior: 'U+00B9',
+  ordmasculine: 'U+00BA',
+  guillemotright: 'U+00BB',
+  onequarter: 'U+00BC',
+  onehalf: 'U+00BD',
+  threequarters: 'U+00BE',
+  questiondown: 'U+00BF',
+  AE: 'U+00C6',
+  Eth: 'U+00D0',
+  multiply: 'U+00D7',
+  Oslash: 'U+00D8',
+  Thorn: 'U+00DE',
+  germandbls: 'U+00DF',
+  ae: 'U+00E6',
+  eth: 'U+00F0',
+  divide: 'U+00F7',
+  oslash: 'U+00F8',
+  thorn: 'U+00FE',
+
+  // Latin Extended-A letters without a decomposition
+  Dcroat: 'U+0110',
+  dcroat: 'U+0111',
+  Hbar: 'U+0126',
+  hbar: 'U+0127',
+  dotlessi: 'U+0131',
+  IJ: 'U+0132',
+  ij: 'U+0133',
+  kgreenlandic: 'U+0138',
+  Ldot: 'U+013F',
+  ldot: 'U+0140',
+  Lslash: 'U+0141',
+  lslash: 'U+0142',
+  napostrophe: 'U+0149',
+  Eng: 'U+014A',
+  eng: 'U+014B',
+  OE: 'U+0152',
+  oe: 'U+0153',
+  Tbar: 'U+0166',
+  tbar: 'U+0167',
+  longs: 'U+017F',
+  dotlessj: 'U+0237',
+
+  // Combining marks
+  gravecomb: 'U+0300',
+  acutecomb: 'U+0301',
+  tildecomb: 'U+0303'
+};
+
+// Name suffix used for each combining mark in composite glyph names (Aacute, scaron)
+const MARK_SUFFIXES: Record<string, string[]> = {
+  'U+0300': ['grave'],
+  'U+0301': ['acute'],
+  'U+0302': ['circumflex'],
+  'U+0303': ['tilde'],
+  'U+0304': ['macron'],
+  'U+0306': ['breve'],
+  'U+0307': ['dotaccent'],
+  'U+0308': ['dieresis'],
+  'U+030A': ['ring'],
+  'U+030B': ['hungarumlaut'],
+  'U+030C': ['caron'],
+  'U+0327': ['cedilla', 'commaaccent'],
+  'U+0328': ['ogonek']
+};
+
+/**
+ * Every glyph name a character answers to: its AGL name, composite names built
+ * from its base letter and mark, and the uniXXXX form
+ */
+export const getGlyphNames = (
+  character: CharacterDefinition,
+  characters: CharacterDefinition[]
+): string[] => {
+  const names = Object.keys(GLYPH_NAMES).filter(name => GLYPH_NAMES[name] === character.unicode);
+
+  if (character.components?.length === 2) {
+    const base = characters.find(c => c.unicode === character.components![0])
+      ?? { char: String.fromCharCode(parseInt(character.components[0].replace('U+', ''), 16)) };
+    for (const suffix of MARK_SUFFIXES[character.components[1]] ?? []) {
+      names.push(`${base.char}${suffix}`);
+    }
+  }
+
+  names.push(`uni${character.unicode.replace('U+', '')}`);
+  return names;
+};
+
+/**
+ * Looks a character up by its glyph name. Names are case-sensitive (Eth, eth);
+ * a name in the wrong case still matches when it can only mean one character.
+ */
+export const getCharacterByGlyphName = (
+  name: string,
+  characters: CharacterDefinition[]
+): CharacterDefinition | undefined => {
+  const exact = characters.find(character => getGlyphNames(character, characters).includes(name));
+  if (exact) return exact;
+
+  const lowerName = name.toLowerCase();
+  const candidates = characters.filter(character =>
+    getGlyphNames(character, characters).some(glyphName => glyphName.toLowerCase() === lowerName)
+  );
+  return candidates.length === 1 ? candidates[0] : undefined;
+};
@@ -1,6 +1,8 @@
 // Re-export everything from character sets
 export * from './character-sets';
 export * from './basic-latin';
+export * from './extended-latin';
+export * from './glyph-names';
 
 // Type definitions
 export type { CharacterDefinition } from './basic-latin';
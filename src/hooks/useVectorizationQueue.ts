@@ -0,0 +1,64 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import {
+    VectorizationQueue,
+    VectorizationQueueJob,
+    VectorizationTask,
+    EnqueueOptions,
+    vectorizationWorkerPool
+} from '../services/vectorization';
+
+export interface UseVectorizationQueueReturn {
+    jobs: Map<string, VectorizationQueueJob>;
+    activeCount: number;
+    enqueue: (id: string, task: VectorizationTask, options?: EnqueueOptions) => void;
+    prioritize: (id: string) => void;
+    cancel: (id: string) => void;
+    cancelAll: () => void;
+}
+
+export function useVectorizationQueue(maxAttempts = 2): UseVectorizationQueueReturn {
+    const queueRef = useRef<VectorizationQueue | null>(null);
+    if (!queueRef.current) {
+        // One job per pool worker keeps every worker busy without piling up decoded images
+        queueRef.current = new VectorizationQueue({ concurrency: vectorizationWorkerPool.size, maxAttempts });
+    }
+    const queue = queueRef.current;
+
+    const [jobs, setJobs] = useState<Map<string, VectorizationQueueJob>>(new Map());
+
+    // Mirror the queue's jobs, and cancel whatever is left when unmounting
+    useEffect(() => {
+        const unsubscribe = queue.subscribe(setJobs);
+        return () => {
+            unsubscribe();
+            queue.cancelAll();
+        };
+    }, [queue]);
+
+    const enqueue = useCallback((id: string, task: VectorizationTask, options?: EnqueueOptions) => {
+        queue.enqueue(id, task, options);
+    }, [queue]);
+
+    const prioritize = useCallback((id: string) => {
+        queue.prioritize(id);
+    }, [queue]);
+
+    const cancel = useCallback((id: string) => {
+        queue.cancel(id);
+    }, [queue]);
+
+    const cancelAll = useCallback(() => {
+        queue.cancelAll();
+    }, [queue]);
+
+    const activeCount = Array.from(jobs.values()).filter(job => job.status !== 'failed').length;
+
+    return {
+        jobs,
+        activeCount,
+        enqueue,
+        prioritize,
+        cancel,
+        cancelAll
+    };
+}
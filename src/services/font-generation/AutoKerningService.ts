@@ -0,0 +1,195 @@
+import { FontSettings, KerningData } from '../../types';
+import { CharacterData } from '../storage/CharacterDataStorage';
+import { CharacterSet, CharacterDefinition } from '../../data/character-sets';
+import { GlyphConverter } from './GlyphConverter';
+import { FontMetricsCalculator } from './FontMetricsCalculator';
+import { KerningCalculator } from './KerningCalculator';
+import { GlyphProfiler, GlyphProfile } from './GlyphProfiler';
+
+export interface KerningSuggestion {
+  left: string;         // Unicode key
+  right: string;        // Unicode key
+  value: number;        // Suggested kerning in font units
+  currentValue: number; // Kerning the pair has today (from pairs or classes)
+  opticalGap: number;   // Measured average gap between the facing profiles
+  targetGap: number;    // Gap the suggestion aims for
+}
+
+export interface AutoKerningOptions {
+  categories?: CharacterDefinition['category'][]; // Character categories to pair up
+  strength?: number;          // 0-1, how far to move each pair toward the target gap
+  minAdjustment?: number;     // Smaller suggestions are dropped (font units)
+  includeExplicitPairs?: boolean; // Also re-suggest pairs the user already set
+}
+
+interface SpacedGlyphProfile extends GlyphProfile {
+  advanceWidth: number;
+}
+
+const DEFAULT_OPTIONS: Required<AutoKerningOptions> = {
+  categories: ['uppercase', 'lowercase'],
+  strength: 0.6,
+  minAdjustment: 10,
+  includeExplicitPairs: false
+};
+
+// Horizontal bands the vertical range is split into when measuring profiles
+const BAND_COUNT = 60;
+
+// Straight-sided glyph per category whose spacing the others are matched to
+const REFERENCE_GLYPHS: Record<string, string> = {
+  uppercase: 'U+0048', // H
+  lowercase: 'U+006E', // n
+  digit: 'U+0030'      // 0
+};
+
+export class AutoKerningService {
+  /**
+   * Suggests kerning for every pair of vectorized characters in the character set.
+   * Each pair's optical gap (the average distance between the facing outlines,
+   * with open areas capped) is compared to the typical gap for that combination
+   * of categories, and the difference becomes the suggestion.
+   */
+  static suggestKerning(
+    characters: Map<string, CharacterData>,
+    characterSet: CharacterSet,
+    settings: FontSettings,
+    kerning: KerningData,
+    options: AutoKerningOptions = {}
+  ): KerningSuggestion[] {
+    const { categories, strength, minAdjustment, includeExplicitPairs } = { ...DEFAULT_OPTIONS, ...options };
+    const unitsPerEm = settings.unitsPerEm;
+    const ascender = FontMetricsCalculator.getSettingOrDefault(settings, 'ascender');
+    const descender = -Math.abs(FontMetricsCalculator.getSettingOrDefault(settings, 'descender'));
+    const scale = { unitsPerEm, capHeight: FontMetricsCalculator.getSettingOrDefault(settings, 'capHeight') };
+
+    // Profile every vectorized character in the requested categories
+    const profiles = new Map<string, { profile: SpacedGlyphProfile; category: CharacterDefinition['category'] }>();
+    for (const definition of characterSet.characters) {
+      if (!categories.includes(definition.category)) continue;
+      const charData = characters.get(definition.unicode);
+      if (!charData?.vectorData || charData.status !== 'complete') continue;
+
+      try {
+        const glyph = GlyphConverter.svgPathToOpenTypeGlyph(
+          charData.vectorData,
+          parseInt(definition.unicode.replace('U+', ''), 16),
+          charData.verticalFrame,
+          scale,
+          charData.glyphMetrics
+        );
+        profiles.set(definition.unicode, {
+          profile: {
+            ...GlyphProfiler.buildProfile(glyph.path, descender, ascender, BAND_COUNT),
+            advanceWidth: glyph.advanceWidth ?? 0
+          },
+          category: definition.category
+        });
+      } catch (error) {
+        console.warn(`⚠️ Skipping ${definition.unicode} for auto kerning:`, error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+
+    // Open areas deeper than this beyond the closest point only count up to it
+    const maxDepth = unitsPerEm * 0.15;
+    const minDistance = unitsPerEm * 0.02;
+
+    const measured: { left: string; right: string; group: string; gap: number; closest: number }[] = [];
+    for (const [left, leftEntry] of profiles) {
+      for (const [right, rightEntry] of profiles) {
+        const gap = this.measurePair(leftEntry.profile, rightEntry.profile, maxDepth);
+        if (!gap) continue;
+        measured.push({ left, right, group: `${leftEntry.category}-${rightEntry.category}`, ...gap });
+      }
+    }
+
+    // Straight-sided reference pairs (HH, Hn, nH, nn) set the gap everything is evened out to;
+    // without them, fall back to the tighter end of the measured gaps
+    const targets = new Map<string, number>();
+    const groups = new Set(measured.map(pair => pair.group));
+    for (const group of groups) {
+      const [leftCategory, rightCategory] = group.split('-');
+      const reference = measured.find(pair =>
+        pair.left === REFERENCE_GLYPHS[leftCategory] && pair.right === REFERENCE_GLYPHS[rightCategory]
+      );
+      if (reference) {
+        targets.set(group, reference.gap);
+        continue;
+      }
+      const gaps = measured.filter(pair => pair.group === group).map(pair => pair.gap).sort((a, b) => a - b);
+      targets.set(group, gaps[Math.floor(gaps.length / 4)]);
+    }
+
+    const suggestions: KerningSuggestion[] = [];
+    for (const pair of measured) {
+      const current = KerningCalculator.getPairValue(kerning, pair.left, pair.right);
+      if (current.source === 'pair' && !includeExplicitPairs) continue;
+
+      const targetGap = targets.get(pair.group)!;
+      let value = (targetGap - pair.gap) * strength;
+
+      // Never pull the outlines closer than minDistance
+      value = Math.max(value, minDistance - pair.closest);
+      value = Math.max(-unitsPerEm * 0.25, Math.min(unitsPerEm * 0.1, value));
+      value = Math.round(value / 5) * 5;
+
+      if (Math.abs(value - current.value) < minAdjustment) continue;
+
+      suggestions.push({
+        left: pair.left,
+        right: pair.right,
+        value,
+        currentValue: current.value,
+        opticalGap: Math.round(pair.gap),
+        targetGap: Math.round(targetGap)
+      });
+    }
+
+    console.log(`🔠 Auto kerning: ${suggestions.length} suggestion(s) from ${measured.length} pair(s) of ${profiles.size} glyph(s)`);
+    return suggestions.sort((a, b) => Math.abs(b.value - b.currentValue) - Math.abs(a.value - a.currentValue));
+  }
+
+  /**
+   * Applies accepted suggestions as explicit kerning pairs
+   */
+  static applySuggestions(kerning: KerningData, suggestions: KerningSuggestion[]): KerningData {
+    return suggestions.reduce(
+      (result, suggestion) => KerningCalculator.setPairValue(result, suggestion.left, suggestion.right, suggestion.value),
+      kerning
+    );
+  }
+
+  /**
+   * Measures the optical gap between the right profile of one glyph and the left
+   * profile of the next: the average band distance, with open areas (and bands
+   * where only one glyph has ink) limited to maxDepth beyond the closest point
+   */
+  private static measurePair(
+    left: SpacedGlyphProfile,
+    right: SpacedGlyphProfile,
+    maxDepth: number
+  ): { gap: number; closest: number } | null {
+    const gaps: number[] = [];
+    let bandsWithInk = 0;
+
+    for (let band = 0; band < BAND_COUNT; band++) {
+      const leftEdge = left.rightEdges[band];
+      const rightEdge = right.leftEdges[band];
+      const leftHasInk = !Number.isNaN(leftEdge);
+      const rightHasInk = !Number.isNaN(rightEdge);
+      if (leftHasInk || rightHasInk) bandsWithInk++;
+      if (leftHasInk && rightHasInk) {
+        gaps.push((left.advanceWidth - leftEdge) + rightEdge);
+      }
+    }
+
+    // Glyphs whose ink never shares a band (e.g. an apostrophe and a comma) have nothing to kern against
+    if (gaps.length === 0) return null;
+
+    const closest = Math.min(...gaps);
+    const limit = closest + maxDepth;
+    const total = gaps.reduce((sum, gap) => sum + Math.min(gap, limit), 0)
+      + (bandsWithInk - gaps.length) * limit;
+    return { gap: total / bandsWithInk, closest };
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Growable big-endian byte stream used to assemble binary tables
+ */
+export class ByteWriter {
+  private bytes: number[] = [];
+
+  get length(): number {
+    return this.bytes.length;
+  }
+
+  uint8(value: number): void {
+    this.bytes.push(value & 0xff);
+  }
+
+  uint16(value: number): void {
+    this.bytes.push((value >> 8) & 0xff, value & 0xff);
+  }
+
+  int16(value: number): void {
+    this.uint16(value & 0xffff);
+  }
+
+  uint32(value: number): void {
+    this.bytes.push((value >>> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff);
+  }
+
+  append(data: Uint8Array | number[]): void {
+    for (let i = 0; i < data.length; i++) {
+      this.bytes.push(data[i]);
+    }
+  }
+
+  /**
+   * WOFF2 255UInt16 variable-length encoding
+   */
+  uint255(value: number): void {
+    if (value < 253) {
+      this.uint8(value);
+    } else if (value < 506) {
+      this.uint8(255);
+      this.uint8(value - 253);
+    } else if (value < 762) {
+      this.uint8(254);
+      this.uint8(value - 506);
+    } else {
+      this.uint8(253);
+      this.uint16(value);
+    }
+  }
+
+  /**
+   * WOFF2 UIntBase128 variable-length encoding
+   */
+  base128(value: number): void {
+    const groups: number[] = [];
+    let remaining = value >>> 0;
+    do {
+      groups.unshift(remaining & 0x7f);
+      remaining >>>= 7;
+    } while (remaining > 0);
+
+    groups.forEach((group, index) => {
+      this.uint8(index < groups.length - 1 ? group | 0x80 : group);
+    });
+  }
+
+  /**
+   * Overwrites a uint16 written earlier, e.g. an offset only known later
+   */
+  setUint16(position: number, value: number): void {
+    this.bytes[position] = (value >> 8) & 0xff;
+    this.bytes[position + 1] = value & 0xff;
+  }
+
+  toUint8Array(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
@@ -1,4 +1,6 @@
 import { SVGPathCommand } from './GlyphConverter';
+import { GlyphVerticalFrame } from '../../types';
+import type { FontMetrics } from './FontMetricsCalculator';
 
 export interface TransformedPathCommand {
   type: SVGPathCommand['type'];
@@ -6,29 +8,51 @@ export interface TransformedPathCommand {
   relative: boolean;
 }
 
+export interface FrameMapping {
+  scale: number;    // font units per SVG unit
+  baseline: number; // SVG Y that maps to font Y = 0
+}
+
 export class CoordinateTransformer {
+  /**
+   * Frame used when a glyph has no explicit one: the normalized 200x200 viewBox
+   * fits the glyph into the 20..180 content area, so treat it as a capital letter
+   */
+  static readonly DEFAULT_FRAME: GlyphVerticalFrame = {
+    baseline: 180,
+    xHeight: 66,
+    capHeight: 20,
+    source: 'default'
+  };
+
   /**
    * Transforms SVG coordinates (Y-down) to OpenType coordinates (Y-up)
    * SVG: Y increases downward from top-left origin
    * OpenType: Y increases upward from bottom-left origin
-   * Also positions glyph relative to baseline for proper OpenType positioning
+   * The glyph's vertical frame decides where the baseline sits and how SVG
+   * units scale to font units (the frame's cap height maps to capHeight)
    */
-  static svgToOpenType(svgPath: string, unitsPerEm: number): string {
+  static svgToOpenType(
+    svgPath: string,
+    unitsPerEm: number,
+    frame: GlyphVerticalFrame = CoordinateTransformer.DEFAULT_FRAME,
+    capHeight: number = unitsPerEm * 0.7
+  ): string {
     try {
       // Parse SVG path into commands
       const commands = this.parseSVGPath(svgPath);
-      
-      // Calculate baseline positioning
-      const baselineOffset = this.calculateBaselineOffset(commands, unitsPerEm);
-      
-      // Transform coordinates with baseline positioning
-      const transformedCommands = commands.map(cmd => 
-        this.transformCommand(cmd, unitsPerEm, false, baselineOffset)
+
+      // Map the glyph's frame onto the font's baseline and cap height
+      const mapping = this.calculateFrameMapping(frame, capHeight);
+
+      // Transform coordinates relative to the frame
+      const transformedCommands = commands.map(cmd =>
+        this.transformCommand(cmd, mapping, false)
       );
-      
+
       // Convert back to path string
       return this.commandsToPathString(transformedCommands);
-      
+
     } catch (error) {
       console.error('❌ Coordinate transformation failed:', error);
       throw new Error(`Coordinate transformation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -39,153 +63,124 @@ export class CoordinateTransformer {
    * Transforms OpenType coordinates (Y-up) back to SVG coordinates (Y-down)
    * Useful for debugging and validation
    */
-  static openTypeToSvg(opentypePath: string, unitsPerEm: number): string {
+  static openTypeToSvg(
+    opentypePath: string,
+    unitsPerEm: number,
+    frame: GlyphVerticalFrame = CoordinateTransformer.DEFAULT_FRAME,
+    capHeight: number = unitsPerEm * 0.7
+  ): string {
     try {
       // Parse OpenType path into commands
       const commands = this.parseSVGPath(opentypePath);
-      
-      // Transform coordinates (reverse the Y transformation)
-      const transformedCommands = commands.map(cmd => 
-        this.transformCommand(cmd, unitsPerEm, true, 0)
+
+      // Transform coordinates (reverse the frame mapping)
+      const mapping = this.calculateFrameMapping(frame, capHeight);
+      const transformedCommands = commands.map(cmd =>
+        this.transformCommand(cmd, mapping, true)
       );
-      
+
       // Convert back to path string
       return this.commandsToPathString(transformedCommands);
-      
+
     } catch (error) {
       console.error('❌ Reverse coordinate transformation failed:', error);
       throw new Error(`Reverse coordinate transformation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
-  
+
   /**
-   * Calculate baseline offset to position glyph properly in OpenType space
-   * This ensures the glyph is positioned relative to the baseline (Y=0)
-   * rather than floating at the top of the unitsPerEm space
+   * Calculates how a glyph's frame maps into font units: the frame baseline
+   * lands on Y=0 and the distance from baseline to cap-height line becomes capHeight
    */
-  private static calculateBaselineOffset(commands: SVGPathCommand[], unitsPerEm: number): number {
-    // Find the bounding box of the glyph
-    let minY = Infinity;
-    let maxY = -Infinity;
-    
-    for (const command of commands) {
-      const yCoords = this.getYCoordinateIndices(command.type);
-      for (const yIndex of yCoords) {
-        if (yIndex < command.coordinates.length) {
-          const y = command.coordinates[yIndex];
-          minY = Math.min(minY, y);
-          maxY = Math.max(maxY, y);
-        }
-      }
-    }
-    
-    // Calculate baseline offset
-    // We want the glyph to be positioned so that:
-    // - The baseline (bottom of glyph) is at Y=0
-    // - The glyph extends upward from there
-    // - The top of the glyph doesn't exceed unitsPerEm
-    
-    if (minY === Infinity || maxY === Infinity) {
-      return 0; // No valid coordinates found
+  static calculateFrameMapping(frame: GlyphVerticalFrame, capHeight: number): FrameMapping {
+    const frameCapHeight = frame.baseline - frame.capHeight;
+
+    if (!(frameCapHeight > 0)) {
+      throw new Error(`Invalid glyph frame: cap-height line (${frame.capHeight}) must be above the baseline (${frame.baseline})`);
     }
-    
-    const glyphHeight = maxY - minY;
-    const baselineOffset = Math.max(0, unitsPerEm - glyphHeight - minY);
-    
-    // Ensure the glyph doesn't extend beyond unitsPerEm
-    const adjustedOffset = Math.min(baselineOffset, unitsPerEm - glyphHeight);
-    
-    console.log(`🔍 Baseline positioning: minY=${minY}, maxY=${maxY}, height=${glyphHeight}, offset=${adjustedOffset}`);
-    
-    return adjustedOffset;
+
+    const scale = capHeight / frameCapHeight;
+
+    console.log(`🔍 Frame positioning: baseline=${frame.baseline}, capHeight=${frame.capHeight} (${frame.source}), scale=${scale.toFixed(3)}`);
+
+    return { scale, baseline: frame.baseline };
+  }
+
+  /**
+   * Expresses font-level metrics in a glyph's SVG coordinates, anchored to its
+   * frame: heights above the baseline in SVG units, with baseline as a Y position
+   */
+  static toFrameMetrics(fontMetrics: FontMetrics, frame: GlyphVerticalFrame): FontMetrics {
+    const frameCapHeight = frame.baseline - frame.capHeight;
+    const scale = fontMetrics.capHeight > 0 ? frameCapHeight / fontMetrics.capHeight : 0;
+    return {
+      ...fontMetrics,
+      unitsPerEm: fontMetrics.unitsPerEm * scale,
+      ascender: fontMetrics.ascender * scale,
+      descender: fontMetrics.descender * scale,
+      xHeight: frame.baseline - frame.xHeight,
+      capHeight: frameCapHeight,
+      baseline: frame.baseline
+    };
   }
 
   /**
    * Transforms a single path command
    */
   private static transformCommand(
-    command: SVGPathCommand, 
-    unitsPerEm: number, 
-    reverse: boolean = false,
-    baselineOffset: number = 0
+    command: SVGPathCommand,
+    mapping: FrameMapping,
+    reverse: boolean = false
   ): TransformedPathCommand {
-    // For SVG to OpenType: y_opentype = baselineOffset + (unitsPerEm - y_svg)
-    // For OpenType to SVG: y_svg = unitsPerEm - (y_opentype - baselineOffset)
-    const multiplier = reverse ? -1 : 1;
-    
+    // For SVG to OpenType: x_ot = x_svg * scale, y_ot = (baseline - y_svg) * scale
+    // For OpenType to SVG: x_svg = x_ot / scale, y_svg = baseline - y_ot / scale
+    // Relative coordinates only scale (and flip Y), they never move with the baseline
+    const { scale, baseline } = mapping;
+    const mapX = (x: number) => reverse ? x / scale : x * scale;
+    const mapY = (y: number) => {
+      if (command.relative) {
+        return reverse ? -y / scale : -y * scale;
+      }
+      return reverse ? baseline - y / scale : (baseline - y) * scale;
+    };
+    const c = command.coordinates;
+
     switch (command.type) {
       case 'M': // Move to - 2 coordinates (x, y)
       case 'L': // Line to - 2 coordinates (x, y)
+      case 'T': // Smooth quadratic curve - 2 coordinates (x, y)
         return {
           type: command.type,
-          coordinates: [
-            command.coordinates[0], // X unchanged
-            baselineOffset + (multiplier * unitsPerEm) - command.coordinates[1] // Y transformed with baseline
-          ],
+          coordinates: [mapX(c[0]), mapY(c[1])],
           relative: command.relative
         };
 
       case 'H': // Horizontal line - 1 coordinate (x)
         return {
           type: command.type,
-          coordinates: [command.coordinates[0]], // X unchanged
+          coordinates: [mapX(c[0])],
           relative: command.relative
         };
 
       case 'V': // Vertical line - 1 coordinate (y)
         return {
           type: command.type,
-          coordinates: [
-            baselineOffset + (multiplier * unitsPerEm) - command.coordinates[0] // Y transformed with baseline
-          ],
+          coordinates: [mapY(c[0])],
           relative: command.relative
         };
 
       case 'C': // Cubic curve - 6 coordinates (x1, y1, x2, y2, x, y)
         return {
           type: command.type,
-          coordinates: [
-            command.coordinates[0], // x1 unchanged
-            baselineOffset + (multiplier * unitsPerEm) - command.coordinates[1], // y1 transformed with baseline
-            command.coordinates[2], // x2 unchanged
-            baselineOffset + (multiplier * unitsPerEm) - command.coordinates[3], // y2 transformed with baseline
-            command.coordinates[4], // x unchanged
-            baselineOffset + (multiplier * unitsPerEm) - command.coordinates[5] // y transformed with baseline
-          ],
+          coordinates: [mapX(c[0]), mapY(c[1]), mapX(c[2]), mapY(c[3]), mapX(c[4]), mapY(c[5])],
           relative: command.relative
         };
 
       case 'S': // Smooth cubic curve - 4 coordinates (x2, y2, x, y)
-        return {
-          type: command.type,
-          coordinates: [
-            command.coordinates[0], // x2 unchanged
-            baselineOffset + (multiplier * unitsPerEm) - command.coordinates[1], // y2 transformed with baseline
-            command.coordinates[2], // x unchanged
-            baselineOffset + (multiplier * unitsPerEm) - command.coordinates[3] // y transformed with baseline
-          ],
-          relative: command.relative
-        };
-
       case 'Q': // Quadratic curve - 4 coordinates (x1, y1, x, y)
         return {
           type: command.type,
-          coordinates: [
-            command.coordinates[0], // x1 unchanged
-            baselineOffset + (multiplier * unitsPerEm) - command.coordinates[1], // y1 transformed with baseline
-            command.coordinates[2], // x unchanged
-            baselineOffset + (multiplier * unitsPerEm) - command.coordinates[3] // y transformed with baseline
-          ],
-          relative: command.relative
-        };
-
-      case 'T': // Smooth quadratic curve - 2 coordinates (x, y)
-        return {
-          type: command.type,
-          coordinates: [
-            command.coordinates[0], // x unchanged
-            baselineOffset + (multiplier * unitsPerEm) - command.coordinates[1] // y transformed with baseline
-          ],
+          coordinates: [mapX(c[0]), mapY(c[1]), mapX(c[2]), mapY(c[3])],
           relative: command.relative
         };
 
@@ -193,13 +188,13 @@ export class CoordinateTransformer {
         return {
           type: command.type,
           coordinates: [
-            command.coordinates[0], // rx unchanged
-            command.coordinates[1], // ry unchanged
-            command.coordinates[2], // x-axis-rotation unchanged
-            command.coordinates[3], // large-arc-flag unchanged
-            command.coordinates[4], // sweep-flag unchanged
-            command.coordinates[5], // x unchanged
-            baselineOffset + (multiplier * unitsPerEm) - command.coordinates[6] // y transformed with baseline
+            mapX(c[0]), // rx scaled
+            mapX(c[1]), // ry scaled
+            -c[2], // rotation mirrors with the Y flip
+            c[3], // large-arc-flag unchanged
+            c[4] ? 0 : 1, // sweep direction flips with the Y axis
+            mapX(c[5]),
+            mapY(c[6])
           ],
           relative: command.relative
         };
@@ -276,7 +271,9 @@ export class CoordinateTransformer {
   static validateTransformation(
     originalPath: string, 
     transformedPath: string, 
-    unitsPerEm: number
+    unitsPerEm: number,
+    frame: GlyphVerticalFrame = CoordinateTransformer.DEFAULT_FRAME,
+    capHeight: number = unitsPerEm * 0.7
   ): { isValid: boolean; errors: string[]; warnings: string[] } {
     const errors: string[] = [];
     const warnings: string[] = [];
@@ -285,6 +282,7 @@ export class CoordinateTransformer {
       // Parse both paths
       const originalCommands = this.parseSVGPath(originalPath);
       const transformedCommands = this.parseSVGPath(transformedPath);
+      const { scale, baseline } = this.calculateFrameMapping(frame, capHeight);
 
       // Check command count
       if (originalCommands.length !== transformedCommands.length) {
@@ -307,7 +305,7 @@ export class CoordinateTransformer {
             if (yIndex < origCmd.coordinates.length && yIndex < transCmd.coordinates.length) {
               const originalY = origCmd.coordinates[yIndex];
               const transformedY = transCmd.coordinates[yIndex];
-              const expectedY = unitsPerEm - originalY;
+              const expectedY = origCmd.relative ? -originalY * scale : (baseline - originalY) * scale;
               
               if (Math.abs(transformedY - expectedY) > 0.1) {
                 errors.push(`Y-coordinate transformation error at command ${index}: expected ${expectedY}, got ${transformedY}`);
@@ -1,7 +1,8 @@
-import { CompiledFont } from '../../types';
+import { CompiledFont, CompiledFontVariant, FontFormat } from '../../types';
+import { SfntBuilder } from './SfntBuilder';
 
 export interface FontExportOptions {
-  format: 'ttf' | 'otf' | 'woff' | 'woff2';
+  format: FontFormat;
   filename?: string;
   includeMetadata?: boolean;
 }
@@ -22,16 +23,25 @@ export class FontExportService {
     options: FontExportOptions
   ): Promise<FontExportResult> {
     try {
-      // Validate format compatibility
-      if (options.format !== compiledFont.format) {
-        console.warn(`⚠️ Requested format ${options.format} doesn't match compiled format ${compiledFont.format}`);
+      // Resolve the compiled bytes for the requested format
+      const variant = this.getFormatVariant(compiledFont, options.format);
+      if (!variant) {
+        return {
+          success: false,
+          error: `Font was not compiled to ${options.format.toUpperCase()} format`
+        };
+      }
+
+      const validation = await this.validateFontFile(variant.fontData, options.format);
+      if (!validation.isValid) {
+        console.warn(`⚠️ ${options.format.toUpperCase()} validation issues:`, validation.issues);
       }
 
       // Generate filename
       const filename = this.generateFilename(options.filename || 'custom-font', options.format);
 
       // Create download
-      const downloadUrl = await this.createFontDownload(compiledFont.fontData, filename);
+      const downloadUrl = await this.createFontDownload(variant.fontData, filename);
 
       return {
         success: true,
@@ -48,6 +58,26 @@ export class FontExportService {
     }
   }
 
+  /**
+   * Gets the compiled font data for a format, falling back to the primary format
+   */
+  static getFormatVariant(compiledFont: CompiledFont, format: FontFormat): CompiledFontVariant | undefined {
+    const variant = compiledFont.variants?.[format];
+    if (variant) {
+      return variant;
+    }
+
+    if (compiledFont.format === format) {
+      return {
+        fontData: compiledFont.fontData,
+        size: compiledFont.size,
+        checksum: compiledFont.checksum
+      };
+    }
+
+    return undefined;
+  }
+
   /**
    * Creates a downloadable font file
    */
@@ -148,9 +178,13 @@ export class FontExportService {
   }
 
   /**
-   * Validates font file integrity
+   * Validates font file integrity, optionally checking the outline format
+   * (TTF must contain glyf/loca, OTF must have an 'OTTO' header and a CFF table)
    */
-  static async validateFontFile(fontData: ArrayBuffer): Promise<{ isValid: boolean; issues: string[] }> {
+  static async validateFontFile(
+    fontData: ArrayBuffer,
+    format?: FontFormat
+  ): Promise<{ isValid: boolean; issues: string[] }> {
     const issues: string[] = [];
 
     try {
@@ -164,18 +198,35 @@ export class FontExportService {
         issues.push('Font file is unusually large (more than 10MB)');
       }
 
-      // Check file header (basic TTF/OTF validation)
-      const header = new Uint8Array(fontData, 0, 4);
-      const headerString = String.fromCharCode(...header);
-      
-      if (!['OTTO', 'ttcf', 'true'].includes(headerString)) {
+      // Check file header (basic TTF/OTF/WOFF validation)
+      const view = new DataView(fontData);
+      const signature = view.getUint32(0);
+      const headerString = SfntBuilder.readTag(view, 0);
+      const isTrueTypeHeader = signature === SfntBuilder.TRUETYPE_FLAVOR || headerString === 'true';
+
+      if (!isTrueTypeHeader && !['OTTO', 'ttcf', 'wOFF', 'wOF2'].includes(headerString)) {
         issues.push('Font file has invalid header signature');
       }
 
-      // Additional validation could be added here
-      // - Check table structure
-      // - Validate glyph data
-      // - Check font metrics
+      if (format === 'otf') {
+        if (headerString !== 'OTTO') {
+          issues.push(`OTF font must have an 'OTTO' header (found '${headerString}')`);
+        }
+        if (!this.hasTable(view, 'CFF ') && !this.hasTable(view, 'CFF2')) {
+          issues.push('OTF font is missing its CFF outline table');
+        }
+      } else if (format === 'ttf') {
+        if (!isTrueTypeHeader) {
+          issues.push(`TTF font must have a TrueType header (found '${headerString}')`);
+        }
+        if (!this.hasTable(view, 'glyf') || !this.hasTable(view, 'loca')) {
+          issues.push('TTF font is missing its glyf/loca outline tables');
+        }
+      } else if (format === 'woff' && headerString !== 'wOFF') {
+        issues.push(`WOFF font must have a 'wOFF' header (found '${headerString}')`);
+      } else if (format === 'woff2' && headerString !== 'wOF2') {
+        issues.push(`WOFF2 font must have a 'wOF2' header (found '${headerString}')`);
+      }
 
     } catch (error) {
       issues.push(`Font validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -187,6 +238,21 @@ export class FontExportService {
     };
   }
 
+  /**
+   * Checks the sfnt table directory for a table tag
+   */
+  private static hasTable(view: DataView, tag: string): boolean {
+    if (view.byteLength < 12) return false;
+
+    const numTables = view.getUint16(4);
+    for (let i = 0; i < numTables; i++) {
+      const recordOffset = 12 + i * 16;
+      if (recordOffset + 16 > view.byteLength) return false;
+      if (SfntBuilder.readTag(view, recordOffset) === tag) return true;
+    }
+    return false;
+  }
+
   /**
    * Exports font metadata as JSON
    */
@@ -1,12 +1,21 @@
 import * as opentype from 'opentype.js';
-import { GlyphConverter } from './GlyphConverter';
-import { FontMetricsCalculator, FontMetrics } from './FontMetricsCalculator';
+import { GlyphConverter, GlyphScaleOptions } from './GlyphConverter';
+import { FontMetricsCalculator, FontMetrics, MetricConflict, SpacingResult } from './FontMetricsCalculator';
+import { KerningCalculator } from './KerningCalculator';
+import { GlyphComposer, GlyphAnchorPoints, MARK_ATTACHMENT } from './GlyphComposer';
+import { SfntBuilder, SfntFont } from './SfntBuilder';
+import { KerningTableBuilder } from './KerningTableBuilder';
+import { GposFeature, GposLookup, GposTableBuilder } from './GposTableBuilder';
+import { MarkPositioningBuilder } from './MarkPositioningBuilder';
+import { TrueTypeBuilder } from './TrueTypeBuilder';
+import { WebFontCompressor } from './WebFontCompressor';
 import { CharacterData } from '../../services/storage/CharacterDataStorage';
-import { FontSettings, CompiledFont } from '../../types';
+import { FontSettings, CompiledFont, CompiledFontVariant, FontFormat, KerningData } from '../../types';
 
 export interface FontProject {
   characters: Map<string, CharacterData>;
   fontSettings: FontSettings;
+  kerning?: KerningData;
   metadata: {
     name: string;
     description?: string;
@@ -30,6 +39,7 @@ export interface FontGenerationResult {
   error?: string;
   warnings?: string[];
   metrics?: FontMetrics;
+  conflicts?: MetricConflict[]; // FontSettings values that disagree with the glyph outlines
 }
 
 export class FontGenerator {
@@ -60,7 +70,11 @@ export class FontGenerator {
 
       // Convert SVG paths to OpenType glyphs
       this.updateProgress('converting', 20, 'Converting SVG paths to glyphs...');
-      const glyphs = await this.convertCharactersToGlyphs(project.characters);
+      const glyphScale: GlyphScaleOptions = {
+        unitsPerEm: project.fontSettings.unitsPerEm,
+        capHeight: FontMetricsCalculator.getSettingOrDefault(project.fontSettings, 'capHeight')
+      };
+      const glyphs = await this.convertCharactersToGlyphs(project.characters, glyphScale);
 
       if (glyphs.length === 0) {
         return {
@@ -69,11 +83,25 @@ export class FontGenerator {
         };
       }
 
-      // Calculate font metrics
+      // Apply the spacing mode before measuring, so the metrics see the final advances
+      const spacing = this.applySpacingMode(glyphs, project);
+      this.positionMarkGlyphs(glyphs, project.fontSettings.unitsPerEm);
+
+      // Accented letters that weren't drawn are built from their base letter and marks
+      glyphs.push(...GlyphComposer.composeMissingGlyphs(glyphs, project.characters, project.fontSettings));
+
+      // Anchors for the 'mark' and 'mkmk' features, taken from the final outlines
+      const anchors = this.resolveGlyphAnchors(glyphs, project);
+
+      // Calculate font metrics; FontSettings values take precedence over calculated ones
       this.updateProgress('calculating', 40, 'Calculating font metrics...');
-      const metrics = FontMetricsCalculator.calculateFontMetrics(glyphs);
+      const calculatedMetrics = FontMetricsCalculator.calculateFontMetrics(glyphs, project.fontSettings.unitsPerEm);
+      const { metrics, autoFilled, conflicts } = FontMetricsCalculator.resolveFontMetrics(
+        project.fontSettings,
+        calculatedMetrics
+      );
 
-      console.log('🔍 Calculated font metrics:', metrics);
+      console.log('🔍 Resolved font metrics:', metrics, 'auto-filled:', autoFilled);
 
       // Validate metrics
       const metricsValidation = FontMetricsCalculator.validateFontMetrics(metrics);
@@ -83,11 +111,11 @@ export class FontGenerator {
 
       // Build OpenType font
       this.updateProgress('building', 60, 'Building OpenType font...');
-      const font = await this.buildOpenTypeFont(glyphs, metrics, project.fontSettings);
+      const font = await this.buildOpenTypeFont(glyphs, metrics, project.fontSettings, spacing.fixedAdvanceWidth, project.kerning);
 
       // Compile font formats
       this.updateProgress('compiling', 80, 'Compiling font formats...');
-      const compiledFont = await this.compileFontFormats(font, project.metadata);
+      const compiledFont = await this.compileFontFormats(font, project.metadata, metrics, anchors, project.kerning);
 
       this.updateProgress('complete', 100, 'Font generation complete!');
 
@@ -95,7 +123,14 @@ export class FontGenerator {
         success: true,
         font: compiledFont,
         metrics: metrics,
-        warnings: metricsValidation.warnings
+        warnings: [
+          ...metricsValidation.warnings,
+          ...conflicts.map(conflict => conflict.message),
+          ...(spacing.fixedAdvanceWidth !== undefined && project.kerning && KerningCalculator.countPairs(project.kerning) > 0
+            ? ['Kerning is applied on top of monospace spacing, so kerned pairs will not line up with the fixed advance']
+            : [])
+        ],
+        conflicts
       };
 
     } catch (error) {
@@ -145,7 +180,10 @@ export class FontGenerator {
   /**
    * Converts character data to OpenType glyphs
    */
-  private async convertCharactersToGlyphs(characters: Map<string, CharacterData>): Promise<opentype.Glyph[]> {
+  private async convertCharactersToGlyphs(
+    characters: Map<string, CharacterData>,
+    scale: GlyphScaleOptions
+  ): Promise<opentype.Glyph[]> {
     const glyphs: opentype.Glyph[] = [];
     const totalCharacters = characters.size;
     let currentIndex = 0;
@@ -160,8 +198,14 @@ export class FontGenerator {
         // Convert Unicode string to number
         const unicodeNumber = parseInt(unicode.replace('U+', ''), 16);
 
-        // Convert SVG to OpenType glyph
-        const glyph = GlyphConverter.svgPathToOpenTypeGlyph(charData.vectorData, unicodeNumber);
+        // Convert SVG to OpenType glyph, positioned by its vertical frame
+        const glyph = GlyphConverter.svgPathToOpenTypeGlyph(
+          charData.vectorData,
+          unicodeNumber,
+          charData.verticalFrame,
+          scale,
+          charData.glyphMetrics
+        );
         glyphs.push(glyph);
 
         // Update progress
@@ -178,49 +222,120 @@ export class FontGenerator {
     return glyphs;
   }
 
+  /**
+   * Re-spaces the glyphs for the project's spacing mode; glyphs with their own
+   * sidebearings keep them in proportional and tabular modes
+   */
+  private applySpacingMode(glyphs: opentype.Glyph[], project: FontProject): SpacingResult {
+    const customSpacing = new Set<number>();
+    for (const [unicode, charData] of project.characters) {
+      if (charData.glyphMetrics) {
+        customSpacing.add(parseInt(unicode.replace('U+', ''), 16));
+      }
+    }
+
+    const spacing = FontMetricsCalculator.calculateOptimalAdvanceWidths(glyphs, project.fontSettings, customSpacing);
+    for (const glyph of glyphs) {
+      const assignment = glyph.unicode !== undefined ? spacing.glyphSpacing.get(glyph.unicode) : undefined;
+      if (assignment) {
+        GlyphConverter.setHorizontalSpacing(glyph, assignment.leftSideBearing, assignment.advanceWidth);
+      }
+    }
+    return spacing;
+  }
+
+  /**
+   * Gives combining marks a zero advance, hanging left of the origin over
+   * roughly where the previous letter sits for renderers without 'mark' support
+   */
+  private positionMarkGlyphs(glyphs: opentype.Glyph[], unitsPerEm: number): void {
+    for (const glyph of glyphs) {
+      if (glyph.unicode === undefined || !MARK_ATTACHMENT[GlyphComposer.toUnicodeKey(glyph.unicode)]) continue;
+      const box = glyph.path.getBoundingBox();
+      GlyphConverter.setHorizontalSpacing(glyph, Math.round(-unitsPerEm * 0.25 - (box.x2 - box.x1) / 2), 0);
+    }
+  }
+
+  /**
+   * Resolves the anchors of every glyph, keyed by Unicode key
+   */
+  private resolveGlyphAnchors(glyphs: opentype.Glyph[], project: FontProject): Map<string, GlyphAnchorPoints> {
+    const anchors = new Map<string, GlyphAnchorPoints>();
+    for (const glyph of glyphs) {
+      if (glyph.unicode === undefined) continue;
+      const unicode = GlyphComposer.toUnicodeKey(glyph.unicode);
+      anchors.set(unicode, GlyphComposer.resolveAnchors(glyph, project.characters.get(unicode), project.fontSettings));
+    }
+    return anchors;
+  }
+
   /**
    * Builds an OpenType font from glyphs and metrics
    */
   private async buildOpenTypeFont(
     glyphs: opentype.Glyph[],
     metrics: FontMetrics,
-    settings: FontSettings
+    settings: FontSettings,
+    fixedAdvanceWidth?: number,
+    kerning?: KerningData
   ): Promise<opentype.Font> {
 
-    // Add required glyphs (space, null, etc.)
-    const requiredGlyphs = this.createRequiredGlyphs(metrics);
+    // Add required glyphs (space, null, etc.); monospace fonts give them the fixed advance too
+    const requiredGlyphs = this.createRequiredGlyphs(
+      fixedAdvanceWidth ?? FontMetricsCalculator.getSpaceWidth(settings),
+      fixedAdvanceWidth ?? Math.round(metrics.unitsPerEm * 0.6)
+    );
     const allGlyphs = [...requiredGlyphs, ...glyphs];
 
     // Ensure descender is negative (OpenType.js requirement)
-    const descender = Math.abs(metrics.descender) > 0 ? -Math.abs(metrics.descender) : -200;
+    const descender = -Math.abs(metrics.descender);
 
     console.log('🔍 Font creation metrics:', {
       unitsPerEm: metrics.unitsPerEm,
       ascender: metrics.ascender,
       descender: descender,
-      originalDescender: metrics.descender
+      xHeight: metrics.xHeight,
+      capHeight: metrics.capHeight,
+      lineGap: metrics.lineGap
     });
 
-    // Create font instance with hardcoded defaults
+    // Create font instance with the resolved metrics; opentype.js fills the
+    // name table for every platform from these options
     const font = new opentype.Font({
       familyName: settings.metadata.familyName,
       styleName: 'Regular', // Hardcoded default
       unitsPerEm: metrics.unitsPerEm,
       ascender: metrics.ascender,
       descender: descender,
+      manufacturer: settings.metadata.author || 'Glyph Potluck',
+      designer: settings.metadata.author || undefined,
+      description: settings.metadata.description || undefined,
+      license: settings.metadata.license || 'MIT',
+      version: settings.metadata.version || '1.0',
       glyphs: allGlyphs
     });
 
-    // Add font metadata
-    font.names.fontFamily = { en: settings.metadata.familyName };
-    font.names.fontSubfamily = { en: 'Regular' }; // Hardcoded default
-    font.names.manufacturer = { en: settings.metadata.author || 'Glyph Potluck' };
-    font.names.description = { en: settings.metadata.description || '' };
-    font.names.license = { en: settings.metadata.license || 'MIT' };
-    font.names.version = { en: settings.metadata.version || '1.0' };
+    // OS/2 and post fields override what opentype.js would guess from the outlines
+    font.tables.os2 = {
+      ...font.tables.os2,
+      sTypoAscender: metrics.ascender,
+      sTypoDescender: descender,
+      sTypoLineGap: metrics.lineGap,
+      sxHeight: metrics.xHeight,
+      sCapHeight: metrics.capHeight,
+      fsSelection: 0x00c0 // REGULAR | USE_TYPO_METRICS
+    };
+    font.tables.post = {
+      ...font.tables.post,
+      underlinePosition: metrics.underlinePosition,
+      underlineThickness: metrics.underlineThickness,
+      isFixedPitch: fixedAdvanceWidth !== undefined ? 1 : 0
+    };
 
-    // Note: OpenType.js doesn't support setting underlinePosition/underlineThickness directly
-    // These are calculated automatically from the font metrics
+    // Kerning for opentype.js layout; the GPOS/kern tables are written when compiling
+    if (kerning) {
+      font.kerningPairs = KerningTableBuilder.toOpenTypeKerningPairs(font, kerning);
+    }
 
     return font;
   }
@@ -228,14 +343,14 @@ export class FontGenerator {
   /**
    * Creates required glyphs that every font needs
    */
-  private createRequiredGlyphs(_metrics: FontMetrics): opentype.Glyph[] {
+  private createRequiredGlyphs(spaceWidth: number, notdefWidth: number): opentype.Glyph[] {
     const glyphs: opentype.Glyph[] = [];
 
     // Space character (U+0020)
     const spaceGlyph = new opentype.Glyph({
       name: 'space',
       unicode: 0x0020,
-      advanceWidth: 500, // Standard space width
+      advanceWidth: spaceWidth,
       path: new opentype.Path() // Empty path
     });
     glyphs.push(spaceGlyph);
@@ -244,7 +359,7 @@ export class FontGenerator {
     const nullGlyph = new opentype.Glyph({
       name: '.notdef',
       unicode: 0x0000,
-      advanceWidth: 600,
+      advanceWidth: notdefWidth,
       path: new opentype.Path() // Empty path
     });
     glyphs.push(nullGlyph);
@@ -255,20 +370,108 @@ export class FontGenerator {
   /**
    * Compiles the font into multiple formats
    */
-  private async compileFontFormats(font: opentype.Font, _metadata: any): Promise<CompiledFont> {
-    // Generate TTF format
-    const ttfBuffer = font.toArrayBuffer();
+  private async compileFontFormats(
+    font: opentype.Font,
+    _metadata: any,
+    metrics: FontMetrics,
+    anchors: Map<string, GlyphAnchorPoints>,
+    kerning?: KerningData
+  ): Promise<CompiledFont> {
+    // opentype.js writes CFF outlines, which keep the original cubic curves
+    const cffFont = SfntBuilder.parse(font.toArrayBuffer());
+    this.applyTableOverrides(cffFont, metrics);
+    this.applyGlyphPositioning(cffFont, font, anchors, kerning);
+    const otfBuffer = SfntBuilder.build(cffFont);
+
+    // TrueType (quadratic glyf) outlines; the web formats are derived from these bytes
+    const ttfBuffer = TrueTypeBuilder.build(font, otfBuffer);
+
+    const woffBuffer = await WebFontCompressor.toWoff(ttfBuffer);
+    const woff2Buffer = await WebFontCompressor.toWoff2(ttfBuffer);
+
+    const variants: Partial<Record<FontFormat, CompiledFontVariant>> = {
+      ttf: await this.createVariant(ttfBuffer),
+      otf: await this.createVariant(otfBuffer),
+      woff: await this.createVariant(woffBuffer),
+      woff2: await this.createVariant(woff2Buffer)
+    };
 
-    // Calculate checksum
-    const checksum = await this.calculateChecksum(ttfBuffer);
+    console.log(`📦 Compiled font formats: TTF ${ttfBuffer.byteLength}B, OTF ${otfBuffer.byteLength}B, WOFF ${woffBuffer.byteLength}B, WOFF2 ${woff2Buffer.byteLength}B`);
 
     return {
       fontData: ttfBuffer,
       format: 'ttf',
       size: ttfBuffer.byteLength,
-      checksum: checksum,
+      checksum: variants.ttf!.checksum,
       glyphCount: font.glyphs.length,
-      generatedAt: new Date()
+      generatedAt: new Date(),
+      variants
+    };
+  }
+
+  /**
+   * Writes the GPOS table ('kern', 'mark' and 'mkmk' features), the GDEF glyph
+   * classes that mark positioning relies on, and a legacy 'kern' table
+   */
+  private applyGlyphPositioning(
+    sfnt: SfntFont,
+    font: opentype.Font,
+    anchors: Map<string, GlyphAnchorPoints>,
+    kerning?: KerningData
+  ): void {
+    const features: GposFeature[] = [];
+    const lookups: GposLookup[] = [];
+    const addFeature = (tag: string, lookup: GposLookup | null) => {
+      if (!lookup) return;
+      features.push({ tag, lookupIndices: [lookups.length] });
+      lookups.push(lookup);
+    };
+
+    if (kerning) {
+      addFeature('kern', KerningTableBuilder.buildKerningLookup(font, kerning));
+      KerningTableBuilder.applyKernTable(sfnt, font, kerning);
+    }
+
+    const glyphAnchors = new Map<number, GlyphAnchorPoints>();
+    const markGlyphs = new Set<number>();
+    for (const [unicode, points] of anchors) {
+      const glyphId = KerningTableBuilder.resolveGlyphId(font, unicode);
+      if (glyphId <= 0) continue;
+      glyphAnchors.set(glyphId, points);
+      if (MARK_ATTACHMENT[unicode]) markGlyphs.add(glyphId);
+    }
+
+    if (markGlyphs.size > 0) {
+      const { markToBase, markToMark } = MarkPositioningBuilder.buildLookups(glyphAnchors, markGlyphs);
+      addFeature('mark', markToBase);
+      addFeature('mkmk', markToMark);
+      sfnt.tables.set('GDEF', MarkPositioningBuilder.buildGdef(font.glyphs.length, markGlyphs));
+      console.log(`📌 Added mark positioning for ${markGlyphs.size} mark(s) over ${glyphAnchors.size - markGlyphs.size} base glyph(s)`);
+    }
+
+    if (lookups.length > 0) {
+      sfnt.tables.set('GPOS', GposTableBuilder.build(features, lookups));
+    }
+  }
+
+  /**
+   * Patches table fields that opentype.js always writes with fixed values
+   */
+  private applyTableOverrides(sfnt: SfntFont, metrics: FontMetrics): void {
+    const hhea = sfnt.tables.get('hhea');
+    if (hhea) {
+      new DataView(hhea.buffer, hhea.byteOffset, hhea.byteLength).setInt16(8, metrics.lineGap); // lineGap
+    }
+  }
+
+  /**
+   * Wraps compiled font bytes with their size and checksum
+   */
+  private async createVariant(fontData: ArrayBuffer): Promise<CompiledFontVariant> {
+    return {
+      fontData,
+      size: fontData.byteLength,
+      checksum: await this.calculateChecksum(fontData)
     };
   }
 
@@ -1,4 +1,6 @@
 import * as opentype from 'opentype.js';
+import { FontSettings } from '../../types';
+import { GlyphProfiler } from './GlyphProfiler';
 
 export interface FontMetrics {
   unitsPerEm: number;
@@ -24,21 +26,162 @@ export interface GlyphMetrics {
   };
 }
 
+export type UserMetricField = 'ascender' | 'descender' | 'xHeight' | 'capHeight' | 'lineGap';
+
+export interface MetricConflict {
+  field: UserMetricField;
+  userValue: number;
+  calculatedValue: number;
+  message: string;
+}
+
+export interface ResolvedFontMetrics {
+  metrics: FontMetrics;
+  autoFilled: UserMetricField[];
+  conflicts: MetricConflict[];
+}
+
+export interface GlyphSpacingAssignment {
+  leftSideBearing: number; // Where the outline's left edge goes
+  advanceWidth: number;
+}
+
+export interface SpacingResult {
+  glyphSpacing: Map<number, GlyphSpacingAssignment>; // Code point -> spacing
+  fixedAdvanceWidth?: number; // Set in monospace mode
+}
+
 export class FontMetricsCalculator {
+  // Fallback vertical metrics as fractions of unitsPerEm
+  static readonly DEFAULT_PROPORTIONS: Record<Exclude<UserMetricField, 'lineGap'>, number> = {
+    ascender: 0.8,
+    descender: -0.2,
+    xHeight: 0.5,
+    capHeight: 0.7
+  };
+
+  // Fallback space advance width as a fraction of unitsPerEm
+  static readonly DEFAULT_SPACE_WIDTH = 0.5;
+
+  // Proportional spacing: bands sampled per glyph, the deepest open space counted
+  // (fraction of unitsPerEm) and how much of that space is taken off the sidebearing
+  private static readonly SPACING_BAND_COUNT = 40;
+  private static readonly SPACING_MAX_DEPTH = 0.15;
+  private static readonly SPACING_COMPENSATION = 0.5;
+
+  // Differences larger than this fraction of unitsPerEm are reported as conflicts
+  private static readonly CONFLICT_TOLERANCE = 0.05;
+
+  /**
+   * Gets a vertical metric from FontSettings, falling back to the default proportion
+   */
+  static getSettingOrDefault(settings: FontSettings, field: Exclude<UserMetricField, 'lineGap'>): number {
+    const value = settings[field];
+    return typeof value === 'number' && Number.isFinite(value)
+      ? value
+      : Math.round(settings.unitsPerEm * this.DEFAULT_PROPORTIONS[field]);
+  }
+
+  /**
+   * Gets the space glyph's advance width from FontSettings, falling back to half an em
+   */
+  static getSpaceWidth(settings: FontSettings): number {
+    const value = settings.spaceWidth;
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0
+      ? Math.round(value)
+      : Math.round(settings.unitsPerEm * this.DEFAULT_SPACE_WIDTH);
+  }
+
+  /**
+   * Merges user FontSettings with metrics calculated from the glyphs: user values
+   * always win, calculated values only fill unset fields, and disagreements
+   * beyond CONFLICT_TOLERANCE are reported
+   */
+  static resolveFontMetrics(settings: FontSettings, calculated: FontMetrics): ResolvedFontMetrics {
+    const autoFilled: UserMetricField[] = [];
+    const conflicts: MetricConflict[] = [];
+    const tolerance = settings.unitsPerEm * this.CONFLICT_TOLERANCE;
+    const fields: UserMetricField[] = ['ascender', 'descender', 'xHeight', 'capHeight', 'lineGap'];
+    const resolved: FontMetrics = { ...calculated, unitsPerEm: settings.unitsPerEm };
+
+    for (const field of fields) {
+      const userValue = settings[field];
+      if (typeof userValue !== 'number' || !Number.isFinite(userValue)) {
+        autoFilled.push(field);
+        // Glyph sets without descenders measure 0, which would leave no room below the baseline
+        if (field === 'descender' && calculated.descender >= 0) {
+          resolved.descender = this.getSettingOrDefault(settings, 'descender');
+        }
+        continue;
+      }
+
+      // Descender is stored negative regardless of how it was entered
+      const value = field === 'descender' ? -Math.abs(userValue) : userValue;
+      resolved[field] = value;
+
+      const calculatedValue = calculated[field];
+      const message = this.describeConflict(field, value, calculatedValue, tolerance);
+      if (message) {
+        conflicts.push({ field, userValue: value, calculatedValue, message });
+      }
+    }
+
+    // Underline metrics follow the resolved vertical metrics
+    resolved.underlinePosition = Math.round(resolved.descender * 0.1);
+    resolved.underlineThickness = Math.round((resolved.ascender - resolved.descender) * 0.05);
+
+    if (conflicts.length > 0) {
+      console.warn('⚠️ Font metric conflicts:', conflicts.map(c => c.message));
+    }
+
+    return { metrics: resolved, autoFilled, conflicts };
+  }
+
+  /**
+   * Describes a disagreement between a user metric and the glyph outlines, if any
+   */
+  private static describeConflict(
+    field: UserMetricField,
+    userValue: number,
+    calculatedValue: number,
+    tolerance: number
+  ): string | null {
+    switch (field) {
+      case 'ascender':
+        return calculatedValue > userValue + tolerance
+          ? `Ascender is ${userValue} but the tallest glyph reaches ${calculatedValue}; it may be clipped`
+          : null;
+      case 'descender':
+        return calculatedValue < userValue - tolerance
+          ? `Descender is ${userValue} but the lowest glyph reaches ${calculatedValue}; it may be clipped`
+          : null;
+      case 'xHeight':
+        return Math.abs(calculatedValue - userValue) > tolerance
+          ? `X-height is ${userValue} but lowercase glyphs measure ${calculatedValue}`
+          : null;
+      case 'capHeight':
+        return Math.abs(calculatedValue - userValue) > tolerance
+          ? `Cap height is ${userValue} but capital glyphs measure ${calculatedValue}`
+          : null;
+      default:
+        return null;
+    }
+  }
+
   /**
    * Calculates comprehensive font metrics from a collection of glyphs
    */
-  static calculateFontMetrics(glyphs: opentype.Glyph[]): FontMetrics {
+  static calculateFontMetrics(glyphs: opentype.Glyph[], unitsPerEm: number = 1000): FontMetrics {
     if (glyphs.length === 0) {
       throw new Error('Cannot calculate metrics for empty glyph collection');
     }
 
     try {
       // Calculate basic metrics
-      const ascender = this.calculateAscender(glyphs);
-      const descender = this.calculateDescender(glyphs);
-      const xHeight = this.calculateXHeight(glyphs);
-      const capHeight = this.calculateCapHeight(glyphs);
+      const ascender = this.calculateAscender(glyphs, unitsPerEm);
+      const descender = this.calculateDescender(glyphs, unitsPerEm);
+      const xHeight = this.calculateXHeight(glyphs, unitsPerEm);
+      const capHeight = this.calculateCapHeight(glyphs, unitsPerEm);
       
       // Calculate line gap (space between lines)
       const lineGap = Math.round((ascender - descender) * 0.2); // 20% of total height
@@ -48,7 +191,7 @@ export class FontMetricsCalculator {
       const underlineThickness = Math.round((ascender - descender) * 0.05); // 5% of total height
 
           const result = {
-      unitsPerEm: 1000, // Standard OpenType units per em
+      unitsPerEm,
       ascender: Math.round(ascender),
       descender: Math.round(descender),
       xHeight: Math.round(xHeight),
@@ -71,7 +214,7 @@ export class FontMetricsCalculator {
   /**
    * Calculates the ascender (highest point) of the font
    */
-  private static calculateAscender(glyphs: opentype.Glyph[]): number {
+  private static calculateAscender(glyphs: opentype.Glyph[], unitsPerEm: number): number {
     let maxAscender = -Infinity;
     
     glyphs.forEach(glyph => {
@@ -87,7 +230,7 @@ export class FontMetricsCalculator {
 
     // If no valid bounds found, use default
     if (maxAscender === -Infinity) {
-      maxAscender = 800; // Default ascender for 1000 units per em
+      maxAscender = unitsPerEm * this.DEFAULT_PROPORTIONS.ascender;
     }
 
     return maxAscender;
@@ -96,7 +239,7 @@ export class FontMetricsCalculator {
   /**
    * Calculates the descender (lowest point) of the font
    */
-  private static calculateDescender(glyphs: opentype.Glyph[]): number {
+  private static calculateDescender(glyphs: opentype.Glyph[], unitsPerEm: number): number {
     let minDescender = Infinity;
     
     glyphs.forEach(glyph => {
@@ -112,7 +255,7 @@ export class FontMetricsCalculator {
 
     // If no valid bounds found, use default
     if (minDescender === Infinity) {
-      minDescender = -200; // Default descender for 1000 units per em
+      minDescender = unitsPerEm * this.DEFAULT_PROPORTIONS.descender;
     }
 
     return minDescender;
@@ -121,7 +264,7 @@ export class FontMetricsCalculator {
   /**
    * Calculates the x-height (height of lowercase 'x')
    */
-  private static calculateXHeight(glyphs: opentype.Glyph[]): number {
+  private static calculateXHeight(glyphs: opentype.Glyph[], unitsPerEm: number): number {
     // Look for lowercase 'x' first
     const xGlyph = glyphs.find(g => g.unicode === 0x78); // 'x' character
     
@@ -165,13 +308,13 @@ export class FontMetricsCalculator {
     }
 
     // Default x-height: 50% of ascender
-    return Math.round(this.calculateAscender(glyphs) * 0.5);
+    return Math.round(this.calculateAscender(glyphs, unitsPerEm) * 0.5);
   }
 
   /**
    * Calculates the cap height (height of capital letters)
    */
-  private static calculateCapHeight(glyphs: opentype.Glyph[]): number {
+  private static calculateCapHeight(glyphs: opentype.Glyph[], unitsPerEm: number): number {
     // Look for capital 'H' first (good reference for cap height)
     const hGlyph = glyphs.find(g => g.unicode === 0x48); // 'H' character
     
@@ -215,35 +358,117 @@ export class FontMetricsCalculator {
     }
 
     // Default cap height: 80% of ascender
-    return Math.round(this.calculateAscender(glyphs) * 0.8);
+    return Math.round(this.calculateAscender(glyphs, unitsPerEm) * 0.8);
   }
 
   /**
-   * Calculates optimal advance widths for glyphs
+   * Calculates advance widths for the font's spacing mode, keyed by code point.
+   * Proportional spacing fits each glyph's sidebearings to its outline profile
+   * (glyphs in customSpacing keep the sidebearings the user set); tabular mode
+   * also centres the digits in a shared advance, and monospace centres every
+   * glyph in one fixed advance.
    */
-  static calculateOptimalAdvanceWidths(glyphs: opentype.Glyph[]): Map<string, number> {
-    const advanceWidths = new Map<string, number>();
-    
-    glyphs.forEach(glyph => {
+  static calculateOptimalAdvanceWidths(
+    glyphs: opentype.Glyph[],
+    settings: FontSettings,
+    customSpacing: Set<number> = new Set()
+  ): SpacingResult {
+    const mode = settings.spacingMode || 'manual';
+    const glyphSpacing = new Map<number, GlyphSpacingAssignment>();
+    if (mode === 'manual') {
+      return { glyphSpacing };
+    }
+
+    const outlines = new Map<number, { box: opentype.BoundingBox; fitted: GlyphSpacingAssignment }>();
+    for (const glyph of glyphs) {
+      if (glyph.unicode === undefined) continue;
       try {
-        const bounds = glyph.getBoundingBox();
-        if (bounds) {
-          // Calculate optimal advance width based on bounds
-          const width = bounds.x2 - bounds.x1;
-          const leftSideBearing = Math.max(0, -bounds.x1);
-          const rightSideBearing = Math.max(0, 50); // Default right margin
-          
-          const advanceWidth = Math.round(width + leftSideBearing + rightSideBearing);
-          advanceWidths.set(glyph.name || 'unknown', advanceWidth);
+        if (glyph.path.commands.length === 0) {
+          glyphSpacing.set(glyph.unicode, { leftSideBearing: 0, advanceWidth: glyph.advanceWidth ?? 0 });
+          continue;
         }
+        const box = glyph.getBoundingBox();
+        const fitted = customSpacing.has(glyph.unicode)
+          ? { leftSideBearing: Math.round(box.x1), advanceWidth: glyph.advanceWidth ?? 0 }
+          : this.fitSidebearings(glyph, box, settings);
+        outlines.set(glyph.unicode, { box, fitted });
+        glyphSpacing.set(glyph.unicode, fitted);
       } catch (error) {
-        console.warn(`⚠️ Could not calculate advance width for glyph ${glyph.name}:`, error);
-        // Use default advance width
-        advanceWidths.set(glyph.name || 'unknown', 600);
+        console.warn(`⚠️ Could not calculate advance width for glyph ${glyph.name}:`, error instanceof Error ? error.message : 'Unknown error');
       }
-    });
+    }
+
+    const centreIn = (codePoints: number[], advanceWidth: number) => {
+      for (const codePoint of codePoints) {
+        const outline = outlines.get(codePoint);
+        const width = outline ? outline.box.x2 - outline.box.x1 : 0;
+        glyphSpacing.set(codePoint, {
+          leftSideBearing: Math.round((advanceWidth - width) / 2),
+          advanceWidth
+        });
+      }
+    };
+
+    if (mode === 'monospace') {
+      const widest = Math.max(0, ...Array.from(outlines.values()).map(outline => outline.fitted.advanceWidth));
+      const fixedAdvanceWidth = typeof settings.fixedAdvanceWidth === 'number' && settings.fixedAdvanceWidth > 0
+        ? Math.round(settings.fixedAdvanceWidth)
+        : widest || Math.round(settings.unitsPerEm * 0.6);
+      centreIn(Array.from(glyphSpacing.keys()), fixedAdvanceWidth);
+      console.log(`📏 Monospace spacing: ${glyphSpacing.size} glyph(s) at ${fixedAdvanceWidth} units`);
+      return { glyphSpacing, fixedAdvanceWidth };
+    }
+
+    if (mode === 'tabular') {
+      const digits = Array.from(outlines.keys()).filter(codePoint => codePoint >= 0x30 && codePoint <= 0x39);
+      if (digits.length > 0) {
+        const tabularWidth = Math.max(...digits.map(codePoint => outlines.get(codePoint)!.fitted.advanceWidth));
+        centreIn(digits, tabularWidth);
+        console.log(`📏 Tabular figures: ${digits.length} digit(s) at ${tabularWidth} units`);
+      }
+    }
+
+    return { glyphSpacing };
+  }
 
-    return advanceWidths;
+  /**
+   * Fits sidebearings to an outline: each side starts from the default
+   * sidebearing and gives back part of the open space along that side (capped
+   * at SPACING_MAX_DEPTH), so round and diagonal sides sit closer than straight ones
+   */
+  private static fitSidebearings(
+    glyph: opentype.Glyph,
+    box: opentype.BoundingBox,
+    settings: FontSettings
+  ): GlyphSpacingAssignment {
+    const unitsPerEm = settings.unitsPerEm;
+    const baseSidebearing = Math.round(unitsPerEm * 0.05);
+    const maxDepth = unitsPerEm * this.SPACING_MAX_DEPTH;
+
+    // Measure over the x-height zone for short glyphs and the cap height zone otherwise;
+    // glyphs outside that zone (quotes, commas) are measured over their own height
+    const xHeight = this.getSettingOrDefault(settings, 'xHeight');
+    const zoneTop = box.y2 <= xHeight * 1.1 ? xHeight : this.getSettingOrDefault(settings, 'capHeight');
+    let bottom = Math.max(0, box.y1);
+    let top = Math.min(zoneTop, box.y2);
+    if (top - bottom < unitsPerEm * 0.05) {
+      bottom = box.y1;
+      top = box.y2;
+    }
+
+    const profile = GlyphProfiler.buildProfile(glyph.path, bottom, top, this.SPACING_BAND_COUNT);
+    const meanDepth = (edges: number[], edgeDepth: (edge: number) => number) =>
+      edges.reduce((sum, edge) => sum + (Number.isNaN(edge) ? maxDepth : Math.min(edgeDepth(edge), maxDepth)), 0) / edges.length;
+
+    const leftDepth = meanDepth(profile.leftEdges, edge => edge - box.x1);
+    const rightDepth = meanDepth(profile.rightEdges, edge => box.x2 - edge);
+    const leftSideBearing = Math.max(0, Math.round(baseSidebearing - leftDepth * this.SPACING_COMPENSATION));
+    const rightSideBearing = Math.max(0, Math.round(baseSidebearing - rightDepth * this.SPACING_COMPENSATION));
+
+    return {
+      leftSideBearing,
+      advanceWidth: Math.round(leftSideBearing + (box.x2 - box.x1) + rightSideBearing)
+    };
   }
 
   /**
@@ -295,7 +520,7 @@ export class FontMetricsCalculator {
   static normalizeFontMetrics(metrics: FontMetrics): FontMetrics {
     return {
       ...metrics,
-      unitsPerEm: 1000, // Standard OpenType value
+      unitsPerEm: Math.round(metrics.unitsPerEm) || 1000,
       baseline: 0, // Baseline is always at 0
       ascender: Math.round(metrics.ascender),
       descender: Math.round(metrics.descender),
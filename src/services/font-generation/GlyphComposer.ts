@@ -0,0 +1,270 @@
+import * as opentype from 'opentype.js';
+import { AnchorName, FontSettings, GlyphAnchor, GlyphVerticalFrame } from '../../types';
+import { CharacterData } from '../storage/CharacterDataStorage';
+import { CharacterDefinition, getComposableCharacters } from '../../data/character-sets';
+import { FontMetricsCalculator } from './FontMetricsCalculator';
+import { CoordinateTransformer } from './CoordinateTransformer';
+import { GlyphConverter } from './GlyphConverter';
+
+export interface AnchorPoint {
+  x: number; // Font units
+  y: number;
+}
+
+// A glyph's anchors in font units, relative to its final outline
+export type GlyphAnchorPoints = Partial<Record<GlyphAnchor['name'], AnchorPoint>>;
+
+// Which anchor each combining mark attaches to
+export const MARK_ATTACHMENT: Record<string, AnchorName> = {
+  'U+0300': 'top',    // grave
+  'U+0301': 'top',    // acute
+  'U+0302': 'top',    // circumflex
+  'U+0303': 'top',    // tilde
+  'U+0304': 'top',    // macron
+  'U+0306': 'top',    // breve
+  'U+0307': 'top',    // dot above
+  'U+0308': 'top',    // diaeresis
+  'U+030A': 'top',    // ring above
+  'U+030B': 'top',    // double acute
+  'U+030C': 'top',    // caron
+  'U+0327': 'bottom', // cedilla
+  'U+0328': 'ogonek'  // ogonek
+};
+
+// Letters whose dot makes way for marks above them
+const DOTLESS_BASES: Record<string, string> = {
+  'U+0069': 'U+0131', // i -> dotless i
+  'U+006A': 'U+0237'  // j -> dotless j
+};
+
+export class GlyphComposer {
+  /**
+   * Finds the drawn glyphs an accented character can be composed from, or null
+   * when a component is missing. Top marks on i and j need the dotless forms.
+   */
+  static resolveComponents(
+    definition: CharacterDefinition,
+    isAvailable: (unicode: string) => boolean
+  ): { base: string; marks: string[] } | null {
+    if (!definition.components || definition.components.length < 2) return null;
+
+    const [letter, ...marks] = definition.components;
+    if (marks.some(mark => !MARK_ATTACHMENT[mark] || !isAvailable(mark))) return null;
+
+    const needsDotless = DOTLESS_BASES[letter] && marks.some(mark => MARK_ATTACHMENT[mark] === 'top');
+    const base = needsDotless ? DOTLESS_BASES[letter] : letter;
+    return isAvailable(base) ? { base, marks } : null;
+  }
+
+  /**
+   * Whether a character would be composed at generation time: it isn't drawn
+   * itself, but its base letter and marks are
+   */
+  static canCompose(definition: CharacterDefinition, characters: Map<string, CharacterData>): boolean {
+    const isDrawn = (unicode: string) => {
+      const charData = characters.get(unicode);
+      return !!charData?.vectorData && charData.status === 'complete';
+    };
+    return !isDrawn(definition.unicode) && this.resolveComponents(definition, isDrawn) !== null;
+  }
+
+  /**
+   * Composes every accented character that isn't drawn but whose base letter
+   * and marks are. Composed glyphs keep the base glyph's advance width.
+   */
+  static composeMissingGlyphs(
+    glyphs: opentype.Glyph[],
+    characters: Map<string, CharacterData>,
+    settings: FontSettings
+  ): opentype.Glyph[] {
+    const byUnicode = new Map<string, opentype.Glyph>();
+    for (const glyph of glyphs) {
+      if (glyph.unicode !== undefined) {
+        byUnicode.set(this.toUnicodeKey(glyph.unicode), glyph);
+      }
+    }
+
+    const composed: opentype.Glyph[] = [];
+    for (const definition of getComposableCharacters()) {
+      if (byUnicode.has(definition.unicode)) continue;
+
+      const components = this.resolveComponents(definition, unicode => byUnicode.has(unicode));
+      if (!components) continue;
+
+      try {
+        const base = byUnicode.get(components.base)!;
+        composed.push(this.composeGlyph(
+          parseInt(definition.unicode.replace('U+', ''), 16),
+          { glyph: base, anchors: this.resolveAnchors(base, characters.get(components.base), settings) },
+          components.marks.map(mark => {
+            const glyph = byUnicode.get(mark)!;
+            return { unicode: mark, glyph, anchors: this.resolveAnchors(glyph, characters.get(mark), settings) };
+          })
+        ));
+      } catch (error) {
+        console.warn(`⚠️ Could not compose ${definition.unicode}:`, error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+
+    if (composed.length > 0) {
+      console.log(`🧩 Composed ${composed.length} accented glyph(s) from base letters and marks`);
+    }
+    return composed;
+  }
+
+  /**
+   * Builds a glyph from a base glyph and marks, moving each mark so its
+   * attachment anchor ("_top") lands on the matching anchor of the base
+   */
+  static composeGlyph(
+    unicode: number,
+    base: { glyph: opentype.Glyph; anchors: GlyphAnchorPoints },
+    marks: { unicode: string; glyph: opentype.Glyph; anchors: GlyphAnchorPoints }[]
+  ): opentype.Glyph {
+    const path = new opentype.Path();
+    path.extend(base.glyph.path);
+
+    const anchors = { ...this.getBaseAnchors(base.glyph), ...base.anchors };
+
+    for (const mark of marks) {
+      const attachment = MARK_ATTACHMENT[mark.unicode];
+      const anchor = anchors[attachment];
+      const markAnchor = mark.anchors[`_${attachment}`];
+      if (!anchor || !markAnchor) {
+        throw new Error(`Mark ${mark.unicode} has no ${attachment} anchor`);
+      }
+      const dx = anchor.x - markAnchor.x;
+      const dy = anchor.y - markAnchor.y;
+
+      path.extend(this.translatePath(mark.glyph.path, dx, dy));
+
+      // The next mark stacks on this one's own anchor of the same kind
+      const stackAnchor = mark.anchors[attachment];
+      if (stackAnchor) {
+        anchors[attachment] = { x: stackAnchor.x + dx, y: stackAnchor.y + dy };
+      }
+    }
+
+    return new opentype.Glyph({
+      name: `uni${unicode.toString(16).toUpperCase().padStart(4, '0')}`,
+      unicode,
+      path,
+      advanceWidth: base.glyph.advanceWidth
+    });
+  }
+
+  /**
+   * Where a drawn glyph's anchors sit by default, in path coordinates. Bases get
+   * top (centre of the top edge), bottom (below the centre, on the baseline or the
+   * descender) and ogonek (bottom right on the baseline). Marks are drawn in place
+   * for a lowercase letter, so a top mark attaches at the x-height and the others
+   * at the baseline; top marks also carry a top anchor for marks stacked above.
+   */
+  static getDefaultPathAnchors(unicode: string, svgPath: string, frame: GlyphVerticalFrame): GlyphAnchor[] {
+    const bounds = GlyphConverter.getSvgPathBounds(svgPath);
+    if (!bounds) return [];
+
+    const centreX = (bounds.xMin + bounds.xMax) / 2;
+    const top = { x: centreX, y: bounds.yMin };
+    const attachment = MARK_ATTACHMENT[unicode];
+
+    if (!attachment) {
+      return [
+        { name: 'top', ...top },
+        { name: 'bottom', x: centreX, y: Math.max(frame.baseline, bounds.yMax) },
+        { name: 'ogonek', x: bounds.xMax, y: frame.baseline }
+      ];
+    }
+
+    switch (attachment) {
+      case 'top':
+        return [{ name: '_top', x: centreX, y: frame.xHeight }, { name: 'top', ...top }];
+      case 'bottom':
+        return [{ name: '_bottom', x: centreX, y: frame.baseline }];
+      case 'ogonek':
+        return [{ name: '_ogonek', x: bounds.xMax, y: frame.baseline }];
+    }
+  }
+
+  /**
+   * Merges anchors the user placed over the defaults for a glyph, in path coordinates
+   */
+  static getPathAnchors(
+    unicode: string,
+    svgPath: string,
+    frame: GlyphVerticalFrame,
+    placed: GlyphAnchor[] = []
+  ): GlyphAnchor[] {
+    return this.getDefaultPathAnchors(unicode, svgPath, frame).map(anchor =>
+      placed.find(candidate => candidate.name === anchor.name) || anchor
+    );
+  }
+
+  /**
+   * A generated glyph's anchors in font units. Drawn anchors are mapped the same
+   * way as the outline, following it through sidebearing and spacing shifts;
+   * glyphs without a drawing fall back to the base anchors of their outline.
+   */
+  static resolveAnchors(
+    glyph: opentype.Glyph,
+    charData: CharacterData | undefined,
+    settings: FontSettings
+  ): GlyphAnchorPoints {
+    const svgBounds = charData?.vectorData ? GlyphConverter.getSvgPathBounds(charData.vectorData) : null;
+    if (!charData?.vectorData || !svgBounds || glyph.path.commands.length === 0) {
+      return this.getBaseAnchors(glyph);
+    }
+
+    const frame = charData.verticalFrame || CoordinateTransformer.DEFAULT_FRAME;
+    try {
+      const mapping = CoordinateTransformer.calculateFrameMapping(
+        frame,
+        FontMetricsCalculator.getSettingOrDefault(settings, 'capHeight')
+      );
+      const offsetX = glyph.path.getBoundingBox().x1 - svgBounds.xMin * mapping.scale;
+
+      const anchors: GlyphAnchorPoints = {};
+      const placed = charData.vectorizedGlyph?.editablePathData.anchors;
+      for (const anchor of this.getPathAnchors(charData.unicode, charData.vectorData, frame, placed)) {
+        anchors[anchor.name] = {
+          x: Math.round(anchor.x * mapping.scale + offsetX),
+          y: Math.round((mapping.baseline - anchor.y) * mapping.scale)
+        };
+      }
+      return anchors;
+    } catch (error) {
+      console.warn(`⚠️ Using outline anchors for ${charData.unicode}:`, error instanceof Error ? error.message : 'Unknown error');
+      return this.getBaseAnchors(glyph);
+    }
+  }
+
+  /**
+   * Anchors of a base letter: top at the centre of its top edge, bottom on
+   * the baseline below its centre, ogonek at its bottom right
+   */
+  static getBaseAnchors(glyph: opentype.Glyph): Record<AnchorName, AnchorPoint> {
+    const box = glyph.path.getBoundingBox();
+    const centreX = (box.x1 + box.x2) / 2;
+    return {
+      top: { x: centreX, y: box.y2 },
+      bottom: { x: centreX, y: Math.min(0, box.y1) },
+      ogonek: { x: box.x2, y: 0 }
+    };
+  }
+
+  private static translatePath(source: opentype.Path, dx: number, dy: number): opentype.Path {
+    const path = new opentype.Path();
+    for (const command of source.commands) {
+      const moved = { ...command };
+      if ('x' in moved) { moved.x += dx; moved.y += dy; }
+      if ('x1' in moved) { moved.x1 += dx; moved.y1 += dy; }
+      if ('x2' in moved) { moved.x2 += dx; moved.y2 += dy; }
+      path.commands.push(moved);
+    }
+    return path;
+  }
+
+  static toUnicodeKey(codePoint: number): string {
+    return `U+${codePoint.toString(16).toUpperCase().padStart(4, '0')}`;
+  }
+}
@@ -1,5 +1,6 @@
 import * as opentype from 'opentype.js';
 import { CoordinateTransformer } from './CoordinateTransformer';
+import { GlyphVerticalFrame, GlyphMetrics as GlyphSpacing } from '../../types';
 
 export interface SVGPathCommand {
   type: 'M' | 'L' | 'H' | 'V' | 'C' | 'S' | 'Q' | 'T' | 'A' | 'Z';
@@ -19,24 +20,59 @@ export interface GlyphMetrics {
   };
 }
 
+export interface GlyphScaleOptions {
+  unitsPerEm: number;
+  capHeight: number; // Font units that the glyph frame's cap height maps onto
+}
+
+export type GlyphSidebearings = Pick<GlyphSpacing, 'leftSideBearing' | 'rightSideBearing'>;
+
 export class GlyphConverter {
   /**
-   * Converts an SVG path string to an OpenType glyph
+   * Default sidebearings for glyphs without their own spacing (5% of the em each side)
+   */
+  static getDefaultSidebearings(unitsPerEm: number): GlyphSidebearings {
+    const sidebearing = Math.round(unitsPerEm * 0.05);
+    return { leftSideBearing: sidebearing, rightSideBearing: sidebearing };
+  }
+
+  /**
+   * Bounding box of an SVG path in its own coordinates, including curve extremes
+   */
+  static getSvgPathBounds(svgPath: string): GlyphMetrics['bounds'] | null {
+    const bounds = this.buildOpenTypePath(this.parseSVGPath(svgPath)).getBoundingBox();
+    if (!Number.isFinite(bounds.x1) || !Number.isFinite(bounds.x2) || bounds.x2 < bounds.x1) {
+      return null;
+    }
+    return { xMin: bounds.x1, yMin: bounds.y1, xMax: bounds.x2, yMax: bounds.y2 };
+  }
+
+  /**
+   * Converts an SVG path string to an OpenType glyph, positioned by the
+   * glyph's vertical frame (or the default frame when none is set). The outline
+   * is moved horizontally so it starts at the left sidebearing, and the advance
+   * width is the sidebearings plus the outline width.
    */
-  static svgPathToOpenTypeGlyph(svgPath: string, unicode: number): opentype.Glyph {
+  static svgPathToOpenTypeGlyph(
+    svgPath: string,
+    unicode: number,
+    frame: GlyphVerticalFrame = CoordinateTransformer.DEFAULT_FRAME,
+    scale: GlyphScaleOptions = { unitsPerEm: 1000, capHeight: 700 },
+    sidebearings?: GlyphSidebearings
+  ): opentype.Glyph {
     try {
       // Transform SVG coordinates to OpenType coordinates
-      const unitsPerEm = 1000; // Standard OpenType units per em
-      const transformedPath = CoordinateTransformer.svgToOpenType(svgPath, unitsPerEm);
+      const { unitsPerEm, capHeight } = scale;
+      const transformedPath = CoordinateTransformer.svgToOpenType(svgPath, unitsPerEm, frame, capHeight);
       
       console.log(`🔍 Coordinate transformation for U+${unicode.toString(16).toUpperCase()}:`);
       console.log('  Original SVG:', svgPath);
       console.log('  Transformed:', transformedPath);
       
       // Validate the transformation
-      const validation = CoordinateTransformer.validateTransformation(svgPath, transformedPath, unitsPerEm);
+      const validation = CoordinateTransformer.validateTransformation(svgPath, transformedPath, unitsPerEm, frame, capHeight);
       if (!validation.isValid) {
-        console.warn(`⚠️ Coordinate transformation warnings for U+${unicode.toString(16).toUpperCase()}:`, validation.warnings);
+        console.warn(`⚠️ Coordinate transformation warnings for U+${unicode.toString(16).toUpperCase()}:`, validation.errors);
       }
       
       // Parse transformed path into commands
@@ -45,12 +81,12 @@ export class GlyphConverter {
       // Convert to OpenType path
       const path = this.buildOpenTypePath(commands);
       
-      // Calculate glyph metrics from transformed path
-      const metrics = this.calculateGlyphMetrics(transformedPath);
+      // Apply sidebearings and derive the advance width from them
+      const metrics = this.applySidebearings(path, sidebearings || this.getDefaultSidebearings(unitsPerEm));
       
       // Create OpenType glyph
       return new opentype.Glyph({
-        name: `uni${unicode.toString(16).toUpperCase()}`,
+        name: `uni${unicode.toString(16).toUpperCase().padStart(4, '0')}`,
         unicode: unicode,
         path: path,
         advanceWidth: metrics.advanceWidth
@@ -61,6 +97,27 @@ export class GlyphConverter {
     }
   }
 
+  /**
+   * Moves a glyph's outline so it starts at leftSideBearing and sets its advance width
+   */
+  static setHorizontalSpacing(glyph: opentype.Glyph, leftSideBearing: number, advanceWidth: number): void {
+    if (glyph.path.commands.length > 0) {
+      this.shiftPath(glyph.path, leftSideBearing - glyph.path.getBoundingBox().x1);
+    }
+    glyph.advanceWidth = Math.max(0, Math.round(advanceWidth));
+  }
+
+  /**
+   * Moves every point of a path horizontally
+   */
+  private static shiftPath(path: opentype.Path, offsetX: number): void {
+    for (const command of path.commands) {
+      if ('x' in command) command.x += offsetX;
+      if ('x1' in command) command.x1 += offsetX;
+      if ('x2' in command) command.x2 += offsetX;
+    }
+  }
+
   /**
    * Parses SVG path string into command objects
    */
@@ -177,6 +234,19 @@ export class GlyphConverter {
           }
           break;
 
+        case 'Q': // Quadratic curve to (TrueType outlines from opened fonts)
+          if (command.coordinates.length >= 4) {
+            const x1 = command.relative ? currentX + command.coordinates[0] : command.coordinates[0];
+            const y1 = command.relative ? currentY + command.coordinates[1] : command.coordinates[1];
+            const x = command.relative ? currentX + command.coordinates[2] : command.coordinates[2];
+            const y = command.relative ? currentY + command.coordinates[3] : command.coordinates[3];
+
+            path.quadraticCurveTo(x1, y1, x, y);
+            currentX = x;
+            currentY = y;
+          }
+          break;
+
         case 'Z': // Close path
           path.closePath();
           break;
@@ -191,54 +261,35 @@ export class GlyphConverter {
   }
 
   /**
-   * Calculates glyph metrics from SVG path
+   * Shifts the path so its left edge sits at the left sidebearing and
+   * calculates the resulting glyph metrics
    */
-  private static calculateGlyphMetrics(svgPath: string): GlyphMetrics {
-    // Parse path to get bounding box
-    const commands = this.parseSVGPath(svgPath);
-    
-    let xMin = Infinity, yMin = Infinity, xMax = -Infinity, yMax = -Infinity;
-    let currentX = 0, currentY = 0;
-
-    commands.forEach(command => {
-      switch (command.type) {
-        case 'M':
-        case 'L':
-          if (command.coordinates.length >= 2) {
-            const x = command.relative ? currentX + command.coordinates[0] : command.coordinates[0];
-            const y = command.relative ? currentY + command.coordinates[1] : command.coordinates[1];
-            xMin = Math.min(xMin, x);
-            yMin = Math.min(yMin, y);
-            xMax = Math.max(xMax, x);
-            yMax = Math.max(yMax, y);
-            currentX = x;
-            currentY = y;
-          }
-          break;
-        // Add other cases as needed
-      }
-    });
+  private static applySidebearings(path: opentype.Path, sidebearings: GlyphSidebearings): GlyphMetrics {
+    const { leftSideBearing, rightSideBearing } = sidebearings;
+
+    if (path.commands.length === 0) {
+      return {
+        leftSideBearing,
+        rightSideBearing,
+        advanceWidth: Math.max(0, Math.round(leftSideBearing + rightSideBearing)),
+        bounds: { xMin: 0, yMin: 0, xMax: 0, yMax: 0 }
+      };
+    }
 
-    // Calculate metrics
-    const width = xMax - xMin;
-    // const height = yMax - yMin; // Not used currently
-    
-    // Default side bearings (can be optimized later)
-    const leftSideBearing = Math.max(0, -xMin);
-    const rightSideBearing = Math.max(0, 50); // Default right margin
-    
-    // Calculate advance width based on character bounds
-    const advanceWidth = Math.round(width + leftSideBearing + rightSideBearing);
+    const box = path.getBoundingBox();
+    const offsetX = leftSideBearing - box.x1;
+    this.shiftPath(path, offsetX);
 
+    const width = box.x2 - box.x1;
     return {
       leftSideBearing: Math.round(leftSideBearing),
       rightSideBearing: Math.round(rightSideBearing),
-      advanceWidth,
+      advanceWidth: Math.max(0, Math.round(leftSideBearing + width + rightSideBearing)),
       bounds: {
-        xMin: Math.round(xMin),
-        yMin: Math.round(yMin),
-        xMax: Math.round(xMax),
-        yMax: Math.round(yMax)
+        xMin: Math.round(box.x1 + offsetX),
+        yMin: Math.round(box.y1),
+        xMax: Math.round(box.x2 + offsetX),
+        yMax: Math.round(box.y2)
       }
     };
   }
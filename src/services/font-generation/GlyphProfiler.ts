@@ -0,0 +1,80 @@
+import * as opentype from 'opentype.js';
+
+export interface GlyphProfile {
+  leftEdges: number[];  // Leftmost ink per band (NaN where the band is empty)
+  rightEdges: number[]; // Rightmost ink per band (NaN where the band is empty)
+}
+
+export class GlyphProfiler {
+  /**
+   * Samples an outline into per-band leftmost/rightmost ink positions between
+   * bottom and top (font units, y up)
+   */
+  static buildProfile(path: opentype.Path, bottom: number, top: number, bandCount: number): GlyphProfile {
+    const leftEdges = new Array<number>(bandCount).fill(NaN);
+    const rightEdges = new Array<number>(bandCount).fill(NaN);
+    const bandHeight = (top - bottom) / bandCount;
+    const sampleStep = bandHeight / 4;
+
+    const addPoint = (x: number, y: number) => {
+      const band = Math.floor((y - bottom) / bandHeight);
+      if (band < 0 || band >= bandCount) return;
+      if (Number.isNaN(leftEdges[band]) || x < leftEdges[band]) leftEdges[band] = x;
+      if (Number.isNaN(rightEdges[band]) || x > rightEdges[band]) rightEdges[band] = x;
+    };
+
+    const addLine = (x0: number, y0: number, x1: number, y1: number) => {
+      const steps = Math.max(1, Math.ceil(Math.hypot(x1 - x0, y1 - y0) / sampleStep));
+      for (let i = 0; i <= steps; i++) {
+        const t = i / steps;
+        addPoint(x0 + (x1 - x0) * t, y0 + (y1 - y0) * t);
+      }
+    };
+
+    let startX = 0, startY = 0, currentX = 0, currentY = 0;
+    for (const command of path.commands) {
+      switch (command.type) {
+        case 'M':
+          startX = currentX = command.x;
+          startY = currentY = command.y;
+          break;
+        case 'L':
+          addLine(currentX, currentY, command.x, command.y);
+          currentX = command.x;
+          currentY = command.y;
+          break;
+        case 'Q':
+        case 'C': {
+          // Flatten curves into short segments
+          const segments = 16;
+          let previousX = currentX, previousY = currentY;
+          for (let i = 1; i <= segments; i++) {
+            const t = i / segments;
+            const mt = 1 - t;
+            let x: number, y: number;
+            if (command.type === 'Q') {
+              x = mt * mt * currentX + 2 * mt * t * command.x1 + t * t * command.x;
+              y = mt * mt * currentY + 2 * mt * t * command.y1 + t * t * command.y;
+            } else {
+              x = mt * mt * mt * currentX + 3 * mt * mt * t * command.x1 + 3 * mt * t * t * command.x2 + t * t * t * command.x;
+              y = mt * mt * mt * currentY + 3 * mt * mt * t * command.y1 + 3 * mt * t * t * command.y2 + t * t * t * command.y;
+            }
+            addLine(previousX, previousY, x, y);
+            previousX = x;
+            previousY = y;
+          }
+          currentX = command.x;
+          currentY = command.y;
+          break;
+        }
+        case 'Z':
+          addLine(currentX, currentY, startX, startY);
+          currentX = startX;
+          currentY = startY;
+          break;
+      }
+    }
+
+    return { leftEdges, rightEdges };
+  }
+}
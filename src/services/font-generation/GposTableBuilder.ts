@@ -0,0 +1,169 @@
+import { ByteWriter } from './ByteWriter';
+
+export interface GposLookup {
+  type: number;           // GPOS lookup type (2 = pair adjustment, 4 = mark-to-base, 6 = mark-to-mark)
+  flag: number;           // lookupFlag
+  subtables: Uint8Array[];
+}
+
+export interface GposFeature {
+  tag: string;            // e.g. 'kern', 'mark', 'mkmk'
+  lookupIndices: number[];
+}
+
+// Scripts that get every feature; DFLT covers text whose script has no entry
+const GPOS_SCRIPTS = ['DFLT', 'latn'];
+
+export class GposTableBuilder {
+  /**
+   * Serializes a GPOS 1.0 table. Every script/language system references every feature.
+   */
+  static build(features: GposFeature[], lookups: GposLookup[]): Uint8Array {
+    const scriptList = this.buildScriptList(features.length);
+    const featureList = this.buildFeatureList(features);
+    const lookupList = this.buildLookupList(lookups);
+
+    const headerSize = 10;
+    const scriptListOffset = headerSize;
+    const featureListOffset = scriptListOffset + scriptList.length;
+    const lookupListOffset = featureListOffset + featureList.length;
+    this.assertOffset(lookupListOffset, 'lookup list');
+
+    const writer = new ByteWriter();
+    writer.uint16(1); // majorVersion
+    writer.uint16(0); // minorVersion
+    writer.uint16(scriptListOffset);
+    writer.uint16(featureListOffset);
+    writer.uint16(lookupListOffset);
+    writer.append(scriptList);
+    writer.append(featureList);
+    writer.append(lookupList);
+    return writer.toUint8Array();
+  }
+
+  /**
+   * Coverage table (format 1) for a set of glyph ids
+   */
+  static buildCoverage(glyphIds: number[]): Uint8Array {
+    const sorted = Array.from(new Set(glyphIds)).sort((a, b) => a - b);
+    const writer = new ByteWriter();
+    writer.uint16(1); // coverageFormat
+    writer.uint16(sorted.length);
+    sorted.forEach(glyphId => writer.uint16(glyphId));
+    return writer.toUint8Array();
+  }
+
+  /**
+   * Class definition table (format 2), merging consecutive glyph ids into ranges
+   */
+  static buildClassDef(glyphClasses: Map<number, number>): Uint8Array {
+    const entries = Array.from(glyphClasses.entries())
+      .filter(([, glyphClass]) => glyphClass !== 0)
+      .sort((a, b) => a[0] - b[0]);
+
+    const ranges: { start: number; end: number; glyphClass: number }[] = [];
+    for (const [glyphId, glyphClass] of entries) {
+      const last = ranges[ranges.length - 1];
+      if (last && last.end === glyphId - 1 && last.glyphClass === glyphClass) {
+        last.end = glyphId;
+      } else {
+        ranges.push({ start: glyphId, end: glyphId, glyphClass });
+      }
+    }
+
+    const writer = new ByteWriter();
+    writer.uint16(2); // classFormat
+    writer.uint16(ranges.length);
+    ranges.forEach(range => {
+      writer.uint16(range.start);
+      writer.uint16(range.end);
+      writer.uint16(range.glyphClass);
+    });
+    return writer.toUint8Array();
+  }
+
+  /**
+   * Throws when a table grows past what a 16-bit offset can address
+   */
+  static assertOffset(offset: number, description: string): void {
+    if (offset > 0xffff) {
+      throw new Error(`GPOS ${description} is too large (offset ${offset} exceeds 65535)`);
+    }
+  }
+
+  private static buildScriptList(featureCount: number): Uint8Array {
+    const writer = new ByteWriter();
+    const scriptTableOffset = 2 + GPOS_SCRIPTS.length * 6;
+
+    writer.uint16(GPOS_SCRIPTS.length);
+    GPOS_SCRIPTS.forEach(tag => {
+      this.writeTag(writer, tag);
+      writer.uint16(scriptTableOffset); // All scripts share one Script table
+    });
+
+    // Script table with only a default LangSys, which directly follows it
+    writer.uint16(4); // defaultLangSysOffset
+    writer.uint16(0); // langSysCount
+    writer.uint16(0); // lookupOrderOffset (reserved)
+    writer.uint16(0xffff); // requiredFeatureIndex: none
+    writer.uint16(featureCount);
+    for (let i = 0; i < featureCount; i++) {
+      writer.uint16(i);
+    }
+    return writer.toUint8Array();
+  }
+
+  private static buildFeatureList(features: GposFeature[]): Uint8Array {
+    // Feature records must be sorted by tag; script LangSys indices refer to this order
+    const sorted = [...features].sort((a, b) => (a.tag < b.tag ? -1 : a.tag > b.tag ? 1 : 0));
+    const writer = new ByteWriter();
+    writer.uint16(sorted.length);
+
+    let featureOffset = 2 + sorted.length * 6;
+    sorted.forEach(feature => {
+      this.writeTag(writer, feature.tag);
+      writer.uint16(featureOffset);
+      featureOffset += 4 + feature.lookupIndices.length * 2;
+    });
+
+    sorted.forEach(feature => {
+      writer.uint16(0); // featureParamsOffset
+      writer.uint16(feature.lookupIndices.length);
+      feature.lookupIndices.forEach(index => writer.uint16(index));
+    });
+    return writer.toUint8Array();
+  }
+
+  private static buildLookupList(lookups: GposLookup[]): Uint8Array {
+    const writer = new ByteWriter();
+    writer.uint16(lookups.length);
+
+    const offsetsPosition = writer.length;
+    lookups.forEach(() => writer.uint16(0));
+
+    lookups.forEach((lookup, lookupIndex) => {
+      const lookupOffset = writer.length;
+      this.assertOffset(lookupOffset, `lookup ${lookupIndex}`);
+      writer.setUint16(offsetsPosition + lookupIndex * 2, lookupOffset);
+
+      writer.uint16(lookup.type);
+      writer.uint16(lookup.flag);
+      writer.uint16(lookup.subtables.length);
+
+      let subtableOffset = 6 + lookup.subtables.length * 2;
+      lookup.subtables.forEach(subtable => {
+        this.assertOffset(subtableOffset, `lookup ${lookupIndex} subtable`);
+        writer.uint16(subtableOffset);
+        subtableOffset += subtable.length;
+      });
+      lookup.subtables.forEach(subtable => writer.append(subtable));
+    });
+    return writer.toUint8Array();
+  }
+
+  private static writeTag(writer: ByteWriter, tag: string): void {
+    for (let i = 0; i < 4; i++) {
+      writer.uint8(tag.charCodeAt(i) || 0x20);
+    }
+  }
+}
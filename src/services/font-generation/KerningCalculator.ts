@@ -0,0 +1,142 @@
+import { KerningData, KerningClass, KerningPair } from '../../types';
+
+export interface ResolvedKerningValue {
+  value: number;
+  source: 'pair' | 'class' | 'none';
+}
+
+export class KerningCalculator {
+  /**
+   * Creates an empty kerning set
+   */
+  static createEmptyKerning(): KerningData {
+    return { pairs: [], classes: [], classPairs: [] };
+  }
+
+  /**
+   * Finds the class a glyph belongs to on one side of a pair
+   */
+  static getClassFor(kerning: KerningData, unicode: string, side: KerningClass['side']): KerningClass | undefined {
+    return kerning.classes.find(kerningClass => kerningClass.side === side && kerningClass.members.includes(unicode));
+  }
+
+  /**
+   * Gets the effective kerning for a pair: an explicit pair wins over class kerning
+   */
+  static getPairValue(kerning: KerningData, left: string, right: string): ResolvedKerningValue {
+    const pair = kerning.pairs.find(p => p.left === left && p.right === right);
+    if (pair) {
+      return { value: pair.value, source: 'pair' };
+    }
+
+    const leftClass = this.getClassFor(kerning, left, 'left');
+    const rightClass = this.getClassFor(kerning, right, 'right');
+    if (leftClass && rightClass) {
+      const classPair = kerning.classPairs.find(
+        p => p.leftClass === leftClass.id && p.rightClass === rightClass.id
+      );
+      if (classPair) {
+        return { value: classPair.value, source: 'class' };
+      }
+    }
+
+    return { value: 0, source: 'none' };
+  }
+
+  /**
+   * Sets (or replaces) an explicit pair value
+   */
+  static setPairValue(kerning: KerningData, left: string, right: string, value: number): KerningData {
+    const pairs = kerning.pairs.filter(p => !(p.left === left && p.right === right));
+    pairs.push({ left, right, value: Math.round(value) });
+    return { ...kerning, pairs };
+  }
+
+  /**
+   * Removes an explicit pair so class kerning (if any) applies again
+   */
+  static removePair(kerning: KerningData, left: string, right: string): KerningData {
+    return { ...kerning, pairs: kerning.pairs.filter(p => !(p.left === left && p.right === right)) };
+  }
+
+  /**
+   * Adds or updates a class. A glyph can only be in one class per side, so its
+   * membership in other classes on the same side is dropped.
+   */
+  static saveClass(kerning: KerningData, kerningClass: KerningClass): KerningData {
+    const members = Array.from(new Set(kerningClass.members));
+    const classes = kerning.classes
+      .filter(c => c.id !== kerningClass.id)
+      .map(c => c.side === kerningClass.side
+        ? { ...c, members: c.members.filter(member => !members.includes(member)) }
+        : c);
+    classes.push({ ...kerningClass, members });
+    return { ...kerning, classes };
+  }
+
+  /**
+   * Removes a class together with the class pairs that reference it
+   */
+  static removeClass(kerning: KerningData, classId: string): KerningData {
+    return {
+      ...kerning,
+      classes: kerning.classes.filter(c => c.id !== classId),
+      classPairs: kerning.classPairs.filter(p => p.leftClass !== classId && p.rightClass !== classId)
+    };
+  }
+
+  /**
+   * Sets (or replaces) the value for a class pair
+   */
+  static setClassPairValue(kerning: KerningData, leftClass: string, rightClass: string, value: number): KerningData {
+    const classPairs = kerning.classPairs.filter(p => !(p.leftClass === leftClass && p.rightClass === rightClass));
+    classPairs.push({ leftClass, rightClass, value: Math.round(value) });
+    return { ...kerning, classPairs };
+  }
+
+  /**
+   * Removes a class pair
+   */
+  static removeClassPair(kerning: KerningData, leftClass: string, rightClass: string): KerningData {
+    return {
+      ...kerning,
+      classPairs: kerning.classPairs.filter(p => !(p.leftClass === leftClass && p.rightClass === rightClass))
+    };
+  }
+
+  /**
+   * Expands class kerning into glyph pairs and applies explicit pairs on top.
+   * Zero values are kept only where they cancel class kerning.
+   */
+  static flattenPairs(kerning: KerningData): KerningPair[] {
+    const pairs = new Map<string, KerningPair>();
+    const classesById = new Map(kerning.classes.map(c => [c.id, c]));
+
+    for (const classPair of kerning.classPairs) {
+      const leftClass = classesById.get(classPair.leftClass);
+      const rightClass = classesById.get(classPair.rightClass);
+      if (!leftClass || !rightClass || classPair.value === 0) continue;
+
+      for (const left of leftClass.members) {
+        for (const right of rightClass.members) {
+          pairs.set(`${left},${right}`, { left, right, value: classPair.value });
+        }
+      }
+    }
+
+    for (const pair of kerning.pairs) {
+      const key = `${pair.left},${pair.right}`;
+      if (pair.value === 0 && !pairs.has(key)) continue;
+      pairs.set(key, { ...pair });
+    }
+
+    return Array.from(pairs.values());
+  }
+
+  /**
+   * Counts the glyph pairs a kerning set produces
+   */
+  static countPairs(kerning: KerningData): number {
+    return this.flattenPairs(kerning).filter(pair => pair.value !== 0).length;
+  }
+}
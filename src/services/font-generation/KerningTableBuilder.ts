@@ -0,0 +1,291 @@
+import * as opentype from 'opentype.js';
+import { KerningData } from '../../types';
+import { ByteWriter } from './ByteWriter';
+import { GposLookup, GposTableBuilder } from './GposTableBuilder';
+import { KerningCalculator } from './KerningCalculator';
+import { SfntFont } from './SfntBuilder';
+
+export interface GlyphKerningPair {
+  left: number;  // Glyph id
+  right: number; // Glyph id
+  value: number;
+}
+
+// PairPos value format with only XAdvance set
+const VALUE_FORMAT_X_ADVANCE = 0x0004;
+
+// A kern format 0 subtable length is a uint16, which caps the pair count
+const MAX_KERN_TABLE_PAIRS = Math.floor((0xffff - 14) / 6);
+
+// Keep PairPos format 1 subtables safely addressable with 16-bit offsets
+const MAX_PAIR_SUBTABLE_SIZE = 0xff00;
+
+export class KerningTableBuilder {
+  // Code point -> glyph id, built once per font
+  private static glyphIndexCache = new WeakMap<opentype.Font, Map<number, number>>();
+
+  /**
+   * Adds a legacy 'kern' table to an sfnt font; the GPOS 'kern' feature comes
+   * from buildKerningLookup
+   */
+  static applyKernTable(sfnt: SfntFont, font: opentype.Font, kerning: KerningData): number {
+    const glyphPairs = this.resolveGlyphPairs(font, kerning);
+    if (glyphPairs.length === 0) {
+      return 0;
+    }
+
+    sfnt.tables.set('kern', this.buildKernTable(glyphPairs));
+
+    console.log(`🔠 Added kerning: ${glyphPairs.length} pair(s), ${kerning.classPairs.length} class pair(s)`);
+    return glyphPairs.length;
+  }
+
+  /**
+   * Converts kerning to opentype.js's in-memory kerningPairs ("leftIndex,rightIndex" keys)
+   */
+  static toOpenTypeKerningPairs(font: opentype.Font, kerning: KerningData): Record<string, number> {
+    const kerningPairs: Record<string, number> = {};
+    for (const pair of this.resolveGlyphPairs(font, kerning)) {
+      kerningPairs[`${pair.left},${pair.right}`] = pair.value;
+    }
+    return kerningPairs;
+  }
+
+  /**
+   * Flattens kerning into non-zero glyph id pairs, skipping glyphs missing from the font
+   */
+  static resolveGlyphPairs(font: opentype.Font, kerning: KerningData): GlyphKerningPair[] {
+    const pairs: GlyphKerningPair[] = [];
+    for (const pair of KerningCalculator.flattenPairs(kerning)) {
+      const left = this.resolveGlyphId(font, pair.left);
+      const right = this.resolveGlyphId(font, pair.right);
+      if (left > 0 && right > 0 && pair.value !== 0) {
+        pairs.push({ left, right, value: pair.value });
+      }
+    }
+    return pairs.sort((a, b) => a.left - b.left || a.right - b.right);
+  }
+
+  /**
+   * Builds the GPOS pair adjustment lookup: explicit pairs (format 1) come first
+   * so they take precedence over class kerning (format 2)
+   */
+  static buildKerningLookup(font: opentype.Font, kerning: KerningData): GposLookup | null {
+    const subtables: Uint8Array[] = [];
+
+    const explicitPairs: GlyphKerningPair[] = [];
+    for (const pair of kerning.pairs) {
+      const left = this.resolveGlyphId(font, pair.left);
+      const right = this.resolveGlyphId(font, pair.right);
+      if (left <= 0 || right <= 0) continue;
+
+      // A zero pair is only meaningful as an exception to class kerning
+      const classValue = KerningCalculator.getPairValue(
+        { ...kerning, pairs: [] }, pair.left, pair.right
+      );
+      if (pair.value === 0 && classValue.source === 'none') continue;
+
+      explicitPairs.push({ left, right, value: pair.value });
+    }
+    subtables.push(...this.buildPairSubtables(explicitPairs));
+
+    const classSubtable = this.buildClassPairSubtable(font, kerning);
+    if (classSubtable) {
+      subtables.push(classSubtable);
+    }
+
+    return subtables.length > 0 ? { type: 2, flag: 0, subtables } : null;
+  }
+
+  /**
+   * Builds a legacy 'kern' table (version 0, one format 0 subtable) for older renderers
+   */
+  static buildKernTable(pairs: GlyphKerningPair[]): Uint8Array {
+    if (pairs.length > MAX_KERN_TABLE_PAIRS) {
+      console.warn(`⚠️ kern table limited to ${MAX_KERN_TABLE_PAIRS} of ${pairs.length} pairs; GPOS keeps them all`);
+    }
+    const sorted = [...pairs]
+      .sort((a, b) => a.left - b.left || a.right - b.right)
+      .slice(0, MAX_KERN_TABLE_PAIRS);
+
+    const nPairs = sorted.length;
+    const entrySelector = nPairs > 0 ? Math.floor(Math.log2(nPairs)) : 0;
+    const searchRange = nPairs > 0 ? Math.pow(2, entrySelector) * 6 : 0;
+
+    const writer = new ByteWriter();
+    writer.uint16(0); // version
+    writer.uint16(1); // nTables
+    writer.uint16(0); // subtable version
+    writer.uint16(14 + nPairs * 6); // subtable length
+    writer.uint16(0x0001); // coverage: horizontal, format 0
+    writer.uint16(nPairs);
+    writer.uint16(searchRange);
+    writer.uint16(entrySelector);
+    writer.uint16(nPairs * 6 - searchRange); // rangeShift
+    sorted.forEach(pair => {
+      writer.uint16(pair.left);
+      writer.uint16(pair.right);
+      writer.int16(pair.value);
+    });
+    return writer.toUint8Array();
+  }
+
+  /**
+   * PairPos format 1 subtables, split so that each stays within 16-bit offsets
+   */
+  private static buildPairSubtables(pairs: GlyphKerningPair[]): Uint8Array[] {
+    const byLeft = new Map<number, GlyphKerningPair[]>();
+    for (const pair of pairs) {
+      const pairSet = byLeft.get(pair.left) || [];
+      pairSet.push(pair);
+      byLeft.set(pair.left, pairSet);
+    }
+
+    const subtables: Uint8Array[] = [];
+    let chunk: number[] = [];
+    let chunkSize = 10;
+    const flush = () => {
+      if (chunk.length > 0) {
+        subtables.push(this.buildPairPosFormat1(chunk, byLeft));
+      }
+      chunk = [];
+      chunkSize = 10;
+    };
+
+    for (const left of Array.from(byLeft.keys()).sort((a, b) => a - b)) {
+      // Pair set offset + coverage entry + pair set itself
+      const size = 2 + 2 + 2 + byLeft.get(left)!.length * 4;
+      if (chunkSize + size > MAX_PAIR_SUBTABLE_SIZE) {
+        flush();
+      }
+      chunk.push(left);
+      chunkSize += size;
+    }
+    flush();
+
+    return subtables;
+  }
+
+  private static buildPairPosFormat1(leftGlyphs: number[], byLeft: Map<number, GlyphKerningPair[]>): Uint8Array {
+    const writer = new ByteWriter();
+    const pairSets = leftGlyphs.map(left => {
+      const pairSet = new ByteWriter();
+      const records = [...byLeft.get(left)!].sort((a, b) => a.right - b.right);
+      pairSet.uint16(records.length);
+      records.forEach(record => {
+        pairSet.uint16(record.right); // secondGlyph
+        pairSet.int16(record.value);  // valueRecord1.xAdvance
+      });
+      return pairSet.toUint8Array();
+    });
+
+    const headerSize = 10 + leftGlyphs.length * 2;
+    let offset = headerSize;
+    const pairSetOffsets = pairSets.map(pairSet => {
+      const pairSetOffset = offset;
+      offset += pairSet.length;
+      return pairSetOffset;
+    });
+    const coverageOffset = offset;
+    GposTableBuilder.assertOffset(coverageOffset, 'kerning pair subtable');
+
+    writer.uint16(1); // posFormat
+    writer.uint16(coverageOffset);
+    writer.uint16(VALUE_FORMAT_X_ADVANCE);
+    writer.uint16(0); // valueFormat2
+    writer.uint16(leftGlyphs.length);
+    pairSetOffsets.forEach(pairSetOffset => writer.uint16(pairSetOffset));
+    pairSets.forEach(pairSet => writer.append(pairSet));
+    writer.append(GposTableBuilder.buildCoverage(leftGlyphs));
+    return writer.toUint8Array();
+  }
+
+  /**
+   * PairPos format 2 subtable for class kerning
+   */
+  private static buildClassPairSubtable(font: opentype.Font, kerning: KerningData): Uint8Array | null {
+    const classPairs = kerning.classPairs.filter(pair => pair.value !== 0);
+    if (classPairs.length === 0) return null;
+
+    // Number the classes used by class pairs; class 0 is "every other glyph"
+    const classIndex = (side: 'left' | 'right') => {
+      const glyphClasses = new Map<number, number>();
+      const indices = new Map<string, number>();
+      const usedIds = new Set(classPairs.map(pair => (side === 'left' ? pair.leftClass : pair.rightClass)));
+
+      for (const kerningClass of kerning.classes) {
+        if (kerningClass.side !== side || !usedIds.has(kerningClass.id)) continue;
+        const glyphIds = kerningClass.members
+          .map(member => this.resolveGlyphId(font, member))
+          .filter(glyphId => glyphId > 0 && !glyphClasses.has(glyphId));
+        if (glyphIds.length === 0) continue;
+
+        const index = indices.size + 1;
+        indices.set(kerningClass.id, index);
+        glyphIds.forEach(glyphId => glyphClasses.set(glyphId, index));
+      }
+      return { glyphClasses, indices };
+    };
+
+    const left = classIndex('left');
+    const right = classIndex('right');
+    if (left.indices.size === 0 || right.indices.size === 0) return null;
+
+    const class1Count = left.indices.size + 1;
+    const class2Count = right.indices.size + 1;
+    const values = new Map<string, number>();
+    for (const pair of classPairs) {
+      const class1 = left.indices.get(pair.leftClass);
+      const class2 = right.indices.get(pair.rightClass);
+      if (class1 !== undefined && class2 !== undefined) {
+        values.set(`${class1},${class2}`, pair.value);
+      }
+    }
+
+    const coverage = GposTableBuilder.buildCoverage(Array.from(left.glyphClasses.keys()));
+    const classDef1 = GposTableBuilder.buildClassDef(left.glyphClasses);
+    const classDef2 = GposTableBuilder.buildClassDef(right.glyphClasses);
+
+    const headerSize = 16 + class1Count * class2Count * 2;
+    const coverageOffset = headerSize;
+    const classDef1Offset = coverageOffset + coverage.length;
+    const classDef2Offset = classDef1Offset + classDef1.length;
+    GposTableBuilder.assertOffset(classDef2Offset, 'class kerning subtable');
+
+    const writer = new ByteWriter();
+    writer.uint16(2); // posFormat
+    writer.uint16(coverageOffset);
+    writer.uint16(VALUE_FORMAT_X_ADVANCE);
+    writer.uint16(0); // valueFormat2
+    writer.uint16(classDef1Offset);
+    writer.uint16(classDef2Offset);
+    writer.uint16(class1Count);
+    writer.uint16(class2Count);
+    for (let class1 = 0; class1 < class1Count; class1++) {
+      for (let class2 = 0; class2 < class2Count; class2++) {
+        writer.int16(values.get(`${class1},${class2}`) || 0);
+      }
+    }
+    writer.append(coverage);
+    writer.append(classDef1);
+    writer.append(classDef2);
+    return writer.toUint8Array();
+  }
+
+  /**
+   * Looks up the glyph id for a Unicode key like "U+0041" (0 when missing)
+   */
+  static resolveGlyphId(font: opentype.Font, unicode: string): number {
+    let glyphIndex = this.glyphIndexCache.get(font);
+    if (!glyphIndex) {
+      glyphIndex = new Map<number, number>();
+      for (let i = 0; i < font.glyphs.length; i++) {
+        for (const codePoint of font.glyphs.get(i).unicodes) {
+          if (!glyphIndex.has(codePoint)) glyphIndex.set(codePoint, i);
+        }
+      }
+      this.glyphIndexCache.set(font, glyphIndex);
+    }
+    return glyphIndex.get(parseInt(unicode.replace('U+', ''), 16)) ?? 0;
+  }
+}
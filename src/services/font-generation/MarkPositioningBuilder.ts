@@ -0,0 +1,174 @@
+import { AnchorName } from '../../types';
+import { ByteWriter } from './ByteWriter';
+import { AnchorPoint, GlyphAnchorPoints } from './GlyphComposer';
+import { GposLookup, GposTableBuilder } from './GposTableBuilder';
+
+export interface MarkPositioningLookups {
+  markToBase: GposLookup | null; // For the 'mark' feature
+  markToMark: GposLookup | null; // For the 'mkmk' feature
+}
+
+interface MarkRecord {
+  glyphId: number;
+  markClass: number;
+  anchor: AnchorPoint;
+}
+
+interface TargetRecord {
+  glyphId: number;
+  anchors: (AnchorPoint | undefined)[]; // One per mark class
+}
+
+// GDEF glyph classes
+const GLYPH_CLASS_BASE = 1;
+const GLYPH_CLASS_MARK = 3;
+
+export class MarkPositioningBuilder {
+  /**
+   * Builds the mark-to-base and mark-to-mark lookups from glyph anchors (keyed by
+   * glyph id). Each mark class is an anchor name: a mark with "_top" attaches to
+   * the "top" anchor of the base, or of the mark before it.
+   */
+  static buildLookups(anchors: Map<number, GlyphAnchorPoints>, markGlyphs: Set<number>): MarkPositioningLookups {
+    const bases = Array.from(anchors.keys()).filter(glyphId => !markGlyphs.has(glyphId));
+    const marks = Array.from(anchors.keys()).filter(glyphId => markGlyphs.has(glyphId));
+
+    return {
+      markToBase: this.buildAttachmentLookup(4, anchors, marks, bases),
+      markToMark: this.buildAttachmentLookup(6, anchors, marks, marks)
+    };
+  }
+
+  /**
+   * GDEF table classifying glyphs as bases or marks, which shapers need to skip
+   * over marks when looking for the base a mark attaches to
+   */
+  static buildGdef(glyphCount: number, markGlyphs: Set<number>): Uint8Array {
+    const glyphClasses = new Map<number, number>();
+    for (let glyphId = 1; glyphId < glyphCount; glyphId++) {
+      glyphClasses.set(glyphId, markGlyphs.has(glyphId) ? GLYPH_CLASS_MARK : GLYPH_CLASS_BASE);
+    }
+
+    const writer = new ByteWriter();
+    writer.uint16(1);  // majorVersion
+    writer.uint16(0);  // minorVersion
+    writer.uint16(12); // glyphClassDefOffset
+    writer.uint16(0);  // attachListOffset
+    writer.uint16(0);  // ligCaretListOffset
+    writer.uint16(0);  // markAttachClassDefOffset
+    writer.append(GposTableBuilder.buildClassDef(glyphClasses));
+    return writer.toUint8Array();
+  }
+
+  /**
+   * MarkBasePos (type 4) or MarkMarkPos (type 6) lookup; both use the same
+   * format 1 layout of marks and the glyphs they attach to
+   */
+  private static buildAttachmentLookup(
+    type: 4 | 6,
+    anchors: Map<number, GlyphAnchorPoints>,
+    marks: number[],
+    targets: number[]
+  ): GposLookup | null {
+    // Only anchor names that both a mark and a target carry become classes
+    const classNames: AnchorName[] = (['top', 'bottom', 'ogonek'] as AnchorName[]).filter(name =>
+      marks.some(glyphId => anchors.get(glyphId)![`_${name}`]) &&
+      targets.some(glyphId => anchors.get(glyphId)![name])
+    );
+    if (classNames.length === 0) return null;
+
+    const markRecords: MarkRecord[] = [];
+    for (const glyphId of marks) {
+      const markClass = classNames.findIndex(name => anchors.get(glyphId)![`_${name}`]);
+      if (markClass >= 0) {
+        markRecords.push({ glyphId, markClass, anchor: anchors.get(glyphId)![`_${classNames[markClass]}`]! });
+      }
+    }
+
+    const targetRecords: TargetRecord[] = targets
+      .map(glyphId => ({ glyphId, anchors: classNames.map(name => anchors.get(glyphId)![name]) }))
+      .filter(record => record.anchors.some(anchor => anchor));
+
+    if (markRecords.length === 0 || targetRecords.length === 0) return null;
+
+    return { type, flag: 0, subtables: [this.buildAttachmentSubtable(markRecords, targetRecords, classNames.length)] };
+  }
+
+  private static buildAttachmentSubtable(marks: MarkRecord[], targets: TargetRecord[], classCount: number): Uint8Array {
+    // Records follow coverage order, which is by glyph id
+    const sortedMarks = [...marks].sort((a, b) => a.glyphId - b.glyphId);
+    const sortedTargets = [...targets].sort((a, b) => a.glyphId - b.glyphId);
+
+    const markCoverage = GposTableBuilder.buildCoverage(sortedMarks.map(mark => mark.glyphId));
+    const targetCoverage = GposTableBuilder.buildCoverage(sortedTargets.map(target => target.glyphId));
+    const markArray = this.buildMarkArray(sortedMarks);
+    const targetArray = this.buildTargetArray(sortedTargets, classCount);
+
+    const headerSize = 12;
+    const markCoverageOffset = headerSize;
+    const targetCoverageOffset = markCoverageOffset + markCoverage.length;
+    const markArrayOffset = targetCoverageOffset + targetCoverage.length;
+    const targetArrayOffset = markArrayOffset + markArray.length;
+    GposTableBuilder.assertOffset(targetArrayOffset, 'mark attachment subtable');
+
+    const writer = new ByteWriter();
+    writer.uint16(1); // posFormat
+    writer.uint16(markCoverageOffset);
+    writer.uint16(targetCoverageOffset);
+    writer.uint16(classCount);
+    writer.uint16(markArrayOffset);
+    writer.uint16(targetArrayOffset);
+    writer.append(markCoverage);
+    writer.append(targetCoverage);
+    writer.append(markArray);
+    writer.append(targetArray);
+    return writer.toUint8Array();
+  }
+
+  private static buildMarkArray(marks: MarkRecord[]): Uint8Array {
+    const writer = new ByteWriter();
+    writer.uint16(marks.length);
+
+    const anchorsStart = 2 + marks.length * 4;
+    marks.forEach((mark, index) => {
+      writer.uint16(mark.markClass);
+      writer.uint16(anchorsStart + index * 6); // markAnchorOffset, from the start of the MarkArray
+    });
+    marks.forEach(mark => this.writeAnchor(writer, mark.anchor));
+    return writer.toUint8Array();
+  }
+
+  /**
+   * BaseArray or Mark2Array: an anchor offset per class for each glyph (0 when it has none)
+   */
+  private static buildTargetArray(targets: TargetRecord[], classCount: number): Uint8Array {
+    const writer = new ByteWriter();
+    writer.uint16(targets.length);
+
+    let anchorOffset = 2 + targets.length * classCount * 2;
+    const presentAnchors: AnchorPoint[] = [];
+    targets.forEach(target => {
+      target.anchors.forEach(anchor => {
+        if (!anchor) {
+          writer.uint16(0);
+          return;
+        }
+        GposTableBuilder.assertOffset(anchorOffset, 'mark attachment anchor');
+        writer.uint16(anchorOffset);
+        presentAnchors.push(anchor);
+        anchorOffset += 6;
+      });
+    });
+    presentAnchors.forEach(anchor => this.writeAnchor(writer, anchor));
+    return writer.toUint8Array();
+  }
+
+  /**
+   * Anchor table format 1 (design units only)
+   */
+  private static writeAnchor(writer: ByteWriter, anchor: AnchorPoint): void {
+    writer.uint16(1); // anchorFormat
+    writer.int16(Math.round(anchor.x));
+    writer.int16(Math.round(anchor.y));
+  }
+}
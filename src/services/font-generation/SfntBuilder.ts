@@ -0,0 +1,193 @@
+export interface SfntFont {
+  flavor: number; // sfntVersion: 0x00010000 for TrueType outlines, 'OTTO' for CFF outlines
+  tables: Map<string, Uint8Array>;
+}
+
+export class SfntBuilder {
+  static readonly TRUETYPE_FLAVOR = 0x00010000;
+  static readonly CFF_FLAVOR = 0x4f54544f; // 'OTTO'
+
+  // Magic number from the OpenType spec used for head.checkSumAdjustment
+  private static readonly CHECKSUM_MAGIC = 0xb1b0afba;
+
+  /**
+   * Splits an sfnt (TTF/OTF) buffer into its flavor and raw table data
+   */
+  static parse(buffer: ArrayBuffer): SfntFont {
+    const view = new DataView(buffer);
+
+    if (buffer.byteLength < 12) {
+      throw new Error('Font data is too short to contain an sfnt header');
+    }
+
+    const flavor = view.getUint32(0);
+    const numTables = view.getUint16(4);
+    const tables = new Map<string, Uint8Array>();
+
+    for (let i = 0; i < numTables; i++) {
+      const recordOffset = 12 + i * 16;
+      const tag = this.readTag(view, recordOffset);
+      const offset = view.getUint32(recordOffset + 8);
+      const length = view.getUint32(recordOffset + 12);
+
+      if (offset + length > buffer.byteLength) {
+        throw new Error(`Table '${tag}' extends beyond the end of the font data`);
+      }
+
+      // Copy so callers can modify tables without touching the source buffer
+      tables.set(tag, new Uint8Array(buffer.slice(offset, offset + length)));
+    }
+
+    return { flavor, tables };
+  }
+
+  /**
+   * Assembles an sfnt buffer from raw tables, recomputing every table checksum
+   * and the head.checkSumAdjustment for the whole font
+   */
+  static build(font: SfntFont): ArrayBuffer {
+    const tags = this.sortTags(Array.from(font.tables.keys()));
+    const numTables = tags.length;
+    const headerSize = 12 + numTables * 16;
+
+    let totalSize = headerSize;
+    for (const tag of tags) {
+      totalSize += this.align4(font.tables.get(tag)!.byteLength);
+    }
+
+    const buffer = new ArrayBuffer(totalSize);
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+
+    const { searchRange, entrySelector, rangeShift } = this.calculateSearchParams(numTables);
+    view.setUint32(0, font.flavor);
+    view.setUint16(4, numTables);
+    view.setUint16(6, searchRange);
+    view.setUint16(8, entrySelector);
+    view.setUint16(10, rangeShift);
+
+    let offset = headerSize;
+    let headOffset = -1;
+
+    tags.forEach((tag, index) => {
+      const data = font.tables.get(tag)!;
+      const recordOffset = 12 + index * 16;
+
+      bytes.set(data, offset);
+
+      // checkSumAdjustment must be zero while the whole-font checksum is summed
+      if (tag === 'head') {
+        headOffset = offset;
+        view.setUint32(offset + 8, 0);
+      }
+
+      this.writeTag(view, recordOffset, tag);
+      view.setUint32(recordOffset + 4, this.calculateTableChecksum(tag, data));
+      view.setUint32(recordOffset + 8, offset);
+      view.setUint32(recordOffset + 12, data.byteLength);
+
+      offset += this.align4(data.byteLength);
+    });
+
+    if (headOffset >= 0) {
+      const fontChecksum = this.calculateChecksum(bytes);
+      view.setUint32(headOffset + 8, (this.CHECKSUM_MAGIC - fontChecksum) >>> 0);
+    }
+
+    return buffer;
+  }
+
+  /**
+   * Calculates the OpenType checksum of a table (the head table is summed
+   * with its checkSumAdjustment field treated as zero)
+   */
+  static calculateTableChecksum(tag: string, data: Uint8Array): number {
+    if (tag === 'head' && data.byteLength >= 12) {
+      const copy = new Uint8Array(data);
+      copy.set([0, 0, 0, 0], 8);
+      return this.calculateChecksum(copy);
+    }
+    return this.calculateChecksum(data);
+  }
+
+  /**
+   * Sums big-endian uint32 words, zero-padding the final partial word
+   */
+  static calculateChecksum(data: Uint8Array): number {
+    let sum = 0;
+    const fullWords = Math.floor(data.byteLength / 4);
+
+    for (let i = 0; i < fullWords; i++) {
+      const o = i * 4;
+      sum = (sum + ((data[o] << 24) | (data[o + 1] << 16) | (data[o + 2] << 8) | data[o + 3])) >>> 0;
+    }
+
+    const remainder = data.byteLength % 4;
+    if (remainder > 0) {
+      let word = 0;
+      for (let i = 0; i < 4; i++) {
+        word = (word << 8) | (i < remainder ? data[fullWords * 4 + i] : 0);
+      }
+      sum = (sum + (word >>> 0)) >>> 0;
+    }
+
+    return sum;
+  }
+
+  /**
+   * Sorts table tags in the byte order required for the table directory
+   */
+  static sortTags(tags: string[]): string[] {
+    return [...tags].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  }
+
+  /**
+   * Rounds a length up to the next 4-byte boundary
+   */
+  static align4(length: number): number {
+    return (length + 3) & ~3;
+  }
+
+  /**
+   * Total size of the uncompressed sfnt (header, directory and padded tables)
+   */
+  static calculateSfntSize(tables: Map<string, Uint8Array>): number {
+    let size = 12 + tables.size * 16;
+    for (const data of tables.values()) {
+      size += this.align4(data.byteLength);
+    }
+    return size;
+  }
+
+  static readTag(view: DataView, offset: number): string {
+    return String.fromCharCode(
+      view.getUint8(offset),
+      view.getUint8(offset + 1),
+      view.getUint8(offset + 2),
+      view.getUint8(offset + 3)
+    );
+  }
+
+  static writeTag(view: DataView, offset: number, tag: string): void {
+    for (let i = 0; i < 4; i++) {
+      view.setUint8(offset + i, tag.charCodeAt(i) || 0x20);
+    }
+  }
+
+  private static calculateSearchParams(numTables: number): {
+    searchRange: number;
+    entrySelector: number;
+    rangeShift: number;
+  } {
+    let entrySelector = 0;
+    while ((1 << (entrySelector + 1)) <= numTables) {
+      entrySelector++;
+    }
+    const searchRange = (1 << entrySelector) * 16;
+    return {
+      searchRange,
+      entrySelector,
+      rangeShift: numTables * 16 - searchRange
+    };
+  }
+}
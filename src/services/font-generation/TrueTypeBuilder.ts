@@ -0,0 +1,354 @@
+import * as opentype from 'opentype.js';
+import { SfntBuilder } from './SfntBuilder';
+
+interface QuadraticPoint {
+  x: number;
+  y: number;
+  onCurve: boolean;
+}
+
+interface GlyphBounds {
+  xMin: number;
+  yMin: number;
+  xMax: number;
+  yMax: number;
+}
+
+interface EncodedGlyph {
+  data: Uint8Array;
+  bounds: GlyphBounds | null;
+  pointCount: number;
+  contourCount: number;
+}
+
+export class TrueTypeBuilder {
+  // Maximum distance (font units) between a cubic segment and its quadratic approximation
+  private static readonly CURVE_TOLERANCE = 1;
+  private static readonly MAX_SUBDIVISION_DEPTH = 8;
+
+  /**
+   * Builds a TrueType-outline (glyf/loca) font from an opentype.js font. The
+   * shared tables come from the CFF build (opentype.js output unless a patched
+   * one is passed); the CFF outlines are replaced with quadratic approximations
+   * of the same cubic paths.
+   */
+  static build(font: opentype.Font, cffData: ArrayBuffer = font.toArrayBuffer()): ArrayBuffer {
+    const sfnt = SfntBuilder.parse(cffData);
+    const numGlyphs = font.glyphs.length;
+
+    const encodedGlyphs: EncodedGlyph[] = [];
+    for (let i = 0; i < numGlyphs; i++) {
+      const glyph = font.glyphs.get(i);
+      encodedGlyphs.push(this.encodeGlyph(this.convertPathToQuadratic(glyph.path)));
+    }
+
+    // glyf entries are padded to 4 bytes so the long loca format stays aligned
+    let glyfLength = 0;
+    for (const glyph of encodedGlyphs) {
+      glyfLength += SfntBuilder.align4(glyph.data.byteLength);
+    }
+    const useLongOffsets = glyfLength > 0x1fffe;
+
+    const glyf = new Uint8Array(glyfLength);
+    const loca = new Uint8Array((numGlyphs + 1) * (useLongOffsets ? 4 : 2));
+    const locaView = new DataView(loca.buffer);
+
+    let offset = 0;
+    encodedGlyphs.forEach((glyph, index) => {
+      this.writeLocaOffset(locaView, index, offset, useLongOffsets);
+      glyf.set(glyph.data, offset);
+      offset += SfntBuilder.align4(glyph.data.byteLength);
+    });
+    this.writeLocaOffset(locaView, numGlyphs, offset, useLongOffsets);
+
+    sfnt.tables.delete('CFF ');
+    sfnt.tables.set('glyf', glyf);
+    sfnt.tables.set('loca', loca);
+    sfnt.tables.set('maxp', this.buildMaxpTable(numGlyphs, encodedGlyphs));
+    this.updateHeadTable(sfnt.tables.get('head')!, encodedGlyphs, useLongOffsets);
+    this.updateHorizontalMetrics(sfnt.tables.get('hhea')!, sfnt.tables.get('hmtx')!, encodedGlyphs);
+
+    return SfntBuilder.build({ flavor: SfntBuilder.TRUETYPE_FLAVOR, tables: sfnt.tables });
+  }
+
+  /**
+   * Converts an opentype.js path into closed contours of quadratic points
+   */
+  static convertPathToQuadratic(path: opentype.Path): QuadraticPoint[][] {
+    const contours: QuadraticPoint[][] = [];
+    let contour: QuadraticPoint[] = [];
+    let currentX = 0;
+    let currentY = 0;
+
+    const finishContour = () => {
+      // The closing segment is implicit, so drop an end point that repeats the start
+      if (contour.length > 1) {
+        const first = contour[0];
+        const last = contour[contour.length - 1];
+        if (last.onCurve && last.x === first.x && last.y === first.y) {
+          contour.pop();
+        }
+      }
+      if (contour.length > 2) {
+        contours.push(contour);
+      }
+      contour = [];
+    };
+
+    for (const command of path.commands) {
+      switch (command.type) {
+        case 'M':
+          finishContour();
+          contour.push(this.roundPoint(command.x, command.y, true));
+          currentX = command.x;
+          currentY = command.y;
+          break;
+        case 'L':
+          contour.push(this.roundPoint(command.x, command.y, true));
+          currentX = command.x;
+          currentY = command.y;
+          break;
+        case 'Q':
+          contour.push(this.roundPoint(command.x1, command.y1, false));
+          contour.push(this.roundPoint(command.x, command.y, true));
+          currentX = command.x;
+          currentY = command.y;
+          break;
+        case 'C':
+          this.approximateCubic(
+            currentX, currentY,
+            command.x1, command.y1,
+            command.x2, command.y2,
+            command.x, command.y,
+            contour,
+            0
+          );
+          currentX = command.x;
+          currentY = command.y;
+          break;
+        case 'Z':
+          finishContour();
+          break;
+      }
+    }
+    finishContour();
+
+    return contours;
+  }
+
+  /**
+   * Approximates a cubic Bézier with quadratics, subdividing until the
+   * approximation is within CURVE_TOLERANCE
+   */
+  private static approximateCubic(
+    x0: number, y0: number,
+    x1: number, y1: number,
+    x2: number, y2: number,
+    x3: number, y3: number,
+    output: QuadraticPoint[],
+    depth: number
+  ): void {
+    // Single quadratic control point that matches the cubic's end tangents on average
+    const qx = (3 * (x1 + x2) - x0 - x3) / 4;
+    const qy = (3 * (y1 + y2) - y0 - y3) / 4;
+
+    // Upper bound on the distance between the cubic and this quadratic
+    const dx = x3 - 3 * x2 + 3 * x1 - x0;
+    const dy = y3 - 3 * y2 + 3 * y1 - y0;
+    const error = (Math.sqrt(3) / 36) * Math.sqrt(dx * dx + dy * dy);
+
+    if (error <= this.CURVE_TOLERANCE || depth >= this.MAX_SUBDIVISION_DEPTH) {
+      output.push(this.roundPoint(qx, qy, false));
+      output.push(this.roundPoint(x3, y3, true));
+      return;
+    }
+
+    // Split at t = 0.5 (de Casteljau)
+    const x01 = (x0 + x1) / 2, y01 = (y0 + y1) / 2;
+    const x12 = (x1 + x2) / 2, y12 = (y1 + y2) / 2;
+    const x23 = (x2 + x3) / 2, y23 = (y2 + y3) / 2;
+    const x012 = (x01 + x12) / 2, y012 = (y01 + y12) / 2;
+    const x123 = (x12 + x23) / 2, y123 = (y12 + y23) / 2;
+    const xMid = (x012 + x123) / 2, yMid = (y012 + y123) / 2;
+
+    this.approximateCubic(x0, y0, x01, y01, x012, y012, xMid, yMid, output, depth + 1);
+    this.approximateCubic(xMid, yMid, x123, y123, x23, y23, x3, y3, output, depth + 1);
+  }
+
+  /**
+   * Encodes quadratic contours as a TrueType simple glyph
+   */
+  private static encodeGlyph(contours: QuadraticPoint[][]): EncodedGlyph {
+    const points = contours.flat();
+    if (points.length === 0) {
+      return { data: new Uint8Array(0), bounds: null, pointCount: 0, contourCount: 0 };
+    }
+
+    const bounds: GlyphBounds = {
+      xMin: Math.min(...points.map(p => p.x)),
+      yMin: Math.min(...points.map(p => p.y)),
+      xMax: Math.max(...points.map(p => p.x)),
+      yMax: Math.max(...points.map(p => p.y))
+    };
+
+    const flags: number[] = [];
+    const xBytes: number[] = [];
+    const yBytes: number[] = [];
+    let previousX = 0;
+    let previousY = 0;
+
+    for (const point of points) {
+      let flag = point.onCurve ? 0x01 : 0x00;
+      const dx = point.x - previousX;
+      const dy = point.y - previousY;
+
+      if (dx === 0) {
+        flag |= 0x10; // X_IS_SAME
+      } else if (Math.abs(dx) < 256) {
+        flag |= 0x02 | (dx > 0 ? 0x10 : 0);
+        xBytes.push(Math.abs(dx));
+      } else {
+        xBytes.push((dx >> 8) & 0xff, dx & 0xff);
+      }
+
+      if (dy === 0) {
+        flag |= 0x20; // Y_IS_SAME
+      } else if (Math.abs(dy) < 256) {
+        flag |= 0x04 | (dy > 0 ? 0x20 : 0);
+        yBytes.push(Math.abs(dy));
+      } else {
+        yBytes.push((dy >> 8) & 0xff, dy & 0xff);
+      }
+
+      flags.push(flag);
+      previousX = point.x;
+      previousY = point.y;
+    }
+
+    // Collapse runs of identical flags with the REPEAT flag
+    const flagBytes: number[] = [];
+    for (let i = 0; i < flags.length; i++) {
+      let repeat = 0;
+      while (i + repeat + 1 < flags.length && flags[i + repeat + 1] === flags[i] && repeat < 255) {
+        repeat++;
+      }
+      if (repeat > 0) {
+        flagBytes.push(flags[i] | 0x08, repeat);
+        i += repeat;
+      } else {
+        flagBytes.push(flags[i]);
+      }
+    }
+
+    const headerLength = 10 + contours.length * 2 + 2;
+    const data = new Uint8Array(headerLength + flagBytes.length + xBytes.length + yBytes.length);
+    const view = new DataView(data.buffer);
+
+    view.setInt16(0, contours.length);
+    view.setInt16(2, bounds.xMin);
+    view.setInt16(4, bounds.yMin);
+    view.setInt16(6, bounds.xMax);
+    view.setInt16(8, bounds.yMax);
+
+    let endPoint = -1;
+    contours.forEach((contour, index) => {
+      endPoint += contour.length;
+      view.setUint16(10 + index * 2, endPoint);
+    });
+    view.setUint16(10 + contours.length * 2, 0); // instructionLength
+
+    data.set(flagBytes, headerLength);
+    data.set(xBytes, headerLength + flagBytes.length);
+    data.set(yBytes, headerLength + flagBytes.length + xBytes.length);
+
+    return { data, bounds, pointCount: points.length, contourCount: contours.length };
+  }
+
+  /**
+   * Builds a version 1.0 maxp table, which TrueType outlines require
+   */
+  private static buildMaxpTable(numGlyphs: number, glyphs: EncodedGlyph[]): Uint8Array {
+    const data = new Uint8Array(32);
+    const view = new DataView(data.buffer);
+
+    view.setUint32(0, 0x00010000);
+    view.setUint16(4, numGlyphs);
+    view.setUint16(6, Math.max(0, ...glyphs.map(g => g.pointCount)));
+    view.setUint16(8, Math.max(0, ...glyphs.map(g => g.contourCount)));
+    view.setUint16(14, 2); // maxZones: glyph zone plus twilight zone
+    // Composite, hinting and stack limits stay zero: no composites or instructions
+
+    return data;
+  }
+
+  /**
+   * Updates the font bounding box and loca format in the head table
+   */
+  private static updateHeadTable(head: Uint8Array, glyphs: EncodedGlyph[], useLongOffsets: boolean): void {
+    const view = new DataView(head.buffer, head.byteOffset, head.byteLength);
+    const bounds = glyphs.filter(g => g.bounds).map(g => g.bounds!);
+
+    if (bounds.length > 0) {
+      view.setInt16(36, Math.min(...bounds.map(b => b.xMin)));
+      view.setInt16(38, Math.min(...bounds.map(b => b.yMin)));
+      view.setInt16(40, Math.max(...bounds.map(b => b.xMax)));
+      view.setInt16(42, Math.max(...bounds.map(b => b.yMax)));
+    }
+
+    view.setInt16(50, useLongOffsets ? 1 : 0); // indexToLocFormat
+    view.setInt16(52, 0); // glyphDataFormat
+  }
+
+  /**
+   * Syncs left side bearings and hhea extents with the quadratic outlines,
+   * since rounding can move a glyph's bounds slightly from the cubic original
+   */
+  private static updateHorizontalMetrics(hhea: Uint8Array, hmtx: Uint8Array, glyphs: EncodedGlyph[]): void {
+    const hheaView = new DataView(hhea.buffer, hhea.byteOffset, hhea.byteLength);
+    const hmtxView = new DataView(hmtx.buffer, hmtx.byteOffset, hmtx.byteLength);
+    const numberOfHMetrics = hheaView.getUint16(34);
+
+    let advanceWidth = 0;
+    let minLeftSideBearing = Infinity;
+    let minRightSideBearing = Infinity;
+    let xMaxExtent = -Infinity;
+
+    glyphs.forEach((glyph, index) => {
+      const lsbOffset = index < numberOfHMetrics
+        ? index * 4 + 2
+        : numberOfHMetrics * 4 + (index - numberOfHMetrics) * 2;
+
+      if (index < numberOfHMetrics) {
+        advanceWidth = hmtxView.getUint16(index * 4);
+      }
+
+      if (!glyph.bounds || lsbOffset + 2 > hmtx.byteLength) {
+        return;
+      }
+
+      const { xMin, xMax } = glyph.bounds;
+      hmtxView.setInt16(lsbOffset, xMin);
+      minLeftSideBearing = Math.min(minLeftSideBearing, xMin);
+      minRightSideBearing = Math.min(minRightSideBearing, advanceWidth - xMax);
+      xMaxExtent = Math.max(xMaxExtent, xMax);
+    });
+
+    if (xMaxExtent !== -Infinity) {
+      hheaView.setInt16(12, minLeftSideBearing);
+      hheaView.setInt16(14, minRightSideBearing);
+      hheaView.setInt16(16, xMaxExtent);
+    }
+  }
+
+  private static writeLocaOffset(view: DataView, index: number, offset: number, useLongOffsets: boolean): void {
+    if (useLongOffsets) {
+      view.setUint32(index * 4, offset);
+    } else {
+      view.setUint16(index * 2, offset / 2);
+    }
+  }
+
+  private static roundPoint(x: number, y: number, onCurve: boolean): QuadraticPoint {
+    return { x: Math.round(x), y: Math.round(y), onCurve };
+  }
+}
@@ -0,0 +1,407 @@
+import { SfntBuilder, SfntFont } from './SfntBuilder';
+import { ByteWriter } from './ByteWriter';
+
+// WOFF2 known table tags, indexed by their 6-bit directory flag value
+const WOFF2_KNOWN_TAGS = [
+  'cmap', 'head', 'hhea', 'hmtx', 'maxp', 'name', 'OS/2', 'post', 'cvt ', 'fpgm',
+  'glyf', 'loca', 'prep', 'CFF ', 'VORG', 'EBDT', 'EBLC', 'gasp', 'hdmx', 'kern',
+  'LTSH', 'PCLT', 'VDMX', 'vhea', 'vmtx', 'BASE', 'GDEF', 'GPOS', 'GSUB', 'EBSC',
+  'JSTF', 'MATH', 'CBDT', 'CBLC', 'COLR', 'CPAL', 'SVG ', 'sbix', 'acnt', 'avar',
+  'bdat', 'bloc', 'bsln', 'cvar', 'fdsc', 'feat', 'fmtx', 'fvar', 'gvar', 'hsty',
+  'just', 'lcar', 'mort', 'morx', 'opbd', 'prop', 'trak', 'Zapf', 'Silf', 'Glat',
+  'Gloc', 'Feat', 'Sill'
+];
+
+// TrueType simple glyph flags
+const ON_CURVE_POINT = 0x01;
+const X_SHORT_VECTOR = 0x02;
+const Y_SHORT_VECTOR = 0x04;
+const REPEAT_FLAG = 0x08;
+const X_IS_SAME_OR_POSITIVE = 0x10;
+const Y_IS_SAME_OR_POSITIVE = 0x20;
+
+// TrueType composite glyph flags
+const ARG_1_AND_2_ARE_WORDS = 0x0001;
+const WE_HAVE_A_SCALE = 0x0008;
+const MORE_COMPONENTS = 0x0020;
+const WE_HAVE_AN_X_AND_Y_SCALE = 0x0040;
+const WE_HAVE_A_TWO_BY_TWO = 0x0080;
+const WE_HAVE_INSTRUCTIONS = 0x0100;
+
+export class WebFontCompressor {
+  /**
+   * Wraps an sfnt font in a WOFF 1.0 container with zlib-compressed tables
+   */
+  static async toWoff(sfntData: ArrayBuffer): Promise<ArrayBuffer> {
+    const font = SfntBuilder.parse(sfntData);
+    const tags = SfntBuilder.sortTags(Array.from(font.tables.keys()));
+    const headerSize = 44 + tags.length * 20;
+
+    // Compress each table, keeping the original when compression doesn't help
+    const entries = await Promise.all(tags.map(async (tag) => {
+      const data = font.tables.get(tag)!;
+      const compressed = await this.deflate(data);
+      return {
+        tag,
+        origLength: data.byteLength,
+        origChecksum: SfntBuilder.calculateTableChecksum(tag, data),
+        stored: compressed.byteLength < data.byteLength ? compressed : data
+      };
+    }));
+
+    let totalLength = headerSize;
+    for (const entry of entries) {
+      totalLength += SfntBuilder.align4(entry.stored.byteLength);
+    }
+
+    const buffer = new ArrayBuffer(totalLength);
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+
+    // WOFF header
+    SfntBuilder.writeTag(view, 0, 'wOFF');
+    view.setUint32(4, font.flavor);
+    view.setUint32(8, totalLength);
+    view.setUint16(12, tags.length);
+    view.setUint16(14, 0); // reserved
+    view.setUint32(16, SfntBuilder.calculateSfntSize(font.tables));
+    view.setUint16(20, 1); // majorVersion
+    view.setUint16(22, 0); // minorVersion
+    // metaOffset, metaLength, metaOrigLength, privOffset, privLength stay zero
+
+    let offset = headerSize;
+    entries.forEach((entry, index) => {
+      const recordOffset = 44 + index * 20;
+      SfntBuilder.writeTag(view, recordOffset, entry.tag);
+      view.setUint32(recordOffset + 4, offset);
+      view.setUint32(recordOffset + 8, entry.stored.byteLength);
+      view.setUint32(recordOffset + 12, entry.origLength);
+      view.setUint32(recordOffset + 16, entry.origChecksum);
+
+      bytes.set(entry.stored, offset);
+      offset += SfntBuilder.align4(entry.stored.byteLength);
+    });
+
+    return buffer;
+  }
+
+  /**
+   * Wraps an sfnt font in a WOFF2 container: glyf/loca are transformed when
+   * present and all table data is compressed as a single Brotli stream
+   */
+  static async toWoff2(sfntData: ArrayBuffer): Promise<ArrayBuffer> {
+    const font = SfntBuilder.parse(sfntData);
+    const tags = this.orderWoff2Tags(Array.from(font.tables.keys()));
+    const transformGlyf = font.tables.has('glyf') && font.tables.has('loca') && font.tables.has('head') && font.tables.has('maxp');
+    const transformedGlyf = transformGlyf ? this.transformGlyfTable(font) : null;
+
+    const directory = new ByteWriter();
+    const stream = new ByteWriter();
+
+    for (const tag of tags) {
+      const data = font.tables.get(tag)!;
+      const knownIndex = WOFF2_KNOWN_TAGS.indexOf(tag);
+      const flagIndex = knownIndex >= 0 ? knownIndex : 63;
+
+      // glyf/loca use version 0 for the transform and 3 for the null transform;
+      // every other table uses version 0 for the null transform
+      const isGlyfOrLoca = tag === 'glyf' || tag === 'loca';
+      const transformVersion = isGlyfOrLoca && !transformedGlyf ? 3 : 0;
+
+      directory.uint8(flagIndex | (transformVersion << 6));
+      if (flagIndex === 63) {
+        for (let i = 0; i < 4; i++) {
+          directory.uint8(tag.charCodeAt(i));
+        }
+      }
+      directory.base128(data.byteLength);
+
+      if (isGlyfOrLoca && transformedGlyf) {
+        // loca is rebuilt from the transformed glyf data, so it contributes no bytes
+        const transformed = tag === 'glyf' ? transformedGlyf : new Uint8Array(0);
+        directory.base128(transformed.byteLength);
+        stream.append(transformed);
+      } else {
+        stream.append(data);
+      }
+    }
+
+    const compressed = await this.brotliCompress(stream.toUint8Array());
+    const directoryBytes = directory.toUint8Array();
+    const headerSize = 48;
+    const totalLength = SfntBuilder.align4(headerSize + directoryBytes.byteLength + compressed.byteLength);
+
+    const buffer = new ArrayBuffer(totalLength);
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+
+    // WOFF2 header
+    SfntBuilder.writeTag(view, 0, 'wOF2');
+    view.setUint32(4, font.flavor);
+    view.setUint32(8, totalLength);
+    view.setUint16(12, tags.length);
+    view.setUint16(14, 0); // reserved
+    view.setUint32(16, SfntBuilder.calculateSfntSize(font.tables));
+    view.setUint32(20, compressed.byteLength);
+    view.setUint16(24, 1); // majorVersion
+    view.setUint16(26, 0); // minorVersion
+    // metaOffset, metaLength, metaOrigLength, privOffset, privLength stay zero
+
+    bytes.set(directoryBytes, headerSize);
+    bytes.set(compressed, headerSize + directoryBytes.byteLength);
+
+    return buffer;
+  }
+
+  /**
+   * Orders tables for the WOFF2 stream; loca must directly follow glyf
+   */
+  private static orderWoff2Tags(tags: string[]): string[] {
+    const sorted = SfntBuilder.sortTags(tags.filter(tag => tag !== 'loca'));
+    if (tags.includes('loca')) {
+      const glyfIndex = sorted.indexOf('glyf');
+      sorted.splice(glyfIndex >= 0 ? glyfIndex + 1 : sorted.length, 0, 'loca');
+    }
+    return sorted;
+  }
+
+  /**
+   * Applies the WOFF2 glyf table transform (spec section 5.1), splitting the
+   * glyph data into separate streams that compress far better than raw glyf
+   */
+  private static transformGlyfTable(font: SfntFont): Uint8Array {
+    const glyf = font.tables.get('glyf')!;
+    const loca = font.tables.get('loca')!;
+    const head = new DataView(font.tables.get('head')!.buffer, font.tables.get('head')!.byteOffset);
+    const maxp = new DataView(font.tables.get('maxp')!.buffer, font.tables.get('maxp')!.byteOffset);
+
+    const numGlyphs = maxp.getUint16(4);
+    const indexFormat = head.getInt16(50);
+    const offsets = this.readLocaOffsets(loca, numGlyphs, indexFormat);
+    const glyfView = new DataView(glyf.buffer, glyf.byteOffset, glyf.byteLength);
+
+    const nContourStream = new ByteWriter();
+    const nPointsStream = new ByteWriter();
+    const flagStream = new ByteWriter();
+    const glyphStream = new ByteWriter();
+    const compositeStream = new ByteWriter();
+    const bboxValues = new ByteWriter();
+    const instructionStream = new ByteWriter();
+    const bboxBitmap = new Uint8Array(((numGlyphs + 31) >> 5) << 2);
+
+    for (let glyphId = 0; glyphId < numGlyphs; glyphId++) {
+      const start = offsets[glyphId];
+      const end = offsets[glyphId + 1];
+
+      if (end <= start) {
+        nContourStream.uint16(0);
+        continue;
+      }
+
+      const numberOfContours = glyfView.getInt16(start);
+      const bbox = [
+        glyfView.getInt16(start + 2),
+        glyfView.getInt16(start + 4),
+        glyfView.getInt16(start + 6),
+        glyfView.getInt16(start + 8)
+      ];
+      nContourStream.uint16(numberOfContours & 0xffff);
+
+      if (numberOfContours === 0) {
+        continue;
+      }
+
+      let writeBBox = true;
+
+      if (numberOfContours > 0) {
+        let p = start + 10;
+        let lastEndPoint = -1;
+        for (let c = 0; c < numberOfContours; c++) {
+          const endPoint = glyfView.getUint16(p);
+          nPointsStream.uint255(endPoint - lastEndPoint);
+          lastEndPoint = endPoint;
+          p += 2;
+        }
+        const numPoints = lastEndPoint + 1;
+
+        const instructionLength = glyfView.getUint16(p);
+        p += 2;
+        const instructions = glyf.subarray(p, p + instructionLength);
+        p += instructionLength;
+
+        // Expand repeated flags
+        const flags: number[] = [];
+        while (flags.length < numPoints) {
+          const flag = glyfView.getUint8(p++);
+          flags.push(flag);
+          if (flag & REPEAT_FLAG) {
+            const repeat = glyfView.getUint8(p++);
+            for (let r = 0; r < repeat; r++) {
+              flags.push(flag);
+            }
+          }
+        }
+
+        const readDeltas = (shortBit: number, sameBit: number): number[] => {
+          const deltas: number[] = [];
+          for (let i = 0; i < numPoints; i++) {
+            const flag = flags[i];
+            if (flag & shortBit) {
+              const value = glyfView.getUint8(p++);
+              deltas.push(flag & sameBit ? value : -value);
+            } else if (flag & sameBit) {
+              deltas.push(0);
+            } else {
+              deltas.push(glyfView.getInt16(p));
+              p += 2;
+            }
+          }
+          return deltas;
+        };
+        const dx = readDeltas(X_SHORT_VECTOR, X_IS_SAME_OR_POSITIVE);
+        const dy = readDeltas(Y_SHORT_VECTOR, Y_IS_SAME_OR_POSITIVE);
+
+        let x = 0;
+        let y = 0;
+        const calculated = [Infinity, Infinity, -Infinity, -Infinity];
+        for (let i = 0; i < numPoints; i++) {
+          this.encodeTriplet(dx[i], dy[i], (flags[i] & ON_CURVE_POINT) !== 0, flagStream, glyphStream);
+          x += dx[i];
+          y += dy[i];
+          calculated[0] = Math.min(calculated[0], x);
+          calculated[1] = Math.min(calculated[1], y);
+          calculated[2] = Math.max(calculated[2], x);
+          calculated[3] = Math.max(calculated[3], y);
+        }
+
+        glyphStream.uint255(instructionLength);
+        instructionStream.append(instructions);
+
+        // The decoder recomputes bboxes of simple glyphs, so only store ones that differ
+        writeBBox = calculated.some((value, index) => value !== bbox[index]);
+      } else {
+        // Composite glyph: component records are copied verbatim
+        let p = start + 10;
+        let hasInstructions = false;
+        let flags: number;
+        do {
+          flags = glyfView.getUint16(p);
+          let recordLength = 4 + (flags & ARG_1_AND_2_ARE_WORDS ? 4 : 2);
+          if (flags & WE_HAVE_A_SCALE) {
+            recordLength += 2;
+          } else if (flags & WE_HAVE_AN_X_AND_Y_SCALE) {
+            recordLength += 4;
+          } else if (flags & WE_HAVE_A_TWO_BY_TWO) {
+            recordLength += 8;
+          }
+          hasInstructions = hasInstructions || (flags & WE_HAVE_INSTRUCTIONS) !== 0;
+          compositeStream.append(glyf.subarray(p, p + recordLength));
+          p += recordLength;
+        } while (flags & MORE_COMPONENTS);
+
+        if (hasInstructions) {
+          const instructionLength = glyfView.getUint16(p);
+          glyphStream.uint255(instructionLength);
+          instructionStream.append(glyf.subarray(p + 2, p + 2 + instructionLength));
+        }
+      }
+
+      if (writeBBox) {
+        bboxBitmap[glyphId >> 3] |= 0x80 >> (glyphId & 7);
+        bbox.forEach(value => bboxValues.uint16(value & 0xffff));
+      }
+    }
+
+    const bboxStreamSize = bboxBitmap.byteLength + bboxValues.length;
+    const output = new ByteWriter();
+    output.uint16(0); // reserved
+    output.uint16(0); // optionFlags
+    output.uint16(numGlyphs);
+    output.uint16(indexFormat);
+    output.uint32(nContourStream.length);
+    output.uint32(nPointsStream.length);
+    output.uint32(flagStream.length);
+    output.uint32(glyphStream.length);
+    output.uint32(compositeStream.length);
+    output.uint32(bboxStreamSize);
+    output.uint32(instructionStream.length);
+    output.append(nContourStream.toUint8Array());
+    output.append(nPointsStream.toUint8Array());
+    output.append(flagStream.toUint8Array());
+    output.append(glyphStream.toUint8Array());
+    output.append(compositeStream.toUint8Array());
+    output.append(bboxBitmap);
+    output.append(bboxValues.toUint8Array());
+    output.append(instructionStream.toUint8Array());
+
+    return output.toUint8Array();
+  }
+
+  /**
+   * Encodes one relative point using the WOFF2 triplet encoding (spec table 5.2)
+   */
+  private static encodeTriplet(
+    dx: number,
+    dy: number,
+    onCurve: boolean,
+    flagStream: ByteWriter,
+    glyphStream: ByteWriter
+  ): void {
+    const onCurveBit = onCurve ? 0 : 128;
+    const absX = Math.abs(dx);
+    const absY = Math.abs(dy);
+    const xSignBit = dx < 0 ? 0 : 1;
+    const ySignBit = dy < 0 ? 0 : 1;
+    const xySignBits = xSignBit + 2 * ySignBit;
+
+    if (dx === 0 && absY < 1280) {
+      flagStream.uint8(onCurveBit + ((absY & 0xf00) >> 7) + ySignBit);
+      glyphStream.uint8(absY & 0xff);
+    } else if (dy === 0 && absX < 1280) {
+      flagStream.uint8(onCurveBit + 10 + ((absX & 0xf00) >> 7) + xSignBit);
+      glyphStream.uint8(absX & 0xff);
+    } else if (absX < 65 && absY < 65) {
+      flagStream.uint8(onCurveBit + 20 + ((absX - 1) & 0x30) + (((absY - 1) & 0x30) >> 2) + xySignBits);
+      glyphStream.uint8((((absX - 1) & 0xf) << 4) | ((absY - 1) & 0xf));
+    } else if (absX < 769 && absY < 769) {
+      flagStream.uint8(onCurveBit + 84 + 12 * (((absX - 1) & 0x300) >> 8) + (((absY - 1) & 0x300) >> 6) + xySignBits);
+      glyphStream.uint8((absX - 1) & 0xff);
+      glyphStream.uint8((absY - 1) & 0xff);
+    } else if (absX < 4096 && absY < 4096) {
+      flagStream.uint8(onCurveBit + 120 + xySignBits);
+      glyphStream.uint8(absX >> 4);
+      glyphStream.uint8(((absX & 0xf) << 4) | (absY >> 8));
+      glyphStream.uint8(absY & 0xff);
+    } else {
+      flagStream.uint8(onCurveBit + 124 + xySignBits);
+      glyphStream.uint16(absX);
+      glyphStream.uint16(absY);
+    }
+  }
+
+  private static readLocaOffsets(loca: Uint8Array, numGlyphs: number, indexFormat: number): number[] {
+    const view = new DataView(loca.buffer, loca.byteOffset, loca.byteLength);
+    const offsets: number[] = [];
+    for (let i = 0; i <= numGlyphs; i++) {
+      offsets.push(indexFormat === 0 ? view.getUint16(i * 2) * 2 : view.getUint32(i * 4));
+    }
+    return offsets;
+  }
+
+  /**
+   * zlib-compresses data using the browser's native CompressionStream
+   */
+  private static async deflate(data: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+
+  /**
+   * Brotli-compresses data using the brotli-wasm module (loaded on first use)
+   */
+  private static async brotliCompress(data: Uint8Array): Promise<Uint8Array> {
+    const brotliModule = await import('brotli-wasm');
+    const brotli = await brotliModule.default;
+    return brotli.compress(data, { quality: 11 });
+  }
+}
@@ -2,8 +2,18 @@
 export { FontGenerator } from './FontGenerator';
 export { GlyphConverter } from './GlyphConverter';
 export { FontMetricsCalculator } from './FontMetricsCalculator';
+export { KerningCalculator } from './KerningCalculator';
+export { KerningTableBuilder } from './KerningTableBuilder';
+export { AutoKerningService } from './AutoKerningService';
+export { GlyphProfiler } from './GlyphProfiler';
+export { GlyphComposer, MARK_ATTACHMENT } from './GlyphComposer';
+export { GposTableBuilder } from './GposTableBuilder';
+export { MarkPositioningBuilder } from './MarkPositioningBuilder';
 export { FontExportService } from './FontExportService';
 export { CoordinateTransformer } from './CoordinateTransformer';
+export { SfntBuilder } from './SfntBuilder';
+export { TrueTypeBuilder } from './TrueTypeBuilder';
+export { WebFontCompressor } from './WebFontCompressor';
 
 // Types
 export type { 
@@ -14,17 +24,59 @@ export type {
 
 export type { 
   SVGPathCommand, 
-  GlyphMetrics 
+  GlyphMetrics,
+  GlyphScaleOptions
 } from './GlyphConverter';
 
 export type { 
-  TransformedPathCommand 
+  TransformedPathCommand,
+  FrameMapping
 } from './CoordinateTransformer';
 
 export type { 
-  FontMetrics 
+  FontMetrics,
+  MetricConflict,
+  ResolvedFontMetrics,
+  UserMetricField,
+  GlyphSpacingAssignment,
+  SpacingResult
 } from './FontMetricsCalculator';
 
+export type { 
+  GlyphProfile 
+} from './GlyphProfiler';
+
+export type { 
+  AnchorPoint,
+  GlyphAnchorPoints
+} from './GlyphComposer';
+
+export type { 
+  ResolvedKerningValue 
+} from './KerningCalculator';
+
+export type { 
+  GlyphKerningPair 
+} from './KerningTableBuilder';
+
+export type { 
+  KerningSuggestion,
+  AutoKerningOptions
+} from './AutoKerningService';
+
+export type { 
+  GposLookup,
+  GposFeature
+} from './GposTableBuilder';
+
+export type { 
+  MarkPositioningLookups 
+} from './MarkPositioningBuilder';
+
+export type { 
+  SfntFont 
+} from './SfntBuilder';
+
 export type { 
   FontExportOptions, 
   FontExportResult 
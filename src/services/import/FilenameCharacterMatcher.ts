@@ -0,0 +1,144 @@
+import {
+  CharacterDefinition,
+  getCharacterByChar,
+  getCharacterByUnicode,
+  getCharacterByGlyphName
+} from '../../data/character-sets';
+import { CharacterData } from '../storage/CharacterDataStorage';
+import { RejectedUpload } from './UploadFileCollector';
+
+export type FilenameMatchRule = 'character' | 'unicode' | 'case-prefix' | 'glyph-name' | 'unicode-name';
+
+export interface FilenameMatch {
+  character: CharacterDefinition;
+  rule: FilenameMatchRule;
+}
+
+export interface BulkAssignment {
+  character: CharacterDefinition;
+  files: File[];        // More than one file is a conflict the user has to resolve
+  overwrites: boolean;  // The character already has an image or outline
+}
+
+export interface BulkAssignmentPlan {
+  assignments: BulkAssignment[];  // In character set order
+  unmatched: File[];     // Left for the user to assign by hand
+  rejected: RejectedUpload[];
+}
+
+/**
+ * Maps image files to characters by filename, so a folder of glyph drawings
+ * can be uploaded in one go. Understands the character itself (A.png), code
+ * points (U+0041.png, uni0041.jpg), case-prefixed names (uppercase_A.webp),
+ * glyph names (ampersand.png, Aacute.png) and Unicode names
+ * (LATIN_SMALL_LETTER_A.png).
+ */
+export class FilenameCharacterMatcher {
+  private static readonly CODE_POINT_PATTERN = /^(?:U\+?|uni|u)([0-9A-F]{4,6})$/i;
+  private static readonly CASE_PREFIX_PATTERN = /^(uppercase|upper|capital|cap|lowercase|lower|small)[_\- ]+(.+)$/i;
+
+  static match(fileName: string, characters: CharacterDefinition[]): FilenameMatch | null {
+    const stem = this.getStem(fileName);
+    if (!stem) return null;
+
+    if (Array.from(stem).length === 1) {
+      const character = getCharacterByChar(stem, characters);
+      return character ? { character, rule: 'character' } : null;
+    }
+
+    const codePoint = stem.match(this.CODE_POINT_PATTERN);
+    if (codePoint) {
+      const unicode = `U+${codePoint[1].toUpperCase().replace(/^0+(?=[0-9A-F]{4})/, '')}`;
+      const character = getCharacterByUnicode(unicode, characters);
+      return character ? { character, rule: 'unicode' } : null;
+    }
+
+    const casePrefix = stem.match(this.CASE_PREFIX_PATTERN);
+    if (casePrefix) {
+      const character = this.matchCasePrefixed(casePrefix[1], casePrefix[2], characters);
+      if (character) return { character, rule: 'case-prefix' };
+    }
+
+    const byGlyphName = getCharacterByGlyphName(stem, characters);
+    if (byGlyphName) {
+      return { character: byGlyphName, rule: 'glyph-name' };
+    }
+
+    const unicodeName = this.normalizeName(stem);
+    const byUnicodeName = characters.find(character => this.normalizeName(character.name) === unicodeName);
+    if (byUnicodeName) {
+      return { character: byUnicodeName, rule: 'unicode-name' };
+    }
+
+    return null;
+  }
+
+  /**
+   * Matches a batch of validated files against a character set, grouping files
+   * that land on the same character and flagging characters that already have data
+   */
+  static planAssignment(
+    files: File[],
+    characters: CharacterDefinition[],
+    characterDataMap: Map<string, CharacterData>,
+    rejected: RejectedUpload[] = []
+  ): BulkAssignmentPlan {
+    const filesByUnicode = new Map<string, File[]>();
+    const unmatched: File[] = [];
+
+    for (const file of files) {
+      const match = this.match(file.name, characters);
+      if (!match) {
+        unmatched.push(file);
+        continue;
+      }
+      const group = filesByUnicode.get(match.character.unicode) ?? [];
+      group.push(file);
+      filesByUnicode.set(match.character.unicode, group);
+    }
+
+    const assignments = characters
+      .filter(character => filesByUnicode.has(character.unicode))
+      .map(character => {
+        const existing = characterDataMap.get(character.unicode);
+        return {
+          character,
+          files: filesByUnicode.get(character.unicode)!,
+          overwrites: Boolean(existing?.originalImage || existing?.vectorData)
+        };
+      });
+
+    console.log(`🗂️ Matched ${files.length - unmatched.length}/${files.length} files to ${assignments.length} characters`);
+
+    return { assignments, unmatched, rejected };
+  }
+
+  /**
+   * Filename without folders, extension or a browser's duplicate counter ("A (1).png")
+   */
+  private static getStem(fileName: string): string {
+    const baseName = fileName.split(/[\\/]/).pop() ?? fileName;
+    const dot = baseName.lastIndexOf('.');
+    const stem = dot > 0 ? baseName.slice(0, dot) : baseName;
+    return stem.replace(/ \(\d+\)$/, '');
+  }
+
+  private static matchCasePrefixed(
+    prefix: string,
+    name: string,
+    characters: CharacterDefinition[]
+  ): CharacterDefinition | undefined {
+    const category = /^(uppercase|upper|capital|cap)$/i.test(prefix) ? 'uppercase' : 'lowercase';
+    const first = category === 'uppercase' ? name[0].toUpperCase() : name[0].toLowerCase();
+    const cased = first + name.slice(1);
+
+    const character = Array.from(cased).length === 1
+      ? getCharacterByChar(cased, characters)
+      : getCharacterByGlyphName(cased, characters);
+    return character?.category === category ? character : undefined;
+  }
+
+  private static normalizeName(name: string): string {
+    return name.toUpperCase().replace(/[\s_-]+/g, ' ').trim();
+  }
+}
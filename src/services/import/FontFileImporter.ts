@@ -0,0 +1,268 @@
+import type { Font, FontCollection, Glyph } from 'fontkit';
+import { CharacterDefinition, getAllCharacterSets } from '../../data/character-sets';
+import { EditablePathData, FontSettings, GlyphVerticalFrame, KerningData, KerningPair } from '../../types';
+import { SVGPathEditor } from '../../utils/svgPathEditor';
+import { CoordinateTransformer, FontProject, KerningCalculator } from '../font-generation';
+import { CharacterData } from '../storage/CharacterDataStorage';
+
+export interface FontFileImportResult {
+  project: FontProject;
+  glyphCount: number;       // Characters that came with an outline
+  missing: string[];        // Known characters the font has no outline for
+}
+
+// Kerning is read by laying out each pair with only kerning on, so ligatures
+// and contextual alternates don't replace the two glyphs
+const KERNING_FEATURES = {
+  kern: true,
+  ccmp: false,
+  locl: false,
+  rlig: false,
+  calt: false,
+  clig: false,
+  liga: false,
+  rclt: false,
+  curs: false
+};
+
+interface ImportedGlyph {
+  character: CharacterDefinition;
+  glyph: Glyph;
+}
+
+/**
+ * Opens a TTF, OTF, WOFF or WOFF2 file as an editable project. Every character
+ * in our sets that the font maps becomes an outline in the 200x200 viewBox,
+ * keeping its own sidebearings, the font's names and vertical metrics carry
+ * over into the settings and its kerning into glyph pairs, so generating again
+ * gives back the same font.
+ */
+export class FontFileImporter {
+  static readonly ACCEPTED_EXTENSIONS = ['.ttf', '.otf', '.woff', '.woff2'];
+
+  static isFontFile(file: File): boolean {
+    const name = file.name.toLowerCase();
+    return this.ACCEPTED_EXTENSIONS.some(extension => name.endsWith(extension));
+  }
+
+  static async import(
+    file: File,
+    characters: CharacterDefinition[] = getAllCharacterSets().flatMap(set => set.characters)
+  ): Promise<FontFileImportResult> {
+    console.log(`🔤 Opening font ${file.name}...`);
+
+    // fontkit is only needed here, so it's loaded on first use
+    const fontkit = await import('fontkit');
+    let font: Font | FontCollection;
+    try {
+      font = fontkit.create(new Uint8Array(await file.arrayBuffer()) as Buffer);
+    } catch (error) {
+      throw new Error(`Not a font file fontkit can read: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    // Collections open at their first font
+    if ('fonts' in font) {
+      font = font.fonts[0];
+    }
+
+    const imported: ImportedGlyph[] = [];
+    const missing: string[] = [];
+    for (const character of characters) {
+      const codePoint = parseInt(character.unicode.replace('U+', ''), 16);
+      const glyph = font.hasGlyphForCodePoint(codePoint) ? font.glyphForCodePoint(codePoint) : null;
+      if (glyph && glyph.path.commands.length > 0) {
+        imported.push({ character, glyph });
+      } else if (character.category !== 'space') {
+        missing.push(character.unicode);
+      }
+    }
+
+    if (imported.length === 0) {
+      throw new Error('The font has no outlines for any supported character');
+    }
+
+    const fontSettings = this.getFontSettings(font, file.name);
+    const frame = this.getFrame(font, imported, fontSettings);
+
+    const kerning = this.getKerning(font, imported);
+
+    const characterData = new Map<string, CharacterData>();
+    for (const { character, glyph } of imported) {
+      characterData.set(character.unicode, this.toCharacterData(character, glyph, font.unitsPerEm, fontSettings.capHeight!, frame));
+    }
+
+    console.log(`✅ Opened ${fontSettings.metadata.familyName}: ${imported.length} glyphs, ${kerning.pairs.length} kerning pairs, ${missing.length} characters missing`);
+
+    return {
+      project: {
+        characters: characterData,
+        fontSettings,
+        kerning,
+        metadata: {
+          name: fontSettings.metadata.familyName,
+          description: fontSettings.metadata.description,
+          author: fontSettings.metadata.author,
+          license: fontSettings.metadata.license,
+          version: fontSettings.metadata.version
+        }
+      },
+      glyphCount: imported.length,
+      missing
+    };
+  }
+
+  private static getFontSettings(font: Font, fileName: string): FontSettings {
+    const os2 = font['OS/2'];
+    const space = font.hasGlyphForCodePoint(0x20) ? font.glyphForCodePoint(0x20) : null;
+    const capHeight = font.capHeight > 0 ? font.capHeight : this.measureHeight(font, 0x48, font.unitsPerEm * 0.7);
+    const xHeight = font.xHeight > 0 ? font.xHeight : this.measureHeight(font, 0x78, capHeight * 0.7);
+
+    return {
+      metadata: {
+        familyName: font.familyName || fileName.replace(/\.[^.]+$/, ''),
+        // The name table holds e.g. "Version 2.001; ttfautohint"
+        version: String(font.version ?? '').match(/\d+(?:\.\d+)*/)?.[0] ?? '1.0.0',
+        description: font.getName('description', 'en') ?? undefined,
+        author: font.getName('designer', 'en') ?? font.getName('manufacturer', 'en') ?? undefined,
+        license: this.getLicense(font),
+        style: font.subfamilyName || undefined,
+        weight: os2?.usWeightClass ? String(os2.usWeightClass) : undefined
+      },
+      unitsPerEm: font.unitsPerEm,
+      ascender: font.ascent,
+      descender: font.descent,
+      xHeight,
+      capHeight,
+      lineGap: font.lineGap,
+      spaceWidth: space?.advanceWidth,
+      // Every glyph brings its own sidebearings
+      spacingMode: 'manual'
+    };
+  }
+
+  /**
+   * Kerning between every two imported glyphs, from the GPOS table or the
+   * older kern table, whichever the font has. Class kerning comes in expanded
+   * to glyph pairs.
+   */
+  private static getKerning(font: Font, imported: ImportedGlyph[]): KerningData {
+    const kerning = KerningCalculator.createEmptyKerning();
+    // Lists kern for fonts with only the older table too
+    if (!font.availableFeatures.includes('kern')) {
+      return kerning;
+    }
+
+    const pairs: KerningPair[] = [];
+    for (const left of imported) {
+      for (const right of imported) {
+        const run = font.layout(left.character.char + right.character.char, KERNING_FEATURES);
+        if (run.glyphs.length !== 2 || run.glyphs[0].id !== left.glyph.id) continue;
+
+        const value = Math.round(run.positions[0].xAdvance - left.glyph.advanceWidth);
+        if (value !== 0) {
+          pairs.push({ left: left.character.unicode, right: right.character.unicode, value });
+        }
+      }
+    }
+
+    return { ...kerning, pairs };
+  }
+
+  /**
+   * Matches the license name table entries to the licenses the settings offer
+   */
+  private static getLicense(font: Font): string | undefined {
+    const text = [font.getName('license', 'en'), font.getName('licenseURL', 'en')].filter(Boolean).join(' ');
+    if (!text) return undefined;
+    if (/open font license|\bOFL\b/i.test(text)) return 'OFL-1.1';
+    if (/apache/i.test(text)) return 'Apache-2.0';
+    if (/\bMIT\b/.test(text)) return 'MIT';
+    return 'Custom';
+  }
+
+  /**
+   * Height of a reference glyph's outline, for fonts whose OS/2 table leaves it out
+   */
+  private static measureHeight(font: Font, codePoint: number, fallback: number): number {
+    if (!font.hasGlyphForCodePoint(codePoint)) return fallback;
+    const height = font.glyphForCodePoint(codePoint).bbox.maxY;
+    return height > 0 ? height : fallback;
+  }
+
+  /**
+   * One frame for every glyph, scaled so the tallest and widest outlines fit
+   * the viewBox's 20..180 content area with the baseline and metric lines placed
+   * where the font has them
+   */
+  private static getFrame(font: Font, imported: ImportedGlyph[], settings: FontSettings): GlyphVerticalFrame {
+    let top = font.ascent;
+    let bottom = font.descent;
+    let widest = 0;
+    for (const { glyph } of imported) {
+      top = Math.max(top, glyph.bbox.maxY);
+      bottom = Math.min(bottom, glyph.bbox.minY);
+      widest = Math.max(widest, glyph.bbox.maxX - glyph.bbox.minX);
+    }
+
+    const scale = Math.max(top - bottom, widest) / 160;
+    const baseline = 20 + top / scale;
+    return {
+      baseline,
+      xHeight: baseline - settings.xHeight! / scale,
+      capHeight: baseline - settings.capHeight! / scale,
+      source: 'font'
+    };
+  }
+
+  private static toCharacterData(
+    character: CharacterDefinition,
+    glyph: Glyph,
+    unitsPerEm: number,
+    capHeight: number,
+    frame: GlyphVerticalFrame
+  ): CharacterData {
+    const { bbox, advanceWidth } = glyph;
+    const scale = capHeight / (frame.baseline - frame.capHeight);
+
+    // Centre the outline horizontally; the sidebearings put it back in place on generation
+    const offsetX = 100 * scale - (bbox.minX + bbox.maxX) / 2;
+    const svgPath = this.roundPath(
+      CoordinateTransformer.openTypeToSvg(glyph.path.translate(offsetX, 0).toSVG(), unitsPerEm, frame, capHeight)
+    );
+
+    let editablePathData: EditablePathData;
+    try {
+      editablePathData = SVGPathEditor.createEditablePathData(svgPath);
+    } catch (error) {
+      console.warn(`⚠️ Importing ${character.unicode} without editable nodes:`, error instanceof Error ? error.message : 'Unknown error');
+      editablePathData = { nodes: [], viewBox: { width: 200, height: 200, x: 0, y: 0 }, originalPath: svgPath };
+    }
+
+    return {
+      unicode: character.unicode,
+      character: character.char,
+      vectorData: svgPath,
+      verticalFrame: frame,
+      glyphMetrics: {
+        leftSideBearing: Math.round(bbox.minX),
+        rightSideBearing: Math.round(advanceWidth - bbox.maxX),
+        advanceWidth
+      },
+      vectorizedGlyph: {
+        svgPath,
+        editablePathData,
+        vectorizationParams: { quality: 'high' },
+        metrics: {
+          nodeCount: editablePathData.nodes.length,
+          pathComplexity: glyph.path.commands.length,
+          fileSize: svgPath.length,
+          vectorizationTime: 0
+        }
+      },
+      status: 'complete'
+    };
+  }
+
+  private static roundPath(path: string): string {
+    return path.replace(/-?\d*\.?\d+(?:e[-+]?\d+)?/gi, value => String(Math.round(parseFloat(value) * 100) / 100));
+  }
+}
@@ -0,0 +1,268 @@
+import { EditablePathData } from '../../types';
+import { SVGPathEditor } from '../../utils/svgPathEditor';
+import { getCanvasNormalization } from '../../utils/imagetracerVectorization';
+import {
+  Matrix,
+  PathSegment,
+  IDENTITY_MATRIX,
+  multiplyMatrix,
+  parseTransform,
+  parsePathData,
+  transformSegments,
+  rectToSegments,
+  ellipseToSegments,
+  pointsToSegments,
+  getSegmentsBounds,
+  orientShapeSegments,
+  segmentsToPath
+} from '../../utils/svgFlattening';
+
+export interface SvgGlyphImportResult {
+  path: string;                 // Absolute M/L/C/Z commands in the 200x200 viewBox
+  editablePathData: EditablePathData;
+  sanitizedSvg: File;           // Clean single-path SVG to keep as the character's image
+  shapeCount: number;
+  skipped: string[];            // Content that could not be imported, for the user
+}
+
+interface InheritedStyle {
+  fill: string;
+  fillRule: 'nonzero' | 'evenodd';
+  visible: boolean;
+}
+
+interface Viewport {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Reads an SVG drawn in a vector tool straight into a glyph outline, skipping
+ * rasterizing and tracing. Only geometry is taken from the file: groups,
+ * nested SVGs, paths and basic shapes are flattened through their transforms
+ * into one path, and everything else (scripts, styles, images, external
+ * references) is dropped. The SVG's viewport is fitted into the viewBox the
+ * same way a traced image's canvas is, so artboard placement is kept.
+ * Contours are redrawn so the font's nonzero fill gives the shape's own fill
+ * rule, and white shapes, usually backgrounds or knockouts, are left out.
+ */
+export class SvgGlyphImporter {
+  static readonly MAX_ELEMENTS = 10000;
+  static readonly MAX_DEPTH = 64;
+
+  private static readonly CONTAINERS = new Set(['svg', 'g', 'a', 'switch']);
+  private static readonly SHAPES = new Set(['path', 'rect', 'circle', 'ellipse', 'polygon', 'polyline']);
+  // Never rendered directly; definitions are only reachable through references we don't follow
+  private static readonly SILENT = new Set(['defs', 'title', 'desc', 'metadata', 'style', 'script', 'clipPath', 'mask', 'linearGradient', 'radialGradient', 'pattern', 'filter', 'symbol', 'marker']);
+
+  static isSvgFile(file: Blob): boolean {
+    return file.type === 'image/svg+xml' || (file instanceof File && file.name.toLowerCase().endsWith('.svg'));
+  }
+
+  static async import(file: File): Promise<SvgGlyphImportResult> {
+    console.log(`✒️ Importing SVG outlines from ${file.name}...`);
+    const result = this.importMarkup(await file.text());
+    console.log(`✅ Imported ${result.shapeCount} shapes from ${file.name}${result.skipped.length ? ` (skipped: ${result.skipped.join(', ')})` : ''}`);
+    return result;
+  }
+
+  static importMarkup(markup: string): SvgGlyphImportResult {
+    // Entity declarations can expand without bound, and nothing legitimate needs them
+    if (/<!DOCTYPE|<!ENTITY/i.test(markup)) {
+      throw new Error('SVG files with DOCTYPE or entity declarations are not accepted');
+    }
+
+    const document = new DOMParser().parseFromString(markup, 'image/svg+xml');
+    const root = document.documentElement;
+    if (document.getElementsByTagName('parsererror').length > 0 || root.localName !== 'svg') {
+      throw new Error('Not a valid SVG file');
+    }
+
+    const segments: PathSegment[] = [];
+    const skipped = new Set<string>();
+    let shapeCount = 0;
+    let elementCount = 0;
+
+    const walk = (element: Element, parentMatrix: Matrix, parentStyle: InheritedStyle, depth: number) => {
+      if (++elementCount > this.MAX_ELEMENTS || depth > this.MAX_DEPTH) {
+        throw new Error('The SVG is too complex to import');
+      }
+
+      const name = element.localName;
+      if (this.SILENT.has(name)) return;
+      if (!this.CONTAINERS.has(name) && !this.SHAPES.has(name)) {
+        skipped.add(name === 'text' ? 'text (convert it to outlines first)' : name);
+        return;
+      }
+
+      const style = this.getStyle(element, parentStyle);
+      if (this.getProperty(element, 'display') === 'none') return;
+
+      let matrix = multiplyMatrix(parentMatrix, parseTransform(element.getAttribute('transform')));
+
+      // A nested SVG establishes a new viewport at its x/y
+      if (name === 'svg' && element !== root) {
+        matrix = multiplyMatrix(matrix, [1, 0, 0, 1, this.length(element, 'x'), this.length(element, 'y')]);
+      }
+
+      if (this.CONTAINERS.has(name)) {
+        for (const child of Array.from(element.children)) {
+          walk(child, matrix, style, depth + 1);
+        }
+        return;
+      }
+
+      if (!style.visible) return;
+      if (style.fill === 'none') {
+        skipped.add('unfilled (stroke-only) shapes');
+        return;
+      }
+      if (this.isWhite(style.fill)) {
+        skipped.add('white (background) shapes');
+        return;
+      }
+
+      // Orient after transforming, since mirroring transforms reverse contours
+      const shape = this.shapeToSegments(element);
+      if (shape.length > 0) {
+        segments.push(...orientShapeSegments(transformSegments(shape, matrix), style.fillRule));
+        shapeCount++;
+      }
+    };
+
+    walk(root, IDENTITY_MATRIX, { fill: 'black', fillRule: 'nonzero', visible: true }, 0);
+
+    const bounds = getSegmentsBounds(segments);
+    if (!bounds) {
+      throw new Error('The SVG has no filled shapes to import');
+    }
+
+    // Fit the artboard like a traced canvas; without one, fit the drawing itself
+    const viewport = this.getViewport(root) ?? {
+      x: bounds.minX,
+      y: bounds.minY,
+      width: bounds.maxX - bounds.minX || 1,
+      height: bounds.maxY - bounds.minY || 1
+    };
+    const { scale, offsetX, offsetY } = getCanvasNormalization(viewport.width, viewport.height);
+    const toViewBox: Matrix = [scale, 0, 0, scale, offsetX - viewport.x * scale, offsetY - viewport.y * scale];
+
+    const path = segmentsToPath(transformSegments(segments, toViewBox));
+
+    return {
+      path,
+      editablePathData: SVGPathEditor.createEditablePathData(path),
+      sanitizedSvg: this.createGlyphSvg(path),
+      shapeCount,
+      skipped: Array.from(skipped)
+    };
+  }
+
+  /**
+   * A clean single-path SVG of an outline in the 200x200 viewBox, kept as the
+   * image of glyphs that were never traced
+   */
+  static createGlyphSvg(path: string, fileName = 'glyph.svg'): File {
+    return new File(
+      [`<svg xmlns="http://www.w3.org/2000/svg" width="200" height="200" viewBox="0 0 200 200"><path d="${path}" fill="#000000"/></svg>`],
+      fileName,
+      { type: 'image/svg+xml' }
+    );
+  }
+
+  private static shapeToSegments(element: Element): PathSegment[] {
+    switch (element.localName) {
+      case 'path':
+        return parsePathData(element.getAttribute('d') ?? '');
+      case 'rect':
+        return rectToSegments(
+          this.length(element, 'x'),
+          this.length(element, 'y'),
+          this.length(element, 'width'),
+          this.length(element, 'height'),
+          this.length(element, 'rx'),
+          this.length(element, 'ry')
+        );
+      case 'circle': {
+        const r = this.length(element, 'r');
+        return ellipseToSegments(this.length(element, 'cx'), this.length(element, 'cy'), r, r);
+      }
+      case 'ellipse':
+        return ellipseToSegments(
+          this.length(element, 'cx'),
+          this.length(element, 'cy'),
+          this.length(element, 'rx'),
+          this.length(element, 'ry')
+        );
+      case 'polygon':
+      case 'polyline':
+        return pointsToSegments(element.getAttribute('points') ?? '');
+      default:
+        return [];
+    }
+  }
+
+  private static getViewport(root: Element): Viewport | null {
+    const viewBox = (root.getAttribute('viewBox') ?? '').split(/[\s,]+/).filter(Boolean).map(Number);
+    if (viewBox.length === 4 && viewBox.every(isFinite) && viewBox[2] > 0 && viewBox[3] > 0) {
+      return { x: viewBox[0], y: viewBox[1], width: viewBox[2], height: viewBox[3] };
+    }
+
+    const width = this.length(root, 'width');
+    const height = this.length(root, 'height');
+    return width > 0 && height > 0 ? { x: 0, y: 0, width, height } : null;
+  }
+
+  private static getStyle(element: Element, parent: InheritedStyle): InheritedStyle {
+    const fill = this.getProperty(element, 'fill');
+    const fillRule = this.getProperty(element, 'fill-rule');
+    const visibility = this.getProperty(element, 'visibility');
+    return {
+      fill: fill && fill !== 'inherit' ? fill : parent.fill,
+      fillRule: fillRule === 'evenodd' || fillRule === 'nonzero' ? fillRule : parent.fillRule,
+      visible: visibility ? visibility === 'visible' : parent.visible
+    };
+  }
+
+  /**
+   * Whether a fill colour is white: named, hex or rgb()
+   */
+  private static isWhite(fill: string): boolean {
+    const color = fill.toLowerCase().replace(/\s+/g, '');
+    if (color === 'white') return true;
+
+    let channels: number[] = [];
+    const hex = color.match(/^#([0-9a-f]{3,8})$/);
+    if (hex) {
+      const digits = hex[1].length <= 4 ? hex[1].split('').map(digit => digit + digit) : hex[1].match(/../g) ?? [];
+      channels = digits.slice(0, 3).map(digit => parseInt(digit, 16));
+    }
+    const rgb = color.match(/^rgba?\(([^)]*)\)$/);
+    if (rgb) {
+      channels = rgb[1].split(',').slice(0, 3).map(value =>
+        value.endsWith('%') ? parseFloat(value) * 2.55 : parseFloat(value)
+      );
+    }
+
+    return channels.length === 3 && channels.every(channel => channel >= 250);
+  }
+
+  /**
+   * A presentation property from the inline style, falling back to the attribute
+   */
+  private static getProperty(element: Element, property: string): string | null {
+    const style = element.getAttribute('style') ?? '';
+    const match = style.match(new RegExp(`(?:^|;)\\s*${property}\\s*:\\s*([^;!]+)`, 'i'));
+    return (match?.[1] ?? element.getAttribute(property))?.trim() || null;
+  }
+
+  /**
+   * A numeric attribute in user units; unit suffixes such as px are ignored
+   */
+  private static length(element: Element, attribute: string): number {
+    const value = parseFloat(element.getAttribute(attribute) ?? '');
+    return isFinite(value) ? value : 0;
+  }
+}
@@ -0,0 +1,53 @@
+import { APP_CONFIG } from '../../types';
+import { validateFiles } from '../../utils/fileValidation';
+import { ZipArchiveReader } from './ZipArchiveReader';
+
+export interface RejectedUpload {
+  name: string;
+  reason: string;
+}
+
+export interface CollectedUpload {
+  files: File[];             // Valid images, ready to be matched to characters
+  rejected: RejectedUpload[];
+}
+
+/**
+ * Turns a bulk drop into a flat list of valid images: loose files are checked
+ * against the format, size and per-upload limits, and .zip archives are
+ * unpacked within the archive limits with their images checked for format and
+ * size only
+ */
+export class UploadFileCollector {
+  static async collect(files: File[]): Promise<CollectedUpload> {
+    const archives = files.filter(file => ZipArchiveReader.isZipFile(file));
+    const looseFiles = files.filter(file => !ZipArchiveReader.isZipFile(file));
+
+    const loose = validateFiles(looseFiles, APP_CONFIG.MAX_FILES_PER_UPLOAD);
+    const collected: CollectedUpload = {
+      files: loose.validFiles,
+      rejected: loose.invalidFiles.map(({ file, reason }) => ({ name: file.name, reason }))
+    };
+
+    for (const archive of archives) {
+      try {
+        const contents = await ZipArchiveReader.read(archive);
+        const unpacked = validateFiles(contents.files, Infinity);
+
+        collected.files.push(...unpacked.validFiles);
+        collected.rejected.push(
+          ...contents.skipped.map(({ name, reason }) => ({ name: `${archive.name}/${name}`, reason })),
+          ...unpacked.invalidFiles.map(({ file, reason }) => ({ name: `${archive.name}/${file.name}`, reason }))
+        );
+      } catch (error) {
+        console.error(`❌ Failed to unpack ${archive.name}:`, error);
+        collected.rejected.push({
+          name: archive.name,
+          reason: error instanceof Error ? error.message : 'Could not unpack the archive'
+        });
+      }
+    }
+
+    return collected;
+  }
+}
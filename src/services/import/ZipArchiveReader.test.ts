@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { ZipArchiveReader } from './ZipArchiveReader';
+
+interface TestEntry {
+  name: string;
+  data: Uint8Array;
+  deflate?: boolean;
+  declaredSize?: number; // Overrides the true size, as a malicious archive would
+  crc32?: number;
+}
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// A minimal archive: local headers and data, then the central directory and its end record
+async function createZip(entries: TestEntry[]): Promise<File> {
+  const parts: BlobPart[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = new TextEncoder().encode(entry.name);
+    const payload = entry.deflate ? await deflateRaw(entry.data) : entry.data;
+    const crc = entry.crc32 ?? ZipArchiveReader.crc32(entry.data);
+    const size = entry.declaredSize ?? entry.data.length;
+    const method = entry.deflate ? 8 : 0;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(8, method, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, payload.length, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(10, method, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, payload.length, true);
+    central.setUint32(24, size, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+
+    parts.push(new Uint8Array(local.buffer), name, payload as BlobPart);
+    directory.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + payload.length;
+  }
+
+  const directorySize = directory.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  return new File([...parts, ...directory as BlobPart[], new Uint8Array(end.buffer)], 'glyphs.zip', { type: 'application/zip' });
+}
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+describe('ZipArchiveReader', () => {
+  it('unpacks stored and deflated entries', async () => {
+    const archive = await createZip([
+      { name: 'A.svg', data: text('<svg/>') },
+      { name: 'letters/B.png', data: text('b'.repeat(1000)), deflate: true }
+    ]);
+
+    const { files, skipped } = await ZipArchiveReader.read(archive);
+    expect(skipped).toEqual([]);
+    expect(files.map(file => [file.name, file.type, file.size])).toEqual([
+      ['A.svg', 'image/svg+xml', 6],
+      ['B.png', 'image/png', 1000]
+    ]);
+  });
+
+  it('stops inflating an entry that expands past its declared size', async () => {
+    const archive = await createZip([
+      { name: 'bomb.png', data: new Uint8Array(5 * 1024 * 1024), deflate: true, declaredSize: 100 }
+    ]);
+
+    const { files, skipped } = await ZipArchiveReader.read(archive);
+    expect(files).toEqual([]);
+    expect(skipped).toEqual([{ name: 'bomb.png', reason: 'Damaged: unpacks to more than the declared 100 bytes' }]);
+  });
+
+  it('rejects entries whose size or checksum does not match', async () => {
+    const archive = await createZip([
+      { name: 'short.png', data: text('abc'), deflate: true, declaredSize: 10 },
+      { name: 'corrupt.png', data: text('abc'), crc32: 1234 }
+    ]);
+
+    const { files, skipped } = await ZipArchiveReader.read(archive);
+    expect(files).toEqual([]);
+    expect(skipped.map(entry => entry.reason)).toEqual([
+      'Damaged: unpacked to 3 bytes instead of 10',
+      'Damaged: checksum mismatch'
+    ]);
+  });
+
+  it('skips files that are not images without unpacking them', async () => {
+    const archive = await createZip([
+      { name: 'A.png', data: text('a') },
+      // A bad checksum would fail if this were inflated
+      { name: 'notes.txt', data: text('x'.repeat(1000)), deflate: true, crc32: 1234 }
+    ]);
+
+    const { files, skipped } = await ZipArchiveReader.read(archive);
+    expect(files.map(file => file.name)).toEqual(['A.png']);
+    expect(skipped).toEqual([{ name: 'notes.txt', reason: 'Not a supported image' }]);
+  });
+
+  it('rejects archives over the entry count or total size limit before unpacking', async () => {
+    const archive = await createZip([
+      { name: 'A.png', data: text('a'.repeat(600)), deflate: true },
+      { name: 'B.png', data: text('b'.repeat(600)), deflate: true }
+    ]);
+
+    await expect(ZipArchiveReader.read(archive, { maxEntries: 1 }))
+      .rejects.toThrow('The archive holds 2 files; at most 1 can be unpacked');
+    await expect(ZipArchiveReader.read(archive, { maxTotalSize: 1000 }))
+      .rejects.toThrow('The archive unpacks to more than');
+  });
+});
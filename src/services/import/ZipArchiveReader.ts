@@ -0,0 +1,253 @@
+import { APP_CONFIG } from '../../types';
+import { isSystemFile } from '../../utils/droppedFiles';
+
+export interface ZipArchiveEntry {
+  path: string;
+  method: number;          // 0 = stored, 8 = deflate
+  compressedSize: number;
+  size: number;            // Declared uncompressed size; the unpacked data must match it
+  crc32: number;
+  localHeaderOffset: number;
+  isEncrypted: boolean;
+}
+
+// What one archive may unpack to, checked against its central directory before inflating
+export interface ZipArchiveLimits {
+  maxEntrySize: number;
+  maxEntries: number;   // Entries of any kind in the directory
+  maxTotalSize: number; // Declared sizes of the images to unpack, added up
+}
+
+export interface ZipArchiveContents {
+  files: File[];
+  skipped: { name: string; reason: string }[];  // Entries that were not unpacked
+}
+
+// CRC-32 lookup table (polynomial 0xEDB88320), built on first use
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Unpacks .zip archives in the browser. Reads the central directory and only
+ * the entries it needs through Blob slices, inflating with the native
+ * DecompressionStream, so large archives never sit in memory whole. Inflated
+ * data is checked against the declared size and CRC-32 as it arrives, so an
+ * entry that expands past its size (a zip bomb) is stopped early.
+ */
+export class ZipArchiveReader {
+  private static readonly END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+  private static readonly CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+  private static readonly LOCAL_FILE_HEADER = 0x04034b50;
+  private static readonly MAX_COMMENT_LENGTH = 0xffff;
+
+  private static readonly MIME_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+    svg: 'image/svg+xml'
+  };
+
+  static isZipFile(file: File): boolean {
+    return file.type === 'application/zip'
+      || file.type === 'application/x-zip-compressed'
+      || file.name.toLowerCase().endsWith('.zip');
+  }
+
+  /**
+   * Unpacks the images in the archive. Other files, and entries larger than
+   * the upload size limit, encrypted or using an unsupported compression
+   * method, are skipped without being inflated. Archives with too many entries
+   * or more image data than the limits allow are rejected before anything is
+   * unpacked.
+   */
+  static async read(archive: File, limits: Partial<ZipArchiveLimits> = {}): Promise<ZipArchiveContents> {
+    const {
+      maxEntrySize = APP_CONFIG.MAX_FILE_SIZE,
+      maxEntries = APP_CONFIG.MAX_ARCHIVE_ENTRIES,
+      maxTotalSize = APP_CONFIG.MAX_ARCHIVE_SIZE
+    } = limits;
+    console.log(`🗜️ Unpacking ${archive.name}...`);
+
+    const entries = await this.readCentralDirectory(archive);
+    if (entries.length > maxEntries) {
+      throw new Error(`The archive holds ${entries.length} files; at most ${maxEntries} can be unpacked`);
+    }
+
+    const images: ZipArchiveEntry[] = [];
+    const skipped: ZipArchiveContents['skipped'] = [];
+
+    for (const entry of entries) {
+      if (entry.path.endsWith('/') || isSystemFile(entry.path)) continue;
+
+      if (!this.getMimeType(entry.path)) {
+        skipped.push({ name: entry.path, reason: 'Not a supported image' });
+      } else if (entry.isEncrypted) {
+        skipped.push({ name: entry.path, reason: 'Password-protected' });
+      } else if (entry.method !== 0 && entry.method !== 8) {
+        skipped.push({ name: entry.path, reason: `Unsupported compression method ${entry.method}` });
+      } else if (entry.size > maxEntrySize) {
+        skipped.push({ name: entry.path, reason: `Larger than ${Math.round(maxEntrySize / 1024 / 1024)}MB` });
+      } else {
+        images.push(entry);
+      }
+    }
+
+    // Inflating stops at each entry's declared size, so the declared total bounds the memory used
+    const totalSize = images.reduce((sum, entry) => sum + entry.size, 0);
+    if (totalSize > maxTotalSize) {
+      throw new Error(`The archive unpacks to more than ${Math.round(maxTotalSize / 1024 / 1024)}MB of images`);
+    }
+
+    const files: File[] = [];
+    for (const entry of images) {
+      try {
+        const data = await this.readEntry(archive, entry);
+        const name = entry.path.split('/').pop()!;
+        files.push(new File([data as BlobPart], name, { type: this.getMimeType(name) }));
+      } catch (error) {
+        console.warn(`⚠️ Skipping ${entry.path}:`, error instanceof Error ? error.message : 'Unknown error');
+        skipped.push({ name: entry.path, reason: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    console.log(`✅ Unpacked ${files.length} files from ${archive.name}${skipped.length ? `, skipped ${skipped.length}` : ''}`);
+    return { files, skipped };
+  }
+
+  private static getMimeType(path: string): string | undefined {
+    return this.MIME_TYPES[path.split('.').pop()!.toLowerCase()];
+  }
+
+  static async readCentralDirectory(archive: Blob): Promise<ZipArchiveEntry[]> {
+    // The end record sits in the last 22 bytes plus an optional comment
+    const tailStart = Math.max(0, archive.size - 22 - this.MAX_COMMENT_LENGTH);
+    const tail = new DataView(await archive.slice(tailStart).arrayBuffer());
+
+    let end = -1;
+    for (let i = tail.byteLength - 22; i >= 0; i--) {
+      if (tail.getUint32(i, true) === this.END_OF_CENTRAL_DIRECTORY) {
+        end = i;
+        break;
+      }
+    }
+    if (end < 0) {
+      throw new Error('Not a valid ZIP archive');
+    }
+
+    const entryCount = tail.getUint16(end + 10, true);
+    const directorySize = tail.getUint32(end + 12, true);
+    const directoryOffset = tail.getUint32(end + 16, true);
+    if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+      throw new Error('ZIP64 archives are not supported; please re-save the archive in a standard format');
+    }
+
+    const directory = new DataView(await archive.slice(directoryOffset, directoryOffset + directorySize).arrayBuffer());
+    const entries: ZipArchiveEntry[] = [];
+    let offset = 0;
+
+    for (let i = 0; i < entryCount; i++) {
+      if (offset + 46 > directory.byteLength || directory.getUint32(offset, true) !== this.CENTRAL_DIRECTORY_HEADER) {
+        throw new Error('The ZIP archive is damaged (bad central directory)');
+      }
+
+      const flags = directory.getUint16(offset + 8, true);
+      const nameLength = directory.getUint16(offset + 28, true);
+      const extraLength = directory.getUint16(offset + 30, true);
+      const commentLength = directory.getUint16(offset + 32, true);
+      const nameBytes = new Uint8Array(directory.buffer, directory.byteOffset + offset + 46, nameLength);
+
+      entries.push({
+        path: this.decodeName(nameBytes, (flags & 0x0800) !== 0),
+        method: directory.getUint16(offset + 10, true),
+        crc32: directory.getUint32(offset + 16, true),
+        compressedSize: directory.getUint32(offset + 20, true),
+        size: directory.getUint32(offset + 24, true),
+        localHeaderOffset: directory.getUint32(offset + 42, true),
+        isEncrypted: (flags & 0x0001) !== 0
+      });
+
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+  }
+
+  private static async readEntry(archive: Blob, entry: ZipArchiveEntry): Promise<Uint8Array> {
+    // The local header repeats the name and may carry a different extra field
+    const header = new DataView(await archive.slice(entry.localHeaderOffset, entry.localHeaderOffset + 30).arrayBuffer());
+    if (header.byteLength < 30 || header.getUint32(0, true) !== this.LOCAL_FILE_HEADER) {
+      throw new Error(`The ZIP archive is damaged (bad header for ${entry.path})`);
+    }
+
+    const dataStart = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+    const compressed = archive.slice(dataStart, dataStart + entry.compressedSize);
+
+    const data = entry.method === 0
+      ? new Uint8Array(await compressed.arrayBuffer())
+      : await this.inflate(compressed, entry.size);
+
+    if (data.length !== entry.size) {
+      throw new Error(`Damaged: unpacked to ${data.length} bytes instead of ${entry.size}`);
+    }
+    if (this.crc32(data) !== entry.crc32) {
+      throw new Error('Damaged: checksum mismatch');
+    }
+    return data;
+  }
+
+  /**
+   * Inflates raw deflate data chunk by chunk, giving up as soon as the output
+   * passes the size the archive declared
+   */
+  private static async inflate(compressed: Blob, size: number): Promise<Uint8Array> {
+    const reader = compressed.stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      length += value.length;
+      if (length > size) {
+        await reader.cancel();
+        throw new Error(`Damaged: unpacks to more than the declared ${size} bytes`);
+      }
+      chunks.push(value);
+    }
+
+    const data = new Uint8Array(length);
+    let offset = 0;
+    for (const chunk of chunks) {
+      data.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return data;
+  }
+
+  static crc32(data: Uint8Array): number {
+    if (!crcTable) {
+      crcTable = new Uint32Array(256);
+      for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+          c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        crcTable[n] = c >>> 0;
+      }
+    }
+
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+      crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+
+  /**
+   * Names are UTF-8 when flagged; older tools write CP437, which agrees with
+   * Latin-1 over the ASCII range glyph filenames normally use
+   */
+  private static decodeName(bytes: Uint8Array, isUtf8: boolean): string {
+    return new TextDecoder(isUtf8 ? 'utf-8' : 'latin1').decode(bytes);
+  }
+}
@@ -0,0 +1,32 @@
+// Import Services
+export { FilenameCharacterMatcher } from './FilenameCharacterMatcher';
+export { ZipArchiveReader } from './ZipArchiveReader';
+export { UploadFileCollector } from './UploadFileCollector';
+export { SvgGlyphImporter } from './SvgGlyphImporter';
+export { FontFileImporter } from './FontFileImporter';
+
+// Types
+export type {
+  FilenameMatchRule,
+  FilenameMatch,
+  BulkAssignment,
+  BulkAssignmentPlan
+} from './FilenameCharacterMatcher';
+
+export type {
+  ZipArchiveEntry,
+  ZipArchiveContents
+} from './ZipArchiveReader';
+
+export type {
+  RejectedUpload,
+  CollectedUpload
+} from './UploadFileCollector';
+
+export type {
+  SvgGlyphImportResult
+} from './SvgGlyphImporter';
+
+export type {
+  FontFileImportResult
+} from './FontFileImporter';
@@ -1,5 +1,9 @@
-import { indexedDBManager } from './IndexedDBManager';
-import { VectorizationParams, EditablePathData } from '../../types';
+import { indexedDBManager, ProjectRecord } from './IndexedDBManager';
+import { VectorizationParams, EditablePathData, GlyphVerticalFrame, GlyphMetrics, KerningData, FontSettings, ProfileScore } from '../../types';
+
+// The editor keeps one project in the database at a time; its project-wide
+// data is stored under this id until projects can be switched
+export const WORKSPACE_PROJECT_ID = 'workspace';
 
 export interface CharacterData {
   unicode: string;
@@ -23,9 +27,14 @@ export interface CharacterData {
       pathComplexity: number;
       fileSize: number;
       vectorizationTime: number;
+      maxDeviation?: number; // Font units the fitted curves stray from the traced edge
     };
+    profileScores?: ProfileScore[]; // How each profile a profile search tried matched the image, best first
   };
   vectorData?: string; // Simple SVG path string for direct vectorization
+  methodId?: string; // Vectorization method that traced vectorData
+  verticalFrame?: GlyphVerticalFrame; // Baseline/x-height/cap-height lines in vectorData coordinates
+  glyphMetrics?: GlyphMetrics; // User-set sidebearings; defaults apply when missing
   status: 'empty' | 'uploaded' | 'processing' | 'vectorized' | 'complete' | 'error';
   errorMessage?: string;
 }
@@ -35,6 +44,7 @@ export interface FontProject {
   name: string;
   characterSet: string; // "basic-latin" | "extended-latin" | "custom"
   characters: Map<string, CharacterData>; // Unicode -> CharacterData
+  kerning?: KerningData;
   metadata: {
     designer?: string;
     description?: string;
@@ -67,12 +77,16 @@ export class CharacterDataStorage {
     await indexedDBManager.storeCharacter({
       unicode: data.unicode,
       character: data.character,
-      svgPath: data.vectorizedGlyph?.svgPath || data.vectorData,
+      svgPath: data.vectorData || data.vectorizedGlyph?.svgPath,
       editablePathData: data.vectorizedGlyph?.editablePathData,
       status: data.status,
       lastModified: new Date(),
       vectorizationParams: data.vectorizedGlyph?.vectorizationParams,
-      metrics: data.vectorizedGlyph?.metrics
+      metrics: data.vectorizedGlyph?.metrics,
+      profileScores: data.vectorizedGlyph?.profileScores,
+      methodId: data.methodId,
+      verticalFrame: data.verticalFrame,
+      glyphMetrics: data.glyphMetrics
     });
 
     // Store original image separately if it exists
@@ -102,6 +116,18 @@ export class CharacterDataStorage {
       status: characterRecord.status
     };
 
+    if (characterRecord.methodId) {
+      characterData.methodId = characterRecord.methodId;
+    }
+
+    if (characterRecord.verticalFrame) {
+      characterData.verticalFrame = characterRecord.verticalFrame;
+    }
+
+    if (characterRecord.glyphMetrics) {
+      characterData.glyphMetrics = characterRecord.glyphMetrics;
+    }
+
     // Add original image if it exists
     if (imageRecord) {
       characterData.originalImage = {
@@ -122,7 +148,8 @@ export class CharacterDataStorage {
           pathComplexity: 0,
           fileSize: 0,
           vectorizationTime: 0
-        }
+        },
+        profileScores: characterRecord.profileScores
       };
       // Also set vectorData for backward compatibility with CharacterTile component
       characterData.vectorData = characterRecord.svgPath;
@@ -204,6 +231,7 @@ export class CharacterDataStorage {
       name: project.name,
       characterSet: project.characterSet,
       characterCount: project.characters.size,
+      kerning: project.kerning,
       metadata: project.metadata,
       lastModified: project.lastModified,
       created: project.created
@@ -236,12 +264,65 @@ export class CharacterDataStorage {
       name: projectRecord.name,
       characterSet: projectRecord.characterSet,
       characters: projectCharacters,
+      kerning: projectRecord.kerning,
       metadata: projectRecord.metadata,
       lastModified: projectRecord.lastModified,
       created: projectRecord.created
     };
   }
 
+  /**
+   * Saves a project's kerning without rewriting its characters
+   */
+  async storeKerning(projectId: string, kerning: KerningData): Promise<void> {
+    await this.updateProjectRecord(projectId, { kerning });
+  }
+
+  async getKerning(projectId: string): Promise<KerningData | undefined> {
+    await this.ensureInitialized();
+    return (await indexedDBManager.getProject(projectId))?.kerning;
+  }
+
+  /**
+   * Saves a project's font settings (units per em, vertical metrics, names)
+   * without rewriting its characters
+   */
+  async storeFontSettings(projectId: string, fontSettings: FontSettings): Promise<void> {
+    await this.updateProjectRecord(projectId, { fontSettings });
+  }
+
+  async getFontSettings(projectId: string): Promise<FontSettings | undefined> {
+    await this.ensureInitialized();
+    return (await indexedDBManager.getProject(projectId))?.fontSettings;
+  }
+
+  /**
+   * Changes fields of a project record, creating the record when it does not
+   * exist yet
+   */
+  private async updateProjectRecord(
+    projectId: string,
+    changes: Partial<Pick<ProjectRecord, 'kerning' | 'fontSettings'>>
+  ): Promise<void> {
+    await this.ensureInitialized();
+
+    await indexedDBManager.updateProject(projectId, existing => {
+      const now = new Date();
+      return {
+        id: projectId,
+        name: existing?.name ?? projectId,
+        characterSet: existing?.characterSet ?? 'custom',
+        characterCount: existing?.characterCount ?? 0,
+        metadata: existing?.metadata ?? {},
+        created: existing?.created ?? now,
+        kerning: existing?.kerning,
+        fontSettings: existing?.fontSettings,
+        ...changes,
+        lastModified: now
+      };
+    });
+  }
+
   async getAllProjects(): Promise<FontProject[]> {
     await this.ensureInitialized();
 
@@ -1,4 +1,5 @@
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { FontSettings, GlyphVerticalFrame, GlyphMetrics, KerningData, ProfileScore, VectorizationPreset } from '../../types';
 
 // Database schema interface
 interface GlyphPotluckDB extends DBSchema {
@@ -13,6 +14,10 @@ interface GlyphPotluckDB extends DBSchema {
       lastModified: Date;
       vectorizationParams?: any;
       metrics?: any;
+      profileScores?: ProfileScore[];
+      methodId?: string;
+      verticalFrame?: GlyphVerticalFrame;
+      glyphMetrics?: GlyphMetrics;
     };
     indexes: {
       'by-character': string;
@@ -41,6 +46,8 @@ interface GlyphPotluckDB extends DBSchema {
       name: string;
       characterSet: string;
       characterCount: number;
+      kerning?: KerningData;
+      fontSettings?: FontSettings;
       metadata: {
         designer?: string;
         description?: string;
@@ -55,11 +62,20 @@ interface GlyphPotluckDB extends DBSchema {
       'by-lastModified': Date;
     };
   };
+  presets: {
+    key: string; // Preset ID
+    value: VectorizationPreset;
+    indexes: {
+      'by-project': string;
+    };
+  };
 }
 
+export type ProjectRecord = GlyphPotluckDB['projects']['value'];
+
 export class IndexedDBManager {
   private dbName = 'GlyphPotluckDB';
-  private version = 1;
+  private version = 2;
   private db: IDBPDatabase<GlyphPotluckDB> | null = null;
 
   async initialize(): Promise<void> {
@@ -96,6 +112,15 @@ export class IndexedDBManager {
             projectStore.createIndex('by-lastModified', 'lastModified');
             console.log('✅ Created projects object store');
           }
+
+          // Vectorization presets store (added in version 2)
+          if (!db.objectStoreNames.contains('presets')) {
+            const presetStore = db.createObjectStore('presets', {
+              keyPath: 'id'
+            });
+            presetStore.createIndex('by-project', 'projectId');
+            console.log('✅ Created presets object store');
+          }
         },
       });
 
@@ -172,6 +197,18 @@ export class IndexedDBManager {
     console.log(`💾 Stored project: ${projectData.name}`);
   }
 
+  /**
+   * Reads and rewrites a project record in one transaction, so updates to
+   * different fields made at the same time don't overwrite each other
+   */
+  async updateProject(id: string, update: (existing?: ProjectRecord) => ProjectRecord): Promise<void> {
+    const db = this.ensureDB();
+    const tx = db.transaction('projects', 'readwrite');
+    const projectData = update(await tx.store.get(id));
+    await tx.store.put({ ...projectData, lastModified: new Date() });
+    await tx.done;
+  }
+
   async getProject(id: string): Promise<GlyphPotluckDB['projects']['value'] | undefined> {
     const db = this.ensureDB();
     return await db.get('projects', id);
@@ -188,6 +225,27 @@ export class IndexedDBManager {
     console.log(`🗑️ Deleted project ${id}`);
   }
 
+  // Vectorization preset operations
+  async storePreset(preset: VectorizationPreset): Promise<void> {
+    const db = this.ensureDB();
+    await db.put('presets', {
+      ...preset,
+      lastModified: new Date()
+    });
+    console.log(`🎛️ Stored vectorization preset: ${preset.name}`);
+  }
+
+  async getPresetsByProject(projectId: string): Promise<VectorizationPreset[]> {
+    const db = this.ensureDB();
+    return await db.getAllFromIndex('presets', 'by-project', projectId);
+  }
+
+  async deletePreset(id: string): Promise<void> {
+    const db = this.ensureDB();
+    await db.delete('presets', id);
+    console.log(`🗑️ Deleted vectorization preset ${id}`);
+  }
+
   // Utility operations
   async getStorageStats(): Promise<{
     characterCount: number;
@@ -218,6 +276,7 @@ export class IndexedDBManager {
     await db.clear('characters');
     await db.clear('images');
     await db.clear('projects');
+    await db.clear('presets');
     
     console.log('🧹 Cleared all data from IndexedDB');
   }
@@ -0,0 +1,48 @@
+import { indexedDBManager } from './IndexedDBManager';
+import { VectorizationPreset, VectorizationRecipe } from '../../types';
+
+export class VectorizationPresetStorage {
+  private async ensureInitialized(): Promise<void> {
+    if (!indexedDBManager['db']) {
+      await indexedDBManager.initialize();
+    }
+  }
+
+  async getPresets(projectId: string): Promise<VectorizationPreset[]> {
+    await this.ensureInitialized();
+    const presets = await indexedDBManager.getPresetsByProject(projectId);
+    return presets.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Saves a recipe under a name, replacing the project's preset of that name
+   */
+  async savePreset(projectId: string, name: string, recipe: VectorizationRecipe): Promise<VectorizationPreset> {
+    await this.ensureInitialized();
+
+    const existing = (await indexedDBManager.getPresetsByProject(projectId)).find(preset => preset.name === name);
+    const now = new Date();
+    const preset: VectorizationPreset = {
+      id: existing?.id ?? `preset_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`,
+      projectId,
+      name,
+      method: recipe.method,
+      params: recipe.params,
+      methodValues: recipe.methodValues,
+      created: existing?.created ?? now,
+      lastModified: now
+    };
+
+    console.log(`💾 Saving vectorization preset "${name}" for project ${projectId}`);
+    await indexedDBManager.storePreset(preset);
+    return preset;
+  }
+
+  async deletePreset(id: string): Promise<void> {
+    await this.ensureInitialized();
+    await indexedDBManager.deletePreset(id);
+  }
+}
+
+// Singleton instance
+export const vectorizationPresetStorage = new VectorizationPresetStorage();
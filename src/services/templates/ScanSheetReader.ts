@@ -0,0 +1,221 @@
+import { CharacterSet, CharacterDefinition, getAvailableCharacterSets } from '../../data/character-sets';
+import { FontSettings } from '../../types';
+import { TemplateSheetLayout, TemplatePageSize, TemplateCell, TemplateSheet, DecodedPageCode } from './TemplateSheetLayout';
+import { canvasToBlob, createCanvas, fileToCanvas, getCanvasContext, ProcessingCanvas } from '../../utils/imagePreprocessing';
+import {
+  GrayImage,
+  Homography,
+  Point,
+  brightnessPercentile,
+  computeHomography,
+  findRegistrationMarks,
+  otsuThreshold,
+  projectPoint,
+  sampleMean,
+  toGrayImage,
+  warpRegion
+} from '../../utils/scanSheetSegmentation';
+
+export interface ScanSheetCrop {
+  character: CharacterDefinition;
+  file: File;
+}
+
+export interface ScanSheetResult {
+  characterSet: CharacterSet;
+  pageIndex: number;
+  pageCount: number;
+  crops: ScanSheetCrop[];
+  emptyCells: CharacterDefinition[]; // Cells left blank on the sheet
+}
+
+/**
+ * Reads a photo or scan of a filled-in template sheet: finds the corner marks,
+ * undoes rotation and perspective, reads the page code to find the character set
+ * and page, and cuts every drawn cell into its own image.
+ *
+ * The printed guides are faint and can drift a little in a photo, so each crop
+ * has them whitened and crisp rules drawn in at the layout's exact positions. The
+ * vectorization pipeline treats those like ruled paper: it derives the glyph's
+ * frame from them and paints them out before tracing, which keeps every
+ * character at the scale it was drawn.
+ */
+export class ScanSheetReader {
+  static readonly DETECTION_SIZE = 1200;    // Longest side of the copy searched for marks
+  static readonly CROP_RESOLUTION = 12;     // Crop pixels per millimetre
+  static readonly CELL_INSET = 1;           // Millimetres trimmed inside the cell border
+  static readonly MIN_INK_FRACTION = 0.002; // Cells with less ink count as blank
+  static readonly RULE_THICKNESS = 3;       // Pixels
+
+  static async read(
+    file: File,
+    fontSettings: FontSettings,
+    characterSets: CharacterSet[] = getAvailableCharacterSets()
+  ): Promise<ScanSheetResult> {
+    console.log(`📄 Reading scanned sheet ${file.name}...`);
+
+    const canvas = await fileToCanvas(file);
+    const image = toGrayImage(getCanvasContext(canvas).getImageData(0, 0, canvas.width, canvas.height));
+
+    // Search a smaller copy for the marks, then scale them back up
+    const detectionScale = Math.min(1, this.DETECTION_SIZE / Math.max(canvas.width, canvas.height));
+    const detectionImage = detectionScale < 1 ? this.downscale(canvas, detectionScale) : image;
+    const marks = findRegistrationMarks(detectionImage, { threshold: otsuThreshold(detectionImage) })
+      .map(mark => ({ x: mark.x / detectionScale, y: mark.y / detectionScale }));
+
+    // Ink is whatever is closer to the printed marks than to the paper; mostly-white
+    // pages throw Otsu off, so the marks calibrate the threshold instead
+    const markLevel = marks.reduce((sum, mark) => sum + sampleMean(image, mark, 2), 0) / marks.length;
+    const paperLevel = brightnessPercentile(detectionImage, 0.5);
+    const threshold = Math.round((markLevel + paperLevel) / 2);
+
+    const { code, transform } = this.readPageCode(image, marks, threshold);
+    const characterSet = characterSets.find(set => TemplateSheetLayout.getSetCode(set.id) === code.setCode);
+    if (!characterSet) {
+      throw new Error('This sheet belongs to a character set that is not available');
+    }
+
+    const sheet = TemplateSheetLayout.build(characterSet, fontSettings, {
+      pageSize: code.pageSize,
+      columns: code.columns
+    });
+    const page = sheet.pages[code.pageIndex];
+    if (!page) {
+      throw new Error(`Page ${code.pageIndex + 1} does not exist in the ${characterSet.name} template`);
+    }
+
+    const crops: ScanSheetCrop[] = [];
+    const emptyCells: CharacterDefinition[] = [];
+    for (const cell of page.cells) {
+      const crop = await this.cutCell(image, transform, cell, sheet, threshold);
+      if (crop) {
+        crops.push({ character: cell.character, file: crop });
+      } else {
+        emptyCells.push(cell.character);
+      }
+    }
+
+    console.log(`✅ Read page ${page.index + 1}/${sheet.pages.length} of ${characterSet.name}: ${crops.length} drawn, ${emptyCells.length} blank`);
+
+    return {
+      characterSet,
+      pageIndex: page.index,
+      pageCount: sheet.pages.length,
+      crops,
+      emptyCells
+    };
+  }
+
+  /**
+   * Tries every rotation of the found marks and both page sizes until the printed
+   * page code reads back with a valid checksum
+   */
+  private static readPageCode(
+    image: GrayImage,
+    marks: Point[],
+    threshold: number
+  ): { code: DecodedPageCode; transform: Homography } {
+    const pageSizes = Object.keys(TemplateSheetLayout.PAGE_SIZES) as TemplatePageSize[];
+
+    for (let rotation = 0; rotation < 4; rotation++) {
+      const rotated = marks.map((_, i) => marks[(i + rotation) % 4]);
+
+      for (const pageSize of pageSizes) {
+        const transform = computeHomography(TemplateSheetLayout.getRegistrationMarks(pageSize), rotated);
+        const pixelsPerMm = this.getPixelsPerMm(transform);
+        const bitSize = TemplateSheetLayout.CODE_BIT_SIZE;
+
+        let value = 0;
+        for (const position of TemplateSheetLayout.getCodeBitPositions(pageSize)) {
+          const center = projectPoint(transform, { x: position.x + bitSize / 2, y: position.y + bitSize / 2 });
+          const isSet = sampleMean(image, center, bitSize * pixelsPerMm * 0.25) < threshold;
+          value = (value << 1) | (isSet ? 1 : 0);
+        }
+
+        const code = TemplateSheetLayout.decodePageCode(value);
+        if (code && code.pageSize === pageSize) {
+          console.log(`🔎 Read page code ${TemplateSheetLayout.formatPageCode(value)} (rotated ${rotation * 90}°)`);
+          return { code, transform };
+        }
+      }
+    }
+
+    throw new Error('Could not read the page code; make sure the sheet was printed from this app and is fully visible');
+  }
+
+  /**
+   * Straightens one cell's drawing area, removes the printed guides and rules
+   * clean ones in; returns null for blank cells
+   */
+  private static async cutCell(
+    image: GrayImage,
+    transform: Homography,
+    cell: TemplateCell,
+    sheet: TemplateSheet,
+    threshold: number
+  ): Promise<File | null> {
+    const inset = this.CELL_INSET;
+    const top = sheet.labelHeight + inset;
+    const crop = warpRegion(image, transform, {
+      x: cell.x + inset,
+      y: cell.y + top,
+      width: cell.width - inset * 2,
+      height: cell.height - top - inset
+    }, this.CROP_RESOLUTION);
+
+    // The printed guides are much lighter than pen or pencil, so whitening
+    // everything above the ink threshold removes them along with paper texture
+    let ink = 0;
+    for (let i = 0; i < crop.data.length; i++) {
+      if (crop.data[i] >= threshold) {
+        crop.data[i] = 255;
+      } else {
+        ink++;
+      }
+    }
+    if (ink / crop.data.length < this.MIN_INK_FRACTION) {
+      return null;
+    }
+
+    const canvas = this.toCanvas(crop);
+    const ctx = getCanvasContext(canvas);
+    ctx.fillStyle = '#000000';
+    for (const guideY of [sheet.guides.capHeight, sheet.guides.xHeight, sheet.guides.baseline]) {
+      const y = Math.round((guideY - top) * this.CROP_RESOLUTION - this.RULE_THICKNESS / 2);
+      ctx.fillRect(0, y, crop.width, this.RULE_THICKNESS);
+    }
+
+    const blob = await canvasToBlob(canvas);
+    const codePoint = cell.character.unicode.replace('U+', '');
+    return new File([blob], `U+${codePoint}.png`, { type: 'image/png' });
+  }
+
+  private static getPixelsPerMm(transform: Homography): number {
+    const a = projectPoint(transform, { x: 0, y: 0 });
+    const b = projectPoint(transform, { x: 10, y: 0 });
+    return Math.hypot(b.x - a.x, b.y - a.y) / 10;
+  }
+
+  private static downscale(canvas: ProcessingCanvas, scale: number): GrayImage {
+    const width = Math.max(1, Math.round(canvas.width * scale));
+    const height = Math.max(1, Math.round(canvas.height * scale));
+    const small = createCanvas(width, height);
+    const ctx = getCanvasContext(small);
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(canvas, 0, 0, width, height);
+    return toGrayImage(ctx.getImageData(0, 0, width, height));
+  }
+
+  private static toCanvas(image: GrayImage): ProcessingCanvas {
+    const canvas = createCanvas(image.width, image.height);
+    const ctx = getCanvasContext(canvas);
+    const imageData = ctx.createImageData(image.width, image.height);
+    for (let i = 0; i < image.data.length; i++) {
+      imageData.data[i * 4] = imageData.data[i * 4 + 1] = imageData.data[i * 4 + 2] = image.data[i];
+      imageData.data[i * 4 + 3] = 255;
+    }
+    ctx.putImageData(imageData, 0, 0);
+    return canvas;
+  }
+}
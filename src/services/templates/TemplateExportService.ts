@@ -0,0 +1,74 @@
+import { CharacterSet } from '../../data/character-sets';
+import { FontSettings } from '../../types';
+import { TemplateSheetLayout, TemplateSheetOptions } from './TemplateSheetLayout';
+import { TemplateSheetRenderer } from './TemplateSheetRenderer';
+
+export type TemplateFormat = 'pdf' | 'svg';
+
+export interface TemplateExportOptions extends TemplateSheetOptions {
+  format: TemplateFormat;
+}
+
+export interface TemplateExportResult {
+  success: boolean;
+  filenames?: string[];
+  pageCount?: number;
+  error?: string;
+}
+
+export class TemplateExportService {
+  /**
+   * Builds the template sheets for a character set and downloads them: one PDF
+   * with every page, or one SVG file per page
+   */
+  static exportTemplate(
+    characterSet: CharacterSet,
+    fontSettings: FontSettings,
+    options: TemplateExportOptions
+  ): TemplateExportResult {
+    try {
+      const sheet = TemplateSheetLayout.build(characterSet, fontSettings, options);
+      const baseName = `${characterSet.id}-template-${sheet.pageSize}`;
+      const filenames: string[] = [];
+
+      if (options.format === 'pdf') {
+        const filename = `${baseName}.pdf`;
+        this.download(new Blob([TemplateSheetRenderer.toPdf(sheet)], { type: 'application/pdf' }), filename);
+        filenames.push(filename);
+      } else {
+        for (const page of sheet.pages) {
+          const filename = `${baseName}-page-${page.index + 1}.svg`;
+          this.download(new Blob([TemplateSheetRenderer.toSvg(sheet, page.index)], { type: 'image/svg+xml' }), filename);
+          filenames.push(filename);
+        }
+      }
+
+      console.log(`✅ Exported ${characterSet.name} template:`, filenames);
+      return { success: true, filenames, pageCount: sheet.pages.length };
+
+    } catch (error) {
+      console.error('❌ Template export failed:', error);
+      return {
+        success: false,
+        error: `Template export failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  /**
+   * Triggers the browser download
+   */
+  private static download(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    // Give the browser a moment to start the download before releasing the blob
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+}
@@ -0,0 +1,360 @@
+import { CharacterSet, CharacterDefinition } from '../../data/character-sets';
+import { FontSettings } from '../../types';
+import { FontMetricsCalculator } from '../font-generation/FontMetricsCalculator';
+
+export type TemplatePageSize = 'a4' | 'letter';
+
+export interface TemplateSheetOptions {
+  pageSize?: TemplatePageSize;
+  columns?: number;        // Cells per row, 3-18
+  includeSpace?: boolean;  // The space character has nothing to draw, so it's skipped by default
+}
+
+// Positions in a cell are millimetres from its top-left corner
+export interface TemplateCellGuides {
+  capHeight: number;
+  xHeight: number;
+  baseline: number;
+  unitsPerMm: number;      // Font units per millimetre in the drawing area
+}
+
+export interface TemplateCell {
+  character: CharacterDefinition;
+  x: number;               // Page millimetres
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TemplatePage {
+  index: number;
+  code: number;            // 24-bit page code printed on the sheet
+  cells: TemplateCell[];
+}
+
+export interface TemplateSheet {
+  characterSet: CharacterSet;
+  pageSize: TemplatePageSize;
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  labelHeight: number;     // Strip at the top of each cell with the character's name
+  guides: TemplateCellGuides;
+  pages: TemplatePage[];
+}
+
+export interface DecodedPageCode {
+  setCode: number;
+  pageIndex: number;
+  pageSize: TemplatePageSize;
+  columns: number;
+}
+
+export type TemplatePrimitive =
+  | { type: 'line'; x1: number; y1: number; x2: number; y2: number; stroke: string; width: number; dash?: number[] }
+  | { type: 'rect'; x: number; y: number; width: number; height: number; fill?: string; stroke?: string; strokeWidth?: number }
+  | { type: 'text'; x: number; y: number; text: string; size: number; fill: string };
+
+/**
+ * Lays out printable drawing sheets for a character set: one cell per character with
+ * cap-height, x-height and baseline guides from the font settings, solid square
+ * registration marks in the page corners and a bit strip encoding the page code.
+ * All measurements are millimetres with the origin at the page's top-left corner.
+ */
+export class TemplateSheetLayout {
+  static readonly PAGE_SIZES: Record<TemplatePageSize, { width: number; height: number }> = {
+    a4: { width: 210, height: 297 },
+    letter: { width: 215.9, height: 279.4 }
+  };
+
+  static readonly MARGIN = 12;
+  static readonly REGISTRATION_MARK_SIZE = 6;
+  static readonly HEADER_GAP = 4;          // Space between the marks' row and the grid
+  static readonly CODE_BITS = 24;
+  static readonly CODE_BIT_SIZE = 3;       // Each bit is a square cell in the strip
+  static readonly CELL_ASPECT = 1.25;      // Cell height relative to its width
+  static readonly LABEL_HEIGHT = 5;
+
+  static readonly GUIDE_COLOR = '#9ec5fe';
+  static readonly BASELINE_COLOR = '#6ea8fe';
+  static readonly CELL_BORDER_COLOR = '#adb5bd';
+  static readonly LABEL_COLOR = '#6c757d';
+  static readonly MARK_COLOR = '#000000';
+
+  /**
+   * Lays out every page for a character set
+   */
+  static build(characterSet: CharacterSet, fontSettings: FontSettings, options: TemplateSheetOptions = {}): TemplateSheet {
+    const pageSize = options.pageSize ?? 'a4';
+    const columns = Math.min(18, Math.max(3, Math.round(options.columns ?? 6)));
+    const { width: pageWidth, height: pageHeight } = this.PAGE_SIZES[pageSize];
+    const grid = this.getGridArea(pageSize);
+
+    const cellWidth = grid.width / columns;
+    const cellHeight = cellWidth * this.CELL_ASPECT;
+    const rows = Math.max(1, Math.floor(grid.height / cellHeight));
+    const perPage = rows * columns;
+
+    const characters = characterSet.characters.filter(character =>
+      options.includeSpace || character.category !== 'space'
+    );
+    const pageCount = Math.max(1, Math.ceil(characters.length / perPage));
+    const setCode = this.getSetCode(characterSet.id);
+
+    const pages: TemplatePage[] = [];
+    for (let index = 0; index < pageCount; index++) {
+      const cells = characters.slice(index * perPage, (index + 1) * perPage).map((character, i) => ({
+        character,
+        x: grid.x + (i % columns) * cellWidth,
+        y: grid.y + Math.floor(i / columns) * cellHeight,
+        width: cellWidth,
+        height: cellHeight
+      }));
+      pages.push({ index, code: this.encodePageCode({ setCode, pageIndex: index, pageSize, columns }), cells });
+    }
+
+    console.log(`🖨️ Laid out ${characters.length} characters on ${pageCount} ${pageSize.toUpperCase()} page(s) for ${characterSet.name}`);
+
+    return {
+      characterSet,
+      pageSize,
+      pageWidth,
+      pageHeight,
+      columns,
+      rows,
+      labelHeight: this.LABEL_HEIGHT,
+      guides: this.getCellGuides(fontSettings, cellHeight),
+      pages
+    };
+  }
+
+  /**
+   * Area the cells fill, between the rows of registration marks
+   */
+  static getGridArea(pageSize: TemplatePageSize): { x: number; y: number; width: number; height: number } {
+    const { width, height } = this.PAGE_SIZES[pageSize];
+    const inset = this.MARGIN + this.REGISTRATION_MARK_SIZE + this.HEADER_GAP;
+    return {
+      x: this.MARGIN,
+      y: inset,
+      width: width - this.MARGIN * 2,
+      height: height - inset * 2
+    };
+  }
+
+  /**
+   * Centres of the four registration marks: top-left, top-right, bottom-right, bottom-left
+   */
+  static getRegistrationMarks(pageSize: TemplatePageSize): Array<{ x: number; y: number }> {
+    const { width, height } = this.PAGE_SIZES[pageSize];
+    const near = this.MARGIN + this.REGISTRATION_MARK_SIZE / 2;
+    return [
+      { x: near, y: near },
+      { x: width - near, y: near },
+      { x: width - near, y: height - near },
+      { x: near, y: height - near }
+    ];
+  }
+
+  /**
+   * Top-left corner of each code bit, most significant bit first, ending just inside the top-right mark
+   */
+  static getCodeBitPositions(pageSize: TemplatePageSize): Array<{ x: number; y: number }> {
+    const { width } = this.PAGE_SIZES[pageSize];
+    const stripEnd = width - this.MARGIN - this.REGISTRATION_MARK_SIZE - this.HEADER_GAP;
+    const y = this.MARGIN + (this.REGISTRATION_MARK_SIZE - this.CODE_BIT_SIZE) / 2;
+    return Array.from({ length: this.CODE_BITS }, (_, i) => ({
+      x: stripEnd - (this.CODE_BITS - i) * this.CODE_BIT_SIZE,
+      y
+    }));
+  }
+
+  /**
+   * Maps the font's vertical metrics into a cell: the cap height sits below the
+   * label with room for ascenders, and descenders fit above the cell's bottom edge
+   */
+  static getCellGuides(fontSettings: FontSettings, cellHeight: number): TemplateCellGuides {
+    const ascender = FontMetricsCalculator.getSettingOrDefault(fontSettings, 'ascender');
+    const descender = -Math.abs(FontMetricsCalculator.getSettingOrDefault(fontSettings, 'descender'));
+    const capHeight = FontMetricsCalculator.getSettingOrDefault(fontSettings, 'capHeight');
+    const xHeight = FontMetricsCalculator.getSettingOrDefault(fontSettings, 'xHeight');
+
+    // Pad the ascender-to-descender range by a tenth on each side
+    const top = Math.max(ascender, capHeight);
+    const range = top - descender;
+    const padding = range * 0.1;
+    const unitsPerMm = (range + padding * 2) / (cellHeight - this.LABEL_HEIGHT);
+    const toY = (units: number) => this.LABEL_HEIGHT + (top + padding - units) / unitsPerMm;
+
+    return {
+      capHeight: toY(capHeight),
+      xHeight: toY(xHeight),
+      baseline: toY(0),
+      unitsPerMm
+    };
+  }
+
+  /**
+   * Short stable code for a character set id (FNV-1a folded to 8 bits)
+   */
+  static getSetCode(setId: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < setId.length; i++) {
+      hash ^= setId.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return (hash ^ (hash >>> 8) ^ (hash >>> 16) ^ (hash >>> 24)) & 0xff;
+  }
+
+  /**
+   * Packs the page identity into 24 bits: set (8), page index (6), page size (1),
+   * columns - 3 (4) and a 5-bit checksum
+   */
+  static encodePageCode(page: DecodedPageCode): number {
+    const payload = (page.setCode & 0xff)
+      | ((page.pageIndex & 0x3f) << 8)
+      | ((page.pageSize === 'letter' ? 1 : 0) << 14)
+      | (((page.columns - 3) & 0x0f) << 15);
+    return payload | (this.checksum(payload) << 19);
+  }
+
+  /**
+   * Unpacks a page code, or returns null when its checksum doesn't match.
+   * Codes with the unsalted checksum are still accepted, except for the
+   * all-zero code a blank strip reads as
+   */
+  static decodePageCode(code: number): DecodedPageCode | null {
+    const payload = code & 0x7ffff;
+    const checksum = code >>> 19;
+    if (checksum !== this.checksum(payload) && (code === 0 || checksum !== this.legacyChecksum(payload))) return null;
+    return {
+      setCode: payload & 0xff,
+      pageIndex: (payload >>> 8) & 0x3f,
+      pageSize: (payload >>> 14) & 1 ? 'letter' : 'a4',
+      columns: ((payload >>> 15) & 0x0f) + 3
+    };
+  }
+
+  // Salted so that blank and solid strips never read back as valid codes
+  private static checksum(payload: number): number {
+    return (payload % 31) ^ 0x15;
+  }
+
+  // Sheets printed before the checksum was salted carry this one
+  private static legacyChecksum(payload: number): number {
+    return payload % 31;
+  }
+
+  /**
+   * Human-readable form of a page code
+   */
+  static formatPageCode(code: number): string {
+    return `GP-${code.toString(16).toUpperCase().padStart(6, '0')}`;
+  }
+
+  /**
+   * Everything printed on one page, in drawing order
+   */
+  static drawPage(sheet: TemplateSheet, pageIndex: number): TemplatePrimitive[] {
+    const page = sheet.pages[pageIndex];
+    if (!page) {
+      throw new Error(`Template page ${pageIndex + 1} does not exist`);
+    }
+
+    const primitives: TemplatePrimitive[] = [];
+    const markSize = this.REGISTRATION_MARK_SIZE;
+
+    // Registration marks
+    for (const mark of this.getRegistrationMarks(sheet.pageSize)) {
+      primitives.push({
+        type: 'rect',
+        x: mark.x - markSize / 2,
+        y: mark.y - markSize / 2,
+        width: markSize,
+        height: markSize,
+        fill: this.MARK_COLOR
+      });
+    }
+
+    // Page code bits
+    this.getCodeBitPositions(sheet.pageSize).forEach((position, i) => {
+      if ((page.code >>> (this.CODE_BITS - 1 - i)) & 1) {
+        primitives.push({
+          type: 'rect',
+          x: position.x,
+          y: position.y,
+          width: this.CODE_BIT_SIZE,
+          height: this.CODE_BIT_SIZE,
+          fill: this.MARK_COLOR
+        });
+      }
+    });
+
+    // Header text between the top marks
+    primitives.push({
+      type: 'text',
+      x: this.MARGIN + markSize + this.HEADER_GAP,
+      y: this.MARGIN + markSize / 2 + 1.2,
+      text: `${sheet.characterSet.name} - page ${page.index + 1} of ${sheet.pages.length} - ${this.formatPageCode(page.code)}`,
+      size: 3.5,
+      fill: this.LABEL_COLOR
+    });
+
+    for (const cell of page.cells) {
+      primitives.push(...this.drawCell(cell, sheet));
+    }
+
+    return primitives;
+  }
+
+  private static drawCell(cell: TemplateCell, sheet: TemplateSheet): TemplatePrimitive[] {
+    const { guides } = sheet;
+    const inset = 1.5;
+    const guide = (y: number, stroke: string, dash?: number[]): TemplatePrimitive => ({
+      type: 'line',
+      x1: cell.x + inset,
+      y1: cell.y + y,
+      x2: cell.x + cell.width - inset,
+      y2: cell.y + y,
+      stroke,
+      width: 0.2,
+      dash
+    });
+
+    const { character } = cell;
+    const label = character.category === 'mark' ? `◌${character.char}` : character.char;
+
+    return [
+      {
+        type: 'rect',
+        x: cell.x,
+        y: cell.y,
+        width: cell.width,
+        height: cell.height,
+        stroke: this.CELL_BORDER_COLOR,
+        strokeWidth: 0.2
+      },
+      {
+        type: 'line',
+        x1: cell.x,
+        y1: cell.y + sheet.labelHeight,
+        x2: cell.x + cell.width,
+        y2: cell.y + sheet.labelHeight,
+        stroke: this.CELL_BORDER_COLOR,
+        width: 0.1
+      },
+      {
+        type: 'text',
+        x: cell.x + 1.5,
+        y: cell.y + sheet.labelHeight - 1.4,
+        text: `${label}  ${character.unicode}`,
+        size: 2.8,
+        fill: this.LABEL_COLOR
+      },
+      guide(guides.capHeight, this.GUIDE_COLOR, [1, 1]),
+      guide(guides.xHeight, this.GUIDE_COLOR, [1, 1]),
+      guide(guides.baseline, this.BASELINE_COLOR)
+    ];
+  }
+}
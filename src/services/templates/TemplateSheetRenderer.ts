@@ -0,0 +1,151 @@
+import { TemplateSheet, TemplateSheetLayout, TemplatePrimitive } from './TemplateSheetLayout';
+
+const POINTS_PER_MM = 72 / 25.4;
+
+/**
+ * Serializes laid-out template sheets as SVG pages or a multi-page PDF
+ */
+export class TemplateSheetRenderer {
+  /**
+   * One page as a standalone SVG sized in millimetres
+   */
+  static toSvg(sheet: TemplateSheet, pageIndex: number): string {
+    const primitives = TemplateSheetLayout.drawPage(sheet, pageIndex);
+    const { pageWidth, pageHeight } = sheet;
+
+    const body = primitives.map(primitive => {
+      switch (primitive.type) {
+        case 'line':
+          return `<line x1="${this.num(primitive.x1)}" y1="${this.num(primitive.y1)}" x2="${this.num(primitive.x2)}" y2="${this.num(primitive.y2)}" stroke="${primitive.stroke}" stroke-width="${primitive.width}"${primitive.dash ? ` stroke-dasharray="${primitive.dash.join(' ')}"` : ''}/>`;
+        case 'rect':
+          return `<rect x="${this.num(primitive.x)}" y="${this.num(primitive.y)}" width="${this.num(primitive.width)}" height="${this.num(primitive.height)}" fill="${primitive.fill ?? 'none'}"${primitive.stroke ? ` stroke="${primitive.stroke}" stroke-width="${primitive.strokeWidth ?? 0.2}"` : ''}/>`;
+        case 'text':
+          return `<text x="${this.num(primitive.x)}" y="${this.num(primitive.y)}" font-family="Helvetica, Arial, sans-serif" font-size="${primitive.size}" fill="${primitive.fill}">${this.escapeXml(primitive.text)}</text>`;
+      }
+    });
+
+    return [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${pageWidth}mm" height="${pageHeight}mm" viewBox="0 0 ${pageWidth} ${pageHeight}">`,
+      `<rect width="${pageWidth}" height="${pageHeight}" fill="#ffffff"/>`,
+      ...body,
+      `</svg>`
+    ].join('\n');
+  }
+
+  /**
+   * Every page in a single PDF, drawn with the built-in Helvetica font
+   */
+  static toPdf(sheet: TemplateSheet): ArrayBuffer {
+    const widthPt = this.num(sheet.pageWidth * POINTS_PER_MM);
+    const heightPt = this.num(sheet.pageHeight * POINTS_PER_MM);
+
+    // Objects 1-3 are the catalog, page tree and font; each page adds a page and a content stream
+    const objects: string[] = [];
+    const pageIds = sheet.pages.map((_, i) => 4 + i * 2);
+
+    objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+    objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+
+    sheet.pages.forEach((page, i) => {
+      const content = this.toPdfContent(TemplateSheetLayout.drawPage(sheet, page.index), sheet.pageHeight);
+      objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${widthPt} ${heightPt}] /Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`);
+      objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    });
+
+    // Everything is ASCII, so string offsets are byte offsets
+    let pdf = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((object, i) => {
+      offsets.push(pdf.length);
+      pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    });
+
+    const xrefOffset = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(pdf.length);
+    for (let i = 0; i < pdf.length; i++) {
+      bytes[i] = pdf.charCodeAt(i);
+    }
+    return bytes.buffer;
+  }
+
+  /**
+   * Page content stream; PDF's origin is the bottom-left corner, in points
+   */
+  private static toPdfContent(primitives: TemplatePrimitive[], pageHeight: number): string {
+    const x = (mm: number) => this.num(mm * POINTS_PER_MM);
+    const y = (mm: number) => this.num((pageHeight - mm) * POINTS_PER_MM);
+    const ops: string[] = [];
+
+    for (const primitive of primitives) {
+      switch (primitive.type) {
+        case 'line':
+          ops.push(
+            `${this.num(primitive.width * POINTS_PER_MM)} w ${this.pdfColor(primitive.stroke)} RG`,
+            `[${(primitive.dash ?? []).map(d => this.num(d * POINTS_PER_MM)).join(' ')}] 0 d`,
+            `${x(primitive.x1)} ${y(primitive.y1)} m ${x(primitive.x2)} ${y(primitive.y2)} l S`
+          );
+          break;
+        case 'rect': {
+          const rect = `${x(primitive.x)} ${y(primitive.y + primitive.height)} ${x(primitive.width)} ${x(primitive.height)} re`;
+          if (primitive.fill) {
+            ops.push(`${this.pdfColor(primitive.fill)} rg ${rect} f`);
+          }
+          if (primitive.stroke) {
+            ops.push(`[] 0 d ${this.num((primitive.strokeWidth ?? 0.2) * POINTS_PER_MM)} w ${this.pdfColor(primitive.stroke)} RG ${rect} S`);
+          }
+          break;
+        }
+        case 'text':
+          ops.push(`BT /F1 ${this.num(primitive.size * POINTS_PER_MM)} Tf ${this.pdfColor(primitive.fill)} rg ${x(primitive.x)} ${y(primitive.y)} Td (${this.toPdfString(primitive.text)}) Tj ET`);
+          break;
+      }
+    }
+
+    return ops.join('\n');
+  }
+
+  /**
+   * Escapes text for a PDF string in WinAnsi encoding. Latin-1 characters become
+   * octal escapes; anything else (Latin Extended-A, combining marks) is dropped,
+   * since the cell label also shows the code point
+   */
+  private static toPdfString(text: string): string {
+    let result = '';
+    for (const char of text) {
+      const code = char.codePointAt(0)!;
+      if (char === '(' || char === ')' || char === '\\') {
+        result += `\\${char}`;
+      } else if (code >= 0x20 && code < 0x7f) {
+        result += char;
+      } else if (code >= 0xa0 && code <= 0xff) {
+        result += `\\${code.toString(8).padStart(3, '0')}`;
+      }
+    }
+    return result;
+  }
+
+  private static pdfColor(hex: string): string {
+    const value = parseInt(hex.replace('#', ''), 16);
+    return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]
+      .map(channel => this.num(channel / 255))
+      .join(' ');
+  }
+
+  private static escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  private static num(value: number): string {
+    return String(Math.round(value * 1000) / 1000);
+  }
+}
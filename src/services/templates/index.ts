@@ -0,0 +1,28 @@
+// Template Sheet Services
+export { TemplateSheetLayout } from './TemplateSheetLayout';
+export { TemplateSheetRenderer } from './TemplateSheetRenderer';
+export { TemplateExportService } from './TemplateExportService';
+export { ScanSheetReader } from './ScanSheetReader';
+
+// Types
+export type {
+  TemplatePageSize,
+  TemplateSheetOptions,
+  TemplateCellGuides,
+  TemplateCell,
+  TemplatePage,
+  TemplateSheet,
+  DecodedPageCode,
+  TemplatePrimitive
+} from './TemplateSheetLayout';
+
+export type {
+  TemplateFormat,
+  TemplateExportOptions,
+  TemplateExportResult
+} from './TemplateExportService';
+
+export type {
+  ScanSheetCrop,
+  ScanSheetResult
+} from './ScanSheetReader';
@@ -0,0 +1,201 @@
+import { VectorizationProgressCallback } from './VectorizationWorkerPool';
+
+export type VectorizationJobStatus = 'queued' | 'running' | 'failed';
+
+export interface VectorizationQueueJob {
+  id: string;              // Usually the character's Unicode key
+  status: VectorizationJobStatus;
+  progress: number;        // 0-100 while running
+  message?: string;
+  attempts: number;        // Runs so far, including the current one
+  error?: string;          // Last failure
+  position?: number;       // 1-based place in line while queued
+}
+
+// Does the work for one job; it must stop and reject when the signal aborts
+export type VectorizationTask = (signal: AbortSignal, onProgress: VectorizationProgressCallback) => Promise<void>;
+
+export interface VectorizationQueueOptions {
+  concurrency: number;   // Jobs running at once
+  maxAttempts?: number;  // Failed jobs are retried until they have run this often
+}
+
+export interface EnqueueOptions {
+  priority?: boolean;    // Put the job at the front of the line
+  signal?: AbortSignal;  // Cancels the job from outside
+}
+
+interface QueueEntry {
+  id: string;
+  task: VectorizationTask;
+  controller: AbortController;
+  attempts: number;
+}
+
+type QueueListener = (jobs: Map<string, VectorizationQueueJob>) => void;
+
+/**
+ * Runs vectorization jobs a few at a time, in order, with cancellation, automatic
+ * retries and the ability to move a job to the front. Finished jobs leave the
+ * queue; jobs that ran out of attempts stay as failed until retried or dismissed.
+ */
+export class VectorizationQueue {
+  private pending: QueueEntry[] = [];
+  private running = new Map<string, QueueEntry>();
+  private jobs = new Map<string, VectorizationQueueJob>();
+  private listeners = new Set<QueueListener>();
+  private readonly concurrency: number;
+  private readonly maxAttempts: number;
+
+  constructor(options: VectorizationQueueOptions) {
+    this.concurrency = Math.max(1, options.concurrency);
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? 2);
+  }
+
+  /**
+   * Adds a job; a job already queued or running under the same id is cancelled
+   * and replaced
+   */
+  enqueue(id: string, task: VectorizationTask, options: EnqueueOptions = {}): void {
+    this.cancel(id);
+
+    const entry: QueueEntry = { id, task, controller: new AbortController(), attempts: 0 };
+    if (options.signal) {
+      if (options.signal.aborted) return;
+      options.signal.addEventListener('abort', () => {
+        if (this.pending.includes(entry) || this.running.get(id) === entry) this.cancel(id);
+      }, { once: true });
+    }
+
+    if (options.priority) {
+      this.pending.unshift(entry);
+    } else {
+      this.pending.push(entry);
+    }
+    this.jobs.set(id, { id, status: 'queued', progress: 0, attempts: 0 });
+    this.pump();
+  }
+
+  /**
+   * Moves a queued job to the front of the line
+   */
+  prioritize(id: string): void {
+    const index = this.pending.findIndex(entry => entry.id === id);
+    if (index <= 0) return;
+
+    const [entry] = this.pending.splice(index, 1);
+    this.pending.unshift(entry);
+    console.log(`⏫ Moved ${id} to the front of the vectorization queue`);
+    this.notify();
+  }
+
+  /**
+   * Cancels a queued or running job; a failed job is dismissed
+   */
+  cancel(id: string): void {
+    const index = this.pending.findIndex(entry => entry.id === id);
+    if (index >= 0) {
+      this.pending.splice(index, 1);
+    }
+    this.running.get(id)?.controller.abort();
+    this.running.delete(id);
+
+    if (this.jobs.delete(id)) {
+      this.notify();
+      this.pump();
+    }
+  }
+
+  /**
+   * Cancels every queued and running job and dismisses failed ones
+   */
+  cancelAll(): void {
+    for (const entry of this.running.values()) {
+      entry.controller.abort();
+    }
+    this.pending = [];
+    this.running.clear();
+    this.jobs.clear();
+    this.notify();
+  }
+
+  get activeCount(): number {
+    return this.pending.length + this.running.size;
+  }
+
+  /**
+   * Calls the listener with a snapshot of the jobs now and after every change
+   */
+  subscribe(listener: QueueListener): () => void {
+    this.listeners.add(listener);
+    listener(this.snapshot());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private pump(): void {
+    while (this.running.size < this.concurrency && this.pending.length > 0) {
+      this.start(this.pending.shift()!);
+    }
+    this.notify();
+  }
+
+  private async start(entry: QueueEntry): Promise<void> {
+    const { id, controller } = entry;
+    entry.attempts++;
+    this.running.set(id, entry);
+    this.updateJob(id, { status: 'running', progress: 0, attempts: entry.attempts, message: undefined });
+
+    try {
+      await entry.task(controller.signal, (progress, message) => {
+        if (this.running.get(id) === entry) {
+          this.updateJob(id, { progress: Math.round(progress), message });
+        }
+      });
+
+      if (this.running.get(id) === entry) {
+        this.running.delete(id);
+        this.jobs.delete(id);
+      }
+    } catch (error) {
+      // Cancelled jobs were already removed
+      if (controller.signal.aborted || this.running.get(id) !== entry) return;
+      this.running.delete(id);
+
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (entry.attempts < this.maxAttempts) {
+        console.warn(`⚠️ Vectorizing ${id} failed (attempt ${entry.attempts}/${this.maxAttempts}), retrying:`, message);
+        this.pending.push(entry);
+        this.updateJob(id, { status: 'queued', progress: 0, error: message, message: 'Retrying...' });
+      } else {
+        console.error(`❌ Vectorizing ${id} failed after ${entry.attempts} attempt(s):`, message);
+        this.updateJob(id, { status: 'failed', progress: 0, error: message, message: undefined });
+      }
+    }
+
+    this.pump();
+  }
+
+  private updateJob(id: string, changes: Partial<VectorizationQueueJob>): void {
+    const job = this.jobs.get(id);
+    if (!job) return;
+    this.jobs.set(id, { ...job, ...changes });
+    this.notify();
+  }
+
+  private snapshot(): Map<string, VectorizationQueueJob> {
+    const jobs = new Map(this.jobs);
+    this.pending.forEach((entry, index) => {
+      const job = jobs.get(entry.id);
+      if (job) jobs.set(entry.id, { ...job, position: index + 1 });
+    });
+    return jobs;
+  }
+
+  private notify(): void {
+    if (this.listeners.size === 0) return;
+    const jobs = this.snapshot();
+    this.listeners.forEach(listener => listener(jobs));
+  }
+}
@@ -0,0 +1,260 @@
+import {
+  createAbortError,
+  runVectorizationTask,
+  VectorizationJobOptions,
+  VectorizationJobResult,
+  VectorizationTaskType
+} from '../../utils/vectorizationPipeline';
+import { bitmapToCanvas } from '../../utils/imagePreprocessing';
+
+// Messages between the pool and its workers
+export type VectorizationWorkerRequest = {
+  type: VectorizationTaskType;
+  jobId: number;
+  bitmap: ImageBitmap;
+  options: VectorizationJobOptions;
+};
+
+export type VectorizationWorkerResponse =
+  | { type: 'progress'; jobId: number; progress: number; message: string }
+  | { type: 'result'; jobId: number; result: VectorizationJobResult | Blob }
+  | { type: 'error'; jobId: number; error: string };
+
+export type VectorizationProgressCallback = (progress: number, message: string) => void;
+
+interface PoolJob {
+  id: number;
+  type: VectorizationTaskType;
+  bitmap: ImageBitmap;
+  options: VectorizationJobOptions;
+  onProgress?: VectorizationProgressCallback;
+  resolve: (result: VectorizationJobResult | Blob) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void; // Detaches the abort listener
+}
+
+interface PoolWorker {
+  worker: Worker;
+  job: PoolJob | null;
+}
+
+// Leave a core for the UI thread, and don't flood memory with decoded scans
+const MAX_WORKERS = 4;
+
+export class VectorizationWorkerPool {
+  private workers: PoolWorker[] = [];
+  private queue: PoolJob[] = [];
+  private nextJobId = 1;
+
+  /**
+   * How many workers run at once, scaled to the available cores
+   */
+  get size(): number {
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+    return Math.max(1, Math.min(cores - 1, MAX_WORKERS));
+  }
+
+  /**
+   * Whether this browser can trace in workers (module workers with OffscreenCanvas)
+   */
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined'
+      && typeof OffscreenCanvas !== 'undefined'
+      && typeof createImageBitmap !== 'undefined';
+  }
+
+  /**
+   * Vectorizes an image in the next free worker. The decoded ImageBitmap is
+   * transferred to the worker, so a passed-in bitmap can't be used afterwards.
+   * Without worker support the pipeline runs on the main thread instead.
+   * Aborting the signal drops a waiting job, or stops the worker running it;
+   * on the main thread the job stops at the next pipeline step.
+   */
+  async vectorize(
+    image: Blob | ImageBitmap,
+    options: VectorizationJobOptions,
+    onProgress?: VectorizationProgressCallback,
+    signal?: AbortSignal
+  ): Promise<VectorizationJobResult> {
+    const result = await this.run('vectorize', image, options, onProgress, signal);
+    if (result instanceof Blob) {
+      throw new Error('Vectorization worker returned an image instead of a path');
+    }
+    return result;
+  }
+
+  /**
+   * The black and white image a job with these options would trace, as a PNG:
+   * preprocessed and with guide lines painted out like the trace. Runs in the
+   * pool like a trace, so it queues behind the jobs already waiting.
+   */
+  async previewBinarization(
+    image: Blob | ImageBitmap,
+    options: VectorizationJobOptions,
+    signal?: AbortSignal
+  ): Promise<Blob> {
+    const result = await this.run('previewBinarization', image, options, undefined, signal);
+    if (!(result instanceof Blob)) {
+      throw new Error('Vectorization worker returned a path instead of an image');
+    }
+    return result;
+  }
+
+  private async run(
+    type: VectorizationTaskType,
+    image: Blob | ImageBitmap,
+    options: VectorizationJobOptions,
+    onProgress?: VectorizationProgressCallback,
+    signal?: AbortSignal
+  ): Promise<VectorizationJobResult | Blob> {
+    if (signal?.aborted) throw createAbortError();
+    const bitmap = image instanceof Blob ? await createImageBitmap(image) : image;
+
+    if (!VectorizationWorkerPool.isSupported()) {
+      console.warn('⚠️ Web Workers with OffscreenCanvas are not available, vectorizing on the main thread');
+      try {
+        if (signal?.aborted) throw createAbortError();
+        return await runVectorizationTask(type, bitmapToCanvas(bitmap), options, onProgress, signal);
+      } finally {
+        bitmap.close();
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      const job: PoolJob = {
+        id: this.nextJobId++,
+        type,
+        bitmap,
+        options,
+        onProgress,
+        resolve: (result) => { job.cleanup(); resolve(result); },
+        reject: (error) => { job.cleanup(); reject(error); },
+        cleanup: () => signal?.removeEventListener('abort', onAbort)
+      };
+      const onAbort = () => this.abort(job);
+
+      if (signal?.aborted) {
+        bitmap.close();
+        reject(createAbortError());
+        return;
+      }
+      signal?.addEventListener('abort', onAbort);
+
+      this.queue.push(job);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Number of jobs waiting for or running in a worker
+   */
+  get pendingCount(): number {
+    return this.queue.length + this.workers.filter(slot => slot.job).length;
+  }
+
+  /**
+   * Stops every worker and fails the jobs still waiting
+   */
+  terminate(): void {
+    for (const slot of this.workers) {
+      slot.worker.terminate();
+      slot.job?.reject(new Error('Vectorization was stopped'));
+    }
+    for (const job of this.queue) {
+      job.bitmap.close();
+      job.reject(new Error('Vectorization was stopped'));
+    }
+    this.workers = [];
+    this.queue = [];
+  }
+
+  /**
+   * Drops an aborted job, stopping its worker if it already started
+   */
+  private abort(job: PoolJob): void {
+    const slot = this.workers.find(candidate => candidate.job === job);
+    if (slot) {
+      console.log(`🛑 Stopping vectorization job ${job.id}`);
+      this.replaceWorker(slot, createAbortError());
+      return;
+    }
+
+    const index = this.queue.indexOf(job);
+    if (index >= 0) {
+      this.queue.splice(index, 1);
+      job.bitmap.close();
+      job.reject(createAbortError());
+    }
+  }
+
+  /**
+   * Hands queued jobs to idle workers, starting new workers up to the pool size
+   */
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let slot = this.workers.find(candidate => !candidate.job);
+      if (!slot && this.workers.length < this.size) {
+        slot = this.createWorker();
+      }
+      if (!slot) return;
+
+      const job = this.queue.shift()!;
+      slot.job = job;
+      const request: VectorizationWorkerRequest = {
+        type: job.type,
+        jobId: job.id,
+        bitmap: job.bitmap,
+        options: job.options
+      };
+      slot.worker.postMessage(request, [job.bitmap]);
+    }
+  }
+
+  private createWorker(): PoolWorker {
+    const worker = new Worker(new URL('../../workers/vectorization.worker.ts', import.meta.url), { type: 'module' });
+    const slot: PoolWorker = { worker, job: null };
+
+    worker.onmessage = (event: MessageEvent<VectorizationWorkerResponse>) => this.handleMessage(slot, event.data);
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      console.error('❌ Vectorization worker crashed:', event.message);
+      this.replaceWorker(slot, new Error(event.message || 'Vectorization worker crashed'));
+    };
+
+    this.workers.push(slot);
+    console.log(`🧵 Started vectorization worker ${this.workers.length}/${this.size}`);
+    return slot;
+  }
+
+  private handleMessage(slot: PoolWorker, message: VectorizationWorkerResponse): void {
+    const job = slot.job;
+    if (!job || job.id !== message.jobId) return;
+
+    switch (message.type) {
+      case 'progress':
+        job.onProgress?.(message.progress, message.message);
+        return;
+      case 'result':
+        job.resolve(message.result);
+        break;
+      case 'error':
+        job.reject(new Error(message.error));
+        break;
+    }
+
+    slot.job = null;
+    this.dispatch();
+  }
+
+  /**
+   * Fails the worker's job and swaps in a fresh worker
+   */
+  private replaceWorker(slot: PoolWorker, error: Error): void {
+    slot.worker.terminate();
+    slot.job?.reject(error);
+    this.workers = this.workers.filter(candidate => candidate !== slot);
+    this.dispatch();
+  }
+}
+
+export const vectorizationWorkerPool = new VectorizationWorkerPool();
@@ -0,0 +1,45 @@
+// Vectorization Services
+export { VectorizationWorkerPool, vectorizationWorkerPool } from './VectorizationWorkerPool';
+export { VectorizationQueue } from './VectorizationQueue';
+export { createAbortError } from '../../utils/vectorizationPipeline';
+
+// Types
+export type {
+  VectorizationWorkerRequest,
+  VectorizationWorkerResponse,
+  VectorizationProgressCallback
+} from './VectorizationWorkerPool';
+
+export type {
+  VectorizationJobStatus,
+  VectorizationQueueJob,
+  VectorizationTask,
+  VectorizationQueueOptions,
+  EnqueueOptions
+} from './VectorizationQueue';
+
+export type {
+  VectorizationMethod,
+  VectorizationTaskType,
+  VectorizationJobOptions,
+  CenterlineJobOptions,
+  VectorizationJobResult
+} from '../../utils/vectorizationPipeline';
+
+export type { CurveFitMetrics } from '../../utils/imagetracerVectorization';
+
+// Method registry
+export {
+  VECTORIZATION_METHODS,
+  getVectorizationMethod,
+  getDefaultParameterValues,
+  buildMethodJobOptions
+} from '../../utils/vectorizationMethods';
+
+export type {
+  MethodParameter,
+  MethodParameterKey,
+  MethodParameterValue,
+  MethodParameterValues,
+  VectorizationMethodInfo
+} from '../../utils/vectorizationMethods';
@@ -1,9 +1,9 @@
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
 import type { GlyphStore, UploadedFile, ProcessedGlyph, VectorizationParams } from '@/types';
-import { APP_CONFIG } from '@/types';
-import { fileToCanvas, preprocessImage, resizeIfNeeded } from '@/utils/imagePreprocessing';
-import { vectorizeWithTraceTargetPerfect, parseSVGPath, calculateBounds } from '@/utils/imagetracerVectorization';
+import { parseSVGPath, calculateBounds } from '@/utils/imagetracerVectorization';
+import { validateFile } from '@/utils/fileValidation';
+import { vectorizationWorkerPool, VectorizationMethod } from '@/services/vectorization';
 
 const initialProcessingState = {
   status: 'idle' as const,
@@ -37,8 +37,8 @@ export const useGlyphStore = create<GlyphStore>()(
         try {
           console.log('🔍 Validating files...');
           const validFiles = files.filter((file, index) => {
-            const isValid = validateFile(file);
-            console.log(`File ${index + 1}: ${file.name} - ${isValid ? '✅ Valid' : '❌ Invalid'}`);
+            const { isValid, reason } = validateFile(file);
+            console.log(`File ${index + 1}: ${file.name} - ${isValid ? '✅ Valid' : `❌ Invalid: ${reason}`}`);
             return isValid;
           });
           
@@ -116,8 +116,8 @@ export const useGlyphStore = create<GlyphStore>()(
         }), false, 'removeFile');
       },
 
-      processGlyph: async (fileId: string, params: VectorizationParams) => {
-        console.log('🔄 Starting vectorization process...', { fileId, quality: params.quality });
+      processGlyph: async (fileId: string, params: VectorizationParams, searchProfiles = false) => {
+        console.log('🔄 Starting vectorization process...', { fileId, quality: params.quality, searchProfiles });
         
         const { uploadedFiles } = get();
         const file = uploadedFiles.find(f => f.id === fileId);
@@ -138,78 +138,26 @@ export const useGlyphStore = create<GlyphStore>()(
         }), false, 'processGlyph:start');
 
         try {
-          // TRACE TARGET PERFECT single method vectorization
+          // TRACE TARGET PERFECT single method vectorization, run in the worker pool
           console.log(`🎯 Using ${params.quality} quality vectorization`);
-          
-          // Step 1: Convert file to canvas
-          set((state) => ({
-            processingState: {
-              ...state.processingState,
-              progress: 10,
-              message: 'Converting image to canvas...',
-            },
-          }), false, 'processGlyph:canvas');
-          
-          const canvas = await fileToCanvas(file.file);
-          
-          // Step 2: Resize if needed
-          set((state) => ({
-            processingState: {
-              ...state.processingState,
-              progress: 20,
-              message: 'Optimizing image size...',
-            },
-          }), false, 'processGlyph:resize');
-          
-          const resizedCanvas = resizeIfNeeded(canvas, 1024);
-          
-          // Step 3: Preprocess image
-          set((state) => ({
-            processingState: {
-              ...state.processingState,
-              progress: 30,
-              message: 'Preprocessing image...',
-            },
-          }), false, 'processGlyph:preprocess');
-          
-          const preprocessedCanvas = preprocessImage(resizedCanvas, { 
-            quality: params.quality,
-            noiseReduction: params.quality === 'high'
-          });
-          
-          // Step 4: Run Trace Target Perfect vectorization
-          set((state) => ({
-            processingState: {
-              ...state.processingState,
-              progress: 40,
-              message: 'Starting vectorization...',
-            },
-          }), false, 'processGlyph:vectorize');
-          
-          const vectorizationResult = await vectorizeWithTraceTargetPerfect(
-            preprocessedCanvas,
-            params,
+
+          // A profile search traces with every ImageTracer profile and keeps the best match
+          const method: VectorizationMethod = searchProfiles ? 'profile-search' : 'trace-target-perfect';
+          const { path: vectorizationResult, profileSearch } = await vectorizationWorkerPool.vectorize(
+            file.file,
+            { params, method },
             (progress, message) => {
-              console.log(`⏳ Vectorization Progress: ${progress}% - ${message}`);
+              console.log(`⏳ Vectorization Progress: ${Math.round(progress)}% - ${message}`);
               set((state) => ({
                 processingState: {
                   ...state.processingState,
-                  progress: 40 + (progress * 0.5), // Map 0-100 to 40-90
+                  progress: Math.round(progress * 0.95), // The last 5% is building the glyph
                   message,
                 },
               }), false, 'processGlyph:vectorize');
             }
           );
 
-          // Step 5: Process vectorization result
-          set((state) => ({
-            processingState: {
-              ...state.processingState,
-              progress: 95,
-              message: 'Processing vectorization result...',
-            },
-          }), false, 'processGlyph:results');
-
           // Create single glyph with Trace Target Perfect result
           const pathCommands = parseSVGPath(vectorizationResult);
           const bounds = calculateBounds(vectorizationResult);
@@ -222,10 +170,11 @@ export const useGlyphStore = create<GlyphStore>()(
               paths: pathCommands,
               bounds,
             },
-            processingParams: params,
+            processingParams: profileSearch ? { ...params, profile: profileSearch.profile } : params,
             processed: new Date(),
 
-            methodId: "trace-target-perfect",
+            methodId: method,
+            profileScores: profileSearch?.scores,
           };
 
           console.log('✅ Vectorization completed successfully:', {
@@ -421,22 +370,6 @@ export const useGlyphStore = create<GlyphStore>()(
 );
 
 // Helper functions
-function validateFile(file: File): boolean {
-  // Check file type
-  if (!APP_CONFIG.SUPPORTED_FORMATS.includes(file.type as any)) {
-    console.warn(`Unsupported file type: ${file.type}`);
-    return false;
-  }
-
-  // Check file size
-  if (file.size > APP_CONFIG.MAX_FILE_SIZE) {
-    console.warn(`File too large: ${file.size} bytes`);
-    return false;
-  }
-
-  return true;
-}
-
 function fileToDataUrl(file: File): Promise<string> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -5,11 +5,66 @@ export type WizardStep = 1 | 2 | 3 | 4 | 5;
 
 export type VectorizationQuality = 'fast' | 'balanced' | 'high';
 
+// ImageTracer settings profiles
+export type ImageTracerProfile =
+  | 'detail' | 'smooth' | 'balanced' | 'detail-plus' | 'smooth-fixed' | 'reference-optimized'
+  | 'curve-enhanced' | 'hole-preserving' | 'perfect-hybrid' | 'perfect-hybrid-plus' | 'perfect-hybrid-v2'
+  | 'trace-target' | 'trace-target-perfect' | 'trace-target-final';
+
+// ImageTracer settings that replace the profile's own
+export interface ImageTracerOverrides {
+  ltres?: number;      // Straight line error threshold
+  qtres?: number;      // Curve error threshold
+  pathomit?: number;   // Paths with fewer points are dropped
+  blurradius?: number; // Blur before tracing, 0 for none
+  blurdelta?: number;  // Colour change a blurred pixel may take
+}
+
+// How grey pixels are split into ink and paper: one threshold for the whole
+// image (Otsu's, or the manual one), or one per neighbourhood (Sauvola, Niblack)
+export type BinarizationMethod = 'otsu' | 'sauvola' | 'niblack' | 'manual';
+
+export interface BinarizationSettings {
+  method: BinarizationMethod;
+  windowSize?: number; // Sauvola and Niblack neighbourhood, in pixels; sized to the image when unset
+  k?: number;          // Sauvola and Niblack sensitivity; the method's usual value when unset
+}
+
 export interface VectorizationParams {
   quality: VectorizationQuality;
-  threshold?: number;
-  smoothing?: number;
+  threshold?: number; // Grey level (0-255) splitting ink from paper; automatic when unset
+  smoothing?: number; // Blur passes before tracing; one when unset
+  binarization?: BinarizationSettings; // Binarize while preprocessing, before any method traces
+  flattenBackground?: boolean;         // Even out uneven lighting while preprocessing
   cornerThreshold?: number;
+  curveTolerance?: number; // Font units fitted curves may stray from the traced edge
+  profile?: ImageTracerProfile; // ImageTracer settings; a profile search stores its winner here
+  imageTracer?: ImageTracerOverrides;
+}
+
+// Everything a vectorization job needs besides the image
+export interface VectorizationRecipe {
+  method: string; // Registered vectorization method id
+  params: VectorizationParams;
+  methodValues: Record<string, number | string | undefined>; // The method's registered parameters
+}
+
+// A named recipe saved with a project
+export interface VectorizationPreset extends VectorizationRecipe {
+  id: string;
+  projectId: string;
+  name: string;
+  created: Date;
+  lastModified: Date;
+}
+
+// How one ImageTracer profile's result matched the binarized source
+export interface ProfileScore {
+  profile: ImageTracerProfile;
+  iou: number;          // Overlap of the filled path with the source, 0-1
+  edgeDistance: number; // Mean distance between their edges, in viewBox units
+  nodeCount: number;
+  score: number;        // Higher is better; the best score wins
 }
 
 // File and image types
@@ -41,6 +96,7 @@ export interface ProcessedGlyph {
   processed: Date;
 
   methodId?: string;    // Unique identifier for vectorization method
+  profileScores?: ProfileScore[]; // Every profile a profile search tried, best first
   editablePathData?: EditablePathData; // Interactive editing data
   editHistory?: EditablePathData[]; // Undo/redo history
   currentEditIndex?: number; // Current position in edit history
@@ -66,6 +122,17 @@ export interface EditablePathData {
   nodes: SVGPathNode[];
   viewBox: { width: number; height: number; x: number; y: number };
   originalPath: string;
+  anchors?: GlyphAnchor[]; // Anchors moved by the user; the rest use defaults
+}
+
+// Attachment points for diacritics. Base letters carry top/bottom/ogonek; a combining
+// mark carries the anchor it attaches by ("_top") and "top" for marks stacked above it
+export type AnchorName = 'top' | 'bottom' | 'ogonek';
+
+export interface GlyphAnchor {
+  name: AnchorName | `_${AnchorName}`;
+  x: number; // Path coordinates, like the nodes
+  y: number;
 }
 
 export interface PathEditingState {
@@ -83,10 +150,11 @@ export interface PathEditingState {
   isPathHovered?: boolean;
 }
 
+// Horizontal spacing in font units; sidebearings are measured from the outline's bounding box
 export interface GlyphMetrics {
   leftSideBearing: number;
   rightSideBearing: number;
-  advanceWidth: number;
+  advanceWidth: number; // Sidebearings plus outline width
   ascender?: number;
   descender?: number;
 }
@@ -99,6 +167,14 @@ export interface PositioningState {
   selectedMetricLine?: 'baseline' | 'x-height' | 'cap-height' | 'ascender' | 'descender';
 }
 
+// Per-glyph vertical reference lines, as Y positions in the glyph's SVG coordinates (Y-down)
+export interface GlyphVerticalFrame {
+  baseline: number;
+  xHeight: number;
+  capHeight: number;
+  source: 'guides' | 'manual' | 'font' | 'default';
+}
+
 // Font generation types
 export interface FontMetadata {
   familyName: string;
@@ -115,22 +191,67 @@ export interface FontMetadata {
   capHeight?: number;
 }
 
+// Vertical metrics left undefined are calculated from the glyph outlines
 export interface FontSettings {
   metadata: FontMetadata;
   unitsPerEm: number;
-  ascender: number;
-  descender: number;
-  xHeight: number;
-  capHeight: number;
+  ascender?: number;
+  descender?: number;
+  xHeight?: number;
+  capHeight?: number;
+  lineGap?: number;
+  spaceWidth?: number; // Advance width of the space glyph
+  spacingMode?: SpacingMode; // Defaults to 'manual'
+  fixedAdvanceWidth?: number; // Monospace advance; defaults to the widest glyph
+}
+
+// How advance widths are assigned when the font is generated:
+// manual uses each glyph's own sidebearings, proportional fits them from the outline,
+// tabular also gives the digits one shared advance, monospace gives every glyph the same advance
+export type SpacingMode = 'manual' | 'proportional' | 'tabular' | 'monospace';
+
+// Kerning values are in font units; glyphs are referenced by Unicode key (e.g. "U+0041")
+export interface KerningPair {
+  left: string;
+  right: string;
+  value: number;
+}
+
+export interface KerningClass {
+  id: string;
+  name: string;
+  side: 'left' | 'right'; // Which side of a pair the members kern on
+  members: string[];
+}
+
+export interface KerningClassPair {
+  leftClass: string;  // KerningClass id
+  rightClass: string; // KerningClass id
+  value: number;
+}
+
+export interface KerningData {
+  pairs: KerningPair[];           // Glyph pairs; these override class kerning
+  classes: KerningClass[];
+  classPairs: KerningClassPair[];
+}
+
+export type FontFormat = 'ttf' | 'otf' | 'woff' | 'woff2';
+
+export interface CompiledFontVariant {
+  fontData: ArrayBuffer;
+  size: number;
+  checksum: string;
 }
 
 export interface CompiledFont {
   fontData: ArrayBuffer;
-  format: 'ttf' | 'otf' | 'woff' | 'woff2';
+  format: FontFormat;
   size: number;
   checksum: string;
   glyphCount: number;
   generatedAt: Date;
+  variants?: Partial<Record<FontFormat, CompiledFontVariant>>;
 }
 
 // Character mapping types
@@ -177,7 +298,7 @@ export interface GlyphStore {
   // Actions
   addFiles: (files: File[]) => Promise<void>;
   removeFile: (fileId: string) => void;
-  processGlyph: (fileId: string, params: VectorizationParams) => Promise<void>;
+  processGlyph: (fileId: string, params: VectorizationParams, searchProfiles?: boolean) => Promise<void>;
   updateGlyphCharacter: (glyphId: string, character: string) => void;
   clearAll: () => void;
 
@@ -201,7 +322,7 @@ export interface FontStore {
   updateFontSettings: (settings: Partial<FontSettings>) => void;
   setCharacterMapping: (glyphId: string, unicode: string) => void;
   generateFont: () => Promise<CompiledFont>;
-  downloadFont: (format: 'ttf' | 'otf') => void;
+  downloadFont: (format: FontFormat) => void;
   clearFont: () => void;
 }
 
@@ -266,8 +387,10 @@ export interface VectorizationCompleteEvent {
 // Global app constants
 export const APP_CONFIG = {
   MAX_FILE_SIZE: 10 * 1024 * 1024, // 10MB
-  SUPPORTED_FORMATS: ['image/png', 'image/jpeg', 'image/jpg', 'image/webp'] as const,
+  SUPPORTED_FORMATS: ['image/png', 'image/jpeg', 'image/jpg', 'image/webp', 'image/svg+xml'] as const, // SVGs are imported as outlines, not traced
   MAX_FILES_PER_UPLOAD: 50,
+  MAX_ARCHIVE_ENTRIES: 1000, // Files in one .zip, counted from its directory before unpacking
+  MAX_ARCHIVE_SIZE: 200 * 1024 * 1024, // 200MB of images unpacked from one .zip
   MIN_IMAGE_SIZE: 32, // 32x32 pixels
   MAX_IMAGE_SIZE: 4096, // 4096x4096 pixels
   DEFAULT_FONT_SIZE: 48,
@@ -0,0 +1,468 @@
+// Fits traced outlines with cubic Béziers: contours are split at corners and at
+// their horizontal and vertical extremes, and each piece between those nodes is
+// fitted within a tolerance, subdividing only where one curve can't follow it
+
+import { Point, PathSegment } from './svgFlattening';
+
+export interface CurveFitOptions {
+  tolerance: number;    // How far the curves may stray from the contour, in contour units
+  cornerAngle?: number; // Turns sharper than this many degrees become corners
+}
+
+export interface CurveFitResult {
+  segments: PathSegment[];
+  nodeCount: number;    // On-curve nodes over all contours
+  maxDeviation: number; // Furthest any contour point lies from the curves, in contour units
+}
+
+type FitSegment = { type: 'L'; point: Point } | Extract<PathSegment, { type: 'C' }>;
+
+interface Extremum {
+  index: number;
+  axis: 'x' | 'y';
+  plateau: [number, number]; // Range of points within the hysteresis of the extreme
+}
+
+const DEFAULT_CORNER_ANGLE = 55;
+// Corner detection compares directions this many tolerances apart (at least 3 points)
+const CORNER_SPAN = 3;
+// Moving average radius, in points, that irons out pixel steps before fitting
+const SMOOTHING_RADIUS = 2;
+const REPARAMETERIZE_PASSES = 4;
+// Curves are flattened into this many lines to measure the deviation
+const DEVIATION_STEPS = 16;
+
+/**
+ * Fits closed contours with cubic Béziers and straight lines. Contours keep the
+ * direction they are given in.
+ */
+export function fitClosedContours(contours: Point[][], options: CurveFitOptions): CurveFitResult {
+  const segments: PathSegment[] = [];
+  let nodeCount = 0;
+  let maxDeviation = 0;
+
+  for (const contour of contours) {
+    const fitted = fitClosedContour(contour, options);
+    if (!fitted) continue;
+    segments.push({ type: 'M', point: fitted.start }, ...fitted.segments, { type: 'Z' });
+    nodeCount += fitted.segments.length;
+    maxDeviation = Math.max(maxDeviation, fitted.deviation);
+  }
+
+  return { segments, nodeCount, maxDeviation };
+}
+
+/**
+ * Finds sharp turns by comparing directions a span of points before and after
+ * each point, keeping the sharpest point of each turn
+ */
+export function findCorners(points: Point[], closed: boolean, span: number, cornerAngle: number): number[] {
+  const count = points.length;
+  if (count < span * 2 + 1) return [];
+
+  const threshold = (cornerAngle * Math.PI) / 180;
+  const turns = points.map((point, index) => {
+    if (!closed && (index < span || index >= count - span)) return 0;
+    const before = points[(index - span + count) % count];
+    const after = points[(index + span) % count];
+    const incoming = Math.atan2(point.y - before.y, point.x - before.x);
+    const outgoing = Math.atan2(after.y - point.y, after.x - point.x);
+    return Math.abs(Math.atan2(Math.sin(outgoing - incoming), Math.cos(outgoing - incoming)));
+  });
+
+  const corners: number[] = [];
+  turns.forEach((turn, index) => {
+    if (turn < threshold) return;
+    for (let offset = 1; offset <= span; offset++) {
+      const before = closed ? (index - offset + count) % count : index - offset;
+      const after = closed ? (index + offset) % count : index + offset;
+      if ((before >= 0 && turns[before] > turn) || (after < count && turns[after] >= turn)) return;
+    }
+    corners.push(index);
+  });
+  return corners;
+}
+
+/**
+ * Moving average along the line; corners and the ends of open lines stay put
+ */
+export function smoothPolyline(points: Point[], closed: boolean, corners: number[], radius: number): Point[] {
+  const count = points.length;
+  if (count < 3) return points;
+
+  const fixed = new Set(corners);
+  if (!closed) {
+    fixed.add(0);
+    fixed.add(count - 1);
+  }
+
+  return points.map((point, index) => {
+    if (fixed.has(index)) return point;
+    let sumX = 0;
+    let sumY = 0;
+    let total = 0;
+    for (let offset = -radius; offset <= radius; offset++) {
+      let neighbor = index + offset;
+      if (closed) neighbor = (neighbor + count) % count;
+      else if (neighbor < 0 || neighbor >= count) continue;
+      sumX += points[neighbor].x;
+      sumY += points[neighbor].y;
+      total++;
+    }
+    return { x: sumX / total, y: sumY / total };
+  });
+}
+
+function fitClosedContour(
+  contour: Point[],
+  { tolerance, cornerAngle = DEFAULT_CORNER_ANGLE }: CurveFitOptions
+): { start: Point; segments: FitSegment[]; deviation: number } | null {
+  const points = dedupePoints(contour);
+  const count = points.length;
+  if (count < 3) return null;
+  if (count < 5) {
+    return { start: points[0], segments: [...points.slice(1), points[0]].map(point => ({ type: 'L', point })), deviation: 0 };
+  }
+
+  const span = Math.max(3, Math.round(tolerance * CORNER_SPAN));
+  const corners = findCorners(points, true, span, cornerAngle);
+  const smoothed = smoothPolyline(points, true, corners, SMOOTHING_RADIUS);
+  const hysteresis = Math.max(1, tolerance);
+  const extrema = [
+    ...findExtrema(smoothed, 'x', hysteresis),
+    ...findExtrema(smoothed, 'y', hysteresis)
+  ].filter(extremum =>
+    // A corner on a flat extreme is node enough
+    !corners.some(corner => inCyclicRange(corner, extremum.plateau, count) || cyclicDistance(corner, extremum.index, count) <= span)
+  );
+
+  // Nodes in contour order; of two extremes close together only the first is kept
+  const nodes = new Map<number, 'corner' | 'x' | 'y'>();
+  corners.forEach(index => nodes.set(index, 'corner'));
+  extrema.forEach(({ index, axis }) => {
+    if (![...nodes.keys()].some(node => cyclicDistance(node, index, count) <= span)) nodes.set(index, axis);
+  });
+  if (nodes.size === 0) nodes.set(0, 'corner');
+  const nodeIndices = [...nodes.keys()].sort((a, b) => a - b);
+
+  const segments: FitSegment[] = [];
+  let deviation = 0;
+
+  nodeIndices.forEach((startIndex, position) => {
+    const nextIndex = nodeIndices[(position + 1) % nodeIndices.length];
+    const length = ((nextIndex - startIndex + count - 1) % count) + 1;
+    const indices = Array.from({ length: length + 1 }, (_, step) => (startIndex + step) % count);
+    const piece = indices.map(index => smoothed[index]);
+
+    const tangentStart = getNodeTangent(piece, nodes.get(startIndex)!, span);
+    const tangentEnd = getNodeTangent([...piece].reverse(), nodes.get(nextIndex)!, span);
+    const fitted = fitPiece(piece, tangentStart, tangentEnd, tolerance);
+    segments.push(...fitted);
+
+    // Measured against the contour as traced, not the smoothed points
+    const flattened = flattenSegments(piece[0], fitted);
+    indices.forEach(index => {
+      deviation = Math.max(deviation, distanceToPolyline(points[index], flattened));
+    });
+  });
+
+  return { start: smoothed[nodeIndices[0]], segments, deviation };
+}
+
+/**
+ * Extremes of one coordinate around a closed line. A turn only counts once the
+ * line has moved back by the hysteresis, so pixel steps don't add extremes, and
+ * the node goes in the middle of the stretch that stays near the extreme.
+ */
+function findExtrema(points: Point[], axis: 'x' | 'y', hysteresis: number): Extremum[] {
+  const count = points.length;
+  const values = points.map(point => point[axis]);
+  const start = values.reduce((best, value, index) => (value > values[best] ? index : best), 0);
+  const found: number[] = [start];
+
+  let seekingMax = false;
+  let extreme = start;
+  for (let step = 1; step < count; step++) {
+    const index = (start + step) % count;
+    const beyond = seekingMax ? values[index] > values[extreme] : values[index] < values[extreme];
+    const retreat = seekingMax ? values[extreme] - values[index] : values[index] - values[extreme];
+    if (beyond) {
+      extreme = index;
+    } else if (retreat > hysteresis) {
+      found.push(extreme);
+      seekingMax = !seekingMax;
+      extreme = index;
+    }
+  }
+
+  const extrema: Extremum[] = [];
+  for (const index of found) {
+    const plateau = getPlateau(values, index, hysteresis / 2);
+    if (extrema.some(other => inCyclicRange(index, other.plateau, count))) continue;
+    const plateauLength = (plateau[1] - plateau[0] + count) % count;
+    extrema.push({ index: (plateau[0] + Math.floor(plateauLength / 2)) % count, axis, plateau });
+  }
+  return extrema;
+}
+
+function getPlateau(values: number[], index: number, margin: number): [number, number] {
+  const count = values.length;
+  const near = (other: number) => Math.abs(values[other] - values[index]) <= margin;
+  let first = index;
+  let last = index;
+  for (let step = 1; step < count && near((index - step + count) % count); step++) first = (index - step + count) % count;
+  for (let step = 1; step < count && near((index + step) % count); step++) last = (index + step) % count;
+  return [first, last];
+}
+
+/**
+ * Direction the curve leaves a node in: along the axis at an extreme, so the
+ * curves either side meet smoothly, or along the next few points at a corner
+ */
+function getNodeTangent(piece: Point[], node: 'corner' | 'x' | 'y', span: number): Point {
+  const ahead = piece[Math.min(piece.length - 1, span)];
+  const direction = { x: ahead.x - piece[0].x, y: ahead.y - piece[0].y };
+  if (node === 'y') return { x: Math.sign(direction.x) || 1, y: 0 };
+  if (node === 'x') return { x: 0, y: Math.sign(direction.y) || 1 };
+  return normalize(direction);
+}
+
+/**
+ * Fits one piece between two nodes, splitting at the worst point until every
+ * part is within the tolerance (after Schneider, "An Algorithm for
+ * Automatically Fitting Digitized Curves", Graphics Gems 1990)
+ */
+function fitPiece(points: Point[], tangentStart: Point, tangentEnd: Point, tolerance: number): FitSegment[] {
+  return fitRange(points, 0, points.length - 1, tangentStart, tangentEnd, tolerance).map(({ segment }) => segment);
+}
+
+function fitRange(
+  allPoints: Point[],
+  from: number,
+  to: number,
+  tangentStart: Point,
+  tangentEnd: Point,
+  tolerance: number
+): { segment: FitSegment; end: number }[] {
+  const points = allPoints.slice(from, to + 1);
+  const last = points[points.length - 1];
+  if (isStraight(allPoints, from, to, tolerance)) {
+    return [{ segment: { type: 'L', point: last }, end: to }];
+  }
+
+  let parameters = getChordParameters(points);
+  let curve = getBestCurve(points, parameters, tangentStart, tangentEnd);
+  let { error, splitIndex } = getMaxError(points, curve, parameters);
+  if (error <= tolerance) return [{ segment: toSegment(curve), end: to }];
+
+  // Close misses often fit once the points are matched to better curve positions
+  if (error <= tolerance * 4) {
+    for (let pass = 0; pass < REPARAMETERIZE_PASSES; pass++) {
+      parameters = reparameterize(points, parameters, curve);
+      curve = getBestCurve(points, parameters, tangentStart, tangentEnd);
+      ({ error, splitIndex } = getMaxError(points, curve, parameters));
+      if (error <= tolerance) return [{ segment: toSegment(curve), end: to }];
+    }
+  }
+
+  splitIndex = Math.min(points.length - 2, Math.max(1, splitIndex));
+  const before = points[splitIndex - 1];
+  const after = points[splitIndex + 1];
+  const tangentSplit = normalize({ x: before.x - after.x, y: before.y - after.y });
+  const split = from + splitIndex;
+  const left = fitRange(allPoints, from, split, tangentStart, tangentSplit, tolerance);
+  const right = fitRange(allPoints, split, to, { x: -tangentSplit.x, y: -tangentSplit.y }, tangentEnd, tolerance);
+
+  // A split in a straight stretch leaves two lines that may be one
+  const leftLast = left[left.length - 1];
+  const lineStart = left.length > 1 ? left[left.length - 2].end : from;
+  if (leftLast.segment.type === 'L' && right[0].segment.type === 'L' && isStraight(allPoints, lineStart, right[0].end, tolerance)) {
+    return [...left.slice(0, -1), ...right];
+  }
+  return [...left, ...right];
+}
+
+function isStraight(points: Point[], from: number, to: number, tolerance: number): boolean {
+  for (let index = from + 1; index < to; index++) {
+    if (distanceToSegment(points[index], points[from], points[to]) > tolerance) return false;
+  }
+  return true;
+}
+
+type Cubic = [Point, Point, Point, Point];
+
+/**
+ * Least-squares handle lengths for a cubic with fixed ends and end tangents
+ */
+function getBestCurve(points: Point[], parameters: number[], tangentStart: Point, tangentEnd: Point): Cubic {
+  const first = points[0];
+  const last = points[points.length - 1];
+  let c00 = 0, c01 = 0, c11 = 0, x0 = 0, x1 = 0;
+
+  points.forEach((point, index) => {
+    const t = parameters[index];
+    const mt = 1 - t;
+    const b0 = mt * mt * mt, b1 = 3 * t * mt * mt, b2 = 3 * t * t * mt, b3 = t * t * t;
+    const a1 = { x: tangentStart.x * b1, y: tangentStart.y * b1 };
+    const a2 = { x: tangentEnd.x * b2, y: tangentEnd.y * b2 };
+    const rest = {
+      x: point.x - first.x * (b0 + b1) - last.x * (b2 + b3),
+      y: point.y - first.y * (b0 + b1) - last.y * (b2 + b3)
+    };
+    c00 += dot(a1, a1);
+    c01 += dot(a1, a2);
+    c11 += dot(a2, a2);
+    x0 += dot(a1, rest);
+    x1 += dot(a2, rest);
+  });
+
+  const chord = distance(first, last);
+  const determinant = c00 * c11 - c01 * c01;
+  let alphaStart = 0;
+  let alphaEnd = 0;
+  if (Math.abs(determinant) > 1e-12) {
+    alphaStart = (x0 * c11 - x1 * c01) / determinant;
+    alphaEnd = (c00 * x1 - c01 * x0) / determinant;
+  }
+  // Degenerate or backwards handles fall back to a third of the chord
+  const minimum = chord * 1e-6;
+  if (alphaStart < minimum || alphaEnd < minimum || alphaStart > chord * 2 || alphaEnd > chord * 2) {
+    alphaStart = alphaEnd = chord / 3;
+  }
+
+  return [
+    first,
+    { x: first.x + tangentStart.x * alphaStart, y: first.y + tangentStart.y * alphaStart },
+    { x: last.x + tangentEnd.x * alphaEnd, y: last.y + tangentEnd.y * alphaEnd },
+    last
+  ];
+}
+
+function getMaxError(points: Point[], curve: Cubic, parameters: number[]): { error: number; splitIndex: number } {
+  let error = 0;
+  let splitIndex = Math.floor(points.length / 2);
+  points.forEach((point, index) => {
+    const pointError = distance(point, evaluateCubic(curve, parameters[index]));
+    if (pointError > error) {
+      error = pointError;
+      splitIndex = index;
+    }
+  });
+  return { error, splitIndex };
+}
+
+/**
+ * One Newton-Raphson step per point towards the curve position nearest to it
+ */
+function reparameterize(points: Point[], parameters: number[], curve: Cubic): number[] {
+  const derivative: [Point, Point, Point] = [0, 1, 2].map(i => ({
+    x: 3 * (curve[i + 1].x - curve[i].x),
+    y: 3 * (curve[i + 1].y - curve[i].y)
+  })) as [Point, Point, Point];
+  const secondDerivative: [Point, Point] = [0, 1].map(i => ({
+    x: 2 * (derivative[i + 1].x - derivative[i].x),
+    y: 2 * (derivative[i + 1].y - derivative[i].y)
+  })) as [Point, Point];
+
+  return points.map((point, index) => {
+    const t = parameters[index];
+    const position = evaluateCubic(curve, t);
+    const first = evaluateQuadratic(derivative, t);
+    const second = { x: secondDerivative[0].x * (1 - t) + secondDerivative[1].x * t, y: secondDerivative[0].y * (1 - t) + secondDerivative[1].y * t };
+    const offset = { x: position.x - point.x, y: position.y - point.y };
+    const denominator = dot(first, first) + dot(offset, second);
+    if (Math.abs(denominator) < 1e-12) return t;
+    return Math.min(1, Math.max(0, t - dot(offset, first) / denominator));
+  });
+}
+
+function getChordParameters(points: Point[]): number[] {
+  const lengths = [0];
+  for (let index = 1; index < points.length; index++) {
+    lengths.push(lengths[index - 1] + distance(points[index - 1], points[index]));
+  }
+  const total = lengths[lengths.length - 1] || 1;
+  return lengths.map(length => length / total);
+}
+
+function evaluateCubic([p0, p1, p2, p3]: Cubic, t: number): Point {
+  const mt = 1 - t;
+  const b0 = mt * mt * mt, b1 = 3 * t * mt * mt, b2 = 3 * t * t * mt, b3 = t * t * t;
+  return {
+    x: p0.x * b0 + p1.x * b1 + p2.x * b2 + p3.x * b3,
+    y: p0.y * b0 + p1.y * b1 + p2.y * b2 + p3.y * b3
+  };
+}
+
+function evaluateQuadratic([p0, p1, p2]: [Point, Point, Point], t: number): Point {
+  const mt = 1 - t;
+  return {
+    x: p0.x * mt * mt + 2 * p1.x * t * mt + p2.x * t * t,
+    y: p0.y * mt * mt + 2 * p1.y * t * mt + p2.y * t * t
+  };
+}
+
+function toSegment([, control1, control2, point]: Cubic): FitSegment {
+  return { type: 'C', control1, control2, point };
+}
+
+function flattenSegments(start: Point, segments: FitSegment[]): Point[] {
+  const line = [start];
+  let current = start;
+  for (const segment of segments) {
+    if (segment.type === 'L') {
+      line.push(segment.point);
+    } else {
+      const curve: Cubic = [current, segment.control1, segment.control2, segment.point];
+      for (let step = 1; step <= DEVIATION_STEPS; step++) line.push(evaluateCubic(curve, step / DEVIATION_STEPS));
+    }
+    current = segment.point;
+  }
+  return line;
+}
+
+function distanceToPolyline(point: Point, line: Point[]): number {
+  let nearest = Infinity;
+  for (let index = 1; index < line.length; index++) {
+    nearest = Math.min(nearest, distanceToSegment(point, line[index - 1], line[index]));
+  }
+  return nearest;
+}
+
+function distanceToSegment(point: Point, start: Point, end: Point): number {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared > 0
+    ? Math.max(0, Math.min(1, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared))
+    : 0;
+  return Math.hypot(point.x - start.x - t * dx, point.y - start.y - t * dy);
+}
+
+function inCyclicRange(index: number, [first, last]: [number, number], count: number): boolean {
+  return (index - first + count) % count <= (last - first + count) % count;
+}
+
+function cyclicDistance(a: number, b: number, count: number): number {
+  const difference = Math.abs(a - b) % count;
+  return Math.min(difference, count - difference);
+}
+
+function dedupePoints(points: Point[]): Point[] {
+  const result = points.filter((point, index) => index === 0 || distance(point, points[index - 1]) > 1e-6);
+  while (result.length > 1 && distance(result[0], result[result.length - 1]) <= 1e-6) result.pop();
+  return result;
+}
+
+function dot(a: Point, b: Point): number {
+  return a.x * b.x + a.y * b.y;
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
+
+function normalize(vector: Point): Point {
+  const length = Math.hypot(vector.x, vector.y) || 1;
+  return { x: vector.x / length, y: vector.y / length };
+}
@@ -0,0 +1,257 @@
+// Binarization splits a greyscale image into ink and paper before tracing.
+// Global methods use one threshold for the whole image; Sauvola and Niblack
+// work one out for each pixel from its neighbourhood, which copes with uneven
+// lighting and faint pencil lines. Background flattening evens out lighting
+// for any method.
+
+import type { BinarizationSettings } from '@/types';
+
+// Usual sensitivities: Sauvola's from his paper, Niblack's for dark ink on paper
+const DEFAULT_K = { sauvola: 0.2, niblack: -0.2 };
+// Sauvola's dynamic range of the standard deviation, for 8-bit grey levels
+const SAUVOLA_RANGE = 128;
+// Niblack labels every neighbourhood's darker pixels as ink, so flat paper turns
+// into noise; neighbourhoods with less spread than this are left as paper
+const NIBLACK_MIN_DEVIATION = 8;
+// Default neighbourhood: this fraction of the image's shorter side, so it spans
+// a few stroke widths
+const WINDOW_FRACTION = 1 / 6;
+const MIN_WINDOW_SIZE = 15;
+// Background flattening samples paper brightness on a grid of about this many
+// blocks across the shorter side, taking a high percentile so ink is ignored
+const BACKGROUND_BLOCKS = 8;
+const BACKGROUND_PERCENTILE = 0.95;
+
+/**
+ * Grey level (0-255) of every pixel
+ */
+export function getGrayLevels(imageData: ImageData): Uint8Array {
+  const { data } = imageData;
+  const gray = new Uint8Array(data.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = Math.round((data[i * 4] + data[i * 4 + 1] + data[i * 4 + 2]) / 3);
+  }
+  return gray;
+}
+
+/**
+ * Otsu's threshold: the grey level that best separates the histogram into
+ * two classes. Levels below it are ink.
+ */
+export function calculateOtsuThreshold(gray: Uint8Array): number {
+  const histogram = new Array(256).fill(0);
+  gray.forEach(level => histogram[level]++);
+
+  const total = gray.length;
+  const totalSum = histogram.reduce((sum, count, level) => sum + count * level, 0);
+
+  let darkCount = 0;
+  let darkSum = 0;
+  let maxVariance = 0;
+  let bestThreshold = 128;
+
+  for (let threshold = 1; threshold < 255; threshold++) {
+    darkCount += histogram[threshold - 1];
+    darkSum += (threshold - 1) * histogram[threshold - 1];
+    const lightCount = total - darkCount;
+    if (darkCount === 0 || lightCount === 0) continue;
+
+    const darkMean = darkSum / darkCount;
+    const lightMean = (totalSum - darkSum) / lightCount;
+    const variance = (darkCount / total) * (lightCount / total) * Math.pow(darkMean - lightMean, 2);
+
+    if (variance > maxVariance) {
+      maxVariance = variance;
+      bestThreshold = threshold;
+    }
+  }
+
+  return bestThreshold;
+}
+
+/**
+ * Neighbourhood size the local methods use when none is set
+ */
+export function getDefaultWindowSize(width: number, height: number): number {
+  return Math.max(MIN_WINDOW_SIZE, Math.round(Math.min(width, height) * WINDOW_FRACTION)) | 1;
+}
+
+/**
+ * Turns the image black and white in place: ink black, paper white. Manual
+ * binarization uses the given threshold.
+ */
+export function binarizeImage(imageData: ImageData, settings: BinarizationSettings, manualThreshold = 128): void {
+  const { width, height, data } = imageData;
+  const gray = getGrayLevels(imageData);
+
+  let ink: Uint8Array;
+  if (settings.method === 'sauvola' || settings.method === 'niblack') {
+    ink = thresholdLocally(gray, width, height, settings);
+  } else {
+    const threshold = settings.method === 'manual' ? manualThreshold : calculateOtsuThreshold(gray);
+    console.log(`🎯 Binarizing with ${settings.method} threshold ${threshold}`);
+    ink = gray.map(level => level < threshold ? 1 : 0);
+  }
+
+  let inkPixels = 0;
+  for (let i = 0; i < ink.length; i++) {
+    const value = ink[i] ? 0 : 255;
+    data[i * 4] = value;
+    data[i * 4 + 1] = value;
+    data[i * 4 + 2] = value;
+    inkPixels += ink[i];
+  }
+
+  console.log(`📊 Binarized: ${(inkPixels / ink.length * 100).toFixed(1)}% ink`);
+}
+
+/**
+ * Divides out the paper's brightness, estimated from a coarse grid of the
+ * brightest pixels, so shadows and lighting gradients become even white
+ */
+export function flattenBackground(imageData: ImageData): void {
+  const { width, height, data } = imageData;
+  const gray = getGrayLevels(imageData);
+  const background = estimateBackground(gray, width, height);
+
+  for (let i = 0; i < gray.length; i++) {
+    const value = background[i] > 0 ? Math.min(255, Math.round(gray[i] / background[i] * 255)) : 255;
+    data[i * 4] = value;
+    data[i * 4 + 1] = value;
+    data[i * 4 + 2] = value;
+  }
+
+  console.log('💡 Flattened background illumination');
+}
+
+/**
+ * Ink mask from thresholds worked out over each pixel's neighbourhood, using
+ * summed-area tables for the neighbourhood mean and deviation
+ */
+function thresholdLocally(gray: Uint8Array, width: number, height: number, settings: BinarizationSettings): Uint8Array {
+  const method = settings.method === 'niblack' ? 'niblack' : 'sauvola';
+  const windowSize = settings.windowSize ?? getDefaultWindowSize(width, height);
+  const radius = Math.max(1, Math.floor(windowSize / 2));
+  const k = settings.k ?? DEFAULT_K[method];
+  console.log(`🎯 Binarizing with ${method}: window ${radius * 2 + 1}px, k ${k}`);
+
+  // Sums over the rectangle from the origin to each pixel, one row and column larger
+  const stride = width + 1;
+  const sums = new Float64Array(stride * (height + 1));
+  const squares = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    let rowSquares = 0;
+    for (let x = 0; x < width; x++) {
+      const level = gray[y * width + x];
+      rowSum += level;
+      rowSquares += level * level;
+      sums[(y + 1) * stride + x + 1] = sums[y * stride + x + 1] + rowSum;
+      squares[(y + 1) * stride + x + 1] = squares[y * stride + x + 1] + rowSquares;
+    }
+  }
+
+  const boxSum = (table: Float64Array, x0: number, y0: number, x1: number, y1: number) =>
+    table[y1 * stride + x1] - table[y0 * stride + x1] - table[y1 * stride + x0] + table[y0 * stride + x0];
+
+  const ink = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      // Neighbourhoods are clipped at the image border
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width, x + radius + 1);
+      const area = (x1 - x0) * (y1 - y0);
+      const mean = boxSum(sums, x0, y0, x1, y1) / area;
+      const deviation = Math.sqrt(Math.max(0, boxSum(squares, x0, y0, x1, y1) / area - mean * mean));
+
+      const index = y * width + x;
+      if (method === 'sauvola') {
+        ink[index] = gray[index] < mean * (1 + k * (deviation / SAUVOLA_RANGE - 1)) ? 1 : 0;
+      } else {
+        ink[index] = deviation >= NIBLACK_MIN_DEVIATION && gray[index] < mean + k * deviation ? 1 : 0;
+      }
+    }
+  }
+
+  return ink;
+}
+
+/**
+ * Paper brightness at every pixel, interpolated between block samples
+ */
+function estimateBackground(gray: Uint8Array, width: number, height: number): Float32Array {
+  const blockSize = Math.max(8, Math.ceil(Math.min(width, height) / BACKGROUND_BLOCKS));
+  const columns = Math.ceil(width / blockSize);
+  const rows = Math.ceil(height / blockSize);
+
+  // Bright percentile of each block
+  const samples = new Float32Array(columns * rows);
+  const histogram = new Uint32Array(256);
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      histogram.fill(0);
+      const xEnd = Math.min(width, (column + 1) * blockSize);
+      const yEnd = Math.min(height, (row + 1) * blockSize);
+      let count = 0;
+      for (let y = row * blockSize; y < yEnd; y++) {
+        for (let x = column * blockSize; x < xEnd; x++) {
+          histogram[gray[y * width + x]]++;
+          count++;
+        }
+      }
+
+      let level = 255;
+      for (let seen = 0; level > 0; level--) {
+        seen += histogram[level];
+        if (seen >= count * (1 - BACKGROUND_PERCENTILE)) break;
+      }
+      samples[row * columns + column] = level;
+    }
+  }
+
+  // Ink can fill a whole block, so each block takes its brightest neighbour,
+  // then neighbours are averaged to soften the grid
+  const neighbourhood = (grid: Float32Array, combine: (values: number[]) => number) => {
+    const result = new Float32Array(grid.length);
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const values: number[] = [];
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const r = row + dy;
+            const c = column + dx;
+            if (r >= 0 && r < rows && c >= 0 && c < columns) values.push(grid[r * columns + c]);
+          }
+        }
+        result[row * columns + column] = combine(values);
+      }
+    }
+    return result;
+  };
+  const grid = neighbourhood(
+    neighbourhood(samples, values => Math.max(...values)),
+    values => values.reduce((sum, value) => sum + value, 0) / values.length
+  );
+
+  // Bilinear interpolation between block centres
+  const background = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const fy = Math.min(rows - 1, Math.max(0, (y + 0.5) / blockSize - 0.5));
+    const row0 = Math.floor(fy);
+    const row1 = Math.min(rows - 1, row0 + 1);
+    const ty = fy - row0;
+    for (let x = 0; x < width; x++) {
+      const fx = Math.min(columns - 1, Math.max(0, (x + 0.5) / blockSize - 0.5));
+      const column0 = Math.floor(fx);
+      const column1 = Math.min(columns - 1, column0 + 1);
+      const tx = fx - column0;
+      const top = grid[row0 * columns + column0] * (1 - tx) + grid[row0 * columns + column1] * tx;
+      const bottom = grid[row1 * columns + column0] * (1 - tx) + grid[row1 * columns + column1] * tx;
+      background[y * width + x] = top * (1 - ty) + bottom * ty;
+    }
+  }
+
+  return background;
+}
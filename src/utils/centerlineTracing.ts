@@ -0,0 +1,670 @@
+// Centerline tracing for monoline lettering: the ink is thinned to a one-pixel
+// skeleton, the skeleton is followed into centre lines that are fitted with
+// curves, and the curves are re-expanded with one uniform pen width
+
+import { Point, parsePathData, segmentsToPath } from './svgFlattening';
+import { simplifyPathItem } from './strokeOutline';
+import { findCorners, smoothPolyline } from './bezierFitting';
+
+export type StrokeCap = 'round' | 'square' | 'butt';
+export type StrokeJoin = 'round' | 'miter' | 'bevel';
+
+export const STROKE_CAPS: StrokeCap[] = ['round', 'square', 'butt'];
+export const STROKE_JOINS: StrokeJoin[] = ['round', 'miter', 'bevel'];
+
+export interface CenterlineStyle {
+  strokeWidth: number; // Pen width in path coordinates
+  cap: StrokeCap;      // Shape of free stroke ends; branches meeting at a junction always end round
+  join: StrokeJoin;    // Shape of the outside of corners
+}
+
+export interface Centerline {
+  points: Point[];
+  closed: boolean;
+  corners: number[];               // Indices of points where the line turns sharply
+  junctionEnds: [boolean, boolean]; // Whether each end meets another branch
+}
+
+export interface CenterlineTraceOptions {
+  cornerAngle?: number; // Turns sharper than this many degrees become corners
+}
+
+export interface CenterlineTraceResult {
+  centerlines: Centerline[]; // In bitmap pixel coordinates
+  strokeWidth: number;       // Typical ink width in pixels, measured along the skeleton
+}
+
+// 8-neighbourhood in clockwise order from north, as [dx, dy]
+const NEIGHBOR_STEPS: [number, number][] = [[0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1]];
+const DEFAULT_CORNER_ANGLE = 55;
+// Branches to a free end that reach less than this multiple of the ink radius at their junction are thinning artefacts
+const SPUR_REACH_RATIO = 1.5;
+const MAX_PRUNE_PASSES = 4;
+// Moving average radius, in points, that irons out the skeleton's pixel steps
+const SMOOTHING_RADIUS = 2;
+// Corner detection compares directions this many stroke widths apart (at least 3 pixels)
+const CORNER_SPAN = 0.5;
+const ROUND_STEPS_PER_QUARTER = 4;
+const MITER_LIMIT = 4;
+// How far the flattened centre curves and the final outline may stray, in path coordinates
+const FLATTEN_TOLERANCE = 0.1;
+const SIMPLIFY_TOLERANCE = 0.2;
+
+interface SkeletonGrid {
+  width: number;
+  height: number;
+  pixels: Uint8Array;
+}
+
+interface SkeletonEdge {
+  pixels: number[];
+  start: number; // Node ids
+  end: number;
+  closed: boolean;
+}
+
+/**
+ * Follows the skeleton of a binary bitmap (1 = ink) into centre lines. The
+ * bitmap needs a background border, as createBinaryBitmap gives it.
+ */
+export function traceCenterlines(bitmap: number[][], options: CenterlineTraceOptions = {}): CenterlineTraceResult {
+  const height = bitmap.length;
+  const width = bitmap[0]?.length ?? 0;
+  const ink = new Uint8Array(width * height);
+  bitmap.forEach((row, y) => row.forEach((value, x) => { ink[y * width + x] = value ? 1 : 0; }));
+
+  const distances = getDistanceField(ink, width, height);
+  const skeleton = thinBitmap({ width, height, pixels: ink.slice() });
+  removeStaircasePixels(skeleton);
+  restoreErasedBlobs(ink, skeleton, distances);
+
+  const skeletonPixels = collectPixels(skeleton.pixels);
+  if (skeletonPixels.length === 0) {
+    return { centerlines: [], strokeWidth: 0 };
+  }
+
+  const { edges, nodePixels, junctionNodes } = buildSkeletonGraph(skeleton);
+  // Pruning can leave a junction with one branch, turning its neighbour into a new spur
+  let prunedEdges = edges;
+  for (let pass = 0; pass < MAX_PRUNE_PASSES; pass++) {
+    const count = prunedEdges.length;
+    prunedEdges = mergeEdges(pruneSpurs(prunedEdges, junctionNodes, distances), junctionNodes);
+    if (prunedEdges.length === count) break;
+  }
+
+  // The distance at the skeleton is half the local ink width
+  const radii = prunedEdges.flatMap(edge => edge.pixels.map(index => distances[index])).sort((a, b) => a - b);
+  const medianRadius = radii[Math.floor(radii.length / 2)] ?? 0;
+  const strokeWidth = Math.max(1, 2 * medianRadius - 0.5);
+
+  const cornerAngle = options.cornerAngle ?? DEFAULT_CORNER_ANGLE;
+  const cornerSpan = Math.max(3, Math.round(strokeWidth * CORNER_SPAN));
+  const centerlines: Centerline[] = [];
+
+  for (const edge of prunedEdges) {
+    // Specks of noise thinner than the pen are dropped; real dots are kept
+    const maxRadius = edge.pixels.reduce((max, index) => Math.max(max, distances[index]), 0);
+    if (edge.pixels.length <= 2 && maxRadius < medianRadius * 0.5) continue;
+
+    const points = edge.pixels.map((index, position) => {
+      const isEnd = !edge.closed && (position === 0 || position === edge.pixels.length - 1);
+      const node = isEnd ? (position === 0 ? edge.start : edge.end) : -1;
+      // Branches end at the middle of the junction they meet
+      return junctionNodes.has(node) ? nodePixels.get(node)! : pixelCenter(index, width);
+    });
+
+    const corners = findCorners(points, edge.closed, cornerSpan, cornerAngle);
+    centerlines.push({
+      points: smoothPolyline(points, edge.closed, corners, SMOOTHING_RADIUS),
+      closed: edge.closed,
+      corners,
+      junctionEnds: [junctionNodes.has(edge.start) && !edge.closed, junctionNodes.has(edge.end) && !edge.closed]
+    });
+  }
+
+  console.log(`✏️ Centerline tracing: ${skeletonPixels.length} skeleton pixels, ${centerlines.length} centre lines, ink width ${strokeWidth.toFixed(1)}px`);
+  return { centerlines, strokeWidth };
+}
+
+/**
+ * Fits curves to the centre lines and expands them into one filled outline of
+ * absolute M/L/C/Z commands. paper.js does the curve fitting and the boolean
+ * union, and is loaded on first use.
+ */
+export async function expandCenterlines(
+  centerlines: Centerline[],
+  style: CenterlineStyle,
+  fitTolerance: number
+): Promise<string> {
+  if (centerlines.length === 0 || !(style.strokeWidth > 0)) return '';
+
+  const { default: paper } = await import('paper');
+  const scope = new paper.PaperScope();
+  scope.setup(new scope.Size(200, 200));
+
+  try {
+    let result: paper.PathItem = new scope.CompoundPath({ insert: false });
+    const radius = style.strokeWidth / 2;
+
+    for (const centerline of centerlines) {
+      const points = fitCenterline(scope, centerline, fitTolerance);
+      const rings = centerline.closed
+        ? getClosedOutline(points, radius, style.join)
+        : [getOpenOutline(points, radius, style, centerline.junctionEnds)];
+
+      const paths = rings
+        .filter(ring => ring.length >= 3)
+        .map(ring => new scope.Path({ segments: ring.map(point => [point.x, point.y]), closed: true, insert: false }));
+      if (paths.length === 0) continue;
+
+      const shape = paths.length === 1 ? paths[0] : new scope.CompoundPath({ children: paths, insert: false });
+      result = result.unite(shape, { insert: false });
+    }
+
+    // The union keeps every polygon corner; fit curves through them
+    simplifyPathItem(scope, result, SIMPLIFY_TOLERANCE);
+
+    return segmentsToPath(parsePathData(result.pathData));
+  } finally {
+    scope.project.remove();
+  }
+}
+
+/**
+ * Zhang-Suen thinning: peels ink off the outside in alternating passes until
+ * only one-pixel-wide lines remain, keeping line ends and connectivity
+ */
+function thinBitmap(grid: SkeletonGrid): SkeletonGrid {
+  const { width, pixels } = grid;
+  let candidates = collectPixels(pixels);
+  const offsets = NEIGHBOR_STEPS.map(([dx, dy]) => dy * width + dx);
+  const n = new Uint8Array(8);
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const pass of [0, 1]) {
+      const removable = candidates.filter(index => {
+        let count = 0;
+        for (let i = 0; i < 8; i++) {
+          n[i] = pixels[index + offsets[i]];
+          count += n[i];
+        }
+        if (count < 2 || count > 6) return false;
+
+        let transitions = 0;
+        for (let i = 0; i < 8; i++) {
+          if (n[i] === 0 && n[(i + 1) % 8] === 1) transitions++;
+        }
+        if (transitions !== 1) return false;
+
+        // n: 0=N 2=E 4=S 6=W
+        return pass === 0
+          ? n[0] * n[2] * n[4] === 0 && n[2] * n[4] * n[6] === 0
+          : n[0] * n[2] * n[6] === 0 && n[0] * n[4] * n[6] === 0;
+      });
+
+      removable.forEach(index => { pixels[index] = 0; });
+      if (removable.length > 0) {
+        changed = true;
+        candidates = candidates.filter(index => pixels[index] === 1);
+      }
+    }
+  }
+
+  return grid;
+}
+
+/**
+ * Removes corner pixels of diagonal steps, whose two neighbours already touch,
+ * so every pixel along a line has exactly two neighbours
+ */
+function removeStaircasePixels({ width, pixels }: SkeletonGrid): void {
+  const at = (index: number, direction: number) => {
+    const [dx, dy] = NEIGHBOR_STEPS[direction];
+    return pixels[index + dy * width + dx];
+  };
+
+  for (const index of collectPixels(pixels)) {
+    // For each pair of perpendicular neighbours, the three pixels opposite must be empty
+    for (const direction of [0, 2, 4, 6]) {
+      const next = (direction + 2) % 8;
+      if (at(index, direction) && at(index, next)
+        && !at(index, (direction + 4) % 8) && !at(index, (direction + 5) % 8) && !at(index, (direction + 6) % 8)) {
+        pixels[index] = 0;
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Thinning can erase small round blobs like the dot of an i entirely; each
+ * blob of ink without a skeleton pixel gets one at its thickest point
+ */
+function restoreErasedBlobs(ink: Uint8Array, { width, pixels }: SkeletonGrid, distances: Float32Array): void {
+  const offsets = NEIGHBOR_STEPS.map(([dx, dy]) => dy * width + dx);
+  const seen = new Uint8Array(ink.length);
+
+  for (const start of collectPixels(ink)) {
+    if (seen[start]) continue;
+
+    let hasSkeleton = false;
+    let thickest = start;
+    const stack = [start];
+    seen[start] = 1;
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      if (pixels[index]) hasSkeleton = true;
+      if (distances[index] > distances[thickest]) thickest = index;
+      for (const offset of offsets) {
+        const neighbor = index + offset;
+        if (ink[neighbor] && !seen[neighbor]) {
+          seen[neighbor] = 1;
+          stack.push(neighbor);
+        }
+      }
+    }
+
+    if (!hasSkeleton) pixels[thickest] = 1;
+  }
+}
+
+/**
+ * Splits the skeleton into edges between nodes: line ends, and junctions (touching
+ * junction pixels form one node). Rings without any node become closed edges.
+ */
+function buildSkeletonGraph({ width, pixels }: SkeletonGrid): {
+  edges: SkeletonEdge[];
+  nodePixels: Map<number, Point>; // Junction node centres
+  junctionNodes: Set<number>;
+} {
+  const offsets = NEIGHBOR_STEPS.map(([dx, dy]) => dy * width + dx);
+  const neighbors = (index: number) => offsets.map(offset => index + offset).filter(n => pixels[n] === 1);
+  const nodeIds = new Int32Array(pixels.length).fill(-1);
+  const visited = new Uint8Array(pixels.length);
+  const nodePixels = new Map<number, Point>();
+  const junctionNodes = new Set<number>();
+  const edges: SkeletonEdge[] = [];
+  let nextNodeId = 0;
+
+  const allPixels = collectPixels(pixels);
+
+  // Number the nodes, grouping touching junction pixels
+  for (const index of allPixels) {
+    const degree = neighbors(index).length;
+    if (degree === 2 || nodeIds[index] >= 0) continue;
+
+    const nodeId = nextNodeId++;
+    if (degree < 3) {
+      nodeIds[index] = nodeId;
+      continue;
+    }
+
+    const cluster = [index];
+    nodeIds[index] = nodeId;
+    for (let i = 0; i < cluster.length; i++) {
+      for (const neighbor of neighbors(cluster[i])) {
+        if (nodeIds[neighbor] < 0 && neighbors(neighbor).length >= 3) {
+          nodeIds[neighbor] = nodeId;
+          cluster.push(neighbor);
+        }
+      }
+    }
+    const centers = cluster.map(pixel => pixelCenter(pixel, width));
+    nodePixels.set(nodeId, {
+      x: centers.reduce((sum, point) => sum + point.x, 0) / centers.length,
+      y: centers.reduce((sum, point) => sum + point.y, 0) / centers.length
+    });
+    junctionNodes.add(nodeId);
+  }
+
+  // Walk from every node along each line leaving it
+  for (const index of allPixels) {
+    if (nodeIds[index] < 0) continue;
+
+    const lineNeighbors = neighbors(index);
+    if (lineNeighbors.length === 0) {
+      edges.push({ pixels: [index], start: nodeIds[index], end: nodeIds[index], closed: false });
+      continue;
+    }
+
+    for (const first of lineNeighbors) {
+      if (nodeIds[first] >= 0) {
+        // Two nodes side by side; link them once
+        if (nodeIds[first] !== nodeIds[index] && index < first) {
+          edges.push({ pixels: [index, first], start: nodeIds[index], end: nodeIds[first], closed: false });
+        }
+        continue;
+      }
+      if (visited[first]) continue;
+
+      const path = [index, first];
+      visited[first] = 1;
+      let previous = index;
+      let current = first;
+      for (;;) {
+        const next = neighbors(current).find(n => n !== previous && (nodeIds[n] >= 0 || !visited[n]));
+        if (next === undefined) break;
+        path.push(next);
+        if (nodeIds[next] >= 0) break;
+        visited[next] = 1;
+        previous = current;
+        current = next;
+      }
+
+      const last = path[path.length - 1];
+      edges.push({ pixels: path, start: nodeIds[index], end: nodeIds[last] >= 0 ? nodeIds[last] : -1, closed: false });
+    }
+  }
+
+  // Whatever is left are rings like the bowl of an O
+  for (const index of allPixels) {
+    if (nodeIds[index] >= 0 || visited[index]) continue;
+
+    const path = [index];
+    visited[index] = 1;
+    let previous = index;
+    let current = neighbors(index)[0];
+    while (current !== undefined && current !== index) {
+      path.push(current);
+      visited[current] = 1;
+      const from = previous;
+      previous = current;
+      current = neighbors(current).find(n => n !== from && (n === index || !visited[n]))!;
+    }
+    edges.push({ pixels: path, start: -1, end: -1, closed: current === index });
+  }
+
+  return { edges, nodePixels, junctionNodes };
+}
+
+/**
+ * Drops short branches from a junction to a free end; thinning leaves these
+ * at corners and on bumps in the ink outline. Such a spur runs from the middle
+ * of the stroke to its edge, so its reach (length plus the ink radius at its
+ * tip) barely passes the ink radius where it branches off; the spur into the
+ * point of a sharp corner reaches well beyond it.
+ */
+function pruneSpurs(edges: SkeletonEdge[], junctionNodes: Set<number>, distances: Float32Array): SkeletonEdge[] {
+  return edges.filter(edge => {
+    const length = edge.pixels.length;
+    const startsAtJunction = junctionNodes.has(edge.start);
+    const endsAtJunction = junctionNodes.has(edge.end);
+    if (startsAtJunction === endsAtJunction) {
+      // A loop back to its own junction too small to go round a counter
+      if (startsAtJunction && edge.start === edge.end) {
+        const loopRadius = edge.pixels.reduce((max, index) => Math.max(max, distances[index]), 0);
+        return length >= 2 * Math.PI * loopRadius;
+      }
+      return true;
+    }
+
+    const junctionPixel = startsAtJunction ? edge.pixels[0] : edge.pixels[length - 1];
+    const tipPixel = startsAtJunction ? edge.pixels[length - 1] : edge.pixels[0];
+    return length + distances[tipPixel] >= distances[junctionPixel] * SPUR_REACH_RATIO;
+  });
+}
+
+/**
+ * Joins edges through junctions that only two edges still meet at, so the
+ * curve runs on through them; a lone edge meeting itself becomes a ring
+ */
+function mergeEdges(edges: SkeletonEdge[], junctionNodes: Set<number>): SkeletonEdge[] {
+  const result = [...edges];
+
+  for (const node of junctionNodes) {
+    const incident = result.filter(edge => !edge.closed && (edge.start === node || edge.end === node));
+    const ends = incident.reduce((count, edge) => count + (edge.start === node ? 1 : 0) + (edge.end === node ? 1 : 0), 0);
+    if (ends !== 2) continue;
+
+    if (incident.length === 1) {
+      incident[0].closed = true;
+      incident[0].pixels = incident[0].pixels.slice(0, -1);
+      continue;
+    }
+
+    const [first, second] = incident;
+    const head = first.end === node ? first.pixels : [...first.pixels].reverse();
+    const tail = second.start === node ? second.pixels : [...second.pixels].reverse();
+    const merged: SkeletonEdge = {
+      pixels: [...head, ...tail.slice(1)],
+      start: first.end === node ? first.start : first.end,
+      end: second.start === node ? second.end : second.start,
+      closed: false
+    };
+    result.splice(result.indexOf(first), 1);
+    result.splice(result.indexOf(second), 1, merged);
+    junctionNodes.delete(node);
+  }
+
+  return result;
+}
+
+/**
+ * Fits curves to a centre line between its corners and flattens them again,
+ * leaving a clean polyline with the corners as exact vertices
+ */
+function fitCenterline(scope: paper.PaperScope, centerline: Centerline, tolerance: number): Point[] {
+  const { points, closed } = centerline;
+  if (points.length < 3) return points;
+
+  const fitPiece = (piece: Point[], pieceClosed: boolean): Point[] => {
+    const path = new scope.Path({ segments: piece.map(point => [point.x, point.y]), closed: pieceClosed, insert: false });
+    path.simplify(tolerance);
+    path.flatten(FLATTEN_TOLERANCE);
+    return path.segments.map(segment => ({ x: segment.point.x, y: segment.point.y }));
+  };
+
+  const corners = [...centerline.corners].sort((a, b) => a - b);
+  if (corners.length === 0) return fitPiece(points, closed);
+
+  // Cut at the corners; a ring starts and ends at its first corner
+  const stops = closed ? [...corners, corners[0] + points.length] : [0, ...corners, points.length - 1];
+  const result: Point[] = [];
+  for (let i = 0; i < stops.length - 1; i++) {
+    const piece: Point[] = [];
+    for (let index = stops[i]; index <= stops[i + 1]; index++) {
+      piece.push(points[index % points.length]);
+    }
+    const fitted = fitPiece(piece, false);
+    result.push(...(i === 0 ? fitted : fitted.slice(1)));
+  }
+  return closed ? result.slice(0, -1) : result;
+}
+
+/**
+ * Outline of an open centre line: one side, the end cap, the other side back
+ * and the start cap. Inside corners cross over themselves; the union resolves that.
+ */
+function getOpenOutline(points: Point[], radius: number, style: CenterlineStyle, junctionEnds: [boolean, boolean]): Point[] {
+  const line = dedupePoints(points, false);
+
+  // A dot
+  if (line.length === 1) {
+    const [center] = line;
+    if (style.cap === 'square') {
+      return [
+        { x: center.x - radius, y: center.y - radius },
+        { x: center.x + radius, y: center.y - radius },
+        { x: center.x + radius, y: center.y + radius },
+        { x: center.x - radius, y: center.y + radius }
+      ];
+    }
+    return getArc(center, radius, 0, 2 * Math.PI).slice(0, -1);
+  }
+
+  const normals = getSegmentNormals(line, false);
+  const last = line.length - 1;
+  const left = offsetSide(line, radius, style.join, false);
+  const right = offsetSide([...line].reverse(), radius, style.join, false);
+
+  const endCap = getCap(line[last], normals[normals.length - 1], radius, junctionEnds[1] ? 'round' : style.cap);
+  const startCap = getCap(line[0], { x: -normals[0].x, y: -normals[0].y }, radius, junctionEnds[0] ? 'round' : style.cap);
+  return [...left, ...endCap, ...right, ...startCap];
+}
+
+/**
+ * Outline of a ring: the two sides as separate contours winding opposite ways
+ */
+function getClosedOutline(points: Point[], radius: number, join: StrokeJoin): Point[][] {
+  const ring = dedupePoints(points, true);
+  if (ring.length < 3) return [];
+  return [offsetSide(ring, radius, join, true), offsetSide([...ring].reverse(), radius, join, true)];
+}
+
+/**
+ * Offsets the left-hand side of a polyline by the radius, adding the join on
+ * the outside of each turn; the right-hand side is the reversed line's left
+ */
+function offsetSide(line: Point[], radius: number, join: StrokeJoin, closed: boolean): Point[] {
+  const normals = getSegmentNormals(line, closed);
+  const offset = (point: Point, normal: Point) => ({ x: point.x + normal.x * radius, y: point.y + normal.y * radius });
+  const count = line.length;
+  const side: Point[] = [];
+
+  if (!closed) side.push(offset(line[0], normals[0]));
+
+  for (let index = closed ? 0 : 1; index < (closed ? count : count - 1); index++) {
+    const point = line[index];
+    const before = normals[(index - 1 + normals.length) % normals.length];
+    const after = normals[index];
+    // Turning away from this side leaves a gap to fill with the join
+    const turn = before.x * after.y - before.y * after.x;
+    const dot = before.x * after.x + before.y * after.y;
+    const angle = Math.atan2(turn, dot);
+    const bisector = normalize({ x: before.x + after.x, y: before.y + after.y });
+    if (turn <= 0 || dot > 0.9999) {
+      // Inside a turn the two offset segments cross; meet them where they do
+      // unless that cuts back past either segment, and leave the loop to the union
+      const setback = radius * Math.tan(Math.abs(angle) / 2);
+      const previous = line[(index - 1 + count) % count];
+      const next = line[(index + 1) % count];
+      if (setback <= Math.min(distance(previous, point), distance(point, next))) {
+        const length = radius / Math.cos(angle / 2);
+        side.push({ x: point.x + bisector.x * length, y: point.y + bisector.y * length });
+      } else {
+        side.push(offset(point, before), offset(point, after));
+      }
+      continue;
+    }
+
+    if (join === 'round') {
+      side.push(...getArc(point, radius, Math.atan2(before.y, before.x), angle));
+    } else if (join === 'miter' && 1 / Math.cos(angle / 2) <= MITER_LIMIT) {
+      const length = radius / Math.cos(angle / 2);
+      side.push({ x: point.x + bisector.x * length, y: point.y + bisector.y * length });
+    } else {
+      side.push(offset(point, before), offset(point, after));
+    }
+  }
+
+  if (!closed) side.push(offset(line[count - 1], normals[normals.length - 1]));
+  return side;
+}
+
+/**
+ * Cap around a line end, sweeping from the side at `normal` to the opposite side
+ */
+function getCap(point: Point, normal: Point, radius: number, cap: StrokeCap): Point[] {
+  const direction = { x: -normal.y, y: normal.x };
+  if (cap === 'butt') return [];
+  if (cap === 'square') {
+    return [
+      { x: point.x + (normal.x + direction.x) * radius, y: point.y + (normal.y + direction.y) * radius },
+      { x: point.x + (direction.x - normal.x) * radius, y: point.y + (direction.y - normal.y) * radius }
+    ];
+  }
+  return getArc(point, radius, Math.atan2(normal.y, normal.x), Math.PI).slice(1, -1);
+}
+
+/**
+ * Left-hand unit normal of each segment, from line[i] to line[i + 1] (wrapping
+ * round for rings); with y pointing down, a positive turn from one normal to
+ * the next bends the line to the right
+ */
+function getSegmentNormals(line: Point[], closed: boolean): Point[] {
+  const count = closed ? line.length : line.length - 1;
+  return Array.from({ length: count }, (_, index) => {
+    const from = line[index];
+    const to = line[(index + 1) % line.length];
+    const direction = normalize({ x: to.x - from.x, y: to.y - from.y });
+    return { x: direction.y, y: -direction.x };
+  });
+}
+
+function getArc(center: Point, radius: number, startAngle: number, sweep: number): Point[] {
+  const steps = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2) * ROUND_STEPS_PER_QUARTER));
+  return Array.from({ length: steps + 1 }, (_, step) => {
+    const angle = startAngle + (sweep * step) / steps;
+    return { x: center.x + Math.cos(angle) * radius, y: center.y + Math.sin(angle) * radius };
+  });
+}
+
+/**
+ * Chamfer distance from each ink pixel to the nearest background pixel
+ */
+function getDistanceField(ink: Uint8Array, width: number, height: number): Float32Array {
+  const distances = new Float32Array(ink.length);
+  const diagonal = Math.SQRT2;
+  ink.forEach((value, index) => { distances[index] = value ? Infinity : 0; });
+
+  const relax = (index: number, neighbor: number, step: number) => {
+    if (distances[neighbor] + step < distances[index]) distances[index] = distances[neighbor] + step;
+  };
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const index = y * width + x;
+      if (!ink[index]) continue;
+      relax(index, index - 1, 1);
+      relax(index, index - width, 1);
+      relax(index, index - width - 1, diagonal);
+      relax(index, index - width + 1, diagonal);
+    }
+  }
+  for (let y = height - 2; y > 0; y--) {
+    for (let x = width - 2; x > 0; x--) {
+      const index = y * width + x;
+      if (!ink[index]) continue;
+      relax(index, index + 1, 1);
+      relax(index, index + width, 1);
+      relax(index, index + width + 1, diagonal);
+      relax(index, index + width - 1, diagonal);
+    }
+  }
+  return distances;
+}
+
+function collectPixels(pixels: Uint8Array): number[] {
+  const indices: number[] = [];
+  pixels.forEach((value, index) => {
+    if (value) indices.push(index);
+  });
+  return indices;
+}
+
+function pixelCenter(index: number, width: number): Point {
+  return { x: (index % width) + 0.5, y: Math.floor(index / width) + 0.5 };
+}
+
+function dedupePoints(points: Point[], closed: boolean): Point[] {
+  const result = points.filter((point, index) =>
+    index === 0 || distance(point, points[index - 1]) > 1e-6
+  );
+  if (closed && result.length > 1) {
+    const first = result[0];
+    const last = result[result.length - 1];
+    if (distance(first, last) <= 1e-6) result.pop();
+  }
+  return result;
+}
+
+function normalize(vector: Point): Point {
+  const length = Math.hypot(vector.x, vector.y) || 1;
+  return { x: vector.x / length, y: vector.y / length };
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
@@ -0,0 +1,68 @@
+// Collects files from a drag-and-drop, descending into dropped folders
+
+// Operating system clutter that tags along when a folder is dropped or zipped
+const IGNORED_FILES = new Set(['.DS_Store', 'Thumbs.db', 'desktop.ini']);
+
+/**
+ * Whether a file or folder path is operating system metadata: Finder and
+ * Explorer files, macOS resource forks (._A.png, __MACOSX/) and hidden folders
+ */
+export function isSystemFile(path: string): boolean {
+  const parts = path.split('/').filter(Boolean);
+  const name = parts[parts.length - 1] ?? '';
+  return IGNORED_FILES.has(name)
+    || name.startsWith('._')
+    || parts.slice(0, -1).some(folder => folder.startsWith('.') || folder === '__MACOSX');
+}
+
+/**
+ * Every file in a drop; folders are read recursively where the browser
+ * supports directory entries, otherwise only the top-level files are returned
+ */
+export async function getDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  // Entries have to be taken synchronously, before the drop event ends
+  const entries = Array.from(dataTransfer.items ?? [])
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.() ?? null);
+
+  if (entries.length === 0 || entries.some(entry => entry === null)) {
+    return Array.from(dataTransfer.files);
+  }
+
+  const files = await Promise.all(entries.map(entry => readEntry(entry!)));
+  return files.flat();
+}
+
+async function readEntry(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    if (isSystemFile(entry.name)) return [];
+    const file = await new Promise<File>((resolve, reject) => {
+      (entry as FileSystemFileEntry).file(resolve, reject);
+    });
+    return [file];
+  }
+
+  if (entry.isDirectory && !entry.name.startsWith('.') && entry.name !== '__MACOSX') {
+    const children = await readDirectory(entry as FileSystemDirectoryEntry);
+    const files = await Promise.all(children.map(readEntry));
+    return files.flat();
+  }
+
+  return [];
+}
+
+/**
+ * A directory reader hands entries out in batches until it returns an empty one
+ */
+async function readDirectory(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+
+  while (true) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => {
+      reader.readEntries(resolve, reject);
+    });
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+}
@@ -0,0 +1,48 @@
+import { APP_CONFIG, FileUploadEvent } from '../types';
+
+export interface FileValidationResult {
+  isValid: boolean;
+  reason?: string;
+}
+
+/**
+ * Checks an uploaded image against the supported formats and size limit
+ */
+export function validateFile(file: File): FileValidationResult {
+  if (!APP_CONFIG.SUPPORTED_FORMATS.includes(file.type as any)) {
+    return { isValid: false, reason: `Unsupported file type${file.type ? ` (${file.type})` : ''}` };
+  }
+
+  if (file.size > APP_CONFIG.MAX_FILE_SIZE) {
+    const limitMb = Math.round(APP_CONFIG.MAX_FILE_SIZE / 1024 / 1024);
+    return { isValid: false, reason: `Larger than ${limitMb}MB` };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Validates a batch of files; anything past the per-upload limit is rejected too
+ */
+export function validateFiles(files: File[], maxFiles: number = APP_CONFIG.MAX_FILES_PER_UPLOAD): FileUploadEvent {
+  const validFiles: File[] = [];
+  const invalidFiles: FileUploadEvent['invalidFiles'] = [];
+
+  for (const file of files) {
+    const result = validateFile(file);
+    if (!result.isValid) {
+      invalidFiles.push({ file, reason: result.reason ?? 'Invalid file' });
+    } else if (validFiles.length >= maxFiles) {
+      invalidFiles.push({ file, reason: `Over the ${maxFiles}-file upload limit` });
+    } else {
+      validFiles.push(file);
+    }
+  }
+
+  return {
+    files,
+    totalSize: files.reduce((sum, file) => sum + file.size, 0),
+    validFiles,
+    invalidFiles
+  };
+}
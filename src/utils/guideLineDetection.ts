@@ -0,0 +1,156 @@
+// Guide line detection for scanned glyphs written on ruled paper
+import type { GlyphVerticalFrame } from '@/types';
+import { getCanvasContext, ProcessingCanvas } from './imagePreprocessing';
+
+export interface DetectedGuideLine {
+  y: number;         // Center row in image pixels
+  top: number;       // First row of the line
+  bottom: number;    // Last row of the line
+  coverage: number;  // Fraction of the row width that is dark (0-1)
+}
+
+export interface GuideDetectionOptions {
+  darkThreshold?: number;  // Grayscale value below which a pixel counts as ink
+  minCoverage?: number;    // Minimum dark fraction for a row to count as a guide
+  maxThickness?: number;   // Thicker dark bands are treated as ink, not guides
+}
+
+const DEFAULT_GUIDE_OPTIONS: Required<GuideDetectionOptions> = {
+  darkThreshold: 160,
+  minCoverage: 0.6,
+  maxThickness: 8
+};
+
+/**
+ * Finds horizontal guide lines: thin bands of rows that are dark across most of the image width
+ */
+export function detectGuideLines(
+  imageData: ImageData,
+  options: GuideDetectionOptions = {}
+): DetectedGuideLine[] {
+  const { darkThreshold, minCoverage, maxThickness } = { ...DEFAULT_GUIDE_OPTIONS, ...options };
+  const { width, height, data } = imageData;
+
+  // Dark pixel coverage for every row
+  const rowCoverage: number[] = [];
+  for (let y = 0; y < height; y++) {
+    let dark = 0;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const grayscale = (data[i] + data[i + 1] + data[i + 2]) / 3;
+      if (grayscale < darkThreshold) dark++;
+    }
+    rowCoverage.push(dark / width);
+  }
+
+  // Group consecutive qualifying rows into lines
+  const lines: DetectedGuideLine[] = [];
+  let y = 0;
+  while (y < height) {
+    if (rowCoverage[y] < minCoverage) {
+      y++;
+      continue;
+    }
+
+    const top = y;
+    let coverageSum = 0;
+    while (y < height && rowCoverage[y] >= minCoverage) {
+      coverageSum += rowCoverage[y];
+      y++;
+    }
+    const bottom = y - 1;
+    const thickness = bottom - top + 1;
+
+    if (thickness <= maxThickness) {
+      lines.push({
+        y: (top + bottom) / 2,
+        top,
+        bottom,
+        coverage: coverageSum / thickness
+      });
+    }
+  }
+
+  console.log(`📏 Detected ${lines.length} guide line(s)`, lines.map(line => line.y));
+  return lines;
+}
+
+/**
+ * Paints guide lines out of a canvas so they are not traced as part of the glyph.
+ * Columns where ink continues directly above or below the line are kept, so
+ * strokes that cross a guide stay connected.
+ */
+export function removeGuideLines(
+  canvas: ProcessingCanvas,
+  lines: DetectedGuideLine[],
+  options: GuideDetectionOptions = {}
+): void {
+  if (lines.length === 0) return;
+
+  const { darkThreshold } = { ...DEFAULT_GUIDE_OPTIONS, ...options };
+  const ctx = getCanvasContext(canvas);
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { width, height, data } = imageData;
+
+  const isDark = (x: number, y: number): boolean => {
+    if (y < 0 || y >= height) return false;
+    const i = (y * width + x) * 4;
+    return (data[i] + data[i + 1] + data[i + 2]) / 3 < darkThreshold;
+  };
+
+  for (const line of lines) {
+    for (let x = 0; x < width; x++) {
+      if (isDark(x, line.top - 1) && isDark(x, line.bottom + 1)) {
+        continue; // A stroke crosses the guide here
+      }
+      for (let y = line.top; y <= line.bottom; y++) {
+        const i = (y * width + x) * 4;
+        data[i] = data[i + 1] = data[i + 2] = 255;
+      }
+    }
+  }
+
+  ctx.putImageData(imageData, 0, 0);
+}
+
+/**
+ * Builds a glyph frame from detected guide lines (ordered top to bottom):
+ * - 1 line: baseline only; cap and x-height follow the font's proportions
+ * - 2 lines: cap-height and baseline
+ * - 3+ lines: cap-height, x-height and baseline (a 4th line is the descender guide)
+ *
+ * toFrameY maps an image row into the glyph's SVG coordinates
+ */
+export function guideLinesToFrame(
+  lines: DetectedGuideLine[],
+  toFrameY: (imageY: number) => number,
+  proportions: { capHeight: number; xHeight: number }
+): GlyphVerticalFrame | null {
+  if (lines.length === 0) return null;
+
+  const ys = lines.map(line => toFrameY(line.y)).sort((a, b) => a - b);
+  const xRatio = proportions.capHeight > 0 ? proportions.xHeight / proportions.capHeight : 0.7;
+
+  let baseline: number;
+  let capHeight: number;
+  let xHeight: number;
+
+  if (ys.length === 1) {
+    baseline = ys[0];
+    // Without a second line, fall back to the normalized content height
+    capHeight = baseline - 160;
+    xHeight = baseline - 160 * xRatio;
+  } else if (ys.length === 2) {
+    [capHeight, baseline] = ys;
+    xHeight = baseline - (baseline - capHeight) * xRatio;
+  } else {
+    [capHeight, xHeight, baseline] = ys;
+  }
+
+  return {
+    baseline: Math.round(baseline * 10) / 10,
+    xHeight: Math.round(xHeight * 10) / 10,
+    capHeight: Math.round(capHeight * 10) / 10,
+    source: 'guides'
+  };
+}
@@ -1,27 +1,83 @@
 // Image preprocessing utilities for vectorization
-import type { VectorizationQuality } from '@/types';
+import type { BinarizationSettings, VectorizationQuality } from '@/types';
+import { binarizeImage, flattenBackground } from './binarization';
+
+// Pipeline steps run on the main thread and in vectorization workers, which only have OffscreenCanvas
+export type ProcessingCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type ProcessingContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * Creates a canvas that works in the current thread
+ */
+export function createCanvas(width: number, height: number): ProcessingCanvas {
+  if (typeof document === 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+/**
+ * 2D context of either kind of canvas
+ */
+export function getCanvasContext(canvas: ProcessingCanvas): ProcessingContext {
+  const ctx = canvas.getContext('2d') as ProcessingContext | null;
+  if (!ctx) {
+    throw new Error('Unable to get canvas context');
+  }
+  return ctx;
+}
+
+/**
+ * Draws an ImageBitmap onto a new canvas
+ */
+export function bitmapToCanvas(bitmap: ImageBitmap): ProcessingCanvas {
+  const canvas = createCanvas(bitmap.width, bitmap.height);
+  getCanvasContext(canvas).drawImage(bitmap, 0, 0);
+  return canvas;
+}
+
+/**
+ * Encodes a canvas of either kind as an image file
+ */
+export function canvasToBlob(canvas: ProcessingCanvas, type = 'image/png'): Promise<Blob> {
+  if (typeof OffscreenCanvas !== 'undefined' && canvas instanceof OffscreenCanvas) {
+    return canvas.convertToBlob({ type });
+  }
+  return new Promise((resolve, reject) => {
+    (canvas as HTMLCanvasElement).toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Unable to encode canvas'));
+      }
+    }, type);
+  });
+}
 
 export interface PreprocessingOptions {
   quality: VectorizationQuality;
   targetSize?: number;
   contrastEnhancement?: number;
   noiseReduction?: boolean;
+  smoothingPasses?: number; // Gentle blur passes; one when unset
+  flattenBackground?: boolean; // Even out lighting before smoothing
+  binarization?: BinarizationSettings; // Leaves the image grey for the tracer to threshold when unset
+  manualThreshold?: number; // Grey level for manual binarization; 128 when unset
 }
 
 /**
  * Convert image to grayscale and enhance contrast for better vectorization
  */
 export function preprocessImage(
-  canvas: HTMLCanvasElement, 
+  canvas: ProcessingCanvas, 
   options: PreprocessingOptions
-): HTMLCanvasElement {
+): ProcessingCanvas {
   console.log('🔧 Preprocessing image for vectorization...', options);
   
-  const ctx = canvas.getContext('2d');
-  if (!ctx) {
-    throw new Error('Unable to get canvas context');
-  }
-
+  const ctx = getCanvasContext(canvas);
   const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
   const processedData = new ImageData(
     new Uint8ClampedArray(imageData.data),
@@ -33,9 +89,17 @@ export function preprocessImage(
   console.log('📝 Converting to grayscale...');
   toGrayscale(processedData);
 
+  // Step 1b: Divide out uneven lighting so paper reads as even white
+  if (options.flattenBackground) {
+    flattenBackground(processedData);
+  }
+
   // Step 2: Apply gentle smoothing to eliminate pixel irregularities causing jags
-  console.log('🔧 Applying gentle smoothing to eliminate pixel irregularities...');
-  applyGentleSmoothing(processedData);
+  const smoothingPasses = options.smoothingPasses ?? 1;
+  console.log(`🔧 Applying ${smoothingPasses} gentle smoothing pass(es) to eliminate pixel irregularities...`);
+  for (let pass = 0; pass < smoothingPasses; pass++) {
+    applyGentleSmoothing(processedData);
+  }
   
   // Step 3: Apply minimal noise reduction to clean edges
   if (options.quality === 'high' && options.noiseReduction !== false) {
@@ -43,12 +107,15 @@ export function preprocessImage(
     reduceNoise(processedData);
   }
 
+  // Step 3b: Split ink from paper, last so smoothing softens the edges it cuts
+  if (options.binarization) {
+    console.log(`⚫ Binarizing with ${options.binarization.method}...`);
+    binarizeImage(processedData, options.binarization, options.manualThreshold);
+  }
+
   // Step 4: Create new canvas with processed image
-  const processedCanvas = document.createElement('canvas');
-  processedCanvas.width = imageData.width;
-  processedCanvas.height = imageData.height;
-  const processedCtx = processedCanvas.getContext('2d')!;
-  processedCtx.putImageData(processedData, 0, 0);
+  const processedCanvas = createCanvas(imageData.width, imageData.height);
+  getCanvasContext(processedCanvas).putImageData(processedData, 0, 0);
 
   console.log('✅ Image preprocessing completed');
   return processedCanvas;
@@ -150,9 +217,9 @@ function reduceNoise(imageData: ImageData): void {
  * Resize image if it's too large for processing
  */
 export function resizeIfNeeded(
-  canvas: HTMLCanvasElement, 
+  canvas: ProcessingCanvas, 
   maxSize: number = 1024
-): HTMLCanvasElement {
+): ProcessingCanvas {
   const { width, height } = canvas;
   
   if (width <= maxSize && height <= maxSize) {
@@ -167,11 +234,9 @@ export function resizeIfNeeded(
   
   console.log(`📏 Resizing image: ${width}x${height} → ${newWidth}x${newHeight}`);
   
-  const resizedCanvas = document.createElement('canvas');
-  resizedCanvas.width = newWidth;
-  resizedCanvas.height = newHeight;
+  const resizedCanvas = createCanvas(newWidth, newHeight);
   
-  const ctx = resizedCanvas.getContext('2d')!;
+  const ctx = getCanvasContext(resizedCanvas);
   ctx.imageSmoothingEnabled = true;
   ctx.imageSmoothingQuality = 'high';
   ctx.drawImage(canvas, 0, 0, newWidth, newHeight);
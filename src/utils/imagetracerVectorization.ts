@@ -1,5 +1,11 @@
 // Professional vectorization using ImageTracer (industry standard)
-import type { VectorizationQuality, VectorizationParams } from '@/types';
+import type { VectorizationQuality, VectorizationParams, ImageTracerProfile, ProfileScore } from '@/types';
+import { getCanvasContext, ProcessingCanvas } from './imagePreprocessing';
+import { calculateOtsuThreshold, getGrayLevels } from './binarization';
+import { Centerline, CenterlineStyle, expandCenterlines, traceCenterlines } from './centerlineTracing';
+import { fitClosedContours } from './bezierFitting';
+import { Matrix, Point, getSignedArea, isPointInPolygon, parsePathData, segmentsToPath, transformSegments } from './svgFlattening';
+import { BinaryMask, countPathNodes, matchMasks, rasterizePath } from './traceScoring';
 // Use dynamic import to work around module export issues
 let ImageTracer: any;
 
@@ -113,7 +119,7 @@ export function getImageTracerSettings(quality: VectorizationQuality): ImageTrac
  * Vectorize using the optimized Trace Target Perfect method
  */
 export async function vectorizeWithTraceTargetPerfect(
-  canvas: HTMLCanvasElement,
+  canvas: ProcessingCanvas,
   params: VectorizationParams,
   onProgress?: (progress: number, message: string) => void
 ): Promise<string> {
@@ -127,7 +133,7 @@ export async function vectorizeWithTraceTargetPerfect(
 
   try {
     onProgress?.(30, 'Running vectorization method...');
-    const path = await vectorizeWithImageTracerMethod(canvas, params, "trace-target-perfect");
+    const path = await vectorizeWithImageTracerMethod(canvas, params, params.profile ?? 'trace-target-perfect');
 
     onProgress?.(100, 'Vectorization complete!');
     console.log('✅ Vectorization completed successfully');
@@ -139,12 +145,82 @@ export async function vectorizeWithTraceTargetPerfect(
   }
 }
 
+// Every profile, in the order a profile search tries them
+export const IMAGETRACER_PROFILES: ImageTracerProfile[] = [
+  'detail', 'smooth', 'balanced', 'detail-plus', 'smooth-fixed', 'reference-optimized',
+  'curve-enhanced', 'hole-preserving', 'perfect-hybrid', 'perfect-hybrid-plus', 'perfect-hybrid-v2',
+  'trace-target', 'trace-target-perfect', 'trace-target-final'
+];
+
+// A profile's score is its IoU less these costs per viewBox unit of edge
+// distance and per node, so a simpler path wins when the fit is as close
+export const PROFILE_SCORE_WEIGHTS = { edgeDistance: 0.02, node: 0.0002 };
+
+export interface ProfileSearchResult {
+  path: string;
+  profile: ImageTracerProfile;
+  scores: ProfileScore[]; // Best first
+}
+
+/**
+ * Traces with each ImageTracer profile, fills every result back into pixels
+ * and keeps the one that best matches the binarized source
+ */
+export async function vectorizeWithProfileSearch(
+  canvas: ProcessingCanvas,
+  params: VectorizationParams,
+  onProgress?: (progress: number, message: string) => void,
+  profiles: ImageTracerProfile[] = IMAGETRACER_PROFILES
+): Promise<ProfileSearchResult> {
+  console.log('🔎 [PROFILE SEARCH] Comparing ImageTracer profiles...', {
+    quality: params.quality.toUpperCase(),
+    profiles: profiles.length
+  });
+
+  onProgress?.(5, 'Binarizing source...');
+  const imageData = getCanvasContext(canvas).getImageData(0, 0, canvas.width, canvas.height);
+  const source = bitmapToMask(createBinaryBitmap(imageData, getThreshold(imageData, params)));
+
+  // Traced paths are normalized into the viewBox; map them back onto the source pixels
+  const { scale, offsetX, offsetY } = getCanvasNormalization(canvas.width, canvas.height);
+  const toPixels: Matrix = [1 / scale, 0, 0, 1 / scale, -offsetX / scale, -offsetY / scale];
+
+  const results: Array<{ path: string; score: ProfileScore }> = [];
+  for (let i = 0; i < profiles.length; i++) {
+    const profile = profiles[i];
+    onProgress?.(10 + (i / profiles.length) * 85, `Trying profile ${profile} (${i + 1}/${profiles.length})...`);
+
+    try {
+      const path = await vectorizeWithImageTracerMethod(canvas, { ...params, profile }, profile);
+      const nodeCount = countPathNodes(path);
+      const match = matchMasks(rasterizePath(path, canvas.width, canvas.height, toPixels), source, nodeCount);
+      const edgeDistance = match.edgeDistance * scale;
+      const score = match.iou - PROFILE_SCORE_WEIGHTS.edgeDistance * edgeDistance - PROFILE_SCORE_WEIGHTS.node * nodeCount;
+      results.push({ path, score: { profile, iou: match.iou, edgeDistance, nodeCount, score } });
+      console.log(`📊 [PROFILE SEARCH] ${profile}: IoU ${match.iou.toFixed(3)}, edge ${edgeDistance.toFixed(2)}, ${nodeCount} nodes → ${score.toFixed(3)}`);
+    } catch (error) {
+      console.warn(`⚠️ [PROFILE SEARCH] ${profile} failed:`, error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  if (results.length === 0) {
+    throw new Error('No ImageTracer profile produced a path');
+  }
+
+  results.sort((a, b) => b.score.score - a.score.score);
+  const best = results[0];
+  console.log(`🏆 [PROFILE SEARCH] ${best.score.profile} wins with ${best.score.score.toFixed(3)}`);
+
+  onProgress?.(100, `Best profile: ${best.score.profile}`);
+  return { path: best.path, profile: best.score.profile, scores: results.map(result => result.score) };
+}
+
 /**
  * Legacy function - Run multiple vectorization methods in parallel for comparison
  * @deprecated Use vectorizeWithTraceTargetPerfect instead
  */
 export async function vectorizeWithMultipleMethods(
-  canvas: HTMLCanvasElement,
+  canvas: ProcessingCanvas,
   params: VectorizationParams,
   onProgress?: (progress: number, message: string) => void
 ): Promise<{ method: string; path: string; label: string }[]> {
@@ -273,17 +349,14 @@ export async function vectorizeWithMultipleMethods(
  * ImageTracer vectorization with specific optimization profiles
  */
 async function vectorizeWithImageTracerMethod(
-  canvas: HTMLCanvasElement,
+  canvas: ProcessingCanvas,
   params: VectorizationParams,
-  profile: 'detail' | 'smooth' | 'balanced' | 'detail-plus' | 'smooth-fixed' | 'reference-optimized' | 'curve-enhanced' | 'hole-preserving' | 'perfect-hybrid' | 'perfect-hybrid-plus' | 'perfect-hybrid-v2' | 'trace-target' | 'trace-target-perfect' | 'trace-target-final'
+  profile: ImageTracerProfile
 ): Promise<string> {
-  const ctx = canvas.getContext('2d');
-  if (!ctx) {
-    throw new Error('Unable to get canvas context');
-  }
+  const ctx = getCanvasContext(canvas);
 
   const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-  const options = getOptimizedImageTracerSettings(params.quality, profile);
+  const options = { ...getOptimizedImageTracerSettings(params.quality, profile), ...params.imageTracer };
 
   console.log(`⚙️ [IMAGETRACER ${profile.toUpperCase()}] Options:`, options);
 
@@ -429,7 +502,7 @@ async function vectorizeWithImageTracerMethod(
  * Professional vectorization using ImageTracer library (industry standard)
  */
 export async function vectorizeWithPotrace(
-  canvas: HTMLCanvasElement,
+  canvas: ProcessingCanvas,
   params: VectorizationParams,
   onProgress?: (progress: number, message: string) => void
 ): Promise<string> {
@@ -442,13 +515,10 @@ export async function vectorizeWithPotrace(
   onProgress?.(10, 'Preparing image for ImageTracer...');
 
   try {
-    const ctx = canvas.getContext('2d');
-    if (!ctx) {
-      throw new Error('Unable to get canvas context');
-    }
+    const ctx = getCanvasContext(canvas);
 
     // Get professional ImageTracer settings
-    const imageTracerOptions = getProfessionalImageTracerSettings(params.quality);
+    const imageTracerOptions = { ...getProfessionalImageTracerSettings(params.quality), ...params.imageTracer };
     console.log(`⚙️ [IMAGETRACER PRO v1] Professional options:`, imageTracerOptions);
 
     onProgress?.(30, 'Converting canvas to ImageData...');
@@ -524,33 +594,66 @@ export async function vectorizeWithPotrace(
  * Fallback: Professional vectorization using Marching Squares algorithm
  */
 export async function vectorizeWithImageTracer(
-  canvas: HTMLCanvasElement,
+  canvas: ProcessingCanvas,
   params: VectorizationParams,
   onProgress?: (progress: number, message: string) => void
 ): Promise<string> {
-  console.log('🔬 [NEW CODE v2] Starting HIGH QUALITY vectorization...', {
-    quality: 'HIGH',
-    dimensions: `${canvas.width}x${canvas.height}`,
-    timestamp: new Date().toISOString()
+  const result = await vectorizeWithImageTracerDetailed(canvas, params, onProgress);
+  return result.path;
+}
+
+/**
+ * Size of the fitted outline: on-curve nodes, and how far the curves stray
+ * from the traced edge
+ */
+export interface CurveFitMetrics {
+  nodeCount: number;
+  maxDeviation: number; // Font units
+}
+
+// How far fitted outline curves may stray from the traced edge, in font units
+const CURVE_FIT_TOLERANCE: Record<VectorizationQuality, number> = {
+  fast: 8,
+  balanced: 4,
+  high: 2
+};
+
+// Font units per viewBox unit when the glyph's 160-unit content area is the
+// default 700-unit cap height
+const DEFAULT_FONT_UNITS_PER_VIEWBOX_UNIT = 700 / 160;
+
+/**
+ * Marching squares vectorization that also returns the transform used to map
+ * image pixels into the 200x200 viewBox (needed to place guide lines and anchors).
+ * The contours are fitted with Bézier curves within params.curveTolerance font
+ * units; the caller says how many font units a viewBox unit is once the
+ * transform is known, since guide lines can change the glyph's scale.
+ */
+export async function vectorizeWithImageTracerDetailed(
+  canvas: ProcessingCanvas,
+  params: VectorizationParams,
+  onProgress?: (progress: number, message: string) => void,
+  getFontUnitsPerViewBoxUnit: (transform: ViewBoxTransform) => number = () => DEFAULT_FONT_UNITS_PER_VIEWBOX_UNIT
+): Promise<{ path: string; transform: ViewBoxTransform | null; fit: CurveFitMetrics | null }> {
+  console.log('🔬 Starting marching squares vectorization...', {
+    quality: params.quality.toUpperCase(),
+    dimensions: `${canvas.width}x${canvas.height}`
   });
 
   onProgress?.(10, 'Preparing bitmap analysis...');
 
   try {
-    const ctx = canvas.getContext('2d');
-    if (!ctx) {
-      throw new Error('Unable to get canvas context');
-    }
+    const ctx = getCanvasContext(canvas);
 
     // Get image data
     const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
 
     onProgress?.(20, 'Converting to binary bitmap...');
 
-    // Convert to binary bitmap with adaptive thresholding
-    const adaptiveThreshold = calculateAdaptiveThreshold(imageData);
-    console.log(`🎯 [ADAPTIVE THRESHOLD v3] Using threshold: ${adaptiveThreshold} (instead of fixed 128)`);
-    const bitmap = createBinaryBitmap(imageData, adaptiveThreshold);
+    // Convert to binary bitmap with adaptive thresholding, unless a threshold is set
+    const threshold = getThreshold(imageData, params);
+    console.log(`🎯 [ADAPTIVE THRESHOLD v3] Using threshold: ${threshold}${params.threshold === undefined ? ' (automatic)' : ' (manual)'}`);
+    const bitmap = createBinaryBitmap(imageData, threshold);
 
     // Store bitmap for debugging (global variable)
     (globalThis as any).lastProcessedBitmap = bitmap;
@@ -559,30 +662,46 @@ export async function vectorizeWithImageTracer(
     onProgress?.(40, 'Tracing contours with marching squares...');
 
     // Apply marching squares algorithm
-    const contours = marchingSquares(bitmap);
+    const contours = findSignificantContours(marchingSquares(bitmap));
     console.log(`🔍 Found ${contours.length} contour(s)`);
 
     if (contours.length === 0) {
       console.warn('⚠️ No contours found, creating default shape');
-      return 'M 50 50 L 150 50 L 150 150 L 50 150 Z';
+      return { path: 'M 50 50 L 150 50 L 150 150 L 50 150 Z', transform: null, fit: null };
     }
 
-    onProgress?.(70, 'Smoothing curves...');
-
-    // Convert the largest contour to SVG path
-    const largestContour = findLargestContour(contours);
-    const svgPath = contourToSVGPath(largestContour, params.quality);
+    onProgress?.(70, 'Fitting curves...');
+
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    contours.forEach(contour => contour.forEach(point => {
+      minX = Math.min(minX, point.x);
+      minY = Math.min(minY, point.y);
+      maxX = Math.max(maxX, point.x);
+      maxY = Math.max(maxY, point.y);
+    }));
+    const transform = getBoundsViewBoxTransform(minX, minY, maxX, maxY);
+    const fontUnitsPerPixel = transform.scale * getFontUnitsPerViewBoxUnit(transform);
+    const tolerance = params.curveTolerance ?? CURVE_FIT_TOLERANCE[params.quality];
+
+    const fit = fitClosedContours(orientContours(contours), {
+      tolerance: tolerance / fontUnitsPerPixel,
+      cornerAngle: params.cornerThreshold
+    });
 
     onProgress?.(90, 'Normalizing coordinates...');
 
     // Normalize to fit 200x200 viewBox
-    const normalizedPath = normalizeToViewBox(svgPath, canvas.width, canvas.height);
+    const { scale, offsetX, offsetY } = transform;
+    const normalizedPath = segmentsToPath(
+      transformSegments(fit.segments, [scale, 0, 0, scale, offsetX - minX * scale, offsetY - minY * scale])
+    );
+    const metrics: CurveFitMetrics = { nodeCount: fit.nodeCount, maxDeviation: fit.maxDeviation * fontUnitsPerPixel };
 
-    console.log('✅ Marching Squares vectorization completed');
+    console.log(`✅ Marching Squares vectorization completed: ${metrics.nodeCount} nodes, within ${metrics.maxDeviation.toFixed(1)} font units`);
     console.log('📐 Final path:', normalizedPath.substring(0, 100) + '...');
 
     onProgress?.(100, 'Vectorization complete!');
-    return normalizedPath;
+    return { path: normalizedPath, transform, fit: metrics };
   } catch (error) {
     console.error('❌ Marching Squares vectorization failed:', error);
     throw new Error(`Marching Squares failed: ${error}`);
@@ -590,65 +709,134 @@ export async function vectorizeWithImageTracer(
 }
 
 /**
- * Calculate adaptive threshold using Otsu's method
+ * Centre lines traced from a bitmap, in the 200x200 viewBox
  */
-function calculateAdaptiveThreshold(imageData: ImageData): number {
-  const { width, height, data } = imageData;
-
-  // Create histogram of grayscale values
-  const histogram = new Array(256).fill(0);
+export interface CenterlineTrace {
+  centerlines: Centerline[];
+  strokeWidth: number; // Measured ink width in viewBox units
+  transform: ViewBoxTransform | null;
+}
 
-  for (let i = 0; i < data.length; i += 4) {
-    const grayscale = Math.round((data[i] + data[i + 1] + data[i + 2]) / 3);
-    histogram[grayscale]++;
-  }
+// How far fitted centre curves may stray from the skeleton, in viewBox units
+const CENTERLINE_FIT_TOLERANCE: Record<VectorizationQuality, number> = {
+  fast: 1,
+  balanced: 0.6,
+  high: 0.35
+};
 
-  const totalPixels = width * height;
+/**
+ * Centerline tracing for monoline lettering: thins the ink to its skeleton and
+ * re-expands the fitted centre lines with one uniform pen width, so wobbly
+ * edges of a pen line don't end up in the outline. Without a stroke width the
+ * pen is as wide as the ink measured along the skeleton.
+ */
+export async function vectorizeWithCenterline(
+  canvas: ProcessingCanvas,
+  params: VectorizationParams,
+  style: Partial<CenterlineStyle> = {},
+  onProgress?: (progress: number, message: string) => void
+): Promise<string> {
+  const trace = await traceCenterlinesDetailed(canvas, params, onProgress);
+  onProgress?.(70, 'Fitting curves and expanding strokes...');
+  const path = await expandCenterlineTrace(trace, params, style);
+  onProgress?.(100, 'Vectorization complete!');
+  return path;
+}
 
-  // Otsu's method to find optimal threshold
-  let maxVariance = 0;
-  let bestThreshold = 128; // fallback
+/**
+ * Traces the centre lines of the ink and maps them into the 200x200 viewBox,
+ * fitting the ink's bounds into the content area as marching squares does
+ */
+export async function traceCenterlinesDetailed(
+  canvas: ProcessingCanvas,
+  params: VectorizationParams,
+  onProgress?: (progress: number, message: string) => void
+): Promise<CenterlineTrace> {
+  console.log('✏️ Starting centerline vectorization...', {
+    quality: params.quality.toUpperCase(),
+    dimensions: `${canvas.width}x${canvas.height}`
+  });
 
-  for (let threshold = 1; threshold < 255; threshold++) {
-    // Calculate weights
-    let w0 = 0, w1 = 0;
-    let sum0 = 0, sum1 = 0;
+  onProgress?.(10, 'Preparing bitmap analysis...');
 
-    // Background (dark pixels)
-    for (let i = 0; i < threshold; i++) {
-      w0 += histogram[i];
-      sum0 += i * histogram[i];
-    }
+  try {
+    const ctx = getCanvasContext(canvas);
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
 
-    // Foreground (light pixels)  
-    for (let i = threshold; i < 256; i++) {
-      w1 += histogram[i];
-      sum1 += i * histogram[i];
+    onProgress?.(20, 'Converting to binary bitmap...');
+    const bitmap = createBinaryBitmap(imageData, getThreshold(imageData, params));
+
+    // Ink pixel (x, y) covers x..x + 1
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    bitmap.forEach((row, y) => row.forEach((value, x) => {
+      if (!value) return;
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x + 1);
+      maxY = Math.max(maxY, y + 1);
+    }));
+
+    onProgress?.(40, 'Thinning strokes to centre lines...');
+    const { centerlines, strokeWidth } = traceCenterlines(bitmap, { cornerAngle: params.cornerThreshold });
+
+    if (centerlines.length === 0) {
+      console.warn('⚠️ No centre lines found');
+      return { centerlines: [], strokeWidth: 0, transform: null };
     }
 
-    if (w0 === 0 || w1 === 0) continue;
+    const transform = getBoundsViewBoxTransform(minX, minY, maxX, maxY);
+    const toViewBox = (point: { x: number; y: number }) => ({
+      x: (point.x - transform.minX) * transform.scale + transform.offsetX,
+      y: (point.y - transform.minY) * transform.scale + transform.offsetY
+    });
 
-    // Calculate means
-    const mean0 = sum0 / w0;
-    const mean1 = sum1 / w1;
+    return {
+      centerlines: centerlines.map(centerline => ({ ...centerline, points: centerline.points.map(toViewBox) })),
+      strokeWidth: strokeWidth * transform.scale,
+      transform
+    };
+  } catch (error) {
+    console.error('❌ Centerline tracing failed:', error);
+    throw new Error(`Centerline tracing failed: ${error}`);
+  }
+}
 
-    // Calculate between-class variance
-    const betweenClassVariance = (w0 / totalPixels) * (w1 / totalPixels) * Math.pow(mean0 - mean1, 2);
+/**
+ * Expands traced centre lines with a pen; unset style parts fall back to the
+ * measured width with round caps and joins
+ */
+export async function expandCenterlineTrace(
+  trace: CenterlineTrace,
+  params: VectorizationParams,
+  style: Partial<CenterlineStyle> = {}
+): Promise<string> {
+  const path = await expandCenterlines(
+    trace.centerlines,
+    {
+      strokeWidth: style.strokeWidth ?? trace.strokeWidth,
+      cap: style.cap ?? 'round',
+      join: style.join ?? 'round'
+    },
+    CENTERLINE_FIT_TOLERANCE[params.quality]
+  );
+  return path || 'M 50 50 L 150 50 L 150 150 L 50 150 Z';
+}
 
-    if (betweenClassVariance > maxVariance) {
-      maxVariance = betweenClassVariance;
-      bestThreshold = threshold;
-    }
-  }
+/**
+ * The params' manual threshold, or the image's adaptive one
+ */
+function getThreshold(imageData: ImageData, params: VectorizationParams): number {
+  if (params.threshold !== undefined) return params.threshold;
 
-  console.log(`📊 [OTSU v3] Threshold analysis: best=${bestThreshold}, variance=${maxVariance.toFixed(3)}`);
-  return bestThreshold;
+  const threshold = calculateOtsuThreshold(getGrayLevels(imageData));
+  console.log(`📊 [OTSU v3] Threshold analysis: best=${threshold}`);
+  return threshold;
 }
 
 /**
  * Get optimized ImageTracer settings for different profiles
  */
-function getOptimizedImageTracerSettings(quality: VectorizationQuality, profile: 'detail' | 'smooth' | 'balanced' | 'detail-plus' | 'smooth-fixed' | 'reference-optimized' | 'curve-enhanced' | 'hole-preserving' | 'perfect-hybrid' | 'perfect-hybrid-plus' | 'perfect-hybrid-v2' | 'trace-target' | 'trace-target-perfect' | 'trace-target-final') {
+function getOptimizedImageTracerSettings(quality: VectorizationQuality, profile: ImageTracerProfile) {
   const baseSettings = {
     colorsampling: 1,
     numberofcolors: 2, // Binary for letter shapes
@@ -1185,45 +1373,42 @@ function isBackgroundRectangle(pathSegment: string): boolean {
 }
 
 /**
- * Normalize ImageTracer path to fit 200x200 viewBox
+ * Scale and centering offset that fit a whole canvas (not just the drawn
+ * content) into the 160x160 content area of the 200x200 viewBox
  */
-function normalizeImageTracerPath(svgPath: string, originalWidth: number, originalHeight: number): string {
-  // ImageTracer produces paths in original image coordinates (0-400)
-  // We need to scale them to fit our 200x200 viewBox standard with padding
-
-  console.log(`📐 [IMAGETRACER PRO v1] Input path from ${originalWidth}x${originalHeight} image`);
-
+export function getCanvasNormalization(width: number, height: number): { scale: number; offsetX: number; offsetY: number } {
   const viewBoxSize = 200;
   const padding = 20;
   const contentSize = viewBoxSize - 2 * padding; // 160
 
   // Calculate scale factor to fit content area
-  const scale = Math.min(contentSize / originalWidth, contentSize / originalHeight);
+  const scale = Math.min(contentSize / width, contentSize / height);
 
   // Calculate centering offset
-  const scaledWidth = originalWidth * scale;
-  const scaledHeight = originalHeight * scale;
-  const offsetX = padding + (contentSize - scaledWidth) / 2;
-  const offsetY = padding + (contentSize - scaledHeight) / 2;
+  const offsetX = padding + (contentSize - width * scale) / 2;
+  const offsetY = padding + (contentSize - height * scale) / 2;
+
+  return { scale, offsetX, offsetY };
+}
+
+/**
+ * Normalize ImageTracer path to fit 200x200 viewBox
+ */
+function normalizeImageTracerPath(svgPath: string, originalWidth: number, originalHeight: number): string {
+  // ImageTracer produces paths in original image coordinates (0-400)
+  // We need to scale them to fit our 200x200 viewBox standard with padding
+
+  console.log(`📐 [IMAGETRACER PRO v1] Input path from ${originalWidth}x${originalHeight} image`);
+
+  const { scale, offsetX, offsetY } = getCanvasNormalization(originalWidth, originalHeight);
 
   console.log(`📐 [IMAGETRACER PRO v1] Normalization: scale=${scale.toFixed(3)}, offset=(${offsetX.toFixed(1)}, ${offsetY.toFixed(1)})`);
 
-  // Transform all coordinates in the path
-  const normalizedPath = svgPath.replace(/([ML])\s*([0-9.]+)\s+([0-9.]+)/g, (_match, command, x, y) => {
-    const newX = parseFloat(x) * scale + offsetX;
-    const newY = parseFloat(y) * scale + offsetY;
-    return `${command} ${newX.toFixed(1)} ${newY.toFixed(1)}`;
-  }).replace(/([LQ])\s*([0-9.]+)\s+([0-9.]+)/g, (_match, command, x, y) => {
-    const newX = parseFloat(x) * scale + offsetX;
-    const newY = parseFloat(y) * scale + offsetY;
-    return `${command} ${newX.toFixed(1)} ${newY.toFixed(1)}`;
-  }).replace(/Q\s*([0-9.]+)\s+([0-9.]+)\s+([0-9.]+)\s+([0-9.]+)/g, (_match, cx, cy, x, y) => {
-    const newCx = parseFloat(cx) * scale + offsetX;
-    const newCy = parseFloat(cy) * scale + offsetY;
-    const newX = parseFloat(x) * scale + offsetX;
-    const newY = parseFloat(y) * scale + offsetY;
-    return `Q ${newCx.toFixed(1)} ${newCy.toFixed(1)} ${newX.toFixed(1)} ${newY.toFixed(1)}`;
-  });
+  // Transform all coordinates in the path (quadratic curves come back as cubics)
+  const normalizedPath = segmentsToPath(
+    transformSegments(parsePathData(svgPath), [scale, 0, 0, scale, offsetX, offsetY]),
+    1
+  );
 
   console.log(`📐 [IMAGETRACER PRO v1] Normalized path preview: ${normalizedPath.substring(0, 100)}...`);
   return normalizedPath;
@@ -1288,6 +1473,19 @@ function createBinaryBitmap(imageData: ImageData, threshold: number): number[][]
   return bitmap;
 }
 
+/**
+ * Strips the padding border from a binary bitmap
+ */
+function bitmapToMask(bitmap: number[][]): BinaryMask {
+  const height = bitmap.length - 2;
+  const width = (bitmap[0]?.length ?? 2) - 2;
+  const data = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data[y * width + x] = bitmap[y + 1][x + 1];
+  }
+  return { width, height, data };
+}
+
 /**
  * Marching Squares lookup table - 16 cases for 2x2 neighborhoods
  */
@@ -1380,6 +1578,17 @@ function followContours(segments: Array<{ start: { x: number; y: number }; end:
   const contours: Array<Array<{ x: number; y: number }>> = [];
   const usedSegments = new Set<number>();
 
+  // Segment ends lie on a half-pixel grid; index the segments by their ends
+  const endKey = (point: { x: number; y: number }) => `${Math.round(point.x * 2)},${Math.round(point.y * 2)}`;
+  const segmentsByEnd = new Map<string, number[]>();
+  segments.forEach((segment, index) => {
+    for (const key of [endKey(segment.start), endKey(segment.end)]) {
+      const list = segmentsByEnd.get(key);
+      if (list) list.push(index);
+      else segmentsByEnd.set(key, [index]);
+    }
+  });
+
   for (let i = 0; i < segments.length; i++) {
     if (usedSegments.has(i)) continue;
 
@@ -1395,10 +1604,10 @@ function followContours(segments: Array<{ start: { x: number; y: number }; end:
     let foundConnection = true;
 
     // Follow the contour by finding connected segments
-    while (foundConnection && contour.length < 1000) { // Safety limit
+    while (foundConnection) {
       foundConnection = false;
 
-      for (let j = 0; j < segments.length; j++) {
+      for (const j of segmentsByEnd.get(endKey(lastPoint)) ?? []) {
         if (usedSegments.has(j)) continue;
 
         const segment = segments[j];
@@ -1441,9 +1650,10 @@ function pointsEqual(p1: { x: number; y: number }, p2: { x: number; y: number },
 }
 
 /**
- * Find the largest contour (most important shape)
+ * Picks the contours that make up the glyph: the largest, plus the next ones
+ * (counters, dots) that are at least 10% of its size
  */
-function findLargestContour(contours: Array<Array<{ x: number; y: number }>>): Array<{ x: number; y: number }> {
+function findSignificantContours(contours: Array<Array<{ x: number; y: number }>>): Array<Array<{ x: number; y: number }>> {
   if (contours.length === 0) {
     return [];
   }
@@ -1454,7 +1664,7 @@ function findLargestContour(contours: Array<Array<{ x: number; y: number }>>): A
     .sort((a, b) => b.length - a.length);
 
   if (sortedContours.length === 0) {
-    return contours[0] || [];
+    return [contours[0]];
   }
 
   // For letters like "A", we want both outer shape and inner holes
@@ -1472,225 +1682,39 @@ function findLargestContour(contours: Array<Array<{ x: number; y: number }>>): A
 
   console.log(`🎯 Selected ${significantContours.length} significant contour(s): ${significantContours.map(c => c.length).join(', ')} points`);
 
-  // Combine all significant contours into one
-  return combineContours(significantContours);
+  return significantContours;
 }
 
 /**
- * Generate smooth curve path using Bézier curves to eliminate spiky edges
+ * Turns outer contours clockwise and holes anticlockwise (on screen), so the
+ * nonzero fill rule used by SVG and fonts leaves counters open. A contour is a
+ * hole when an odd number of the others surround it.
  */
-function generateSmoothCurvePath(points: Array<{ x: number; y: number }>): string {
-  if (points.length < 2) {
-    return 'M 50 50 L 150 50 L 150 150 L 50 150 Z';
-  }
-
-  if (points.length === 2) {
-    return `M ${points[0].x.toFixed(1)} ${points[0].y.toFixed(1)} L ${points[1].x.toFixed(1)} ${points[1].y.toFixed(1)} Z`;
-  }
-
-  // Start the path
-  let path = `M ${points[0].x.toFixed(1)} ${points[0].y.toFixed(1)}`;
-
-  // Use cubic Bézier curves for smooth interpolation
-  for (let i = 1; i < points.length - 1; i++) {
-    const prev = points[i - 1];
-    const curr = points[i];
-    const next = points[i + 1];
-
-    // Calculate control points for smooth curves
-    const cp1 = calculateControlPoint(prev, curr, next, 0.3, false);
-    const cp2 = calculateControlPoint(prev, curr, next, 0.3, true);
-
-    if (i === 1) {
-      // First curve segment
-      path += ` C ${cp1.x.toFixed(1)} ${cp1.y.toFixed(1)} ${cp2.x.toFixed(1)} ${cp2.y.toFixed(1)} ${curr.x.toFixed(1)} ${curr.y.toFixed(1)}`;
-    } else {
-      // Subsequent curves
-      path += ` S ${cp2.x.toFixed(1)} ${cp2.y.toFixed(1)} ${curr.x.toFixed(1)} ${curr.y.toFixed(1)}`;
-    }
-  }
-
-  // Add final point
-  const lastPoint = points[points.length - 1];
-  path += ` L ${lastPoint.x.toFixed(1)} ${lastPoint.y.toFixed(1)}`;
-
-  // Close the path
-  path += ' Z';
-
-  return path;
-}
-
-/**
- * Calculate control point for smooth Bézier curves
- */
-function calculateControlPoint(
-  prev: { x: number; y: number },
-  curr: { x: number; y: number },
-  next: { x: number; y: number },
-  tension: number,
-  reverse: boolean
-): { x: number; y: number } {
-  // Calculate the direction vector
-  const dx = next.x - prev.x;
-  const dy = next.y - prev.y;
-
-  // Apply tension and direction
-  const factor = reverse ? -tension : tension;
-
-  return {
-    x: curr.x + dx * factor,
-    y: curr.y + dy * factor
-  };
-}
-
-/**
- * Combine multiple contours into a single path representation
- */
-function combineContours(contours: Array<Array<{ x: number; y: number }>>): Array<{ x: number; y: number }> {
-  if (contours.length === 0) return [];
-  if (contours.length === 1) return contours[0];
-
-  // For now, just concatenate all contours
-  // In a more sophisticated implementation, we'd handle holes and sub-paths
-  const combined: Array<{ x: number; y: number }> = [];
-
-  for (const contour of contours) {
-    combined.push(...contour);
-  }
-
-  return combined;
-}
-
-/**
- * Convert contour points to SVG path with quality-based smoothing and simplification
- */
-function contourToSVGPath(contour: Array<{ x: number; y: number }>, _quality: VectorizationQuality): string {
-  if (contour.length === 0) {
-    return 'M 50 50 L 150 50 L 150 150 L 50 150 Z';
-  }
-
-  console.log(`🎨 [NEW CODE v2] Converting ${contour.length} points to SVG path (HIGH QUALITY)`);
-
-  // High quality vectorization with minimal simplification
-  const simplificationThreshold = 0.2; // Very conservative for high quality
-  const simplifiedContour = simplifyContour(contour, simplificationThreshold);
-  console.log(`📉 [NEW CODE v2] Simplified to ${simplifiedContour.length} points (threshold: ${simplificationThreshold})`);
-
-  if (simplifiedContour.length === 0) {
-    return 'M 50 50 L 150 50 L 150 150 L 50 150 Z';
-  }
-
-  // Generate smooth curves instead of jagged lines
-  const path = generateSmoothCurvePath(simplifiedContour);
-
-  return path;
-}
-
-/**
- * Simplify contour by removing redundant points based on quality
- */
-function simplifyContour(contour: Array<{ x: number; y: number }>, threshold: number): Array<{ x: number; y: number }> {
-  if (contour.length <= 3) {
-    return contour;
-  }
-
-  // Use the threshold directly (already scaled appropriately)
-  const simplified = douglasPeucker(contour, threshold);
-
-  // Safety check: don't over-simplify
-  const reductionRatio = simplified.length / contour.length;
-  if (simplified.length < 8 && reductionRatio < 0.1) {
-    console.log(`⚠️ Over-simplification detected (${simplified.length}/${contour.length} = ${(reductionRatio * 100).toFixed(1)}%), using less aggressive threshold`);
-    return douglasPeucker(contour, threshold * 0.3);
-  }
-
-  return simplified;
-}
-
-/**
- * Douglas-Peucker algorithm for path simplification
- */
-function douglasPeucker(points: Array<{ x: number; y: number }>, tolerance: number): Array<{ x: number; y: number }> {
-  if (points.length <= 2) {
-    return points;
-  }
-
-  // Find the point with maximum distance from the line between first and last
-  let maxDistance = 0;
-  let maxIndex = 0;
-
-  const firstPoint = points[0];
-  const lastPoint = points[points.length - 1];
-
-  for (let i = 1; i < points.length - 1; i++) {
-    const distance = perpendicularDistance(points[i], firstPoint, lastPoint);
-    if (distance > maxDistance) {
-      maxDistance = distance;
-      maxIndex = i;
-    }
-  }
-
-  // If max distance is greater than tolerance, recursively simplify
-  if (maxDistance > tolerance) {
-    const leftPoints = douglasPeucker(points.slice(0, maxIndex + 1), tolerance);
-    const rightPoints = douglasPeucker(points.slice(maxIndex), tolerance);
-
-    // Combine results (remove duplicate point at the junction)
-    return leftPoints.slice(0, -1).concat(rightPoints);
-  } else {
-    // All points between first and last can be discarded
-    return [firstPoint, lastPoint];
-  }
+function orientContours(contours: Point[][]): Point[][] {
+  return contours.map((contour, index) => {
+    const depth = contours.filter((other, otherIndex) => otherIndex !== index && isPointInPolygon(contour[0], other)).length;
+    const isHole = depth % 2 === 1;
+    const clockwise = getSignedArea(contour) > 0;
+    return clockwise === isHole ? [...contour].reverse() : contour;
+  });
 }
 
 /**
- * Calculate perpendicular distance from point to line
+ * Mapping from bitmap coordinates into the 200x200 viewBox
+ * (viewBox = (source - min) * scale + offset)
  */
-function perpendicularDistance(point: { x: number; y: number }, lineStart: { x: number; y: number }, lineEnd: { x: number; y: number }): number {
-  const dx = lineEnd.x - lineStart.x;
-  const dy = lineEnd.y - lineStart.y;
-
-  if (dx === 0 && dy === 0) {
-    // Line is actually a point
-    return Math.sqrt((point.x - lineStart.x) ** 2 + (point.y - lineStart.y) ** 2);
-  }
-
-  const t = ((point.x - lineStart.x) * dx + (point.y - lineStart.y) * dy) / (dx * dx + dy * dy);
-  const clampedT = Math.max(0, Math.min(1, t));
-
-  const projectionX = lineStart.x + clampedT * dx;
-  const projectionY = lineStart.y + clampedT * dy;
-
-  return Math.sqrt((point.x - projectionX) ** 2 + (point.y - projectionY) ** 2);
+export interface ViewBoxTransform {
+  scale: number;
+  minX: number;
+  minY: number;
+  offsetX: number;
+  offsetY: number;
 }
 
 /**
- * Normalize path to fit within 200x200 viewBox
+ * Transform that fits the given bounds into the 160x160 content area, centred
  */
-function normalizeToViewBox(pathData: string, _originalWidth: number, _originalHeight: number): string {
-  if (!pathData || pathData.length === 0) {
-    return 'M 50 50 L 150 50 L 150 150 L 50 150 Z';
-  }
-
-  console.log('📏 Normalizing path to 200x200 viewBox...');
-
-  // Extract coordinates
-  const coords = pathData.match(/-?\d+\.?\d*/g);
-  if (!coords || coords.length === 0) {
-    return 'M 50 50 L 150 50 L 150 150 L 50 150 Z';
-  }
-
-  const numbers = coords.map(Number);
-
-  // Find bounds
-  const xCoords = numbers.filter((_, i) => i % 2 === 0);
-  const yCoords = numbers.filter((_, i) => i % 2 === 1);
-
-  const minX = Math.min(...xCoords);
-  const maxX = Math.max(...xCoords);
-  const minY = Math.min(...yCoords);
-  const maxY = Math.max(...yCoords);
-
+function getBoundsViewBoxTransform(minX: number, minY: number, maxX: number, maxY: number): ViewBoxTransform {
   const sourceWidth = maxX - minX || 1;
   const sourceHeight = maxY - minY || 1;
 
@@ -1706,25 +1730,15 @@ function normalizeToViewBox(pathData: string, _originalWidth: number, _originalH
 
   console.log(`📐 Scale: ${scale.toFixed(3)}, Offset: (${offsetX.toFixed(1)}, ${offsetY.toFixed(1)})`);
 
-  // Transform coordinates
-  let coordIndex = 0;
-  const normalizedPath = pathData.replace(/-?\d+\.?\d*/g, (match) => {
-    const value = parseFloat(match);
-    if (coordIndex % 2 === 0) {
-      // X coordinate
-      const normalized = (value - minX) * scale + offsetX;
-      coordIndex++;
-      return normalized.toFixed(1);
-    } else {
-      // Y coordinate  
-      const normalized = (value - minY) * scale + offsetY;
-      coordIndex++;
-      return normalized.toFixed(1);
-    }
-  });
+  return { scale, minX, minY, offsetX, offsetY };
+}
 
-  console.log('✅ Normalized path:', normalizedPath.substring(0, 80) + '...');
-  return normalizedPath;
+/**
+ * Maps an image row (pixel Y in the traced canvas) into viewBox Y; the
+ * marching squares bitmap has a 1px border, so image row r is bitmap row r + 1
+ */
+export function imageYToViewBoxY(imageY: number, transform: ViewBoxTransform): number {
+  return (imageY + 1 - transform.minY) * transform.scale + transform.offsetY;
 }
 
 /**
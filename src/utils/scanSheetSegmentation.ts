@@ -0,0 +1,320 @@
+// Registration mark detection and perspective correction for scanned template sheets
+
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Uint8Array;  // One brightness value per pixel
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Row-major 3x3 projective transform with the last entry fixed to 1
+export type Homography = [number, number, number, number, number, number, number, number, number];
+
+export interface RegistrationMarkOptions {
+  threshold: number;        // Brightness below which a pixel counts as dark
+  minSideFraction?: number; // Smallest mark side relative to the image's shorter side
+  minFill?: number;         // Smallest share of the bounding box a solid mark covers
+}
+
+interface DarkComponent {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  area: number;
+  sumX: number;
+  sumY: number;
+}
+
+/**
+ * Converts RGBA pixels to brightness
+ */
+export function toGrayImage(imageData: ImageData): GrayImage {
+  const { width, height, data } = imageData;
+  const gray = new Uint8Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = Math.round(data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114);
+  }
+  return { width, height, data: gray };
+}
+
+/**
+ * Otsu's threshold: the brightness that best separates ink from paper
+ */
+export function otsuThreshold(image: GrayImage): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < image.data.length; i++) {
+    histogram[image.data[i]]++;
+  }
+
+  const total = image.data.length;
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * histogram[i];
+
+  let backgroundSum = 0;
+  let backgroundCount = 0;
+  let bestVariance = 0;
+  let threshold = 128;
+
+  for (let t = 0; t < 256; t++) {
+    backgroundCount += histogram[t];
+    if (backgroundCount === 0) continue;
+    const foregroundCount = total - backgroundCount;
+    if (foregroundCount === 0) break;
+
+    backgroundSum += t * histogram[t];
+    const backgroundMean = backgroundSum / backgroundCount;
+    const foregroundMean = (sum - backgroundSum) / foregroundCount;
+    const variance = backgroundCount * foregroundCount * (backgroundMean - foregroundMean) ** 2;
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = t;
+    }
+  }
+
+  return threshold;
+}
+
+/**
+ * Brightness below which the given fraction of pixels fall
+ */
+export function brightnessPercentile(image: GrayImage, fraction: number): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < image.data.length; i++) {
+    histogram[image.data[i]]++;
+  }
+
+  const target = image.data.length * fraction;
+  let count = 0;
+  for (let value = 0; value < 256; value++) {
+    count += histogram[value];
+    if (count >= target) return value;
+  }
+  return 255;
+}
+
+/**
+ * Finds the four solid square registration marks: for each image corner, the
+ * solid, roughly square dark blob nearest to it. Returned in the order
+ * top-left, top-right, bottom-right, bottom-left, as blob centres.
+ */
+export function findRegistrationMarks(image: GrayImage, options: RegistrationMarkOptions): Point[] {
+  const { threshold, minSideFraction = 0.008, minFill = 0.75 } = options;
+  const minSide = Math.max(4, Math.min(image.width, image.height) * minSideFraction);
+
+  const candidates = findDarkComponents(image, threshold).filter(component => {
+    const width = component.maxX - component.minX + 1;
+    const height = component.maxY - component.minY + 1;
+    const aspect = width / height;
+    return width >= minSide && height >= minSide
+      && aspect > 0.6 && aspect < 1.6
+      && component.area / (width * height) >= minFill;
+  });
+
+  if (candidates.length < 4) {
+    throw new Error(`Found ${candidates.length} of 4 corner marks; make sure the whole sheet is in the picture`);
+  }
+
+  const corners: Point[] = [
+    { x: 0, y: 0 },
+    { x: image.width, y: 0 },
+    { x: image.width, y: image.height },
+    { x: 0, y: image.height }
+  ];
+
+  const marks = corners.map(corner => {
+    let best = candidates[0];
+    let bestDistance = Infinity;
+    for (const candidate of candidates) {
+      const distance = Math.hypot(candidate.sumX / candidate.area - corner.x, candidate.sumY / candidate.area - corner.y);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = candidate;
+      }
+    }
+    return best;
+  });
+
+  if (new Set(marks).size < 4) {
+    throw new Error('Could not tell the corner marks apart; make sure the whole sheet is in the picture');
+  }
+
+  // All four marks are printed the same size
+  const areas = marks.map(mark => mark.area);
+  if (Math.max(...areas) > Math.min(...areas) * 4) {
+    throw new Error('The corner marks found differ too much in size; try a flatter, evenly lit scan');
+  }
+
+  return marks.map(mark => ({ x: mark.sumX / mark.area, y: mark.sumY / mark.area }));
+}
+
+/**
+ * Solves the projective transform that maps each source point onto its destination
+ */
+export function computeHomography(source: Point[], destination: Point[]): Homography {
+  if (source.length !== 4 || destination.length !== 4) {
+    throw new Error('A homography needs exactly four point pairs');
+  }
+
+  // Eight equations, one row per coordinate: [A | b]
+  const rows: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x: u, y: v } = source[i];
+    const { x, y } = destination[i];
+    rows.push([u, v, 1, 0, 0, 0, -u * x, -v * x, x]);
+    rows.push([0, 0, 0, u, v, 1, -u * y, -v * y, y]);
+  }
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-12) {
+      throw new Error('The corner marks are degenerate (three or more in a line)');
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k < 9; k++) {
+        rows[row][k] -= factor * rows[col][k];
+      }
+    }
+  }
+
+  const h = rows.map((row, i) => row[8] / row[i]);
+  return [h[0], h[1], h[2], h[3], h[4], h[5], h[6], h[7], 1];
+}
+
+/**
+ * Maps a point through a homography
+ */
+export function projectPoint(h: Homography, point: Point): Point {
+  const w = h[6] * point.x + h[7] * point.y + h[8];
+  return {
+    x: (h[0] * point.x + h[1] * point.y + h[2]) / w,
+    y: (h[3] * point.x + h[4] * point.y + h[5]) / w
+  };
+}
+
+/**
+ * Samples a rectangle of the source (in the homography's source units) into an
+ * upright image at the given resolution, with bilinear interpolation
+ */
+export function warpRegion(
+  image: GrayImage,
+  h: Homography,
+  region: { x: number; y: number; width: number; height: number },
+  pixelsPerUnit: number
+): GrayImage {
+  const width = Math.max(1, Math.round(region.width * pixelsPerUnit));
+  const height = Math.max(1, Math.round(region.height * pixelsPerUnit));
+  const data = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const source = projectPoint(h, {
+        x: region.x + (x + 0.5) / pixelsPerUnit,
+        y: region.y + (y + 0.5) / pixelsPerUnit
+      });
+      data[y * width + x] = sampleBilinear(image, source.x - 0.5, source.y - 0.5);
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Mean brightness in a small square around a point, used to read printed code bits
+ */
+export function sampleMean(image: GrayImage, point: Point, radius: number): number {
+  let sum = 0;
+  let count = 0;
+  const r = Math.max(0, Math.round(radius));
+  for (let dy = -r; dy <= r; dy++) {
+    for (let dx = -r; dx <= r; dx++) {
+      const x = Math.round(point.x) + dx;
+      const y = Math.round(point.y) + dy;
+      if (x < 0 || y < 0 || x >= image.width || y >= image.height) continue;
+      sum += image.data[y * image.width + x];
+      count++;
+    }
+  }
+  return count > 0 ? sum / count : 255;
+}
+
+function sampleBilinear(image: GrayImage, x: number, y: number): number {
+  const { width, height, data } = image;
+  if (x < 0 || y < 0 || x > width - 1 || y > height - 1) return 255;
+
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(x0 + 1, width - 1);
+  const y1 = Math.min(y0 + 1, height - 1);
+  const fx = x - x0;
+  const fy = y - y0;
+
+  const top = data[y0 * width + x0] * (1 - fx) + data[y0 * width + x1] * fx;
+  const bottom = data[y1 * width + x0] * (1 - fx) + data[y1 * width + x1] * fx;
+  return Math.round(top * (1 - fy) + bottom * fy);
+}
+
+/**
+ * Labels 4-connected dark regions, keeping only their bounds, area and centroid sums
+ */
+function findDarkComponents(image: GrayImage, threshold: number): DarkComponent[] {
+  const { width, height, data } = image;
+  const visited = new Uint8Array(width * height);
+  const stack = new Int32Array(width * height);
+  const components: DarkComponent[] = [];
+
+  for (let start = 0; start < data.length; start++) {
+    if (visited[start] || data[start] >= threshold) continue;
+
+    const component: DarkComponent = {
+      minX: width, minY: height, maxX: 0, maxY: 0, area: 0, sumX: 0, sumY: 0
+    };
+    let top = 0;
+    stack[top++] = start;
+    visited[start] = 1;
+
+    while (top > 0) {
+      const index = stack[--top];
+      const x = index % width;
+      const y = (index - x) / width;
+
+      component.area++;
+      component.sumX += x + 0.5;
+      component.sumY += y + 0.5;
+      if (x < component.minX) component.minX = x;
+      if (x > component.maxX) component.maxX = x;
+      if (y < component.minY) component.minY = y;
+      if (y > component.maxY) component.maxY = y;
+
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        y > 0 ? index - width : -1,
+        y < height - 1 ? index + width : -1
+      ];
+      for (const next of neighbours) {
+        if (next >= 0 && !visited[next] && data[next] < threshold) {
+          visited[next] = 1;
+          stack[top++] = next;
+        }
+      }
+    }
+
+    components.push(component);
+  }
+
+  return components;
+}
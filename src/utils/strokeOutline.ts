@@ -0,0 +1,162 @@
+// Expands freehand brush strokes into filled outlines: each stroke becomes a
+// polygon around its centre line, and the strokes are combined in drawing
+// order (drawn strokes united, eraser strokes subtracted) into one glyph path
+
+import { Point, parsePathData, segmentsToPath } from './svgFlattening';
+
+export interface StrokePoint extends Point {
+  pressure: number; // 0..1; mouse and touch input draw at full pressure
+}
+
+export interface DrawingStroke {
+  points: StrokePoint[];
+  size: number; // Brush width at full pressure, in path coordinates
+  mode: 'draw' | 'erase';
+}
+
+// Lightest pen pressure still draws this share of the brush width
+const MIN_PRESSURE_WIDTH = 0.2;
+// Points closer together than this add nothing but outline nodes
+const MIN_POINT_DISTANCE = 0.25;
+const CAP_STEPS = 8;
+// How far the smoothed outline may stray from the stroke polygon
+const SIMPLIFY_TOLERANCE = 0.2;
+// Longest edge, in multiples of the tolerance, handed to the curve fit
+const FIT_POINT_SPACING = 10;
+
+export function getStrokeRadius(size: number, pressure: number): number {
+  const clamped = Math.min(1, Math.max(0, pressure));
+  return (size / 2) * (MIN_PRESSURE_WIDTH + (1 - MIN_PRESSURE_WIDTH) * clamped);
+}
+
+/**
+ * Outline polygon of one stroke: both sides offset by the pressure radius,
+ * joined by round caps. Sharp turns can make the inner side cross itself;
+ * combining the strokes resolves that.
+ */
+export function getStrokeOutline(stroke: DrawingStroke): Point[] {
+  const points = stroke.points.filter((point, index) => {
+    if (index === 0) return true;
+    const previous = stroke.points[index - 1];
+    return Math.hypot(point.x - previous.x, point.y - previous.y) >= MIN_POINT_DISTANCE;
+  });
+  if (points.length === 0) return [];
+
+  const radii = points.map(point => getStrokeRadius(stroke.size, point.pressure));
+
+  // A tap leaves a dot
+  if (points.length === 1) {
+    return getArc(points[0], radii[0], 0, CAP_STEPS * 2, 2 * Math.PI).slice(0, -1);
+  }
+
+  const left: Point[] = [];
+  const right: Point[] = [];
+  const normalAngles: number[] = [];
+  points.forEach((point, index) => {
+    const previous = points[Math.max(0, index - 1)];
+    const next = points[Math.min(points.length - 1, index + 1)];
+    const angle = Math.atan2(next.y - previous.y, next.x - previous.x) + Math.PI / 2;
+    const nx = Math.cos(angle) * radii[index];
+    const ny = Math.sin(angle) * radii[index];
+    left.push({ x: point.x + nx, y: point.y + ny });
+    right.push({ x: point.x - nx, y: point.y - ny });
+    normalAngles.push(angle);
+  });
+
+  const last = points.length - 1;
+  // Caps sweep half a turn from one side to the other, through the stroke's end
+  const endCap = getArc(points[last], radii[last], normalAngles[last], CAP_STEPS, -Math.PI).slice(1, -1);
+  const startCap = getArc(points[0], radii[0], normalAngles[0] + Math.PI, CAP_STEPS, -Math.PI).slice(1, -1);
+
+  return [...left, ...endCap, ...right.reverse(), ...startCap];
+}
+
+/**
+ * Polygon path data for previewing a stroke while it's drawn
+ */
+export function outlineToPath(outline: Point[]): string {
+  if (outline.length === 0) return '';
+  return `M ${outline.map(point => `${point.x.toFixed(2)} ${point.y.toFixed(2)}`).join(' L ')} Z`;
+}
+
+/**
+ * Combines the strokes, in order, with an optional existing outline underneath,
+ * into one smoothed path of absolute M/L/C/Z commands. paper.js does the
+ * boolean operations and is loaded on first use.
+ */
+export async function strokesToPath(strokes: DrawingStroke[], basePath = ''): Promise<string> {
+  const { default: paper } = await import('paper');
+  const scope = new paper.PaperScope();
+  scope.setup(new scope.Size(200, 200));
+
+  try {
+    let result: paper.PathItem = basePath
+      ? scope.PathItem.create(basePath)
+      : new scope.CompoundPath({ insert: false });
+
+    for (const stroke of strokes) {
+      const outline = getStrokeOutline(stroke);
+      if (outline.length < 3) continue;
+
+      const shape = new scope.Path({
+        segments: outline.map(point => [point.x, point.y]),
+        closed: true,
+        insert: false
+      });
+      result = stroke.mode === 'draw'
+        ? result.unite(shape, { insert: false })
+        : result.subtract(shape, { insert: false });
+    }
+
+    // Boolean results keep every polygon corner; fit curves through them
+    simplifyPathItem(scope, result, SIMPLIFY_TOLERANCE);
+
+    return segmentsToPath(parsePathData(result.pathData));
+  } finally {
+    scope.project.remove();
+  }
+}
+
+/**
+ * Fits curves through every contour of a path or compound path. paper.js drops
+ * the stretch around the start point when it fits a closed path in one go, so
+ * each contour is fitted open, from its start point back round to it. The fit
+ * only checks the error at the points it is given, so long edges are split
+ * first to stop a curve bulging away between two far-apart corners.
+ */
+export function simplifyPathItem(scope: paper.PaperScope, item: paper.PathItem, tolerance: number): void {
+  const contours = item instanceof scope.CompoundPath
+    ? (item.children as paper.Path[])
+    : [item as paper.Path];
+  const spacing = tolerance * FIT_POINT_SPACING;
+
+  contours.forEach(contour => {
+    const points = contour.curves.flatMap(curve => {
+      const steps = Math.max(1, Math.ceil(curve.length / spacing));
+      return Array.from({ length: steps }, (_, step) => curve.getPointAt((curve.length * step) / steps));
+    });
+    if (!contour.closed && contour.segments.length > 0) points.push(contour.lastSegment.point.clone());
+    if (points.length > 0) {
+      contour.removeSegments();
+      contour.addSegments(points.map(point => new scope.Segment(point)));
+    }
+
+    if (!contour.closed || contour.segments.length < 3) {
+      contour.simplify(tolerance);
+      return;
+    }
+    contour.closed = false;
+    contour.add(contour.firstSegment.point.clone());
+    contour.simplify(tolerance);
+    contour.firstSegment.handleIn = contour.lastSegment.handleIn;
+    contour.lastSegment.remove();
+    contour.closed = true;
+  });
+}
+
+function getArc(center: Point, radius: number, startAngle: number, steps: number, sweep: number): Point[] {
+  return Array.from({ length: steps + 1 }, (_, step) => {
+    const angle = startAngle + (sweep * step) / steps;
+    return { x: center.x + Math.cos(angle) * radius, y: center.y + Math.sin(angle) * radius };
+  });
+}
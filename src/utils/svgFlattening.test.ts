@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { getSignedArea, orientShapeSegments, parsePathData, splitSubpaths, subpathToPolygon } from './svgFlattening';
+
+describe('parsePathData', () => {
+  it('parses absolute and relative commands into absolute segments', () => {
+    expect(parsePathData('M0 0 l10 0 V10 z')).toEqual([
+      { type: 'M', point: { x: 0, y: 0 } },
+      { type: 'L', point: { x: 10, y: 0 } },
+      { type: 'L', point: { x: 10, y: 10 } },
+      { type: 'Z' }
+    ]);
+  });
+
+  it('skips numbers after Z, which takes none', () => {
+    expect(parsePathData('M0 0 L10 0 L10 10 Z 5 5')).toEqual([
+      { type: 'M', point: { x: 0, y: 0 } },
+      { type: 'L', point: { x: 10, y: 0 } },
+      { type: 'L', point: { x: 10, y: 10 } },
+      { type: 'Z' }
+    ]);
+  });
+
+  it('continues with the next command after numbers following Z', () => {
+    const segments = parsePathData('M0 0 L10 0 Z 5 5 M20 20 L30 20 Z');
+    expect(segments.map(segment => segment.type)).toEqual(['M', 'L', 'Z', 'M', 'L', 'Z']);
+  });
+
+  it('rejects characters that are neither commands nor numbers', () => {
+    expect(() => parsePathData('M0 0 X10 10')).toThrow('Invalid path data');
+  });
+});
+
+describe('orientShapeSegments', () => {
+  // Signed area of each contour; positive is clockwise with y down
+  const contourAreas = (d: string, fillRule: 'nonzero' | 'evenodd') =>
+    splitSubpaths(orientShapeSegments(parsePathData(d), fillRule)).map(subpath => getSignedArea(subpathToPolygon(subpath)));
+
+  // Both squares drawn clockwise, as vector tools write evenodd counters
+  const squareWithCounter = 'M0 0 L100 0 L100 100 L0 100 Z M25 25 L75 25 L75 75 L25 75 Z';
+
+  it('reverses evenodd counters so nonzero filling keeps them open', () => {
+    const [outer, counter] = contourAreas(squareWithCounter, 'evenodd');
+    expect(outer).toBeGreaterThan(0);
+    expect(counter).toBeLessThan(0);
+  });
+
+  it('keeps the relative directions of nonzero contours', () => {
+    const [outer, inner] = contourAreas(squareWithCounter, 'nonzero');
+    expect(outer).toBeGreaterThan(0);
+    expect(inner).toBeGreaterThan(0);
+  });
+
+  it('flips a counterclockwise nonzero shape as a whole', () => {
+    const [outer, counter] = contourAreas('M0 0 L0 100 L100 100 L100 0 Z M25 25 L75 25 L75 75 L25 75 Z', 'nonzero');
+    expect(outer).toBeGreaterThan(0);
+    expect(counter).toBeLessThan(0);
+  });
+
+  it('reverses curves with their control points swapped', () => {
+    const [outer] = splitSubpaths(orientShapeSegments(parsePathData('M0 0 C0 50 50 100 100 100 L100 0 Z'), 'nonzero'));
+    expect(outer).toEqual([
+      { type: 'M', point: { x: 100, y: 0 } },
+      { type: 'L', point: { x: 100, y: 100 } },
+      { type: 'C', control1: { x: 50, y: 100 }, control2: { x: 0, y: 50 }, point: { x: 0, y: 0 } },
+      { type: 'Z' }
+    ]);
+  });
+});
@@ -0,0 +1,599 @@
+// Flattens SVG geometry (path data, basic shapes, transforms) into absolute
+// move/line/cubic/close segments
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// 2D affine transform [a b c d e f]: x' = a*x + c*y + e, y' = b*x + d*y + f
+export type Matrix = [number, number, number, number, number, number];
+
+export type PathSegment =
+  | { type: 'M' | 'L'; point: Point }
+  | { type: 'C'; control1: Point; control2: Point; point: Point }
+  | { type: 'Z' };
+
+export const IDENTITY_MATRIX: Matrix = [1, 0, 0, 1, 0, 0];
+
+// Control point distance for a quarter circle drawn with one cubic
+const KAPPA = 0.5522847498;
+
+const NUMBER_PATTERN = /[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g;
+
+/**
+ * Composes two transforms: the result applies `inner` first, then `outer`
+ */
+export function multiplyMatrix(outer: Matrix, inner: Matrix): Matrix {
+  const [a1, b1, c1, d1, e1, f1] = outer;
+  const [a2, b2, c2, d2, e2, f2] = inner;
+  return [
+    a1 * a2 + c1 * b2,
+    b1 * a2 + d1 * b2,
+    a1 * c2 + c1 * d2,
+    b1 * c2 + d1 * d2,
+    a1 * e2 + c1 * f2 + e1,
+    b1 * e2 + d1 * f2 + f1
+  ];
+}
+
+export function applyMatrix(m: Matrix, point: Point): Point {
+  return {
+    x: m[0] * point.x + m[2] * point.y + m[4],
+    y: m[1] * point.x + m[3] * point.y + m[5]
+  };
+}
+
+/**
+ * Parses a transform attribute (matrix, translate, scale, rotate, skewX, skewY);
+ * a list applies right to left, as in SVG
+ */
+export function parseTransform(transform: string | null): Matrix {
+  let result = IDENTITY_MATRIX;
+  if (!transform) return result;
+
+  const pattern = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(transform)) !== null) {
+    const values = (match[2].match(NUMBER_PATTERN) ?? []).map(Number);
+    let next: Matrix = IDENTITY_MATRIX;
+
+    switch (match[1]) {
+      case 'matrix':
+        if (values.length === 6) next = values as Matrix;
+        break;
+      case 'translate':
+        next = [1, 0, 0, 1, values[0] ?? 0, values[1] ?? 0];
+        break;
+      case 'scale':
+        next = [values[0] ?? 1, 0, 0, values[1] ?? values[0] ?? 1, 0, 0];
+        break;
+      case 'rotate': {
+        const angle = ((values[0] ?? 0) * Math.PI) / 180;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        const [cx = 0, cy = 0] = values.slice(1);
+        next = [cos, sin, -sin, cos, cx - cos * cx + sin * cy, cy - sin * cx - cos * cy];
+        break;
+      }
+      case 'skewX':
+        next = [1, 0, Math.tan(((values[0] ?? 0) * Math.PI) / 180), 1, 0, 0];
+        break;
+      case 'skewY':
+        next = [1, Math.tan(((values[0] ?? 0) * Math.PI) / 180), 0, 1, 0, 0];
+        break;
+    }
+
+    result = multiplyMatrix(result, next);
+  }
+
+  return result;
+}
+
+/**
+ * Splits path data into command letters and numbers, rejecting anything else
+ */
+function tokenizePathData(d: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /([MmLlHhVvCcSsQqTtAaZz])|([-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)|([\s,]+)|(.)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(d)) !== null) {
+    if (match[4] !== undefined) {
+      throw new Error(`Invalid path data: unexpected "${match[4]}" at position ${match.index}`);
+    }
+    if (match[1] !== undefined || match[2] !== undefined) tokens.push(match[0]);
+  }
+
+  return tokens;
+}
+
+/**
+ * Parses path data with every command (relative, implicit repeats, smooth and
+ * quadratic curves, arcs) into absolute move/line/cubic/close segments
+ */
+export function parsePathData(d: string): PathSegment[] {
+  const tokens = tokenizePathData(d);
+  const segments: PathSegment[] = [];
+
+  let index = 0;
+  let command = '';
+  let current: Point = { x: 0, y: 0 };
+  let subpathStart: Point = { x: 0, y: 0 };
+  let lastCubicControl: Point | null = null;
+  let lastQuadControl: Point | null = null;
+
+  const isCommand = (token: string) => /^[A-Za-z]$/.test(token);
+  const hasNumbers = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      if (index + i >= tokens.length || isCommand(tokens[index + i])) return false;
+    }
+    return true;
+  };
+  const next = () => Number(tokens[index++]);
+  // Arc flags may be written without separators ("a5 5 0 015 5"); split them
+  // into their own tokens
+  const splitArcFlags = () => {
+    for (const offset of [3, 4]) {
+      const token = tokens[index + offset];
+      if (token && token.length > 1 && (token[0] === '0' || token[0] === '1') && token[1] !== '.') {
+        tokens.splice(index + offset, 1, token[0], token.slice(1));
+      }
+    }
+  };
+
+  while (index < tokens.length) {
+    if (isCommand(tokens[index])) {
+      command = tokens[index++];
+    } else if (!command) {
+      index++; // Numbers before the first command are malformed; skip them
+      continue;
+    }
+
+    const relative = command === command.toLowerCase();
+    const base = relative ? current : { x: 0, y: 0 };
+    const upper = command.toUpperCase();
+
+    if (upper === 'Z') {
+      segments.push({ type: 'Z' });
+      current = subpathStart;
+      lastCubicControl = lastQuadControl = null;
+      // Z takes no numbers; skip any to the next command letter
+      while (index < tokens.length && !isCommand(tokens[index])) index++;
+      continue;
+    }
+
+    if (upper === 'A') splitArcFlags();
+    const arity: Record<string, number> = { M: 2, L: 2, H: 1, V: 1, C: 6, S: 4, Q: 4, T: 2, A: 7 };
+    if (!hasNumbers(arity[upper] ?? 0)) {
+      // Truncated command: skip to the next command letter
+      while (index < tokens.length && !isCommand(tokens[index])) index++;
+      continue;
+    }
+
+    switch (upper) {
+      case 'M': {
+        current = { x: base.x + next(), y: base.y + next() };
+        subpathStart = current;
+        segments.push({ type: 'M', point: current });
+        // Further pairs are implicit line-tos
+        command = relative ? 'l' : 'L';
+        lastCubicControl = lastQuadControl = null;
+        break;
+      }
+      case 'L':
+        current = { x: base.x + next(), y: base.y + next() };
+        segments.push({ type: 'L', point: current });
+        lastCubicControl = lastQuadControl = null;
+        break;
+      case 'H':
+        current = { x: (relative ? current.x : 0) + next(), y: current.y };
+        segments.push({ type: 'L', point: current });
+        lastCubicControl = lastQuadControl = null;
+        break;
+      case 'V':
+        current = { x: current.x, y: (relative ? current.y : 0) + next() };
+        segments.push({ type: 'L', point: current });
+        lastCubicControl = lastQuadControl = null;
+        break;
+      case 'C': {
+        const control1 = { x: base.x + next(), y: base.y + next() };
+        const control2 = { x: base.x + next(), y: base.y + next() };
+        current = { x: base.x + next(), y: base.y + next() };
+        segments.push({ type: 'C', control1, control2, point: current });
+        lastCubicControl = control2;
+        lastQuadControl = null;
+        break;
+      }
+      case 'S': {
+        const control1 = lastCubicControl ? reflect(lastCubicControl, current) : current;
+        const control2 = { x: base.x + next(), y: base.y + next() };
+        current = { x: base.x + next(), y: base.y + next() };
+        segments.push({ type: 'C', control1, control2, point: current });
+        lastCubicControl = control2;
+        lastQuadControl = null;
+        break;
+      }
+      case 'Q': {
+        const control = { x: base.x + next(), y: base.y + next() };
+        const end = { x: base.x + next(), y: base.y + next() };
+        segments.push(quadraticToCubic(current, control, end));
+        current = end;
+        lastQuadControl = control;
+        lastCubicControl = null;
+        break;
+      }
+      case 'T': {
+        const control: Point = lastQuadControl ? reflect(lastQuadControl, current) : current;
+        const end = { x: base.x + next(), y: base.y + next() };
+        segments.push(quadraticToCubic(current, control, end));
+        current = end;
+        lastQuadControl = control;
+        lastCubicControl = null;
+        break;
+      }
+      case 'A': {
+        const rx = next();
+        const ry = next();
+        const rotation = next();
+        const largeArc = next() !== 0;
+        const sweep = next() !== 0;
+        const end = { x: base.x + next(), y: base.y + next() };
+        segments.push(...arcToCubics(current, rx, ry, rotation, largeArc, sweep, end));
+        current = end;
+        lastCubicControl = lastQuadControl = null;
+        break;
+      }
+    }
+  }
+
+  return segments;
+}
+
+export function transformSegments(segments: PathSegment[], m: Matrix): PathSegment[] {
+  return segments.map(segment => {
+    switch (segment.type) {
+      case 'M':
+      case 'L':
+        return { type: segment.type, point: applyMatrix(m, segment.point) };
+      case 'C':
+        return {
+          type: 'C',
+          control1: applyMatrix(m, segment.control1),
+          control2: applyMatrix(m, segment.control2),
+          point: applyMatrix(m, segment.point)
+        };
+      case 'Z':
+        return segment;
+    }
+  });
+}
+
+/**
+ * Rectangle, with rounded corners when rx/ry are given
+ */
+export function rectToSegments(x: number, y: number, width: number, height: number, rx = 0, ry = 0): PathSegment[] {
+  if (width <= 0 || height <= 0) return [];
+
+  rx = Math.min(rx || ry, width / 2);
+  ry = Math.min(ry || rx, height / 2);
+
+  if (rx <= 0 || ry <= 0) {
+    return [
+      { type: 'M', point: { x, y } },
+      { type: 'L', point: { x: x + width, y } },
+      { type: 'L', point: { x: x + width, y: y + height } },
+      { type: 'L', point: { x, y: y + height } },
+      { type: 'Z' }
+    ];
+  }
+
+  const kx = rx * KAPPA;
+  const ky = ry * KAPPA;
+  const right = x + width;
+  const bottom = y + height;
+  return [
+    { type: 'M', point: { x: x + rx, y } },
+    { type: 'L', point: { x: right - rx, y } },
+    { type: 'C', control1: { x: right - rx + kx, y }, control2: { x: right, y: y + ry - ky }, point: { x: right, y: y + ry } },
+    { type: 'L', point: { x: right, y: bottom - ry } },
+    { type: 'C', control1: { x: right, y: bottom - ry + ky }, control2: { x: right - rx + kx, y: bottom }, point: { x: right - rx, y: bottom } },
+    { type: 'L', point: { x: x + rx, y: bottom } },
+    { type: 'C', control1: { x: x + rx - kx, y: bottom }, control2: { x, y: bottom - ry + ky }, point: { x, y: bottom - ry } },
+    { type: 'L', point: { x, y: y + ry } },
+    { type: 'C', control1: { x, y: y + ry - ky }, control2: { x: x + rx - kx, y }, point: { x: x + rx, y } },
+    { type: 'Z' }
+  ];
+}
+
+/**
+ * Ellipse (or circle) as four cubic quarter arcs
+ */
+export function ellipseToSegments(cx: number, cy: number, rx: number, ry: number): PathSegment[] {
+  if (rx <= 0 || ry <= 0) return [];
+
+  const kx = rx * KAPPA;
+  const ky = ry * KAPPA;
+  return [
+    { type: 'M', point: { x: cx + rx, y: cy } },
+    { type: 'C', control1: { x: cx + rx, y: cy + ky }, control2: { x: cx + kx, y: cy + ry }, point: { x: cx, y: cy + ry } },
+    { type: 'C', control1: { x: cx - kx, y: cy + ry }, control2: { x: cx - rx, y: cy + ky }, point: { x: cx - rx, y: cy } },
+    { type: 'C', control1: { x: cx - rx, y: cy - ky }, control2: { x: cx - kx, y: cy - ry }, point: { x: cx, y: cy - ry } },
+    { type: 'C', control1: { x: cx + kx, y: cy - ry }, control2: { x: cx + rx, y: cy - ky }, point: { x: cx + rx, y: cy } },
+    { type: 'Z' }
+  ];
+}
+
+/**
+ * Polygon or polyline from a points attribute; both are closed, since only
+ * the filled area becomes part of the glyph
+ */
+export function pointsToSegments(points: string): PathSegment[] {
+  const values = (points.match(NUMBER_PATTERN) ?? []).map(Number);
+  if (values.length < 6) return [];
+
+  const segments: PathSegment[] = [];
+  for (let i = 0; i + 1 < values.length; i += 2) {
+    segments.push({ type: i === 0 ? 'M' : 'L', point: { x: values[i], y: values[i + 1] } });
+  }
+  segments.push({ type: 'Z' });
+  return segments;
+}
+
+export function getSegmentsBounds(segments: PathSegment[]): { minX: number; minY: number; maxX: number; maxY: number } | null {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  for (const segment of segments) {
+    if (segment.type === 'Z') continue;
+    // Control points bound the curve, which is close enough for fitting
+    const points = segment.type === 'C' ? [segment.control1, segment.control2, segment.point] : [segment.point];
+    for (const point of points) {
+      minX = Math.min(minX, point.x);
+      minY = Math.min(minY, point.y);
+      maxX = Math.max(maxX, point.x);
+      maxY = Math.max(maxY, point.y);
+    }
+  }
+
+  return isFinite(minX) ? { minX, minY, maxX, maxY } : null;
+}
+
+/**
+ * Serializes segments as absolute commands, one command letter per segment
+ */
+export function segmentsToPath(segments: PathSegment[], precision = 2): string {
+  const num = (value: number) => String(Number(value.toFixed(precision)));
+  const point = (p: Point) => `${num(p.x)} ${num(p.y)}`;
+
+  return segments.map(segment => {
+    switch (segment.type) {
+      case 'M':
+      case 'L':
+        return `${segment.type} ${point(segment.point)}`;
+      case 'C':
+        return `C ${point(segment.control1)} ${point(segment.control2)} ${point(segment.point)}`;
+      case 'Z':
+        return 'Z';
+    }
+  }).join(' ');
+}
+
+/**
+ * Splits segments into subpaths, each starting at its move-to
+ */
+export function splitSubpaths(segments: PathSegment[]): PathSegment[][] {
+  const subpaths: PathSegment[][] = [];
+  for (const segment of segments) {
+    if (segment.type === 'M' || subpaths.length === 0) subpaths.push([]);
+    subpaths[subpaths.length - 1].push(segment);
+  }
+  return subpaths.filter(subpath => subpath[0].type === 'M');
+}
+
+/**
+ * Points along a subpath with its curves flattened, for area and containment tests
+ */
+export function subpathToPolygon(subpath: PathSegment[], curveSteps = 8): Point[] {
+  const points: Point[] = [];
+  let current: Point = { x: 0, y: 0 };
+
+  for (const segment of subpath) {
+    if (segment.type === 'C') {
+      for (let step = 1; step <= curveSteps; step++) {
+        const t = step / curveSteps;
+        const mt = 1 - t;
+        points.push({
+          x: mt * mt * mt * current.x + 3 * mt * mt * t * segment.control1.x + 3 * mt * t * t * segment.control2.x + t * t * t * segment.point.x,
+          y: mt * mt * mt * current.y + 3 * mt * mt * t * segment.control1.y + 3 * mt * t * t * segment.control2.y + t * t * t * segment.point.y
+        });
+      }
+    } else if (segment.type !== 'Z') {
+      points.push(segment.point);
+    }
+    if (segment.type !== 'Z') current = segment.point;
+  }
+
+  return points;
+}
+
+/**
+ * The subpath drawn the other way round, closed, since only its filled area matters
+ */
+export function reverseSubpath(subpath: PathSegment[]): PathSegment[] {
+  const drawn = subpath.filter((segment): segment is Exclude<PathSegment, { type: 'Z' }> => segment.type !== 'Z');
+  if (drawn.length === 0) return subpath;
+
+  const reversed: PathSegment[] = [{ type: 'M', point: drawn[drawn.length - 1].point }];
+  for (let i = drawn.length - 1; i > 0; i--) {
+    const segment = drawn[i];
+    const previous = drawn[i - 1].point;
+    reversed.push(segment.type === 'C'
+      ? { type: 'C', control1: segment.control2, control2: segment.control1, point: previous }
+      : { type: 'L', point: previous });
+  }
+  reversed.push({ type: 'Z' });
+  return reversed;
+}
+
+/**
+ * Redraws a shape's contours so the nonzero rule fonts use fills it the way
+ * its own fill rule did, with outer contours clockwise (y down) like
+ * traced ones. Evenodd contours alternate by nesting depth; a nonzero shape
+ * keeps its contours' relative directions and is only flipped as a whole.
+ */
+export function orientShapeSegments(segments: PathSegment[], fillRule: 'nonzero' | 'evenodd'): PathSegment[] {
+  const subpaths = splitSubpaths(segments);
+  const polygons = subpaths.map(subpath => subpathToPolygon(subpath));
+  const depths = polygons.map((polygon, index) => polygon.length === 0 ? 0 : polygons.filter((other, otherIndex) =>
+    otherIndex !== index && other.length > 2 && isPointInPolygon(polygon[0], other)
+  ).length);
+
+  if (fillRule === 'evenodd') {
+    return subpaths.flatMap((subpath, index) => {
+      const isHole = depths[index] % 2 === 1;
+      const clockwise = getSignedArea(polygons[index]) > 0;
+      return clockwise === isHole ? reverseSubpath(subpath) : subpath;
+    });
+  }
+
+  // The largest outer contour shows which way the shape was drawn
+  let outerArea = 0;
+  polygons.forEach((polygon, index) => {
+    const area = getSignedArea(polygon);
+    if (depths[index] === 0 && Math.abs(area) > Math.abs(outerArea)) outerArea = area;
+  });
+  return outerArea < 0 ? subpaths.flatMap(reverseSubpath) : subpaths.flat();
+}
+
+/**
+ * Positive for clockwise polygons in y-down coordinates
+ */
+export function getSignedArea(points: Point[]): number {
+  let area = 0;
+  points.forEach((point, index) => {
+    const next = points[(index + 1) % points.length];
+    area += point.x * next.y - next.x * point.y;
+  });
+  return area / 2;
+}
+
+export function isPointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function reflect(control: Point, about: Point): Point {
+  return { x: 2 * about.x - control.x, y: 2 * about.y - control.y };
+}
+
+function quadraticToCubic(start: Point, control: Point, end: Point): PathSegment {
+  return {
+    type: 'C',
+    control1: { x: start.x + (2 / 3) * (control.x - start.x), y: start.y + (2 / 3) * (control.y - start.y) },
+    control2: { x: end.x + (2 / 3) * (control.x - end.x), y: end.y + (2 / 3) * (control.y - end.y) },
+    point: end
+  };
+}
+
+/**
+ * Converts an endpoint-parameterized elliptical arc to cubics of at most 90°
+ * each, following the SVG implementation notes (F.6.5 and F.6.6)
+ */
+function arcToCubics(
+  start: Point,
+  rx: number,
+  ry: number,
+  rotationDegrees: number,
+  largeArc: boolean,
+  sweep: boolean,
+  end: Point
+): PathSegment[] {
+  if (start.x === end.x && start.y === end.y) return [];
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  if (rx === 0 || ry === 0) return [{ type: 'L', point: end }];
+
+  const phi = (rotationDegrees * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+
+  // Step 1: midpoint in the ellipse's rotated frame
+  const dx = (start.x - end.x) / 2;
+  const dy = (start.y - end.y) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+
+  // Scale up radii that are too small to span the endpoints
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  // Step 2: centre in the rotated frame
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cxRotated = factor * ((rx * y1) / ry);
+  const cyRotated = factor * (-(ry * x1) / rx);
+
+  // Step 3: centre in user space
+  const cx = cos * cxRotated - sin * cyRotated + (start.x + end.x) / 2;
+  const cy = sin * cxRotated + cos * cyRotated + (start.y + end.y) / 2;
+
+  // Step 4: start angle and sweep
+  const angle = (ux: number, uy: number, vx: number, vy: number) => {
+    const sign = ux * vy - uy * vx < 0 ? -1 : 1;
+    const dot = (ux * vx + uy * vy) / (Math.hypot(ux, uy) * Math.hypot(vx, vy));
+    return sign * Math.acos(Math.min(1, Math.max(-1, dot)));
+  };
+  const theta1 = angle(1, 0, (x1 - cxRotated) / rx, (y1 - cyRotated) / ry);
+  let deltaTheta = angle(
+    (x1 - cxRotated) / rx, (y1 - cyRotated) / ry,
+    (-x1 - cxRotated) / rx, (-y1 - cyRotated) / ry
+  );
+  if (!sweep && deltaTheta > 0) deltaTheta -= 2 * Math.PI;
+  if (sweep && deltaTheta < 0) deltaTheta += 2 * Math.PI;
+
+  // Split into pieces of at most a quarter turn
+  const pieces = Math.max(1, Math.ceil(Math.abs(deltaTheta) / (Math.PI / 2) - 1e-9));
+  const step = deltaTheta / pieces;
+  const handle = (4 / 3) * Math.tan(step / 4);
+
+  const pointAt = (theta: number): Point => ({
+    x: cx + rx * Math.cos(theta) * cos - ry * Math.sin(theta) * sin,
+    y: cy + rx * Math.cos(theta) * sin + ry * Math.sin(theta) * cos
+  });
+  const derivativeAt = (theta: number): Point => ({
+    x: -rx * Math.sin(theta) * cos - ry * Math.cos(theta) * sin,
+    y: -rx * Math.sin(theta) * sin + ry * Math.cos(theta) * cos
+  });
+
+  const segments: PathSegment[] = [];
+  for (let i = 0; i < pieces; i++) {
+    const a = theta1 + i * step;
+    const b = a + step;
+    const p0 = pointAt(a);
+    const p1 = i === pieces - 1 ? end : pointAt(b);
+    const d0 = derivativeAt(a);
+    const d1 = derivativeAt(b);
+    segments.push({
+      type: 'C',
+      control1: { x: p0.x + handle * d0.x, y: p0.y + handle * d0.y },
+      control2: { x: p1.x - handle * d1.x, y: p1.y - handle * d1.y },
+      point: p1
+    });
+  }
+  return segments;
+}
@@ -0,0 +1,178 @@
+// Scores traced paths against the bitmap they were traced from: the path is
+// filled back into pixels and compared by overlap, edge distance and size
+
+import { Matrix, Point, PathSegment, parsePathData, transformSegments } from './svgFlattening';
+
+// Foreground pixels of an image, row by row (1 = ink)
+export interface BinaryMask {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export interface TraceMatch {
+  iou: number;          // Filled path pixels over source pixels, intersection over union
+  edgeDistance: number; // Mean distance between the path's and the source's edges, in pixels
+  nodeCount: number;    // On-curve nodes in the path
+}
+
+// Cubic curves are flattened into this many lines before filling
+const CURVE_STEPS = 8;
+// Diagonal step of the chamfer distance transform
+const DIAGONAL = Math.SQRT2;
+
+/**
+ * Fills an SVG path with the nonzero rule, the way fonts fill outlines, into a
+ * mask of the given size. toPixels maps path coordinates onto the mask.
+ */
+export function rasterizePath(path: string, width: number, height: number, toPixels: Matrix): BinaryMask {
+  const polygons = flattenToPolygons(transformSegments(parsePathData(path), toPixels));
+  const data = new Uint8Array(width * height);
+
+  const edges: Array<{ from: Point; to: Point; direction: number }> = [];
+  polygons.forEach(polygon => polygon.forEach((from, index) => {
+    const to = polygon[(index + 1) % polygon.length];
+    if (from.y !== to.y) edges.push({ from, to, direction: to.y > from.y ? 1 : -1 });
+  }));
+
+  for (let y = 0; y < height; y++) {
+    const scanY = y + 0.5;
+    const crossings: Array<{ x: number; direction: number }> = [];
+    for (const { from, to, direction } of edges) {
+      if ((scanY >= from.y) === (scanY >= to.y)) continue;
+      crossings.push({ x: from.x + (scanY - from.y) / (to.y - from.y) * (to.x - from.x), direction });
+    }
+    crossings.sort((a, b) => a.x - b.x);
+
+    let winding = 0;
+    for (let i = 0; i < crossings.length - 1; i++) {
+      winding += crossings[i].direction;
+      if (winding === 0) continue;
+      // Pixels whose centres fall between this crossing and the next
+      const start = Math.max(0, Math.ceil(crossings[i].x - 0.5));
+      const end = Math.min(width - 1, Math.ceil(crossings[i + 1].x - 0.5) - 1);
+      for (let x = start; x <= end; x++) data[y * width + x] = 1;
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Compares a filled path with the source bitmap of the same size
+ */
+export function matchMasks(candidate: BinaryMask, source: BinaryMask, nodeCount: number): TraceMatch {
+  let intersection = 0;
+  let union = 0;
+  for (let i = 0; i < source.data.length; i++) {
+    if (candidate.data[i] && source.data[i]) intersection++;
+    if (candidate.data[i] || source.data[i]) union++;
+  }
+
+  const candidateEdges = getEdgePixels(candidate);
+  const sourceEdges = getEdgePixels(source);
+  let edgeDistance = Math.hypot(source.width, source.height);
+  if (candidateEdges.length > 0 && sourceEdges.length > 0) {
+    // Symmetric: strays in the path and source edges the path missed both count
+    const toSource = meanDistance(candidateEdges, getDistanceField(sourceEdges, source.width, source.height));
+    const toCandidate = meanDistance(sourceEdges, getDistanceField(candidateEdges, source.width, source.height));
+    edgeDistance = (toSource + toCandidate) / 2;
+  }
+
+  return { iou: union > 0 ? intersection / union : 0, edgeDistance, nodeCount };
+}
+
+/**
+ * On-curve nodes of an SVG path
+ */
+export function countPathNodes(path: string): number {
+  return parsePathData(path).filter(segment => segment.type !== 'Z').length;
+}
+
+function flattenToPolygons(segments: PathSegment[]): Point[][] {
+  const polygons: Point[][] = [];
+  let polygon: Point[] = [];
+  let current: Point = { x: 0, y: 0 };
+
+  for (const segment of segments) {
+    if (segment.type === 'M') {
+      if (polygon.length > 2) polygons.push(polygon);
+      polygon = [segment.point];
+    } else if (segment.type === 'L') {
+      polygon.push(segment.point);
+    } else if (segment.type === 'C') {
+      for (let step = 1; step <= CURVE_STEPS; step++) {
+        const t = step / CURVE_STEPS;
+        const mt = 1 - t;
+        polygon.push({
+          x: mt * mt * mt * current.x + 3 * mt * mt * t * segment.control1.x + 3 * mt * t * t * segment.control2.x + t * t * t * segment.point.x,
+          y: mt * mt * mt * current.y + 3 * mt * mt * t * segment.control1.y + 3 * mt * t * t * segment.control2.y + t * t * t * segment.point.y
+        });
+      }
+    }
+    if (segment.type !== 'Z') current = segment.point;
+  }
+  if (polygon.length > 2) polygons.push(polygon);
+
+  return polygons;
+}
+
+/**
+ * Ink pixels with a background pixel (or the image border) beside them
+ */
+function getEdgePixels({ width, height, data }: BinaryMask): number[] {
+  const edges: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      if (!data[index]) continue;
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1 ||
+          !data[index - 1] || !data[index + 1] || !data[index - width] || !data[index + width]) {
+        edges.push(index);
+      }
+    }
+  }
+  return edges;
+}
+
+/**
+ * Approximate distance from every pixel to the nearest of the given pixels,
+ * using a two-pass chamfer transform
+ */
+function getDistanceField(seeds: number[], width: number, height: number): Float32Array {
+  const field = new Float32Array(width * height).fill(Infinity);
+  seeds.forEach(index => { field[index] = 0; });
+
+  const relax = (index: number, x: number, y: number, dx: number, dy: number, cost: number) => {
+    const nx = x + dx;
+    const ny = y + dy;
+    if (nx < 0 || ny < 0 || nx >= width || ny >= height) return;
+    const candidate = field[ny * width + nx] + cost;
+    if (candidate < field[index]) field[index] = candidate;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      relax(index, x, y, -1, 0, 1);
+      relax(index, x, y, 0, -1, 1);
+      relax(index, x, y, -1, -1, DIAGONAL);
+      relax(index, x, y, 1, -1, DIAGONAL);
+    }
+  }
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const index = y * width + x;
+      relax(index, x, y, 1, 0, 1);
+      relax(index, x, y, 0, 1, 1);
+      relax(index, x, y, 1, 1, DIAGONAL);
+      relax(index, x, y, -1, 1, DIAGONAL);
+    }
+  }
+
+  return field;
+}
+
+function meanDistance(pixels: number[], field: Float32Array): number {
+  return pixels.reduce((sum, index) => sum + field[index], 0) / pixels.length;
+}
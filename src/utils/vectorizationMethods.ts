@@ -0,0 +1,191 @@
+// Registry of the vectorization methods the UI offers, with the settings each one reads
+import type { VectorizationParams, VectorizationRecipe } from '@/types';
+import type { CenterlineJobOptions, VectorizationJobOptions, VectorizationMethod } from './vectorizationPipeline';
+import { IMAGETRACER_PROFILES } from './imagetracerVectorization';
+import { STROKE_CAPS, STROKE_JOINS } from './centerlineTracing';
+
+export type MethodParameterValue = number | string;
+export type MethodParameterValues = VectorizationRecipe['methodValues'];
+
+// Job settings a method parameter can set: params fields, then centerline pen fields
+export type MethodParameterKey = 'curveTolerance' | 'profile' | 'strokeWidth' | 'cap' | 'join';
+
+// One setting of a method, named by the job setting it sets
+export interface MethodParameter {
+  key: MethodParameterKey;
+  label: string;
+  description: string;
+  type: 'number' | 'select';
+  defaultValue?: MethodParameterValue; // Unset leaves the choice to the method
+  placeholder?: string;                // Shown for an unset number
+  min?: number;
+  max?: number;
+  step?: number;
+  unit?: string;
+  options?: Array<{ value: string; label: string }>;
+}
+
+export interface VectorizationMethodInfo {
+  id: VectorizationMethod;
+  label: string;
+  description: string;
+  parameters: MethodParameter[];
+}
+
+export const VECTORIZATION_METHODS: VectorizationMethodInfo[] = [
+  {
+    id: 'marching-squares',
+    label: 'Outline',
+    description: 'Traces around the ink and fits Bézier curves between corners and extremes',
+    parameters: [
+      {
+        key: 'curveTolerance',
+        label: 'Curve tolerance',
+        description: 'How far fitted curves may stray from the traced edge',
+        type: 'number',
+        placeholder: 'Auto',
+        min: 0.5,
+        max: 20,
+        step: 0.5,
+        unit: 'font units'
+      }
+    ]
+  },
+  {
+    id: 'centerline',
+    label: 'Centerline',
+    description: 'Follows the middle of pen strokes and redraws them with one uniform pen, for monoline lettering',
+    parameters: [
+      {
+        key: 'strokeWidth',
+        label: 'Pen width',
+        description: 'Leave empty to use the width of the drawn lines',
+        type: 'number',
+        placeholder: 'Auto',
+        min: 1,
+        step: 5,
+        unit: 'font units'
+      },
+      {
+        key: 'cap',
+        label: 'Caps',
+        description: 'Shape of stroke ends',
+        type: 'select',
+        defaultValue: 'round',
+        options: [
+          { value: 'round', label: 'Round caps' },
+          { value: 'square', label: 'Square caps' },
+          { value: 'butt', label: 'Flat caps' }
+        ]
+      },
+      {
+        key: 'join',
+        label: 'Joins',
+        description: 'Shape of stroke corners',
+        type: 'select',
+        defaultValue: 'round',
+        options: [
+          { value: 'round', label: 'Round joins' },
+          { value: 'miter', label: 'Miter joins' },
+          { value: 'bevel', label: 'Bevel joins' }
+        ]
+      }
+    ]
+  },
+  {
+    id: 'trace-target-perfect',
+    label: 'ImageTracer',
+    description: 'ImageTracer with one of its tuned settings profiles',
+    parameters: [
+      {
+        key: 'profile',
+        label: 'Profile',
+        description: 'ImageTracer settings profile',
+        type: 'select',
+        defaultValue: 'trace-target-perfect',
+        options: IMAGETRACER_PROFILES.map(profile => ({ value: profile, label: profile }))
+      }
+    ]
+  },
+  {
+    id: 'imagetracer-pro',
+    label: 'ImageTracer Pro',
+    description: 'ImageTracer with its general-purpose settings for the chosen quality',
+    parameters: []
+  },
+  {
+    id: 'profile-search',
+    label: 'Best Profile',
+    description: 'Traces with every ImageTracer profile and keeps the one closest to the image (slow)',
+    parameters: []
+  }
+];
+
+/**
+ * Looks up a method by id
+ */
+export function getVectorizationMethod(id: string): VectorizationMethodInfo | undefined {
+  return VECTORIZATION_METHODS.find(method => method.id === id);
+}
+
+/**
+ * The method's parameters at their defaults
+ */
+export function getDefaultParameterValues(id: VectorizationMethod): MethodParameterValues {
+  const values: MethodParameterValues = {};
+  getVectorizationMethod(id)?.parameters.forEach(parameter => {
+    values[parameter.key] = parameter.defaultValue;
+  });
+  return values;
+}
+
+/**
+ * Puts a recipe's method parameter values where the vectorization pipeline
+ * reads them, over the recipe's params. Values that don't fit their setting
+ * (stale presets) are ignored.
+ */
+export function buildMethodJobOptions(
+  recipe: VectorizationRecipe
+): Pick<VectorizationJobOptions, 'method' | 'params' | 'centerline'> {
+  const method = getVectorizationMethod(recipe.method);
+  if (!method) {
+    throw new Error(`Unknown vectorization method: ${recipe.method}`);
+  }
+
+  const params: VectorizationParams = { ...recipe.params };
+  const pen: CenterlineJobOptions = { cap: 'round', join: 'round' };
+
+  method.parameters.forEach(parameter => {
+    const value = recipe.methodValues[parameter.key] ?? parameter.defaultValue;
+    if (value === undefined) return;
+
+    switch (parameter.key) {
+      case 'curveTolerance':
+        params.curveTolerance = toNumber(value) ?? params.curveTolerance;
+        break;
+      case 'profile':
+        params.profile = IMAGETRACER_PROFILES.find(profile => profile === value) ?? params.profile;
+        break;
+      case 'strokeWidth':
+        pen.strokeWidth = toNumber(value);
+        break;
+      case 'cap':
+        pen.cap = STROKE_CAPS.find(cap => cap === value) ?? pen.cap;
+        break;
+      case 'join':
+        pen.join = STROKE_JOINS.find(join => join === value) ?? pen.join;
+        break;
+    }
+  });
+
+  return {
+    method: method.id,
+    params,
+    centerline: method.id === 'centerline' ? pen : undefined
+  };
+}
+
+function toNumber(value: MethodParameterValue): number | undefined {
+  const number = typeof value === 'number' ? value : parseFloat(value);
+  return Number.isFinite(number) ? number : undefined;
+}
@@ -0,0 +1,230 @@
+// The full image-to-path pipeline, shared by vectorization workers and the main-thread fallback
+import type { GlyphVerticalFrame, ImageTracerProfile, ProfileScore, VectorizationParams } from '@/types';
+import { PreprocessingOptions, ProcessingCanvas, canvasToBlob, getCanvasContext, preprocessImage, resizeIfNeeded } from './imagePreprocessing';
+import { DetectedGuideLine, detectGuideLines, guideLinesToFrame, removeGuideLines } from './guideLineDetection';
+import { binarizeImage } from './binarization';
+import {
+  vectorizeWithImageTracerDetailed,
+  vectorizeWithTraceTargetPerfect,
+  vectorizeWithProfileSearch,
+  vectorizeWithPotrace,
+  traceCenterlinesDetailed,
+  expandCenterlineTrace,
+  imageYToViewBoxY,
+  CurveFitMetrics,
+  ViewBoxTransform
+} from './imagetracerVectorization';
+import type { StrokeCap, StrokeJoin } from './centerlineTracing';
+
+export type VectorizationMethod = 'marching-squares' | 'trace-target-perfect' | 'imagetracer-pro' | 'profile-search' | 'centerline';
+
+// What a pool job does with its image: trace it, or show the black and white
+// image a trace would start from
+export type VectorizationTaskType = 'vectorize' | 'previewBinarization';
+
+// Pen for the centerline method
+export interface CenterlineJobOptions {
+  strokeWidth?: number; // Font units; the ink's own width when unset
+  cap: StrokeCap;
+  join: StrokeJoin;
+}
+
+// Without guides a traced glyph fills the 160-unit content area, which the
+// default frame treats as the cap height
+const CONTENT_CAP_HEIGHT = 160;
+const DEFAULT_CAP_HEIGHT = 700;
+
+export interface VectorizationJobOptions {
+  params: VectorizationParams;
+  method: VectorizationMethod;
+  maxSize?: number; // Larger images are scaled down first
+  // Detect ruled guide lines, paint them out and derive the glyph's frame from
+  // them; the font's cap and x-height fill in lines the scan doesn't have
+  guideMetrics?: { capHeight: number; xHeight: number };
+  // Font units the glyph frame's cap height maps onto, to convert pen widths
+  // and curve tolerances; the default frame's 700 when unset
+  capHeight?: number;
+  centerline?: CenterlineJobOptions;
+}
+
+export interface VectorizationJobResult {
+  path: string;
+  verticalFrame: GlyphVerticalFrame | null;
+  fit?: CurveFitMetrics; // Outline methods that fit curves to the traced contours
+  // The profile search's winner, to store in the params, and every profile's score
+  profileSearch?: { profile: ImageTracerProfile; scores: ProfileScore[] };
+}
+
+/**
+ * The error an aborted job rejects with
+ */
+export function createAbortError(): Error {
+  return new DOMException('Vectorization was cancelled', 'AbortError');
+}
+
+// Workers are stopped outright; the main-thread fallback checks between steps
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw createAbortError();
+}
+
+/**
+ * The preprocessing a job's params ask for
+ */
+function getPreprocessingOptions(params: VectorizationParams): PreprocessingOptions {
+  return {
+    quality: params.quality,
+    noiseReduction: params.quality === 'high',
+    smoothingPasses: params.smoothing,
+    flattenBackground: params.flattenBackground,
+    binarization: params.binarization,
+    manualThreshold: params.threshold
+  };
+}
+
+/**
+ * Resizes and preprocesses an image, then finds ruled guide lines and paints
+ * them out so they aren't traced
+ */
+function prepareTraceImage(
+  source: ProcessingCanvas,
+  options: VectorizationJobOptions,
+  onProgress?: (progress: number, message: string) => void
+): { canvas: ProcessingCanvas; guideLines: DetectedGuideLine[] } {
+  const { params, maxSize = 1024, guideMetrics } = options;
+
+  onProgress?.(5, 'Optimizing image size...');
+  const resizedCanvas = resizeIfNeeded(source, maxSize);
+
+  onProgress?.(15, 'Preprocessing image...');
+  const canvas = preprocessImage(resizedCanvas, getPreprocessingOptions(params));
+
+  const guideLines = guideMetrics
+    ? detectGuideLines(getCanvasContext(canvas).getImageData(0, 0, canvas.width, canvas.height))
+    : [];
+  removeGuideLines(canvas, guideLines);
+
+  return { canvas, guideLines };
+}
+
+/**
+ * The black and white image the tracer works from, to preview before tracing.
+ * Without binarization settings the outline methods threshold globally, which
+ * the preview shows.
+ */
+export function previewBinarization(
+  source: ProcessingCanvas,
+  options: VectorizationJobOptions,
+  signal?: AbortSignal
+): ProcessingCanvas {
+  const { params } = options;
+  const { canvas } = prepareTraceImage(source, options);
+  throwIfAborted(signal);
+
+  if (!params.binarization) {
+    const context = getCanvasContext(canvas);
+    const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
+    binarizeImage(imageData, { method: params.threshold === undefined ? 'otsu' : 'manual' }, params.threshold);
+    context.putImageData(imageData, 0, 0);
+  }
+
+  return canvas;
+}
+
+/**
+ * Runs a pool job on its decoded image, in a worker or the main-thread fallback.
+ * Binarization previews come back as PNG images.
+ */
+export async function runVectorizationTask(
+  type: VectorizationTaskType,
+  source: ProcessingCanvas,
+  options: VectorizationJobOptions,
+  onProgress?: (progress: number, message: string) => void,
+  signal?: AbortSignal
+): Promise<VectorizationJobResult | Blob> {
+  if (type === 'previewBinarization') {
+    return canvasToBlob(previewBinarization(source, options, signal));
+  }
+  return runVectorizationPipeline(source, options, onProgress, signal);
+}
+
+/**
+ * Resizes, preprocesses and traces an image into a path in the 200x200 viewBox.
+ * Aborting the signal rejects the job at the next step.
+ */
+export async function runVectorizationPipeline(
+  source: ProcessingCanvas,
+  options: VectorizationJobOptions,
+  onProgress?: (progress: number, message: string) => void,
+  signal?: AbortSignal
+): Promise<VectorizationJobResult> {
+  const { params, method, guideMetrics, capHeight = DEFAULT_CAP_HEIGHT, centerline } = options;
+  throwIfAborted(signal);
+  const { canvas: preprocessedCanvas, guideLines } = prepareTraceImage(source, options, onProgress);
+  throwIfAborted(signal);
+
+  // Tracing progress maps onto 30-95%
+  const onTraceProgress = (progress: number, message: string) => onProgress?.(30 + progress * 0.65, message);
+
+  if (method === 'trace-target-perfect') {
+    const path = await vectorizeWithTraceTargetPerfect(preprocessedCanvas, params, onTraceProgress);
+    throwIfAborted(signal);
+    return { path, verticalFrame: null };
+  }
+
+  if (method === 'imagetracer-pro') {
+    const path = await vectorizeWithPotrace(preprocessedCanvas, params, onTraceProgress);
+    throwIfAborted(signal);
+    return { path, verticalFrame: null };
+  }
+
+  if (method === 'profile-search') {
+    const { path, profile, scores } = await vectorizeWithProfileSearch(preprocessedCanvas, params, onTraceProgress);
+    throwIfAborted(signal);
+    return { path, verticalFrame: null, profileSearch: { profile, scores } };
+  }
+
+  // Derive the glyph's baseline/x-height/cap-height from the guides
+  const getVerticalFrame = (transform: ViewBoxTransform | null) => guideMetrics && transform
+    ? guideLinesToFrame(guideLines, (imageY) => imageYToViewBoxY(imageY, transform), guideMetrics)
+    : null;
+
+  // Sizes in font units depend on how the frame scales the glyph
+  const getFontUnitsPerViewBoxUnit = (verticalFrame: GlyphVerticalFrame | null) => {
+    const frameCapHeight = verticalFrame
+      ? verticalFrame.baseline - verticalFrame.capHeight
+      : CONTENT_CAP_HEIGHT;
+    return capHeight / frameCapHeight;
+  };
+
+  if (method === 'centerline') {
+    const trace = await traceCenterlinesDetailed(preprocessedCanvas, params, onTraceProgress);
+    throwIfAborted(signal);
+    const verticalFrame = getVerticalFrame(trace.transform);
+    const strokeWidth = centerline?.strokeWidth
+      ? centerline.strokeWidth / getFontUnitsPerViewBoxUnit(verticalFrame)
+      : undefined;
+
+    onProgress?.(80, 'Expanding strokes...');
+    const path = await expandCenterlineTrace(trace, params, {
+      strokeWidth,
+      cap: centerline?.cap,
+      join: centerline?.join
+    });
+    throwIfAborted(signal);
+
+    onProgress?.(100, 'Vectorization complete!');
+    return { path, verticalFrame };
+  }
+
+  const { path, transform, fit } = await vectorizeWithImageTracerDetailed(
+    preprocessedCanvas,
+    params,
+    onTraceProgress,
+    (transform) => getFontUnitsPerViewBoxUnit(getVerticalFrame(transform))
+  );
+  throwIfAborted(signal);
+  const verticalFrame = getVerticalFrame(transform);
+
+  onProgress?.(100, 'Vectorization complete!');
+  return { path, verticalFrame, fit: fit ?? undefined };
+}
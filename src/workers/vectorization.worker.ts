@@ -0,0 +1,34 @@
+// Runs the vectorization pipeline off the main thread, drawing transferred ImageBitmaps onto an OffscreenCanvas
+import { runVectorizationTask } from '@/utils/vectorizationPipeline';
+import { bitmapToCanvas } from '@/utils/imagePreprocessing';
+import type {
+  VectorizationWorkerRequest,
+  VectorizationWorkerResponse
+} from '@/services/vectorization/VectorizationWorkerPool';
+
+// The app compiles against the DOM lib, so type the worker scope by hand
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<VectorizationWorkerRequest>) => void) | null;
+  postMessage: (message: VectorizationWorkerResponse) => void;
+};
+
+workerScope.onmessage = async (event) => {
+  const { type, jobId, bitmap, options } = event.data;
+
+  try {
+    const canvas = bitmapToCanvas(bitmap);
+    bitmap.close();
+
+    const result = await runVectorizationTask(type, canvas, options, (progress, message) => {
+      workerScope.postMessage({ type: 'progress', jobId, progress, message });
+    });
+    workerScope.postMessage({ type: 'result', jobId, result });
+  } catch (error) {
+    console.error('❌ Worker vectorization failed:', error);
+    workerScope.postMessage({
+      type: 'error',
+      jobId,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
@@ -11,6 +11,16 @@ export default defineConfig({
       '@': path.resolve(__dirname, './src'),
     },
   },
+  worker: {
+    format: 'es', // The tracer is imported lazily inside workers, which needs code splitting
+    rollupOptions: {
+      output: {
+        // Keep worker chunks from colliding with same-named app chunks
+        entryFileNames: 'assets/worker-[name]-[hash].js',
+        chunkFileNames: 'assets/worker-[name]-[hash].js'
+      }
+    }
+  },
   build: {
     outDir: 'dist',
     assetsDir: 'assets',
@@ -28,6 +38,7 @@ export default defineConfig({
     __BUILD_TIME__: JSON.stringify(new Date().toISOString())
   },
   optimizeDeps: {
-    include: ['react', 'react-dom', 'zustand', 'opentype.js']
+    include: ['react', 'react-dom', 'zustand', 'opentype.js'],
+    exclude: ['brotli-wasm'] // loads its .wasm file relative to the module
   }
 })